@@ -198,6 +198,29 @@ export function normalizeEquipmentId(equipmentId: string): string {
   return mapping[equipmentId.toLowerCase()] ?? equipmentId.toUpperCase();
 }
 
+/**
+ * Appliances that HDR configs place in specific pods (normalized IDs).
+ * Holding equipment (hot_box, hot_well, steam_well, sauce_warmer) is not
+ * tracked per pod and is assumed to be wherever its station is.
+ */
+export const POD_TRACKED_EQUIPMENT: ReadonlySet<string> = new Set([
+  "FRYER",
+  "WATER_BATH",
+  "TURBO_OVEN",
+  "TOASTER",
+  "CLAMSHELL",
+  "PRESS",
+  "PIZZA_OVEN",
+  "PIZZA_CONVEYOR_OVEN",
+  "MICROWAVE",
+  "VENDING",
+  "RICE_COOKER",
+]);
+
+export function isPodTrackedEquipment(equipmentId: string): boolean {
+  return POD_TRACKED_EQUIPMENT.has(normalizeEquipmentId(equipmentId));
+}
+
 // ============================================
 // Pod Assignment Functions
 // ============================================
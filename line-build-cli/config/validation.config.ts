@@ -5,6 +5,8 @@
  * hardcoded in validate.ts.
  */
 
+import type { ValidationSeverity } from "../scripts/lib/schema";
+
 export interface EquipmentTimeRange {
   /** Minimum typical cook time in seconds */
   minSeconds: number;
@@ -33,6 +35,13 @@ export interface ValidationConfig {
    * Items with these types must be referenced by at least one step.
    */
   bomCoverageRequiredTypes: string[];
+
+  /**
+   * S24: Allowed relative deviation between the portioned rollup of a BOM
+   * entry and its expected quantity before it is flagged as over/under.
+   * Default: 0.1 (within 10%)
+   */
+  bomQuantityTolerance: number;
 }
 
 /**
@@ -136,6 +145,8 @@ export const VALIDATION_CONFIG: ValidationConfig = {
 
   // H23: BOM types that must be covered by steps
   bomCoverageRequiredTypes: ["consumable", "packaged_good"],
+
+  bomQuantityTolerance: 0.1,
 };
 
 // ============================================
@@ -182,3 +193,49 @@ export function getTimeRangeWarning(
   }
   return undefined;
 }
+
+// -----------------------------
+// Validation profiles
+// -----------------------------
+
+/** A severity to report findings at, or "off" to skip the rule entirely. */
+export type ValidationProfileSetting = ValidationSeverity | "off";
+
+export interface ValidationProfile {
+  description: string;
+  /** Remap every finding of a default severity (e.g. soft -> strong). */
+  severities?: Partial<Record<ValidationSeverity, ValidationProfileSetting>>;
+  /** Per-rule settings; these win over `severities`. */
+  rules?: Record<string, ValidationProfileSetting>;
+}
+
+/** Profile used when `lb validate` is run without --profile. */
+export const DEFAULT_VALIDATION_PROFILE = "publish";
+
+/**
+ * Named severity profiles (`lb validate --profile <id>`).
+ * Approved validationOverrides are applied after the profile.
+ */
+export const VALIDATION_PROFILES: Record<string, ValidationProfile> = {
+  draft: {
+    description: "Work in progress: completeness rules warn instead of blocking; info findings are hidden",
+    severities: { info: "off" },
+    rules: {
+      H6: "soft", // no steps yet
+      H22: "soft", // HEAT time/notes
+      H23: "soft", // BOM coverage
+      H24: "soft", // PORTION quantity/notes
+      H25: "soft", // PREP technique/notes
+      H41: "soft", // material flow refs
+      H43: "soft", // material flow continuity
+      S24: "soft", // BOM quantity rollup
+    },
+  },
+  publish: {
+    description: "Default: every rule at its registry severity",
+  },
+  strict: {
+    description: "Pre-release review: strong warnings block publishing and soft warnings are raised to strong",
+    severities: { strong: "hard", soft: "strong" },
+  },
+};
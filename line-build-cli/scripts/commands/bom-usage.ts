@@ -0,0 +1,107 @@
+import { readBuild } from "../lib/store";
+import { resolveBuild, formatScenarioLabel, ScenarioError, type Scenario } from "../lib/resolve";
+import { rollupBomUsage, DEFAULT_BOM_TOLERANCE, type BomUsageRow } from "../lib/bomUsage";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_VALIDATION_FAILED = 2;
+const EXIT_USAGE_ERROR = 3;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+function takeRepeatedOption(argv: string[], name: string): { values: string[]; rest: string[] } {
+  const values: string[] = [];
+  const out: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { const v = argv[i + 1]; if (v) values.push(v); i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { values.push(a.slice(name.length + 1)); continue; }
+    out.push(a);
+  }
+  return { values, rest: out };
+}
+
+const USAGE = "usage: bom-usage <buildId> [--profile <equipmentProfileId>] [--customization <valueId>]... [--tolerance <fraction>]";
+
+function formatAmount(value: number | undefined, unit: string | undefined): string {
+  return value === undefined ? "-" : `${value}${unit ? ` ${unit}` : ""}`;
+}
+
+function formatRow(row: BomUsageRow): string {
+  const expected = row.expected ? formatAmount(row.expected.value, row.expected.unit) : "-";
+  const pct = row.ratio !== undefined ? ` (${Math.round(row.ratio * 100)}%)` : "";
+  const status = row.status === "ok" ? "ok" : row.status.toUpperCase();
+  return `  ${row.bomUsageId.padEnd(20)} used ${formatAmount(row.used, row.unit).padStart(10)} / expected ${expected.padStart(10)}${pct}  ${status}`;
+}
+
+export async function cmdBomUsage(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const profileOpt = takeOption(argv, "--profile");
+  const customizationOpt = takeRepeatedOption(profileOpt.rest, "--customization");
+  const toleranceOpt = takeOption(customizationOpt.rest, "--tolerance");
+  const buildId = toleranceOpt.rest[0];
+
+  if (!buildId) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  const tolerance = toleranceOpt.value !== undefined ? Number(toleranceOpt.value) : DEFAULT_BOM_TOLERANCE;
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    writeError(flags, `Invalid --tolerance: ${toleranceOpt.value} (expected a fraction like 0.1)`);
+    return EXIT_USAGE_ERROR;
+  }
+
+  const scenario: Scenario = {
+    equipmentProfileId: profileOpt.value,
+    customizationValueIds: customizationOpt.values.flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean),
+  };
+
+  // Roll up the resolved scenario so conditional steps and overlays are settled.
+  let resolution;
+  try {
+    resolution = resolveBuild(await readBuild(buildId), scenario);
+  } catch (err) {
+    if (err instanceof ScenarioError) { writeError(flags, `bom-usage failed: ${err.message}`); return EXIT_USAGE_ERROR; }
+    throw err;
+  }
+
+  const report = rollupBomUsage(resolution.build, { tolerance });
+  const exitCode = report.mismatchCount > 0 ? EXIT_VALIDATION_FAILED : EXIT_SUCCESS;
+
+  if (flags.json) {
+    writeJson({ ok: report.mismatchCount === 0, scenario, ...report });
+    return exitCode;
+  }
+
+  const lines = [
+    `BOM usage for ${buildId}`,
+    `Scenario: ${formatScenarioLabel(scenario)}`,
+    `Tolerance: ±${Math.round(tolerance * 100)}%`,
+  ];
+  if (report.rows.length === 0) lines.push("", "Build has no bom entries.");
+  else lines.push("", ...report.rows.map(formatRow));
+
+  for (const row of report.rows) {
+    for (const issue of row.issues) lines.push(`    ${row.bomUsageId}: ${issue}`);
+  }
+  for (const t of report.unknownTargets) {
+    lines.push(`  step ${t.stepId} targets unknown bomUsageId '${t.bomUsageId}'`);
+  }
+  lines.push("", `Mismatches: ${report.mismatchCount}`);
+  writeHuman(lines);
+  return exitCode;
+}
@@ -1,5 +1,6 @@
 import { readBuild, BUILDS_DIR_ABS } from "../lib/store";
 import { normalizeBuild } from "../lib/normalize";
+import { createJsonPatch } from "../lib/jsonPatch";
 import type { GlobalFlags } from "../lb";
 import type { BenchTopLineBuild } from "../lib/schema";
 import * as fs from "node:fs/promises";
@@ -9,6 +10,8 @@ const EXIT_SUCCESS = 0;
 const EXIT_USAGE_ERROR = 3;
 const EXIT_DIFF_FOUND = 1;
 
+const DIFF_FORMATS = ["unified", "json", "json-patch"] as const;
+
 function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
 function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
 function writeError(flags: GlobalFlags, message: string) {
@@ -150,6 +153,10 @@ export async function cmdDiff(flags: GlobalFlags, argv: string[]): Promise<numbe
   }
 
   const format = formatOpt.value || (flags.json ? "json" : "unified");
+  if (!(DIFF_FORMATS as readonly string[]).includes(format)) {
+    writeError(flags, `Unknown --format: ${format} (expected ${DIFF_FORMATS.join("|")})`);
+    return EXIT_USAGE_ERROR;
+  }
 
   let source: BenchTopLineBuild;
   let target: BenchTopLineBuild;
@@ -179,6 +186,13 @@ export async function cmdDiff(flags: GlobalFlags, argv: string[]): Promise<numbe
     return EXIT_USAGE_ERROR;
   }
 
+  // Bare RFC 6902 array, replayable with `lb edit <buildId> --patch <file>`.
+  if (format === "json-patch") {
+    const patch = createJsonPatch(source, target);
+    writeJson(patch);
+    return patch.length === 0 ? EXIT_SUCCESS : EXIT_DIFF_FOUND;
+  }
+
   const patches = computePatches(source, target);
 
   if (patches.length === 0) {
@@ -1,12 +1,19 @@
- import { readBuild, readBom, writeBuild } from "../lib/store";
+ import { isWriteConflict, listBuildIds, readBom, readBuildForUpdate, readBuildJson, readBuildSnapshotIfExists, readBuildWithHash, reopenPublishedBuild, writeBuildWithImage, type BomItem } from "../lib/store";
  import { validateBuild } from "../lib/validate";
  import { writeValidationOutput } from "../lib/validationOutput";
+ import { writeReceipt } from "../lib/receipts";
  import { applyOps, type EditOp } from "../lib/edit";
+ import { commitBatchEdit, planBatchEdit, type BatchEditPlan, type UnreadableBuild } from "../lib/batchEdit";
+ import { QueryParseError } from "../lib/query";
+ import { JsonPatchError, parseJsonPatch } from "../lib/jsonPatch";
+ import { BuildParseError, type BenchTopLineBuild } from "../lib/schema";
  import type { GlobalFlags } from "../lb";
+ import * as fs from "node:fs/promises";
  
  const EXIT_SUCCESS = 0;
  const EXIT_VALIDATION_FAILED = 2;
  const EXIT_USAGE_ERROR = 3;
+ const EXIT_CONFLICT = 4;
  
  function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
  function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
@@ -27,6 +34,18 @@
    return { values, rest: out };
  }
  
+ function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+   const out: string[] = [];
+   let value: string | undefined;
+   for (let i = 0; i < argv.length; i++) {
+     const a = argv[i]!;
+     if (a === name) { value = argv[i + 1]; i += 1; continue; }
+     if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+     out.push(a);
+   }
+   return { value, rest: out };
+ }
+ 
  function hasFlag(argv: string[], name: string): { present: boolean; rest: string[] } {
    const rest = argv.filter((a) => a !== name);
    return { present: rest.length !== argv.length, rest };
@@ -34,13 +53,18 @@
  
  export async function cmdEdit(flags: GlobalFlags, argv: string[]): Promise<number> {
    const opsOpt = takeRepeatedOption(argv, "--op");
-   const applyFlag = hasFlag(opsOpt.rest, "--apply");
+   const patchOpt = takeRepeatedOption(opsOpt.rest, "--patch");
+   const whereOpt = takeOption(patchOpt.rest, "--where");
+   const ifMatchOpt = takeOption(whereOpt.rest, "--if-match");
+   const applyFlag = hasFlag(ifMatchOpt.rest, "--apply");
    const normalizeFlag = hasFlag(applyFlag.rest, "--normalize");
    const buildId = normalizeFlag.rest[0];
  
-   if (!buildId) { writeError(flags, "usage: edit <buildId> [--op <json>] [--apply]"); return EXIT_USAGE_ERROR; }
+   if (!buildId === !whereOpt.value || (whereOpt.value && ifMatchOpt.value)) {
+     writeError(flags, "usage: edit (<buildId> [--if-match <hash>] | --where <dsl>) [--op <json>]... [--patch <file>]... [--apply]");
+     return EXIT_USAGE_ERROR;
+   }
  
-   const build = await readBuild(buildId);
    let ops: EditOp[];
    try {
      ops = opsOpt.values.map(v => JSON.parse(v) as EditOp);
@@ -49,10 +73,23 @@
      writeError(flags, `Invalid --op JSON: ${msg}`);
      return EXIT_USAGE_ERROR;
    }
+   for (const file of patchOpt.values) {
+     try {
+       ops.push({ type: "json_patch", patch: parseJsonPatch(JSON.parse(await fs.readFile(file, "utf8"))) });
+     } catch (err) {
+       if (!(err instanceof JsonPatchError || err instanceof SyntaxError || (err as { code?: string }).code === "ENOENT")) throw err;
+       writeError(flags, `Invalid --patch ${file}: ${err instanceof Error ? err.message : String(err)}`);
+       return EXIT_USAGE_ERROR;
+     }
+   }
    if (normalizeFlag.present) ops.push({ type: "normalize_indices" });
  
+   if (whereOpt.value) return await runBatchEdit(flags, whereOpt.value, ops, applyFlag.present);
+ 
    try {
-     const updated = applyOps(build, ops);
+     const { build, hash } = await readBuildForUpdate(buildId!, ifMatchOpt.value);
+     // Editing a published version's content makes a draft of the next one.
+     const updated = await reopenPublishedBuild(applyOps(build, ops));
      const bom = await readBom(updated.itemId);
      const validation = validateBuild(updated, { bom });
  
@@ -67,13 +104,119 @@
        return EXIT_VALIDATION_FAILED;
      }
  
-     const path = await writeBuild(updated);
+     // Refuse to overwrite a concurrent change made since the read above.
+     const { path, image, hash: newHash } = await writeBuildWithImage(updated, { ifMatch: hash });
      await writeValidationOutput(updated, validation);
-     if (flags.json) writeJson({ ok: true, buildId: updated.id, path });
-     else writeHuman([`Updated ${updated.id} at ${path}`]);
+     await writeReceipt({ command: "edit", inputs: { buildId: updated.id, ops }, outputs: { path, valid: validation.valid }, touchedFiles: [path], builds: [image] });
+     if (flags.json) writeJson({ ok: true, buildId: updated.id, path, hash: newHash });
+     else writeHuman([`Updated ${updated.id} at ${path} (hash ${newHash})`]);
      return EXIT_SUCCESS;
    } catch (err) {
-     writeError(flags, `Edit failed: ${err instanceof Error ? err.message : String(err)}`);
+     if (isWriteConflict(err)) { writeError(flags, err.message); return EXIT_CONFLICT; }
+     const issues = err instanceof BuildParseError ? err.issues.map((i) => `\n  - ${i.path}: ${i.message}`).join("") : "";
+     writeError(flags, `Edit failed: ${err instanceof Error ? err.message : String(err)}${issues}`);
+     return EXIT_USAGE_ERROR;
+   }
+ }
+ 
+ function formatBatchPlan(plan: BatchEditPlan): string[] {
+   const lines: string[] = [];
+   for (const entry of plan.entries) {
+     if (entry.error) lines.push(`${entry.buildId}: BLOCKED - ${entry.error}`);
+     else if (entry.patch.length === 0) lines.push(`${entry.buildId}: unchanged`);
+     else lines.push(`${entry.buildId}: ${entry.patch.length} change(s)`);
+     for (const op of entry.patch.slice(0, 20)) {
+       lines.push(`  ${op.op} ${op.path}${"value" in op ? `: ${JSON.stringify(op.value)}` : ""}`);
+     }
+     if (entry.patch.length > 20) lines.push(`  ... ${entry.patch.length - 20} more`);
+   }
+   for (const u of plan.skipped) lines.push(`${u.buildId}: skipped - cannot load, where does not match: ${u.message}`);
+   return lines;
+ }
+ 
+ /**
+  * `edit --where`: same ops on every matching build, all-or-nothing (see lib/batchEdit.ts).
+  */
+ async function runBatchEdit(flags: GlobalFlags, where: string, ops: EditOp[], apply: boolean): Promise<number> {
+   const builds: BenchTopLineBuild[] = [];
+   const hashes = new Map<string, string>();
+   const unreadable: UnreadableBuild[] = [];
+   for (const id of await listBuildIds()) {
+     try {
+       const { build, hash } = await readBuildWithHash(id);
+       builds.push(build);
+       hashes.set(id, hash);
+     } catch (err) {
+       let raw: unknown;
+       try {
+         raw = await readBuildJson(id);
+       } catch {
+         // Not JSON at all; nothing to rule the where clause out with.
+       }
+       const issue = err instanceof BuildParseError ? err.issues[0] : undefined;
+       unreadable.push({ buildId: id, message: `${(err as Error).message}${issue ? ` (${issue.path}: ${issue.message})` : ""}`, raw });
+     }
+   }
+   const boms = new Map<string, BomItem[] | undefined>();
+   for (const b of builds) if (!boms.has(b.itemId)) boms.set(b.itemId, await readBom(b.itemId));
+   const snapshots = new Map<string, BenchTopLineBuild | null>();
+   for (const b of builds) if (b.status === "published") snapshots.set(b.id, await readBuildSnapshotIfExists(b.id, b.version));
+ 
+   let plan: BatchEditPlan;
+   try {
+     plan = planBatchEdit(builds, ops, { where, boms, hashes, snapshots, unreadable });
+   } catch (err) {
+     if (!(err instanceof QueryParseError)) throw err;
+     writeError(flags, `Invalid --where: ${err.message}`);
      return EXIT_USAGE_ERROR;
    }
+ 
+   const changed = plan.entries.filter((e) => e.patch.length > 0 && !e.error);
+   const summary = plan.entries.map((e) => ({
+     buildId: e.buildId,
+     changed: e.patch.length > 0,
+     patch: e.patch,
+     valid: e.validation?.valid,
+     newHardErrors: e.newHardErrors,
+     ...(e.error ? { error: e.error } : {}),
+   }));
+   const loadErrors = plan.skipped.map((u) => ({ buildId: u.buildId, message: u.message }));
+   // Op failures are usage errors as in single-build edits; new hard errors and unloadable builds are validation failures.
+   const failCode = plan.entries.some((e) => e.error && !e.build && !e.unreadable) ? EXIT_USAGE_ERROR : EXIT_VALIDATION_FAILED;
+ 
+   if (!apply || !plan.ok) {
+     if (flags.json) writeJson({ ok: plan.ok, dryRun: !apply, where, builds: summary, loadErrors });
+     else {
+       const tail = plan.entries.length === 0
+         ? "No builds match."
+         : plan.ok
+           ? `Dry run: ${changed.length} of ${plan.entries.length} matching build(s) change. Use --apply to commit.`
+           : `Batch edit rejected; nothing ${apply ? "was" : "would be"} written.`;
+       writeHuman([...formatBatchPlan(plan), tail]);
+     }
+     return plan.ok ? EXIT_SUCCESS : failCode;
+   }
+ 
+   let committed;
+   try {
+     committed = await commitBatchEdit(plan);
+   } catch (err) {
+     if (!isWriteConflict(err)) throw err;
+     writeError(flags, `Batch edit rolled back: ${err.message}`);
+     return EXIT_CONFLICT;
+   }
+   const { paths, images } = committed;
+   for (const entry of changed) await writeValidationOutput(entry.build!, entry.validation!);
+   if (images.length > 0) {
+     await writeReceipt({
+       command: "edit",
+       inputs: { where, ops },
+       outputs: { buildIds: images.map((i) => i.buildId), paths },
+       touchedFiles: paths,
+       builds: images,
+     });
+   }
+   if (flags.json) writeJson({ ok: true, where, builds: summary, loadErrors, paths });
+   else writeHuman([...plan.skipped.map((u) => `${u.buildId}: skipped - cannot load, where does not match: ${u.message}`), `Updated ${images.length} of ${plan.entries.length} matching build(s)${images.length > 0 ? `: ${images.map((i) => i.buildId).join(", ")}` : ""}`]);
+   return EXIT_SUCCESS;
  }
@@ -1,9 +1,11 @@
- import { readBuild, readBom } from "../lib/store";
+ import { readBuildWithHash, readBom, readBuildVersion, parseBuildSpecifier } from "../lib/store";
  import { validateBuild } from "../lib/validate";
  import { buildMatchLabel, buildGapsFromValidation } from "../lib/query";
+ import { expandBuild, loadStoreCatalog, type ExpandedBuild } from "../lib/composition";
  import type { GlobalFlags } from "../lb";
  
  const EXIT_SUCCESS = 0;
+ const EXIT_VALIDATION_FAILED = 2;
  const EXIT_USAGE_ERROR = 3;
  
  function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
@@ -25,20 +27,76 @@
    return { value, rest: out };
  }
  
+ function hasFlag(argv: string[], name: string): { present: boolean; rest: string[] } {
+   const rest = argv.filter((a) => a !== name);
+   return { present: rest.length !== argv.length, rest };
+ }
+ 
+ function compositionProblems(expansion: ExpandedBuild): string[] {
+   return [
+     ...expansion.unresolved.map((u) => `UNRESOLVED ${u.requiredBy} -> ${u.itemId}: ${u.reason}`),
+     ...expansion.cycles.map((c) => `CYCLE ${c.path.join(" -> ")}`),
+   ];
+ }
+ 
+ function compositionLines(expansion: ExpandedBuild): string[] {
+   const lines = expansion.components.map(
+     (c) => `${"  ".repeat(c.depth - 1)}- ${c.itemId} -> ${c.buildId} v${c.version} (${c.status}, ${c.stepIds.length} steps)`,
+   );
+   return [...lines, ...compositionProblems(expansion)];
+ }
+ 
  export async function cmdGet(flags: GlobalFlags, argv: string[]): Promise<number> {
    const formatOpt = takeOption(argv, "--format");
-   const buildId = formatOpt.rest[0];
-   if (!buildId) { writeError(flags, "usage: get <buildId> [--format full|summary|steps|gaps]"); return EXIT_USAGE_ERROR; }
+   const expandOpt = hasFlag(formatOpt.rest, "--expand");
+   const spec = expandOpt.rest[0];
+   if (!spec) { writeError(flags, "usage: get <buildId>[@<version>] [--format full|summary|steps|gaps] [--expand]"); return EXIT_USAGE_ERROR; }
+ 
+   let buildId: string;
+   let version: number | undefined;
+   try {
+     ({ buildId, version } = parseBuildSpecifier(spec));
+   } catch (err) {
+     writeError(flags, (err as Error).message);
+     return EXIT_USAGE_ERROR;
+   }
  
-   const build = await readBuild(buildId);
+   let authored;
+   // Content hash of the working copy, for --if-match on a later write (snapshots are immutable).
+   let hash: string | undefined;
+   try {
+     if (version === undefined) ({ build: authored, hash } = await readBuildWithHash(buildId));
+     else authored = await readBuildVersion(buildId, version);
+   } catch (err) {
+     if (version !== undefined && (err as { code?: string }).code === "ENOENT") {
+       writeError(flags, `Version not found: ${buildId}@${version} (see: lb history ${buildId})`);
+       return EXIT_USAGE_ERROR;
+     }
+     throw err;
+   }
    const format = formatOpt.value || "full";
  
+   // --expand inlines requiresBuilds producers so every view sees the composite graph.
+   const expansion = expandOpt.present ? await expandBuild(authored, await loadStoreCatalog()) : undefined;
+   const build = expansion?.build ?? authored;
+   const composition = expansion
+     ? { components: expansion.components, unresolved: expansion.unresolved, cycles: expansion.cycles, links: expansion.links }
+     : undefined;
+   const compositionBroken = !!expansion && (expansion.cycles.length > 0 || expansion.unresolved.length > 0);
+   if (expansion && !flags.json && format !== "summary") {
+     for (const line of compositionProblems(expansion)) process.stderr.write(line + "\n");
+   }
+ 
    if (format === "summary") {
-     const summary = { id: build.id, itemId: build.itemId, version: build.version, status: build.status, steps: build.steps.length };
-     if (flags.json) writeJson({ ok: true, ...summary });
-     else writeHuman(Object.entries(summary).map(([k, v]) => `${k}=${v}`));
+     const summary = { id: build.id, itemId: build.itemId, version: build.version, status: build.status, steps: build.steps.length, ...(hash ? { hash } : {}) };
+     if (flags.json) writeJson({ ok: !compositionBroken, ...summary, composition });
+     else {
+       const lines = Object.entries(summary).map(([k, v]) => `${k}=${v}`);
+       if (expansion) lines.push(`components=${expansion.components.length}`, ...compositionLines(expansion));
+       writeHuman(lines);
+     }
    } else if (format === "steps") {
-     if (flags.json) writeJson({ ok: true, steps: build.steps });
+     if (flags.json) writeJson({ ok: !compositionBroken, steps: build.steps, composition });
      else {
        const lines = [`buildId=${build.id} (${build.steps.length} steps):`];
        for (const s of build.steps) lines.push(`[${s.orderIndex}] ${s.id} ${s.action.family} :: ${buildMatchLabel(s)}`);
@@ -54,8 +112,10 @@
        for (const g of gaps) lines.push(`[${g.ruleId}] ${g.message} (${g.steps.length} steps affected)`);
        writeHuman(lines);
      }
+   } else if (expansion && flags.json) {
+     writeJson({ ok: !compositionBroken, build, composition });
    } else {
      writeJson(build);
    }
-   return EXIT_SUCCESS;
+   return compositionBroken ? EXIT_VALIDATION_FAILED : EXIT_SUCCESS;
  }
@@ -12,22 +12,32 @@ const COMMAND_HELP: Record<string, string[]> = {
     "  lb validate <buildId> [flags]     Validate a single build",
     "  lb validate --all [flags]         Validate all builds",
     "  lb validate --changed <min>       Validate recently modified builds",
+    "  lb validate --portfolio           Cross-build rules (P1-P5) over all builds",
     "  lb validate watch [flags]         Watch for changes and auto-validate",
     "  lb validate diff <id> --against   Compare builds",
     "",
     "Flags:",
     "  --ops           Include candidate EditOps for auto-fixable rules",
+    "  --fix           Apply auto-fixable EditOps repeatedly until nothing changes (dry run)",
+    "  --apply         With --fix: write the repaired build and one receipt",
+    "  --if-match <h>  With --fix --apply: refuse the write unless the build's content hash is <h> (exit 4)",
+    "  --ignore-overrides  Report raw findings (skip approved validationOverrides)",
+    "  --profile <id>  Severity profile: draft, publish (default) or strict",
+    "  --format <fmt>  sarif or junit report on stdout (single, --stdin and batch modes)",
+    "  --hdr <id|all>  HDR feasibility matrix (F1-F3) against data/hdr-configs (single and batch modes)",
     "  --summary       Show aggregate stats only (for batch modes)",
+    "  --profile-rules Report time spent per rule (incl. cache hits in lb validate watch)",
     "  --gaps          Show validation gaps (structural issues)",
     "  --item <id>     Filter to specific itemId",
     "  --json          Machine-readable JSON output",
     "",
     "Watch subcommand:",
-    "  lb validate watch [--log <path>] [--once] [--quiet]",
+    "  lb validate watch [--log <path>] [--once] [--quiet] [--profile-rules]",
     "",
-    "  --log <path>    Write JSONL events to file for agent consumption",
+    "  --log <path>    Write JSONL events to file for agent consumption (incl. changedSteps)",
     "  --once          Validate all builds once and exit (no file watching)",
     "  --quiet         Suppress human-readable output",
+    "  --profile-rules Print the slowest rules per run; add ruleTimings to JSONL events",
     "",
     "Diff subcommand:",
     "  lb validate diff <buildId> --against <target>",
@@ -36,37 +46,84 @@ const COMMAND_HELP: Record<string, string[]> = {
     "  --against <file>      Compare against a JSON file",
     "  --against normalized  Compare against normalized version of same build",
     "  --format json|unified Output format (default: unified for TTY, json otherwise)",
+    "  --format json-patch   RFC 6902 patch turning <buildId> into the target (replay with lb edit --patch)",
     "",
     "Examples:",
     "  lb validate my-build-id",
     "  lb validate my-build-id --ops",
     "  lb validate --all --summary",
+    "  lb validate --all --profile-rules",
+    "  lb validate --portfolio --json",
+    "  lb validate --all --hdr all",
     "  lb validate --changed 15",
     "  lb validate watch --log /tmp/lb.jsonl",
     "  lb validate diff my-build --against normalized",
+    "  lb validate diff my-build --against other.json --format json-patch > change.patch.json",
   ],
 
   edit: [
     "lb edit - Incremental build mutations",
     "",
     "Usage:",
-    "  lb edit <buildId> [--op <json>]... [--apply] [--normalize]",
+    "  lb edit <buildId> [--if-match <hash>] [--op <json>]... [--patch <file>]... [--apply] [--normalize]",
+    "  lb edit --where <dsl> [--op <json>]... [--patch <file>]... [--apply] [--normalize]",
     "",
     "Flags:",
+    "  --where <dsl>   Apply the ops to every build with a matching step (search DSL, see lb help search) instead of one buildId",
     "  --op <json>     Edit operation (can be repeated)",
+    "  --patch <file>  JSON Patch (RFC 6902) document, applied after the --op edits (can be repeated)",
     "  --apply         Commit changes (default is dry-run)",
     "  --normalize     Normalize orderIndex values",
+    "  --if-match <h>  Refuse to write unless the build's content hash is still <h> (from lb get --format summary)",
     "",
     "Edit Operations:",
-    '  {"type":"set_field","where":"<dsl>","field":"<path>","value":<val>}',
+    '  {"type":"set_field","where":"<dsl>","field":"<path>","value":<val>,"mode":"set|unset|append"}',
     '  {"type":"add_step","step":{...},"afterStepId":"<id>"}',
     '  {"type":"remove_step","stepId":"<id>"}',
     '  {"type":"add_dep","stepId":"<id>","dependsOn":"<id>"}',
     '  {"type":"remove_dep","stepId":"<id>","dependsOn":"<id>"}',
-    '  {"type":"set_build_field","field":"<path>","value":<val>}',
+    '  {"type":"set_input_role","stepId":"<id>","inputIndex":<n>,"role":"base|added"}',
+    '  {"type":"set_build_field","field":"<path>","value":<val>,"mode":"set|unset|append"}',
+    '  {"type":"json_patch","patch":[{"op":"replace","path":"/steps/0/notes","value":"..."}]}',
+    "",
+    "set_field takes any step.* path in the Step schema, e.g. step.equipment.presetId,",
+    "step.overlays[0].overrides.stationId, step.conditions.requiresRestaurantIds (append).",
+    "Values are coerced to the field type and enum values are checked (the error",
+    "lists the allowed ones). mode defaults to set; unset removes an optional field,",
+    "append adds one element to an array field. set_build_field does the same for build.*.",
+    "",
+    "Patches address the raw build JSON (any field, any depth); the result must",
+    "still parse as a build or the whole edit is rejected.",
+    "",
+    "Material flow operations (keep H43 continuity and H44 single-producer intact):",
+    '  {"type":"add_input","stepId":"<id>","input":<AssemblyRef>,"atIndex":<n>}     from defaults to the producer\'s output.to',
+    '  {"type":"remove_input","stepId":"<id>","assemblyId":"<id>"}                  (or "inputIndex":<n>)',
+    '  {"type":"add_output","stepId":"<id>","output":<AssemblyRef>}                 refused if another step produces it',
+    '  {"type":"remove_output","stepId":"<id>","assemblyId":"<id>"}                 refused while steps still consume it',
+    '  {"type":"set_output_location","stepId":"<id>","assemblyId":"<id>","to":<LocationRef>}  also moves consumer input.from',
+    '  {"type":"rename_assembly","from":"<id>","to":"<id>"}                         refs, lineage.evolvesFrom, primaryOutputAssemblyId',
+    '  {"type":"split_step","stepId":"<id>","newStepId":"<id>","assemblyId":"<intermediate>","step":{...}}',
+    '  {"type":"merge_steps","stepId":"<id>","mergeStepId":"<id>"}',
+    "",
+    "split_step inserts newStepId after stepId: stepId now outputs the intermediate,",
+    "newStepId consumes it and takes over the original outputs and dependents.",
+    "merge_steps folds a downstream mergeStepId back into stepId (inputs, outputs, dependsOn, time);",
+    "it is refused when another step lies between the two.",
+    "",
+    "--where edits are all-or-nothing: the dry run shows a diff per build, and --apply",
+    "writes nothing unless every build still parses and none gains a hard error.",
+    "A build file that fails to load blocks the batch unless its raw JSON shows the",
+    "where clause cannot select it (then it is listed as skipped).",
+    "The batch gets one receipt, so one lb undo reverts it.",
+    "",
+    "Exit codes: 0 ok, 2 validation failed, 3 usage error / op failed,",
+    "4 build changed since it was read (--if-match mismatch, concurrent writer or lock timeout)",
     "",
     "Examples:",
-    "  lb edit my-build --op '{\"type\":\"set_field\",\"where\":\"step.action.family=HEAT\",\"field\":\"step.stationId\",\"value\":\"grill\"}' --apply",
+    "  lb edit my-build --op '{\"type\":\"set_field\",\"where\":\"step.action.family=HEAT\",\"field\":\"step.stationId\",\"value\":\"clamshell_grill\"}' --apply",
+    "  lb edit my-build --op '{\"type\":\"set_field\",\"where\":\"step.id=step-3\",\"field\":\"step.equipment.presetId\",\"mode\":\"unset\"}' --apply",
+    "  lb edit my-build --patch change.patch.json --apply",
+    "  lb edit --where 'step.stationId = turbo' --op '{\"type\":\"set_field\",\"where\":\"step.stationId = turbo\",\"field\":\"step.stationId\",\"value\":\"toaster\"}'",
   ],
 
   view: [
@@ -99,10 +156,14 @@ const COMMAND_HELP: Record<string, string[]> = {
     "lb get - Read build details",
     "",
     "Usage:",
-    "  lb get <buildId> [--format full|summary|steps|gaps]",
+    "  lb get <buildId>[@<version>] [--format full|summary|steps|gaps] [--expand]",
+    "",
+    "<buildId>@<version> reads a published snapshot (see: lb history).",
     "",
     "Flags:",
-    "  --format <f>    Output format (default: full)",
+    "  --format <f>    Output format (default: full); summary includes the content hash",
+    "  --expand        Inline requiresBuilds producers into one composite graph",
+    "                  (steps prefixed <itemId>::<stepId>; exits 2 on cycles/unresolved refs)",
     "  --json          Machine-readable JSON output",
   ],
 
@@ -110,12 +171,200 @@ const COMMAND_HELP: Record<string, string[]> = {
     "lb write - Create or replace a build",
     "",
     "Usage:",
-    "  lb write [--stdin | --file <path>]",
+    "  lb write [--stdin | --file <path>] [--if-match <hash>]",
     "",
     "Flags:",
     "  --stdin         Read JSON from stdin",
     "  --file <path>   Read JSON from file",
+    "  --if-match <h>  Refuse to replace the build unless its content hash is still <h>",
     "  --json          Machine-readable JSON output",
+    "",
+    "Exit codes: 0 ok, 2 validation failed, 3 usage error, 4 build changed since it was read",
+  ],
+
+  resolve: [
+    "lb resolve - Resolve a master build for one scenario",
+    "",
+    "Usage:",
+    "  lb resolve <buildId> [--profile <id>] [--customization <valueId>]... [flags]",
+    "",
+    "Applies matching step overlays by priority, drops steps whose conditions",
+    "are not met (or that end up excluded), and prunes dependsOn accordingly.",
+    "",
+    "Flags:",
+    "  --profile <id>          Equipment profile (matches conditions/overlay predicates)",
+    "  --customization <id>    Selected customization valueId (repeatable or comma-separated)",
+    "  --restaurant <id>       Restaurant ID (matches conditions.requiresRestaurantIds)",
+    "  --format full|summary   full prints the resolved build JSON (default)",
+    "  --as <buildId>          Save the resolved build under a new buildId (draft)",
+    "  --if-match <hash>       With --as: refuse unless the target's content hash is <hash> (exit 4)",
+    "  --json                  Machine-readable JSON output",
+    "",
+    "Examples:",
+    "  lb resolve my-build --profile eqp_has_turbo --format summary",
+    "  lb resolve my-build --profile eqp_no_turbo_has_fryer | lb validate --stdin",
+    "  lb resolve my-build --customization sour_cream --as my-build-sour-cream",
+  ],
+
+  publish: [
+    "lb publish - Publish the current build as an immutable version",
+    "",
+    "Usage:",
+    "  lb publish <buildId> [--message <changeLog>]",
+    "",
+    "Validates the build as published (hard errors block publishing), freezes it",
+    "to data/history/<buildId>/v<version>.json and marks the working copy published.",
+    "The first change to a published working copy (edit, write, fix) turns it into",
+    "a draft of the next version. Snapshots are never overwritten.",
+    "Composition refs with version \"latest_published\" resolve against this history.",
+    "",
+    "Flags:",
+    "  --message <text>  changeLog recorded on the published snapshot",
+    "  --json            Machine-readable JSON output",
+    "",
+    "Exit codes: 0 published, 2 blocked by validation, 3 usage error / nothing to publish,",
+    "4 working copy changed during publish (the snapshot is kept; the version was not bumped)",
+  ],
+
+  history: [
+    "lb history - List published versions of a build",
+    "",
+    "Usage:",
+    "  lb history <buildId>",
+    "",
+    "Examples:",
+    "  lb history my-build",
+    "  lb get my-build@2 --format summary",
+  ],
+
+  undo: [
+    "lb undo - Revert the last build write recorded in data/receipts",
+    "",
+    "Usage:",
+    "  lb undo [<buildId>] [--steps <n>]",
+    "",
+    "Receipts from lb edit --apply, lb write, lb override, lb validate --fix --apply",
+    "and lb resolve --as keep each build's content before and after the write.",
+    "lb undo restores the newest one's before-image through writeBuild (a build",
+    "the command created is removed again). With <buildId>, only receipts that",
+    "touched that build count. Refuses when the build file no longer matches what",
+    "the receipt wrote (edited by hand, published, migrated). Undo and redo write",
+    "receipts of their own; a new write after an undo clears the redo chain.",
+    "",
+    "Flags:",
+    "  --steps <n>  Undo the last n writes (stops at the first refusal)",
+    "  --json       Machine-readable JSON output",
+    "",
+    "Examples:",
+    "  lb undo",
+    "  lb undo my-build --steps 3",
+    "",
+    "Exit codes: 0 ok, 1 nothing to undo, 3 usage error, 4 build changed since the receipt",
+  ],
+
+  redo: [
+    "lb redo - Re-apply writes reverted by lb undo",
+    "",
+    "Usage:",
+    "  lb redo [<buildId>] [--steps <n>]",
+    "",
+    "Restores the after-image of the oldest undone receipt, with the same",
+    "conflict check as lb undo.",
+    "",
+    "Flags:",
+    "  --steps <n>  Redo the next n undone writes",
+    "  --json       Machine-readable JSON output",
+    "",
+    "Exit codes: 0 ok, 1 nothing to redo, 3 usage error, 4 build changed since the undo",
+  ],
+
+  migrate: [
+    "lb migrate - Upgrade builds to the current schemaVersion",
+    "",
+    "Usage:",
+    "  lb migrate <buildId> [--dry-run]",
+    "  lb migrate --all [--dry-run]",
+    "",
+    "Builds without schemaVersion are v1. Registered migrations run one version",
+    "at a time; each migrated build is rewritten and gets a receipt. Reads already",
+    "migrate in memory, so this only persists the upgrade. Builds with a newer",
+    "schemaVersion than this CLI supports are refused everywhere.",
+    "Published snapshots in data/history are never rewritten.",
+    "",
+    "Flags:",
+    "  --all      Migrate every build in data/line-builds",
+    "  --dry-run  Report the migrations that would run; write nothing",
+    "  --json     Machine-readable JSON output",
+    "",
+    "Exit codes: 0 ok, 2 a build is newer than supported or fails schema after migration, 3 usage error",
+  ],
+
+  schema: [
+    "lb schema - Export the line build model as JSON Schema or TypeScript",
+    "",
+    "Usage:",
+    "  lb schema [--format json-schema|ts] [--type <TypeName>] [--out <file>]",
+    "",
+    "Generated from the Zod schemas: BenchTopLineBuild, DerivedBuildData and the",
+    "EditOp union, with every named sub-type under $defs. StationId, ToolId and",
+    "TechniqueId enums come from config/stations, tools and techniques.",
+    "",
+    "Flags:",
+    "  --format <f>     json-schema (default) or ts (type declarations)",
+    "  --type <name>    Make the document validate one type, e.g. BenchTopLineBuild",
+    "  --out <file>     Write to a file instead of stdout",
+    "  --json           JSON summary when writing with --out",
+    "",
+    "Examples:",
+    "  lb schema --format json-schema --type EditOp",
+    "  lb schema --format ts --out viewer/src/generated/lineBuild.ts",
+  ],
+
+  variants: [
+    "lb variants - Enumerate and score every customization variant",
+    "",
+    "Usage:",
+    "  lb variants <buildId> [--profile <id>] [--limit <n>] [--invalid-only]",
+    "",
+    "Generates every combination of customization values allowed by the",
+    "build's customizationGroups (minChoices/maxChoices; MANDATORY_CHOICE",
+    "defaults to exactly one), crossed with each referenced equipment profile.",
+    "Each variant is resolved, validated and scored; the report lists the",
+    "worst-case and best-case complexity and flags variants that fail validation.",
+    "",
+    "Flags:",
+    "  --profile <id>    Only enumerate this equipment profile",
+    "  --limit <n>       Maximum variants to resolve (default 256)",
+    "  --invalid-only    Only list variants that fail validation",
+    "  --json            Machine-readable JSON output",
+    "",
+    "Exit codes: 0 all variants valid, 2 at least one invalid variant, 3 usage error",
+    "",
+    "Examples:",
+    "  lb variants my-build",
+    "  lb variants my-build --profile eqp_has_turbo --invalid-only",
+  ],
+
+  "bom-usage": [
+    "lb bom-usage - Roll up portioned quantities per BOM entry",
+    "",
+    "Usage:",
+    "  lb bom-usage <buildId> [--profile <id>] [--customization <valueId>]... [--tolerance <fraction>]",
+    "",
+    "Sums step.quantity for every step whose target.bomUsageId points at a build.bom",
+    "entry and compares it with BomEntry.quantity. Units are converted (oz, g, ml,",
+    "fl_oz, tbsp, spoodle_<n>oz, ...); multiplier quantities count standard portions",
+    "(value x BOM quantity). The build is resolved for the scenario first, so",
+    "conditional steps and overlays only count when selected.",
+    "Validation reports the same mismatches as S24.",
+    "",
+    "Flags:",
+    "  --profile <id>           Equipment profile for the scenario",
+    "  --customization <id>     Customization valueId (repeatable or comma-separated)",
+    "  --tolerance <fraction>   Allowed deviation before flagging (default 0.1)",
+    "  --json                   Machine-readable JSON output",
+    "",
+    "Exit codes: 0 all entries within tolerance, 2 over/under-portioned or unconvertible, 3 usage error",
   ],
 
   search: [
@@ -130,23 +379,67 @@ const COMMAND_HELP: Record<string, string[]> = {
     "  --json          Machine-readable JSON output",
     "",
     "Query DSL:",
-    "  field = value             Equality",
+    "  field = value             Equality (\"quoted\" values stay strings)",
     "  field != value            Inequality",
+    "  field > 300               Numeric comparison (>, >=, <, <=)",
+    "  field ~ \"^Place\"          Regex match (JavaScript syntax)",
     "  field in [val1, val2]     Set membership",
-    "  exists(field)             Field exists",
-    "  clause AND clause         Conjunction",
+    "  exists(field)             Field has a value",
+    "  missing(field)            Field has no value",
+    "  a AND b, a OR b, NOT a    Boolean operators (AND binds tighter than OR)",
+    "  ( ... )                   Grouping",
+    "",
+    "Parse errors report the column of the offending token.",
+    "The same DSL selects steps in set_field \"where\" and builds in lb edit --where.",
+    "",
+    "Fields are any step.* or build.* path in the schema, e.g.",
+    "step.overlays[0].overrides.stationId or build.requiresBuilds.itemId.",
+    "Without an index, a clause matches if any array element matches.",
   ],
 
   rules: [
     "lb rules - Validation rules reference",
     "",
     "Usage:",
-    "  lb rules [ruleId]",
+    "  lb rules [ruleId] [--profile <id>]",
+    "",
+    "Flags:",
+    "  --profile <id>  Show severities under a profile (draft, publish, strict)",
+    "  --json          Machine-readable JSON output",
     "",
     "Examples:",
-    "  lb rules          List all rules",
-    "  lb rules H15      Show details for rule H15",
+    "  lb rules                   List all rules",
+    "  lb rules H15               Show details for rule H15",
+    "  lb rules --profile strict  Show which rules strict raises",
   ],
+  override: [
+    "lb override - Manage validation overrides",
+    "",
+    "Approved overrides suppress (or downgrade) matching findings during",
+    "validation. Suppressed findings are still listed in the validation output.",
+    "An approved override that no longer applies to any finding is reported as",
+    "stale by lb validate and lb override list; revoke it once confirmed.",
+    "",
+    "Usage:",
+    "  lb override list <buildId>",
+    "  lb override add <buildId> --rule <ruleId> --reason <text> [flags]",
+    "  lb override approve <buildId> <overrideId> [--by <userId>]",
+    "  lb override revoke <buildId> <overrideId>",
+    "",
+    "add, approve and revoke accept --if-match <hash>; they exit 4 if the build changed.",
+    "",
+    "Add flags:",
+    "  --step <id>          Only match findings on this step",
+    "  --field <path>       Only match findings with this fieldPath",
+    "  --action <a>         suppress (default) or downgrade",
+    "  --severity <s>       Target severity for downgrade (strong|soft)",
+    "  --by <userId>        Author (add) or reviewer (approve)",
+    "",
+    "Examples:",
+    "  lb override add my-build --rule H43 --step step-7 --reason \"Shared shelf, verified on line\"",
+    "  lb override approve my-build ovr-1a2b3c4d --by chef-jen",
+  ],
+
   techniques: [
     "lb techniques - Technique vocabulary reference",
     "",
@@ -162,6 +455,32 @@ const COMMAND_HELP: Record<string, string[]> = {
     "  lb techniques --family PREP",
   ],
 
+  "validate-fixtures": [
+    "lb validate-fixtures - Check fixtures against their expectation sidecars",
+    "",
+    "Each data/fixtures/<name>.json has a <name>.expect.json sidecar:",
+    "  { \"hard\": [ruleIds], \"warnings\": [ruleIds], \"infos\": [ruleIds],",
+    "    \"stepIds\": { \"<ruleId>\": [stepIds] }, \"negative\": [ruleIds] }",
+    "hard/warnings/infos are exact sets (warnings/infos are optional); negative lists",
+    "rules the fixture exercises that must not fire.",
+    "",
+    "Usage:",
+    "  lb validate-fixtures [--coverage]",
+    "  lb validate-fixtures scaffold <ruleId> [--name <fixture>] [--dry-run]",
+    "",
+    "Flags:",
+    "  --coverage      List rules with no positive or negative fixture",
+    "  --name <name>   Scaffold file name (default: <ruleId>-scaffold)",
+    "  --dry-run       Print the scaffold without writing it",
+    "  --json          Machine-readable JSON output",
+    "",
+    "Exit codes: 0 all fixtures match, 2 a fixture does not match its sidecar, 3 usage error",
+    "",
+    "Examples:",
+    "  lb validate-fixtures --coverage",
+    "  lb validate-fixtures scaffold H15",
+  ],
+
   watch: [
     "lb watch - Alias for 'lb validate watch'",
     "",
@@ -179,8 +498,18 @@ const MAIN_HELP = [
   "  list       Discover builds",
   "  get        Read build details",
   "  write      Create or replace a build",
+  "  resolve    Resolve overlays/conditions for a scenario",
+  "  variants   Enumerate, validate and score customization variants",
+  "  bom-usage  Roll up portioned quantities per BOM entry",
+  "  publish    Validate and freeze an immutable version snapshot",
+  "  history    List published versions of a build",
+  "  undo       Revert the last build write (see also: redo)",
+  "  migrate    Upgrade builds to the current schemaVersion",
+  "  schema     Export the model as JSON Schema or TypeScript types",
   "  search     Search steps across builds",
   "  rules      Validation rules reference",
+  "  validate-fixtures  Check data/fixtures against their expectation sidecars",
+  "  override   Manage validation overrides",
   "  techniques Technique vocabulary reference",
   "",
   "Usage: lb <command> [options]",
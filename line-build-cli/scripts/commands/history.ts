@@ -0,0 +1,50 @@
+import { readBuild, listBuildSnapshots, readBuildSnapshot } from "../lib/store";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_USAGE_ERROR = 3;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+export async function cmdHistory(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const buildId = argv[0];
+  if (!buildId) { writeError(flags, "usage: history <buildId>"); return EXIT_USAGE_ERROR; }
+
+  const current = await readBuild(buildId);
+  const versions = [];
+  for (const s of await listBuildSnapshots(buildId)) {
+    const snapshot = await readBuildSnapshot(buildId, s.version);
+    versions.push({
+      version: s.version,
+      status: s.status,
+      publishedAt: s.updatedAt,
+      steps: snapshot.steps.length,
+      changeLog: snapshot.changeLog,
+      relativePath: s.relativePath,
+    });
+  }
+
+  if (flags.json) {
+    writeJson({
+      ok: true,
+      buildId,
+      current: { version: current.version, status: current.status, updatedAt: current.updatedAt, steps: current.steps.length },
+      versions,
+    });
+    return EXIT_SUCCESS;
+  }
+
+  const lines = [`History for ${buildId} (${versions.length} published):`];
+  for (const v of [...versions].reverse()) {
+    lines.push(`  v${v.version}  ${v.publishedAt}  ${v.steps} steps${v.changeLog ? `  ${v.changeLog}` : ""}`);
+  }
+  lines.push(`  current: v${current.version} (${current.status}, ${current.steps.length} steps, updated ${current.updatedAt})`);
+  if (versions.length > 0) lines.push("", `Read a version with: lb get ${buildId}@<version>`);
+  writeHuman(lines);
+  return EXIT_SUCCESS;
+}
@@ -35,7 +35,7 @@
  
    const lines = [`Found ${builds.length} build(s):`];
    for (const b of builds) {
-     lines.push(`- ${b.itemId} "${b.name || '(unnamed)'}" v${b.version} (${b.status}) id=${b.buildId}`);
+     lines.push(`- ${b.itemId} "${b.name || '(unnamed)'}" v${b.version} (${b.status}) id=${b.buildId} hash=${b.contentHash}`);
    }
    writeHuman(lines);
    return EXIT_SUCCESS;
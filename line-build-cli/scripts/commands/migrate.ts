@@ -0,0 +1,129 @@
+import { readBuildJson, readBom, writeBuild, listBuildIds } from "../lib/store";
+import { validateBuild } from "../lib/validate";
+import { writeReceipt } from "../lib/receipts";
+import { writeValidationOutput } from "../lib/validationOutput";
+import { migrateBuildJson, type AppliedMigration } from "../lib/migrations";
+import { BuildParseError, CURRENT_SCHEMA_VERSION, SchemaVersionError, parseBuild } from "../lib/schema";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_VALIDATION_FAILED = 2;
+const EXIT_USAGE_ERROR = 3;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function hasFlag(argv: string[], name: string): { present: boolean; rest: string[] } {
+  const rest = argv.filter((a) => a !== name);
+  return { present: rest.length !== argv.length, rest };
+}
+
+const USAGE = "usage: migrate <buildId> | --all [--dry-run]";
+
+type MigrateOutcome = {
+  buildId: string;
+  status: "migrated" | "would_migrate" | "up_to_date" | "unsupported" | "invalid";
+  fromVersion?: number;
+  toVersion?: number;
+  applied?: AppliedMigration[];
+  path?: string;
+  message?: string;
+};
+
+async function migrateOne(buildId: string, dryRun: boolean): Promise<MigrateOutcome> {
+  const json = await readBuildJson(buildId);
+
+  let result: ReturnType<typeof migrateBuildJson>;
+  try {
+    result = migrateBuildJson(json);
+  } catch (err) {
+    if (err instanceof SchemaVersionError) return { buildId, status: "unsupported", fromVersion: err.schemaVersion, message: err.message };
+    throw err;
+  }
+  const { fromVersion, toVersion, applied } = result;
+  if (applied.length === 0) return { buildId, status: "up_to_date", fromVersion, toVersion };
+
+  let build;
+  try {
+    build = parseBuild(result.build);
+  } catch (err) {
+    if (err instanceof BuildParseError) {
+      const first = err.issues[0];
+      return {
+        buildId,
+        status: "invalid",
+        fromVersion,
+        toVersion,
+        applied,
+        message: `migrated build failed schema validation (${err.issues.length} issue(s)${first ? `, first: ${first.path}: ${first.message}` : ""})`,
+      };
+    }
+    throw err;
+  }
+  if (dryRun) return { buildId, status: "would_migrate", fromVersion, toVersion, applied };
+
+  const path = await writeBuild(build);
+  await writeValidationOutput(build, validateBuild(build, { bom: await readBom(build.itemId) }));
+  await writeReceipt({
+    command: "migrate",
+    timestamp: new Date().toISOString(),
+    inputs: { buildId, fromVersion },
+    outputs: { path, toVersion, migrations: applied.map((m) => ({ id: m.id, changes: m.changes })) },
+    touchedFiles: [path],
+  });
+  return { buildId, status: "migrated", fromVersion, toVersion, applied, path };
+}
+
+function outcomeLine(o: MigrateOutcome): string {
+  switch (o.status) {
+    case "up_to_date": return `  ${o.buildId}: up to date (v${o.toVersion})`;
+    case "unsupported":
+    case "invalid": return `  ${o.buildId}: FAILED - ${o.message}`;
+    default: {
+      const verb = o.status === "migrated" ? "migrated" : "would migrate";
+      return `  ${o.buildId}: ${verb} v${o.fromVersion} -> v${o.toVersion}`;
+    }
+  }
+}
+
+export async function cmdMigrate(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const dryRunFlag = hasFlag(argv, "--dry-run");
+  const allFlag = hasFlag(dryRunFlag.rest, "--all");
+  const buildId = allFlag.rest[0];
+  if (allFlag.present === Boolean(buildId)) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  const buildIds = allFlag.present ? await listBuildIds() : [buildId!];
+  const outcomes: MigrateOutcome[] = [];
+  for (const id of buildIds) {
+    try {
+      outcomes.push(await migrateOne(id, dryRunFlag.present));
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") { writeError(flags, `Build not found: ${id}`); return EXIT_USAGE_ERROR; }
+      throw err;
+    }
+  }
+
+  const failed = outcomes.filter((o) => o.status === "unsupported" || o.status === "invalid");
+  const ok = failed.length === 0;
+
+  if (flags.json) {
+    writeJson({ ok, dryRun: dryRunFlag.present, currentSchemaVersion: CURRENT_SCHEMA_VERSION, builds: outcomes });
+  } else {
+    const lines = [`Schema v${CURRENT_SCHEMA_VERSION}${dryRunFlag.present ? " (dry run, nothing written)" : ""}:`];
+    for (const o of outcomes) {
+      lines.push(outcomeLine(o));
+      for (const m of o.applied ?? []) {
+        lines.push(`    ${m.id}: ${m.description}`);
+        for (const c of m.changes) lines.push(`      - ${c}`);
+      }
+    }
+    const changed = outcomes.filter((o) => o.status === "migrated" || o.status === "would_migrate").length;
+    lines.push("", `${changed} ${dryRunFlag.present ? "to migrate" : "migrated"}, ${outcomes.length - changed - failed.length} up to date, ${failed.length} failed`);
+    writeHuman(lines);
+  }
+  return ok ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
+}
@@ -0,0 +1,228 @@
+import { randomUUID } from "node:crypto";
+
+import { isWriteConflict, readBuild, readBuildForUpdate, readBom, writeBuildWithImage } from "../lib/store";
+import { validateBuild, overrideMatches, isOverrideActive } from "../lib/validate";
+import { writeReceipt } from "../lib/receipts";
+import { writeValidationOutput } from "../lib/validationOutput";
+import { getRuleById, getRuleSeverity } from "../lib/rules";
+import type { BenchTopLineBuild, ValidationOverride } from "../lib/schema";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_USAGE_ERROR = 3;
+const EXIT_CONFLICT = 4;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+const USAGE = [
+  "usage: override <subcommand> <buildId> ...",
+  "  override list <buildId>",
+  "  override add <buildId> --rule <ruleId> --reason <text> [--step <stepId>] [--field <path>] [--severity hard|strong|soft] [--action suppress|downgrade] [--by <userId>]",
+  "  override approve <buildId> <overrideId> [--by <userId>]",
+  "  override revoke <buildId> <overrideId>",
+  "  (add/approve/revoke accept --if-match <hash>)",
+].join("\n");
+
+const SEVERITIES = ["hard", "strong", "soft"] as const;
+type OverrideSeverity = (typeof SEVERITIES)[number];
+
+function isOverrideSeverity(v: string): v is OverrideSeverity {
+  return (SEVERITIES as readonly string[]).includes(v);
+}
+
+async function saveOverrides(
+  build: BenchTopLineBuild,
+  hash: string,
+  overrides: ValidationOverride[],
+  command: string,
+  inputs: unknown,
+): Promise<string> {
+  const updated: BenchTopLineBuild = {
+    ...build,
+    validationOverrides: overrides.length > 0 ? overrides : undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  const { path, image } = await writeBuildWithImage(updated, { ifMatch: hash });
+  const bom = await readBom(updated.itemId);
+  await writeValidationOutput(updated, validateBuild(updated, { bom }));
+  await writeReceipt({ command, inputs, outputs: { path, overrideCount: overrides.length }, touchedFiles: [path], builds: [image] });
+  return path;
+}
+
+async function cmdOverrideList(flags: GlobalFlags, buildId: string): Promise<number> {
+  const build = await readBuild(buildId);
+  const overrides = build.validationOverrides ?? [];
+  const bom = await readBom(build.itemId);
+  const raw = validateBuild(build, { bom, ignoreOverrides: true });
+  const findings = [...raw.hardErrors, ...raw.warnings, ...raw.infos];
+  const unused = new Set(validateBuild(build, { bom }).unusedOverrideIds ?? []);
+
+  const rows = overrides.map((o) => ({
+    ...o,
+    active: isOverrideActive(o),
+    matchCount: findings.filter((f) => overrideMatches(o, f)).length,
+    stale: unused.has(o.id),
+  }));
+
+  if (flags.json) {
+    writeJson({ ok: true, buildId: build.id, overrides: rows });
+    return EXIT_SUCCESS;
+  }
+
+  const lines = [`Overrides for ${build.id} (${rows.length}):`];
+  for (const r of rows) {
+    const scope = [r.stepId ? `step=${r.stepId}` : null, r.fieldPath ? `field=${r.fieldPath}` : null].filter(Boolean).join(" ");
+    const status = r.active ? (r.stale ? "approved, stale" : "approved") : "pending";
+    lines.push(`- ${r.id} [${r.ruleId}] ${r.action ?? "suppress"}${r.action === "downgrade" ? `->${r.severity}` : ""} ${status}${scope ? ` ${scope}` : ""} (${r.matchCount} match${r.matchCount === 1 ? "" : "es"})`);
+    lines.push(`    reason: ${r.reason}`);
+  }
+  writeHuman(lines);
+  return EXIT_SUCCESS;
+}
+
+async function cmdOverrideAdd(flags: GlobalFlags, argv: string[], ifMatch?: string): Promise<number> {
+  const ruleOpt = takeOption(argv, "--rule");
+  const reasonOpt = takeOption(ruleOpt.rest, "--reason");
+  const stepOpt = takeOption(reasonOpt.rest, "--step");
+  const fieldOpt = takeOption(stepOpt.rest, "--field");
+  const severityOpt = takeOption(fieldOpt.rest, "--severity");
+  const actionOpt = takeOption(severityOpt.rest, "--action");
+  const byOpt = takeOption(actionOpt.rest, "--by");
+  const buildId = byOpt.rest[0];
+
+  if (!buildId || !ruleOpt.value) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+  if (!reasonOpt.value || reasonOpt.value.trim().length === 0) {
+    writeError(flags, "--reason is required (H13: validationOverride.reason must be non-empty)");
+    return EXIT_USAGE_ERROR;
+  }
+
+  const rule = getRuleById(ruleOpt.value);
+  if (!rule) { writeError(flags, `Unknown ruleId: ${ruleOpt.value} (see: lb rules)`); return EXIT_USAGE_ERROR; }
+  if (rule.id === "H13") { writeError(flags, "H13 (override hygiene) cannot be overridden"); return EXIT_USAGE_ERROR; }
+
+  const action = actionOpt.value ?? "suppress";
+  if (action !== "suppress" && action !== "downgrade") {
+    writeError(flags, `Unknown --action: ${action} (expected suppress|downgrade)`);
+    return EXIT_USAGE_ERROR;
+  }
+
+  const severity = severityOpt.value ?? getRuleSeverity(rule);
+  if (!isOverrideSeverity(severity)) {
+    writeError(flags, `Unknown --severity: ${severity} (expected ${SEVERITIES.join("|")})`);
+    return EXIT_USAGE_ERROR;
+  }
+  if (action === "downgrade" && severity === "hard") {
+    writeError(flags, "--action downgrade requires --severity strong|soft");
+    return EXIT_USAGE_ERROR;
+  }
+
+  const { build, hash } = await readBuildForUpdate(buildId, ifMatch);
+  if (stepOpt.value && !build.steps.some((s) => s.id === stepOpt.value)) {
+    writeError(flags, `Step not found: ${stepOpt.value}`);
+    return EXIT_USAGE_ERROR;
+  }
+
+  const override: ValidationOverride = {
+    id: `ovr-${randomUUID().slice(0, 8)}`,
+    ruleId: rule.id,
+    severity,
+    action: action === "downgrade" ? "downgrade" : undefined,
+    stepId: stepOpt.value,
+    fieldPath: fieldOpt.value,
+    reason: reasonOpt.value.trim(),
+    createdAt: new Date().toISOString(),
+    createdByUserId: byOpt.value,
+  };
+
+  const path = await saveOverrides(build, hash, [...(build.validationOverrides ?? []), override], "override-add", { buildId, override });
+  if (flags.json) writeJson({ ok: true, buildId, override, path });
+  else writeHuman([`Added override ${override.id} [${override.ruleId}] to ${buildId} (pending approval)`, `Approve with: lb override approve ${buildId} ${override.id}`]);
+  return EXIT_SUCCESS;
+}
+
+async function cmdOverrideApprove(flags: GlobalFlags, argv: string[], ifMatch?: string): Promise<number> {
+  const byOpt = takeOption(argv, "--by");
+  const [buildId, overrideId] = byOpt.rest;
+  if (!buildId || !overrideId) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  const { build, hash } = await readBuildForUpdate(buildId, ifMatch);
+  const overrides = build.validationOverrides ?? [];
+  const target = overrides.find((o) => o.id === overrideId);
+  if (!target) { writeError(flags, `Override not found: ${overrideId}`); return EXIT_USAGE_ERROR; }
+
+  const approved: ValidationOverride = {
+    ...target,
+    approved: true,
+    reviewedAt: new Date().toISOString(),
+    reviewedByUserId: byOpt.value ?? target.reviewedByUserId,
+  };
+  const next = overrides.map((o) => (o.id === overrideId ? approved : o));
+
+  const path = await saveOverrides(build, hash, next, "override-approve", { buildId, overrideId, by: byOpt.value });
+  if (flags.json) writeJson({ ok: true, buildId, override: approved, path });
+  else writeHuman([`Approved override ${overrideId} [${approved.ruleId}] on ${buildId}`]);
+  return EXIT_SUCCESS;
+}
+
+async function cmdOverrideRevoke(flags: GlobalFlags, argv: string[], ifMatch?: string): Promise<number> {
+  const [buildId, overrideId] = argv;
+  if (!buildId || !overrideId) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  const { build, hash } = await readBuildForUpdate(buildId, ifMatch);
+  const overrides = build.validationOverrides ?? [];
+  const target = overrides.find((o) => o.id === overrideId);
+  if (!target) { writeError(flags, `Override not found: ${overrideId}`); return EXIT_USAGE_ERROR; }
+
+  // The receipt keeps the revoked override for audit purposes.
+  const path = await saveOverrides(
+    build,
+    hash,
+    overrides.filter((o) => o.id !== overrideId),
+    "override-revoke",
+    { buildId, revoked: target },
+  );
+  if (flags.json) writeJson({ ok: true, buildId, revoked: target, path });
+  else writeHuman([`Revoked override ${overrideId} [${target.ruleId}] on ${buildId}`]);
+  return EXIT_SUCCESS;
+}
+
+export async function cmdOverride(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const [subcommand, ...args] = argv;
+  const ifMatchOpt = takeOption(args, "--if-match");
+  const rest = ifMatchOpt.rest;
+  try {
+    switch (subcommand) {
+      case "list": {
+        if (!rest[0]) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+        return await cmdOverrideList(flags, rest[0]);
+      }
+      case "add": return await cmdOverrideAdd(flags, rest, ifMatchOpt.value);
+      case "approve": return await cmdOverrideApprove(flags, rest, ifMatchOpt.value);
+      case "revoke": return await cmdOverrideRevoke(flags, rest, ifMatchOpt.value);
+      default:
+        writeError(flags, USAGE);
+        return EXIT_USAGE_ERROR;
+    }
+  } catch (err) {
+    if (!isWriteConflict(err)) throw err;
+    writeError(flags, `Override rejected: ${err.message}`);
+    return EXIT_CONFLICT;
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  isWriteConflict,
+  readBuildForUpdate,
+  readBom,
+  publishBuild,
+  listBuildSnapshots,
+  readBuildSnapshot,
+  publishableContentHash,
+  SnapshotExistsError,
+} from "../lib/store";
+import { validateBuild } from "../lib/validate";
+import { writeReceipt } from "../lib/receipts";
+import { writeValidationOutput } from "../lib/validationOutput";
+import type { BenchTopLineBuild } from "../lib/schema";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_VALIDATION_FAILED = 2;
+const EXIT_USAGE_ERROR = 3;
+const EXIT_CONFLICT = 4;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+const USAGE = "usage: publish <buildId> [--message <changeLog>] [--if-match <hash>]";
+
+export async function cmdPublish(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const messageOpt = takeOption(argv, "--message");
+  const ifMatchOpt = takeOption(messageOpt.rest, "--if-match");
+  const buildId = ifMatchOpt.rest[0];
+  if (!buildId) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  let read;
+  try {
+    read = await readBuildForUpdate(buildId, ifMatchOpt.value);
+  } catch (err) {
+    if (!isWriteConflict(err)) throw err;
+    writeError(flags, `Publish failed: ${err.message}`);
+    return EXIT_CONFLICT;
+  }
+  const { build, hash } = read;
+  const now = new Date().toISOString();
+  const candidate: BenchTopLineBuild = {
+    ...build,
+    status: "published",
+    changeLog: messageOpt.value ?? build.changeLog,
+    updatedAt: now,
+  };
+
+  // Gate: the build must validate as a published build (published-only rules included).
+  const bom = await readBom(build.itemId);
+  const validation = validateBuild(candidate, { bom });
+  if (!validation.valid) {
+    if (flags.json) {
+      writeJson({ ok: false, buildId, error: { message: "Publish blocked by validation" }, hardErrors: validation.hardErrors });
+    } else {
+      const lines = [`Publish blocked: ${validation.hardErrors.length} hard error(s)`];
+      for (const err of validation.hardErrors.slice(0, 10)) {
+        lines.push(`  [${err.ruleId}]${err.stepId ? ` (${err.stepId})` : ""} ${err.message}`);
+      }
+      process.stderr.write(lines.join("\n") + "\n");
+    }
+    return EXIT_VALIDATION_FAILED;
+  }
+
+  const history = await listBuildSnapshots(buildId);
+  const latest = history[history.length - 1];
+  if (latest && publishableContentHash(await readBuildSnapshot(buildId, latest.version)) === publishableContentHash(candidate)) {
+    writeError(flags, `Nothing to publish: ${buildId} is unchanged since v${latest.version}`);
+    return EXIT_USAGE_ERROR;
+  }
+
+  // The working copy stays published at this version; its next change makes it a
+  // draft of the following version (see reopenPublished in lib/store.ts).
+  let snapshotPath: string;
+  let path: string;
+  try {
+    ({ snapshotPath, path } = await publishBuild(candidate, { ifMatch: hash }));
+  } catch (err) {
+    if (err instanceof SnapshotExistsError) { writeError(flags, `Publish failed: ${err.message}`); return EXIT_USAGE_ERROR; }
+    if (!isWriteConflict(err)) throw err;
+    writeError(flags, `Publish failed: ${err.message}`);
+    return EXIT_CONFLICT;
+  }
+  await writeValidationOutput(candidate, validation);
+  await writeReceipt({
+    command: "publish",
+    timestamp: now,
+    inputs: { buildId, version: build.version, message: messageOpt.value },
+    outputs: { snapshotPath, path, publishedVersion: build.version },
+    touchedFiles: [snapshotPath, path],
+  });
+
+  if (flags.json) {
+    writeJson({ ok: true, buildId, publishedVersion: build.version, snapshotPath, path });
+  } else {
+    writeHuman([
+      `Published ${buildId} v${build.version} -> ${snapshotPath}`,
+      `Working copy stays published until its next change, which starts v${build.version + 1} as a draft`,
+    ]);
+  }
+  return EXIT_SUCCESS;
+}
@@ -0,0 +1,161 @@
+import { isWriteConflict, readBuild, readBom, writeBuildWithImage } from "../lib/store";
+import { validateBuild } from "../lib/validate";
+import { writeReceipt } from "../lib/receipts";
+import {
+  resolveBuild,
+  collectEquipmentProfileIds,
+  formatScenarioLabel,
+  ScenarioError,
+  type Scenario,
+} from "../lib/resolve";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_VALIDATION_FAILED = 2;
+const EXIT_USAGE_ERROR = 3;
+const EXIT_CONFLICT = 4;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+function takeRepeatedOption(argv: string[], name: string): { values: string[]; rest: string[] } {
+  const values: string[] = [];
+  const out: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { const v = argv[i + 1]; if (v) values.push(v); i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { values.push(a.slice(name.length + 1)); continue; }
+    out.push(a);
+  }
+  return { values, rest: out };
+}
+
+const USAGE = "usage: resolve <buildId> [--profile <equipmentProfileId>] [--customization <valueId>]... [--restaurant <id>] [--format full|summary] [--as <newBuildId> [--if-match <hash>]]";
+
+export async function cmdResolve(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const profileOpt = takeOption(argv, "--profile");
+  const customizationOpt = takeRepeatedOption(profileOpt.rest, "--customization");
+  const restaurantOpt = takeOption(customizationOpt.rest, "--restaurant");
+  const formatOpt = takeOption(restaurantOpt.rest, "--format");
+  const asOpt = takeOption(formatOpt.rest, "--as");
+  const ifMatchOpt = takeOption(asOpt.rest, "--if-match");
+  const buildId = ifMatchOpt.rest[0];
+
+  if (!buildId || (ifMatchOpt.value && !asOpt.value)) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  const format = formatOpt.value || "full";
+  if (format !== "full" && format !== "summary") {
+    writeError(flags, `Unknown --format: ${format} (expected full|summary)`);
+    return EXIT_USAGE_ERROR;
+  }
+
+  const scenario: Scenario = {
+    equipmentProfileId: profileOpt.value,
+    // Allow comma-separated values as well as repeated flags.
+    customizationValueIds: customizationOpt.values.flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean),
+    restaurantId: restaurantOpt.value,
+  };
+
+  const master = await readBuild(buildId);
+
+  let resolution;
+  try {
+    resolution = resolveBuild(master, scenario);
+  } catch (err) {
+    if (err instanceof ScenarioError) { writeError(flags, `Resolve failed: ${err.message}`); return EXIT_USAGE_ERROR; }
+    throw err;
+  }
+
+  const knownProfiles = collectEquipmentProfileIds(master);
+  const profileUnreferenced = !!scenario.equipmentProfileId && !knownProfiles.includes(scenario.equipmentProfileId);
+
+  let resolved = resolution.build;
+  let writtenPath: string | undefined;
+  if (asOpt.value) {
+    resolved = { ...resolved, id: asOpt.value, status: "draft", updatedAt: new Date().toISOString() };
+    let written;
+    try {
+      // --if-match guards the build being overwritten (the --as target).
+      written = await writeBuildWithImage(resolved, { ifMatch: ifMatchOpt.value });
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      writeError(flags, `Resolve not written: ${err.message}`);
+      return EXIT_CONFLICT;
+    }
+    writtenPath = written.path;
+    await writeReceipt({
+      command: "resolve",
+      inputs: { buildId, scenario },
+      outputs: { buildId: resolved.id, path: writtenPath, removedSteps: resolution.removedSteps.length },
+      touchedFiles: [writtenPath],
+      builds: [written.image],
+    });
+  }
+
+  if (format === "full" && !flags.json) {
+    writeJson(resolved);
+    return EXIT_SUCCESS;
+  }
+
+  const bom = await readBom(resolved.itemId);
+  const validation = validateBuild(resolved, { bom });
+
+  if (flags.json) {
+    writeJson({
+      ok: true,
+      buildId: master.id,
+      scenario,
+      knownEquipmentProfileIds: knownProfiles,
+      removedSteps: resolution.removedSteps,
+      appliedOverlays: resolution.appliedOverlays,
+      droppedDependencies: resolution.droppedDependencies,
+      validation: { valid: validation.valid, hardErrors: validation.hardErrors, warnings: validation.warnings.length },
+      path: writtenPath,
+      build: format === "full" ? resolved : undefined,
+    });
+    return validation.valid ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
+  }
+
+  const lines = [
+    `Resolved ${master.id} (${formatScenarioLabel(scenario)})`,
+    `Steps: ${master.steps.length} -> ${resolved.steps.length}`,
+  ];
+  if (profileUnreferenced) {
+    lines.push(`Note: profile ${scenario.equipmentProfileId} is not referenced by any step (known: ${knownProfiles.join(", ") || "none"})`);
+  }
+  if (resolution.removedSteps.length > 0) {
+    lines.push("", "Removed steps:");
+    for (const r of resolution.removedSteps) lines.push(`  - ${r.stepId}: ${r.detail}`);
+  }
+  if (resolution.appliedOverlays.length > 0) {
+    lines.push("", "Applied overlays:");
+    for (const o of resolution.appliedOverlays) lines.push(`  - ${o.stepId} <- ${o.overlayId} (priority ${o.priority}): ${o.fields.join(", ")}`);
+  }
+  if (resolution.droppedDependencies.length > 0) {
+    lines.push("", "Dropped dependencies:");
+    for (const d of resolution.droppedDependencies) lines.push(`  - ${d.stepId} -/-> ${d.dependsOn} (${d.reason})`);
+  }
+  lines.push("", `Valid: ${validation.valid}`, `Errors: ${validation.hardErrors.length}`, `Warnings: ${validation.warnings.length}`);
+  for (const err of validation.hardErrors.slice(0, 10)) {
+    lines.push(`  [${err.ruleId}]${err.stepId ? ` (${err.stepId})` : ""} ${err.message}`);
+  }
+  if (writtenPath) lines.push("", `Wrote ${resolved.id} to ${writtenPath}`);
+  writeHuman(lines);
+  return validation.valid ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
+}
@@ -1,16 +1,84 @@
- import { VALIDATION_RULES, getRuleById } from "../lib/rules";
+ import type { GlobalFlags } from "../lb";
+ import { VALIDATION_RULES, getRuleById, type RuleInfo } from "../lib/rules";
+ import {
+   getProfileRuleSetting,
+   resolveValidationProfile,
+   UnknownValidationProfileError,
+ } from "../lib/validate";
+ import { DEFAULT_VALIDATION_PROFILE, type ValidationProfile } from "../../config";
  
  const EXIT_SUCCESS = 0;
+ const EXIT_USAGE_ERROR = 3;
  
+ function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
  function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+ function writeError(flags: GlobalFlags, message: string) {
+   if (flags.json) writeJson({ ok: false, error: { message } });
+   else process.stderr.write(message + "\n");
+ }
+ 
+ function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+   const out: string[] = [];
+   let value: string | undefined;
+   for (let i = 0; i < argv.length; i++) {
+     const a = argv[i]!;
+     if (a === name) { value = argv[i + 1]; i += 1; continue; }
+     if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+     out.push(a);
+   }
+   return { value, rest: out };
+ }
+ 
+ function ruleStatus(rule: RuleInfo): string | undefined {
+   if (rule.deprecated) return "deprecated";
+   if (!rule.implemented) return "not enforced";
+   return undefined;
+ }
+ 
+ function severityLabel(rule: RuleInfo, profile: ValidationProfile): string {
+   const setting = getProfileRuleSetting(profile, rule);
+   return setting === rule.severity ? rule.severity : `${rule.severity} -> ${setting}`;
+ }
+ 
+ export async function cmdRules(flags: GlobalFlags, argv: string[]): Promise<number> {
+   const profileOpt = takeOption(argv, "--profile");
+   const profileId = profileOpt.value ?? DEFAULT_VALIDATION_PROFILE;
+   let profile: ValidationProfile;
+   try {
+     profile = resolveValidationProfile(profileId);
+   } catch (err) {
+     if (err instanceof UnknownValidationProfileError) { writeError(flags, err.message); return EXIT_USAGE_ERROR; }
+     throw err;
+   }
+ 
+   const withSetting = (rule: RuleInfo) => ({ ...rule, profileSetting: getProfileRuleSetting(profile, rule) });
  
- export async function cmdRules(argv: string[]): Promise<number> {
-   const rid = argv[0];
+   const rid = profileOpt.rest[0];
    if (rid) {
      const rule = getRuleById(rid);
-     if (rule) writeHuman([`${rule.id}: ${rule.description}`, `Scope: ${rule.scope}`]);
+     if (!rule) { writeError(flags, `Unknown rule: ${rid}`); return EXIT_USAGE_ERROR; }
+     if (flags.json) { writeJson({ ok: true, profile: profileId, rule: withSetting(rule) }); return EXIT_SUCCESS; }
+     const status = ruleStatus(rule);
+     writeHuman([
+       `${rule.id}: ${rule.description}`,
+       `Scope: ${rule.scope}`,
+       ...(rule.appliesTo ? [`Applies to: ${rule.appliesTo}`] : []),
+       `Severity: ${severityLabel(rule, profile)} (profile: ${profileId})`,
+       ...(status ? [`Status: ${status}${rule.deprecatedReason ? ` - ${rule.deprecatedReason}` : ""}`] : []),
+     ]);
+     return EXIT_SUCCESS;
+   }
+ 
+   if (flags.json) {
+     writeJson({ ok: true, profile: profileId, rules: VALIDATION_RULES.map(withSetting) });
      return EXIT_SUCCESS;
    }
-   writeHuman(["Rules:", ...VALIDATION_RULES.map(r => `  ${r.id}: ${r.description}`)]);
+   writeHuman([
+     `Rules (profile: ${profileId}):`,
+     ...VALIDATION_RULES.map((r) => {
+       const status = ruleStatus(r);
+       return `  ${r.id} [${severityLabel(r, profile)}]: ${r.description}${status ? ` (${status})` : ""}`;
+     }),
+   ]);
    return EXIT_SUCCESS;
  }
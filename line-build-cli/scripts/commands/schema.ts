@@ -0,0 +1,74 @@
+import * as path from "node:path";
+import { atomicWriteFile } from "../lib/fileUtils";
+import {
+  buildLineBuildJsonSchema,
+  renderTypeScript,
+  UnknownSchemaTypeError,
+  type JsonSchemaDocument,
+} from "../lib/jsonSchema";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_USAGE_ERROR = 3;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+const FORMATS = ["json-schema", "ts"] as const;
+type SchemaFormat = (typeof FORMATS)[number];
+
+const USAGE = "usage: schema [--format json-schema|ts] [--type <TypeName>] [--out <file>]";
+
+export async function cmdSchema(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const formatOpt = takeOption(argv, "--format");
+  const typeOpt = takeOption(formatOpt.rest, "--type");
+  const outOpt = takeOption(typeOpt.rest, "--out");
+  if (outOpt.rest.length > 0) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  const format = (formatOpt.value ?? "json-schema") as SchemaFormat;
+  if (!FORMATS.includes(format)) {
+    writeError(flags, `Unknown --format: ${formatOpt.value} (expected ${FORMATS.join(" or ")})`);
+    return EXIT_USAGE_ERROR;
+  }
+  if (format === "ts" && typeOpt.value) {
+    writeError(flags, "--type applies to --format json-schema only");
+    return EXIT_USAGE_ERROR;
+  }
+
+  let doc: JsonSchemaDocument;
+  try {
+    doc = buildLineBuildJsonSchema({ root: typeOpt.value });
+  } catch (err) {
+    if (err instanceof UnknownSchemaTypeError) { writeError(flags, err.message); return EXIT_USAGE_ERROR; }
+    throw err;
+  }
+  const content = format === "ts" ? renderTypeScript(doc) : `${JSON.stringify(doc, null, 2)}\n`;
+
+  if (!outOpt.value) {
+    process.stdout.write(content);
+    return EXIT_SUCCESS;
+  }
+
+  const outPath = path.resolve(outOpt.value);
+  await atomicWriteFile(outPath, content);
+  const types = Object.keys(doc.$defs);
+  if (flags.json) writeJson({ ok: true, format, path: outPath, types });
+  else writeHuman([`Wrote ${format} (${types.length} types) to ${outPath}`]);
+  return EXIT_SUCCESS;
+}
@@ -1,5 +1,5 @@
  import { readBuild, listBuilds } from "../lib/store";
- import { runQuery } from "../lib/query";
+ import { QueryParseError, runQuery } from "../lib/query";
  import { searchNotes } from "../lib/searchNotes";
  import type { GlobalFlags } from "../lb";
  import type { BenchTopLineBuild } from "../lib/schema";
@@ -39,7 +39,14 @@
    const builds = await loadAllBuilds();
  
    if (whereOpt.value) {
-     const { matches } = runQuery({ builds, where: whereOpt.value });
+     let matches;
+     try {
+       ({ matches } = runQuery({ builds, where: whereOpt.value }));
+     } catch (err) {
+       if (!(err instanceof QueryParseError)) throw err;
+       writeError(flags, `Invalid --where: ${err.message}`);
+       return EXIT_USAGE_ERROR;
+     }
      if (flags.json) writeJson({ ok: true, matches });
      else writeHuman(matches.map(m => `${m.buildId} :: step=${m.stepId} :: ${m.label}`));
    } else if (notesOpt.value) {
@@ -0,0 +1,68 @@
+import * as path from "node:path";
+import { DATA_ROOT_ABS } from "../lib/store";
+import { UndoConflictError, undoRedo, type UndoDirection } from "../lib/undo";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_NOTHING_TO_UNDO = 1;
+const EXIT_USAGE_ERROR = 3;
+const EXIT_CONFLICT = 4;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+async function run(direction: UndoDirection, flags: GlobalFlags, argv: string[]): Promise<number> {
+  const stepsOpt = takeOption(argv, "--steps");
+  const steps = stepsOpt.value === undefined ? 1 : Number(stepsOpt.value);
+  if (!Number.isInteger(steps) || steps < 1 || stepsOpt.rest.length > 1 || stepsOpt.rest[0]?.startsWith("--")) {
+    writeError(flags, `usage: ${direction} [<buildId>] [--steps <n>]`);
+    return EXIT_USAGE_ERROR;
+  }
+  const buildId = stepsOpt.rest[0];
+
+  const { results, error } = await undoRedo(direction, { buildId, steps });
+  const code = error instanceof UndoConflictError ? EXIT_CONFLICT : error && results.length === 0 ? EXIT_NOTHING_TO_UNDO : EXIT_SUCCESS;
+
+  if (flags.json) {
+    writeJson({
+      ok: code === EXIT_SUCCESS,
+      [direction === "undo" ? "undone" : "redone"]: results.map((r) => ({
+        ...r.target,
+        buildIds: r.buildIds,
+        receiptPath: path.relative(DATA_ROOT_ABS, r.receiptPathAbs),
+      })),
+      ...(error ? { error: { message: error.message, conflict: error instanceof UndoConflictError } } : {}),
+    });
+    return code;
+  }
+
+  const verb = direction === "undo" ? "Undid" : "Redid";
+  const lines = results.map((r) => `${verb} ${r.target.command} (${r.target.timestamp}) on ${r.buildIds.join(", ")}`);
+  if (lines.length > 0) writeHuman(lines);
+  if (error) process.stderr.write(error.message + "\n");
+  return code;
+}
+
+export async function cmdUndo(flags: GlobalFlags, argv: string[]): Promise<number> {
+  return await run("undo", flags, argv);
+}
+
+export async function cmdRedo(flags: GlobalFlags, argv: string[]): Promise<number> {
+  return await run("redo", flags, argv);
+}
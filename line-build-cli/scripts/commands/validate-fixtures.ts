@@ -0,0 +1,128 @@
+import * as path from "node:path";
+import {
+  FixtureScaffoldError,
+  fixtureRuleCoverage,
+  scaffoldFixture,
+  validateFixtures,
+  writeFixtureScaffold,
+  type FixtureCoverageReport,
+  type FixtureScaffold,
+  type FixtureValidationReport,
+} from "../lib/fixtures";
+import { DATA_ROOT_ABS } from "../lib/store";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_VALIDATION_FAILED = 2;
+const EXIT_USAGE_ERROR = 3;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function hasFlag(argv: string[], name: string): { present: boolean; rest: string[] } {
+  const rest = argv.filter((a) => a !== name);
+  return { present: rest.length !== argv.length, rest };
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+function formatFixtureReport(res: FixtureValidationReport): string[] {
+  const lines = [`Fixtures: ${res.fixtureCount}, Passed: ${res.passed}, Failed: ${res.failed}`];
+  for (const row of res.rows.filter((r) => !r.ok)) {
+    lines.push(`  FAIL ${row.fileName}`);
+    for (const note of row.mismatches ?? [row.notes ?? "failed"]) lines.push(`    ${note}`);
+  }
+  return lines;
+}
+
+function formatCoverageReport(coverage: FixtureCoverageReport): string[] {
+  const covered = coverage.rules.length - coverage.uncovered.length;
+  const lines = [
+    "",
+    `Rule coverage: ${covered}/${coverage.rules.length} rules have a fixture (${coverage.excluded.length} not fixture-testable)`,
+  ];
+  const list = (label: string, ids: string[]) => {
+    if (ids.length > 0) lines.push(`  ${label} (${ids.length}): ${ids.join(", ")}`);
+  };
+  list("No fixture", coverage.uncovered);
+  list("Positive only", coverage.positiveOnly);
+  list("Negative only", coverage.negativeOnly);
+  if (coverage.uncovered.length > 0) lines.push("", "Scaffold one with: lb validate-fixtures scaffold <ruleId>");
+  return lines;
+}
+
+async function runScaffold(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const nameOpt = takeOption(argv, "--name");
+  const dryRunFlag = hasFlag(nameOpt.rest, "--dry-run");
+  const ruleId = dryRunFlag.rest[0];
+  if (!ruleId || dryRunFlag.rest.length > 1) {
+    writeError(flags, "usage: validate-fixtures scaffold <ruleId> [--name <fixture>] [--dry-run]");
+    return EXIT_USAGE_ERROR;
+  }
+
+  let scaffold: FixtureScaffold;
+  let written: { fixturePathAbs: string; expectationPathAbs: string } | undefined;
+  try {
+    scaffold = scaffoldFixture(ruleId, nameOpt.value);
+    if (!dryRunFlag.present) written = await writeFixtureScaffold(scaffold);
+  } catch (err) {
+    if (err instanceof FixtureScaffoldError) { writeError(flags, err.message); return EXIT_USAGE_ERROR; }
+    throw err;
+  }
+
+  const rel = (p: string) => path.relative(DATA_ROOT_ABS, p);
+  if (flags.json) {
+    writeJson({
+      ok: true,
+      ruleId,
+      fileName: scaffold.fileName,
+      triggersRule: scaffold.triggersRule,
+      written: written ? { fixture: rel(written.fixturePathAbs), expectation: rel(written.expectationPathAbs) } : undefined,
+      build: dryRunFlag.present ? scaffold.build : undefined,
+      expectation: scaffold.expectation,
+    });
+    return EXIT_SUCCESS;
+  }
+
+  const lines = written
+    ? [`Wrote ${rel(written.fixturePathAbs)} and ${rel(written.expectationPathAbs)}`]
+    : [`Dry run: would write fixtures/${scaffold.fileName}`];
+  lines.push(
+    scaffold.triggersRule
+      ? `${ruleId} fires (${scaffold.expectation.description})`
+      : `${ruleId} does not fire yet: edit fixtures/${scaffold.fileName} until it does (the sidecar already expects it).`,
+  );
+  writeHuman(lines);
+  return EXIT_SUCCESS;
+}
+
+export async function cmdValidateFixtures(flags: GlobalFlags, argv: string[]): Promise<number> {
+  if (argv[0] === "scaffold") return await runScaffold(flags, argv.slice(1));
+
+  const coverageFlag = hasFlag(argv, "--coverage");
+  if (coverageFlag.rest.length > 0) {
+    writeError(flags, "usage: validate-fixtures [--coverage] | validate-fixtures scaffold <ruleId> [--name <fixture>] [--dry-run]");
+    return EXIT_USAGE_ERROR;
+  }
+
+  const res = await validateFixtures();
+  const coverage = coverageFlag.present ? await fixtureRuleCoverage() : undefined;
+
+  if (flags.json) writeJson(coverage ? { ...res, coverage } : res);
+  else writeHuman([...formatFixtureReport(res), ...(coverage ? formatCoverageReport(coverage) : [])]);
+  return res.ok ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
+}
@@ -1,17 +1,39 @@
-import { readBuild, readBom, listBuilds, BUILDS_DIR_ABS } from "../lib/store";
-import { validateBuild, type BuildValidationResult } from "../lib/validate";
+import { isWriteConflict, readBuild, readBuildForUpdate, readBom, listBuilds, listBuildIds, listBuildSnapshotVersions, readBuildSnapshot, reopenPublishedBuild, writeBuildWithImage, BUILDS_DIR_ABS } from "../lib/store";
+import {
+  validateBuildIncremental,
+  validateHdrFeasibility,
+  validatePortfolio,
+  resolveValidationProfile,
+  createValidationCache,
+  formatRuleTimings,
+  mergeRuleTimings,
+  UnknownValidationProfileError,
+  type BuildValidationResult,
+  type HdrFeasibilityResult,
+  type PortfolioFinding,
+  type PortfolioValidationResult,
+  type RuleTiming,
+  type ValidateBuildOptions,
+} from "../lib/validate";
 import { buildGapsFromValidation } from "../lib/query";
-import { writeValidationOutput } from "../lib/validationOutput";
-import { parseBuild, type BenchTopLineBuild } from "../lib/schema";
+import { writePortfolioValidationOutput, writeValidationOutput } from "../lib/validationOutput";
+import { type BenchTopLineBuild } from "../lib/schema";
+import { parseAnyBuildVersion } from "../lib/migrations";
 import type { GlobalFlags } from "../lb";
+import { DEFAULT_VALIDATION_PROFILE } from "../../config";
 import { getFixHint } from "../lib/fixHints";
 import { generateSuggestions, type Suggestion } from "../lib/suggestOps";
+import { autoFixBuild, getFixedErrors, type AutoFixResult } from "../lib/autoFix";
+import { writeReceipt } from "../lib/receipts";
+import { buildSarifLog, renderJUnitXml, type ValidationReportEntry } from "../lib/validationReports";
+import { listHdrConfigIds, loadHdrConfig } from "../lib/hdrConfig";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 
 const EXIT_SUCCESS = 0;
 const EXIT_VALIDATION_FAILED = 2;
 const EXIT_USAGE_ERROR = 3;
+const EXIT_CONFLICT = 4;
 
 function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
 function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
@@ -55,15 +77,19 @@ type SingleBuildResult = {
   infoCount: number;
   validation: BuildValidationResult;
   suggestions?: Suggestion[];
+  ruleTimings?: RuleTiming[];
 };
 
+type ValidateRunOptions = Pick<ValidateBuildOptions, "ignoreOverrides" | "profile">;
+
 async function validateSingleBuild(
   buildId: string,
-  includeOps: boolean
+  includeOps: boolean,
+  runOpts: ValidateRunOptions = {}
 ): Promise<SingleBuildResult> {
   const build = await readBuild(buildId);
   const bom = await readBom(build.itemId);
-  const validation = validateBuild(build, { bom });
+  const { validation, ruleTimings } = validateBuildIncremental(build, createValidationCache(), { bom, ...runOpts });
   await writeValidationOutput(build, validation);
 
   const result: SingleBuildResult = {
@@ -75,6 +101,7 @@ async function validateSingleBuild(
     warningCount: validation.warnings.length,
     infoCount: validation.infos.length,
     validation,
+    ruleTimings,
   };
 
   if (includeOps) {
@@ -128,24 +155,87 @@ export async function cmdValidate(flags: GlobalFlags, argv: string[]): Promise<n
   const allFlag = hasFlag(gapsFlag.rest, "--all");
   const summaryFlag = hasFlag(allFlag.rest, "--summary");
   const opsFlag = hasFlag(summaryFlag.rest, "--ops");
-  const changedOpt = takeOption(opsFlag.rest, "--changed");
+  const ignoreOverridesFlag = hasFlag(opsFlag.rest, "--ignore-overrides");
+  const fixFlag = hasFlag(ignoreOverridesFlag.rest, "--fix");
+  const applyFlag = hasFlag(fixFlag.rest, "--apply");
+  const portfolioFlag = hasFlag(applyFlag.rest, "--portfolio");
+  const profileRulesFlag = hasFlag(portfolioFlag.rest, "--profile-rules");
+  const changedOpt = takeOption(profileRulesFlag.rest, "--changed");
   const itemOpt = takeOption(changedOpt.rest, "--item");
-  const buildId = itemOpt.rest[0];
+  const profileOpt = takeOption(itemOpt.rest, "--profile");
+  const formatOpt = takeOption(profileOpt.rest, "--format");
+  const hdrOpt = takeOption(formatOpt.rest, "--hdr");
+  const ifMatchOpt = takeOption(hdrOpt.rest, "--if-match");
+  const buildId = ifMatchOpt.rest[0];
+
+  const format = formatOpt.value as ReportFormat | undefined;
+  if (format !== undefined && !REPORT_FORMATS.includes(format)) {
+    writeError(flags, `Unknown --format: ${formatOpt.value} (expected ${REPORT_FORMATS.join(" or ")})`);
+    return EXIT_USAGE_ERROR;
+  }
 
   const changedMinutes = changedOpt.value ? parseInt(changedOpt.value, 10) : undefined;
 
+  try {
+    resolveValidationProfile(profileOpt.value);
+  } catch (err) {
+    if (err instanceof UnknownValidationProfileError) { writeError(flags, err.message); return EXIT_USAGE_ERROR; }
+    throw err;
+  }
+  const runOpts: ValidateRunOptions = { ignoreOverrides: ignoreOverridesFlag.present, profile: profileOpt.value };
+
+  // Rule timings are part of the default report only.
+  if (profileRulesFlag.present && (portfolioFlag.present || hdrOpt.value !== undefined || fixFlag.present || applyFlag.present || gapsFlag.present || format)) {
+    writeError(flags, "--profile-rules cannot be combined with --portfolio, --hdr, --fix, --gaps or --format");
+    return EXIT_USAGE_ERROR;
+  }
+  const profileRules = profileRulesFlag.present;
+
+  if (portfolioFlag.present) {
+    if (buildId || stdinFlag.present || fixFlag.present || applyFlag.present || allFlag.present || changedMinutes !== undefined || format) {
+      writeError(flags, "usage: validate --portfolio [--profile <id>]");
+      return EXIT_USAGE_ERROR;
+    }
+    return await runPortfolioValidation(flags, profileOpt.value);
+  }
+
+  if (hdrOpt.value !== undefined) {
+    if (stdinFlag.present || fixFlag.present || applyFlag.present || format || (!buildId && !allFlag.present && changedMinutes === undefined)) {
+      writeError(flags, "usage: validate <buildId>|--all|--changed <minutes> --hdr <configId|all> [--item <itemId>] [--profile <id>] [--ignore-overrides]");
+      return EXIT_USAGE_ERROR;
+    }
+    const known = listHdrConfigIds();
+    if (hdrOpt.value !== "all" && !known.includes(hdrOpt.value)) {
+      writeError(flags, `Unknown HDR config: ${hdrOpt.value} (known: ${known.join(", ")}, or all)`);
+      return EXIT_USAGE_ERROR;
+    }
+    const buildIds = await getBuildsToValidate({ all: allFlag.present, changedMinutes, itemId: itemOpt.value, buildId });
+    return await runHdrFeasibility(flags, buildIds, hdrOpt.value === "all" ? known : [hdrOpt.value], runOpts);
+  }
+
+  if (fixFlag.present || applyFlag.present || ifMatchOpt.value !== undefined) {
+    if (!fixFlag.present || !buildId || stdinFlag.present || allFlag.present || changedMinutes !== undefined || format) {
+      writeError(flags, "usage: validate <buildId> --fix [--apply] [--if-match <hash>] [--profile <id>] [--ignore-overrides]");
+      return EXIT_USAGE_ERROR;
+    }
+    return await runAutoFix(flags, buildId, applyFlag.present, runOpts, ifMatchOpt.value);
+  }
+
   if (stdinFlag.present) {
-    const build = parseBuild(JSON.parse(await readStdin()));
+    const raw = JSON.parse(await readStdin()) as unknown;
+    const build = parseAnyBuildVersion(raw);
     const bom = await readBom(build.itemId);
-    const validation = validateBuild(build, { bom });
+    const { validation, ruleTimings } = validateBuildIncremental(build, createValidationCache(), { bom, ...runOpts });
     await writeValidationOutput(build, validation);
 
-    if (gapsFlag.present) {
+    if (format) {
+      writeReport(format, [{ buildId: build.id, uri: "stdin", document: raw, validation }]);
+    } else if (gapsFlag.present) {
       const gaps = buildGapsFromValidation(build, validation);
       if (flags.json) writeJson({ ok: true, gaps });
       else writeHuman(gaps.map(g => `[${g.ruleId}] ${g.message}`));
     } else {
-      outputSingleValidation(flags, build, validation, opsFlag.present);
+      outputSingleValidation(flags, build, validation, opsFlag.present, undefined, profileRules ? ruleTimings : undefined);
     }
     return validation.valid ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
   }
@@ -153,7 +243,7 @@ export async function cmdValidate(flags: GlobalFlags, argv: string[]): Promise<n
   const isBatchMode = allFlag.present || changedMinutes !== undefined;
 
   if (!isBatchMode && !buildId) {
-    writeError(flags, "usage: validate <buildId> [--stdin] [--gaps] [--ops] [--all] [--changed <minutes>] [--summary] [--item <itemId>]");
+    writeError(flags, "usage: validate <buildId> [--stdin] [--gaps] [--ops] [--ignore-overrides] [--profile draft|publish|strict] [--fix [--apply]] [--format sarif|junit] [--all] [--changed <minutes>] [--summary] [--item <itemId>] [--hdr <configId|all>] [--profile-rules] | validate --portfolio [--profile <id>]");
     return EXIT_USAGE_ERROR;
   }
 
@@ -164,30 +254,331 @@ export async function cmdValidate(flags: GlobalFlags, argv: string[]): Promise<n
       itemId: itemOpt.value,
       summary: summaryFlag.present,
       includeOps: opsFlag.present,
+      runOpts,
+      format,
+      profileRules,
     });
   }
 
-  const result = await validateSingleBuild(buildId!, opsFlag.present);
+  const result = await validateSingleBuild(buildId!, opsFlag.present, runOpts);
 
-  if (gapsFlag.present) {
+  if (format) {
+    writeReport(format, [await reportEntry(result.buildId, result.validation)]);
+  } else if (gapsFlag.present) {
     const build = await readBuild(buildId!);
     const gaps = buildGapsFromValidation(build, result.validation);
     if (flags.json) writeJson({ ok: true, gaps });
     else writeHuman(gaps.map(g => `[${g.ruleId}] ${g.message}`));
   } else {
     const build = await readBuild(buildId!);
-    outputSingleValidation(flags, build, result.validation, opsFlag.present, result.suggestions);
+    outputSingleValidation(flags, build, result.validation, opsFlag.present, result.suggestions, profileRules ? result.ruleTimings : undefined);
   }
 
   return result.valid ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
 }
 
+const REPORT_FORMATS = ["sarif", "junit"] as const;
+type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** Report entry for a stored build; pointers/lines resolve against the file on disk. */
+async function reportEntry(buildId: string, validation: BuildValidationResult): Promise<ValidationReportEntry> {
+  const filePath = path.join(BUILDS_DIR_ABS, `${buildId}.json`);
+  const uri = path.relative(process.cwd(), filePath).split(path.sep).join("/");
+  try {
+    const fileText = await fs.readFile(filePath, "utf8");
+    return { buildId, uri, document: JSON.parse(fileText) as unknown, fileText, validation };
+  } catch {
+    // Unreadable file (LOAD_ERROR in batch mode): report without locations.
+    return { buildId, uri, document: null, validation };
+  }
+}
+
+function writeReport(format: ReportFormat, entries: ValidationReportEntry[]) {
+  if (format === "sarif") writeJson(buildSarifLog(entries));
+  else process.stdout.write(renderJUnitXml(entries));
+}
+
+type HdrMatrixRow = {
+  buildId: string;
+  itemId: string;
+  name?: string;
+  results: Record<string, HdrFeasibilityResult>;
+};
+
+/**
+ * HDR feasibility matrix: F rules for each build against each HDR config.
+ * Fails (exit 2) when any build cannot run in any of the requested configs.
+ */
+async function runHdrFeasibility(
+  flags: GlobalFlags,
+  buildIds: string[],
+  hdrIds: string[],
+  runOpts: ValidateRunOptions
+): Promise<number> {
+  const configs = hdrIds.map((id) => loadHdrConfig(id));
+  const rows: HdrMatrixRow[] = [];
+  for (const id of buildIds) {
+    const build = await readBuild(id);
+    const results: Record<string, HdrFeasibilityResult> = {};
+    for (const [i, config] of configs.entries()) {
+      results[hdrIds[i]!] = validateHdrFeasibility(build, config, runOpts);
+    }
+    rows.push({ buildId: build.id, itemId: build.itemId, name: build.name, results });
+  }
+
+  const infeasible = rows.flatMap((r) =>
+    hdrIds.filter((h) => !r.results[h]!.valid).map((hdrId) => ({ buildId: r.buildId, hdrId }))
+  );
+
+  if (flags.json) {
+    writeJson({
+      ok: true,
+      profile: runOpts.profile ?? DEFAULT_VALIDATION_PROFILE,
+      hdrConfigs: hdrIds,
+      feasible: infeasible.length === 0,
+      infeasible,
+      builds: rows.map((r) => ({
+        buildId: r.buildId,
+        itemId: r.itemId,
+        name: r.name,
+        results: Object.fromEntries(
+          hdrIds.map((h) => {
+            const v = r.results[h]!;
+            return [h, { feasible: v.valid, hardErrors: v.hardErrors, warnings: v.warnings, suppressed: v.suppressed }];
+          })
+        ),
+      })),
+    });
+  } else {
+    writeHuman(formatHdrMatrix(rows, hdrIds));
+  }
+  return infeasible.length > 0 ? EXIT_VALIDATION_FAILED : EXIT_SUCCESS;
+}
+
+function hdrCell(result: HdrFeasibilityResult): string {
+  if (!result.valid) return `BLOCKED (${result.hardErrors.length})`;
+  return result.warnings.length > 0 ? `ok, ${result.warnings.length} warn` : "ok";
+}
+
+function formatHdrMatrix(rows: HdrMatrixRow[], hdrIds: string[]): string[] {
+  if (rows.length === 0) return ["No builds to check."];
+  const header = ["build", ...hdrIds];
+  const table = rows.map((r) => [r.buildId, ...hdrIds.map((h) => hdrCell(r.results[h]!))]);
+  const widths = header.map((h, col) => Math.max(h.length, ...table.map((cells) => cells[col]!.length)));
+  const line = (cells: string[]) => cells.map((c, col) => c.padEnd(widths[col]!)).join("  ").trimEnd();
+
+  const lines = [`HDR feasibility: ${rows.length} build(s) x ${hdrIds.length} config(s)`, "", line(header), ...table.map(line)];
+  for (const r of rows) {
+    for (const h of hdrIds) {
+      const v = r.results[h]!;
+      const findings = [...v.hardErrors, ...v.warnings];
+      if (findings.length === 0) continue;
+      lines.push("", `${r.buildId} @ ${h}:`);
+      for (const f of findings) {
+        const stepRef = f.stepId ? ` (${f.stepId})` : "";
+        lines.push(`  [${f.ruleId}]${stepRef} ${f.message}`);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Cross-build validation: every build on disk plus its published snapshots
+ * (data/history), P rules only. Files that fail to load are listed and left
+ * out of the portfolio.
+ */
+async function runPortfolioValidation(flags: GlobalFlags, profile: string | undefined): Promise<number> {
+  const builds: BenchTopLineBuild[] = [];
+  const snapshots: BenchTopLineBuild[] = [];
+  const loadErrors: Array<{ buildId: string; message: string }> = [];
+  for (const id of await listBuildIds()) {
+    try {
+      builds.push(await readBuild(id));
+    } catch (err) {
+      loadErrors.push({ buildId: id, message: (err as Error).message });
+    }
+  }
+  for (const s of await listBuildSnapshotVersions()) {
+    try {
+      snapshots.push(await readBuildSnapshot(s.buildId, s.version));
+    } catch (err) {
+      loadErrors.push({ buildId: `${s.buildId}@${s.version}`, message: (err as Error).message });
+    }
+  }
+
+  const result = validatePortfolio(builds, { profile, snapshots });
+  const { filePathAbs } = await writePortfolioValidationOutput(result);
+
+  if (flags.json) {
+    const withHint = (e: PortfolioFinding) => ({ ...e, fixHint: getFixHint(e.ruleId) });
+    writeJson({
+      ok: true,
+      validation: { ...result, hardErrors: result.hardErrors.map(withHint), warnings: result.warnings.map(withHint) },
+      loadErrors,
+      outputPath: filePathAbs,
+    });
+  } else {
+    writeHuman(formatPortfolioReport(result, loadErrors));
+  }
+  return result.valid ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
+}
+
+function formatPortfolioReport(
+  result: PortfolioValidationResult,
+  loadErrors: Array<{ buildId: string; message: string }>,
+): string[] {
+  const lines = [
+    `Portfolio: ${result.buildCount} build(s)`,
+    `Valid: ${result.valid}`,
+    ...(result.profile ? [`Profile: ${result.profile}`] : []),
+    `Errors: ${result.hardErrors.length}`,
+    `Warnings: ${result.warnings.length}`,
+  ];
+  const section = (title: string, findings: PortfolioFinding[]) => {
+    if (findings.length === 0) return;
+    lines.push("", `${title}:`);
+    for (const f of findings) {
+      const where = f.buildId ? ` (${f.buildId}${f.stepId ? `/${f.stepId}` : ""})` : "";
+      lines.push(`  [${f.ruleId}]${where} ${f.message}`);
+      const hint = getFixHint(f.ruleId);
+      if (hint) lines.push(`    -> Fix: ${hint}`);
+    }
+  };
+  section("Errors", result.hardErrors);
+  section("Warnings", result.warnings);
+  if (loadErrors.length > 0) {
+    lines.push("", "Not loaded (excluded from the portfolio):");
+    for (const e of loadErrors) lines.push(`  ${e.buildId}: ${e.message}`);
+  }
+  return lines;
+}
+
+async function runAutoFix(
+  flags: GlobalFlags,
+  buildId: string,
+  apply: boolean,
+  runOpts: ValidateRunOptions,
+  ifMatch?: string
+): Promise<number> {
+  let read;
+  try {
+    read = await readBuildForUpdate(buildId, ifMatch);
+  } catch (err) {
+    if (!isWriteConflict(err)) throw err;
+    writeError(flags, err.message);
+    return EXIT_CONFLICT;
+  }
+  const { build, hash } = read;
+  const bom = await readBom(build.itemId);
+  const result = autoFixBuild(build, { bom, ...runOpts });
+  const fixed = getFixedErrors(result);
+
+  let path: string | undefined;
+  let receiptPath: string | undefined;
+  if (apply && result.changed) {
+    // A fixed published version is written as a draft of the next one (see reopenPublished).
+    if ((await reopenPublishedBuild(result.build)).status === "published" && !result.after.valid) {
+      writeError(flags, `Publish blocked after fix: ${result.after.hardErrors[0]?.message}`);
+      return EXIT_VALIDATION_FAILED;
+    }
+    let written;
+    try {
+      written = await writeBuildWithImage(result.build, { ifMatch: hash });
+    } catch (err) {
+      if (!isWriteConflict(err)) throw err;
+      writeError(flags, `Fix not applied: ${err.message}`);
+      return EXIT_CONFLICT;
+    }
+    path = written.path;
+    await writeValidationOutput(result.build, result.after);
+    const receipt = await writeReceipt({
+      command: "validate-fix",
+      inputs: { buildId, profile: result.after.profile, ignoreOverrides: runOpts.ignoreOverrides ?? false },
+      outputs: {
+        path,
+        iterations: result.iterations,
+        stopReason: result.stopReason,
+        ops: result.applied,
+        skipped: result.skipped,
+        before: { valid: result.before.valid, errors: result.before.hardErrors.length, warnings: result.before.warnings.length },
+        after: { valid: result.after.valid, errors: result.after.hardErrors.length, warnings: result.after.warnings.length },
+        fixed: fixed.map((e) => ({ ruleId: e.ruleId, stepId: e.stepId, message: e.message })),
+      },
+      touchedFiles: [path],
+      builds: [written.image],
+    });
+    receiptPath = receipt.filePathAbs;
+  }
+
+  if (flags.json) {
+    writeJson({
+      ok: true,
+      dryRun: !apply,
+      buildId,
+      iterations: result.iterations,
+      stopReason: result.stopReason,
+      applied: result.applied,
+      skipped: result.skipped,
+      fixed,
+      before: result.before,
+      after: result.after,
+      ...(apply ? { path, receiptPath } : { build: result.build }),
+    });
+  } else {
+    writeHuman(formatAutoFixReport(result, fixed, apply, path));
+  }
+  return result.after.valid ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
+}
+
+function formatAutoFixReport(
+  result: AutoFixResult,
+  fixed: BuildValidationResult["hardErrors"],
+  apply: boolean,
+  path: string | undefined
+): string[] {
+  const stepRef = (stepId?: string) => (stepId ? ` (${stepId})` : "");
+  const lines = [
+    `Auto-fix${apply ? "" : " (dry run)"}: ${result.applied.length} op(s) in ${result.iterations} iteration(s), stopped: ${result.stopReason}`,
+    `Valid: ${result.before.valid} -> ${result.after.valid}`,
+    `Errors: ${result.before.hardErrors.length} -> ${result.after.hardErrors.length}`,
+    `Warnings: ${result.before.warnings.length} -> ${result.after.warnings.length}`,
+  ];
+  if (result.applied.length > 0) {
+    lines.push("", "Applied:");
+    for (const fix of result.applied) {
+      lines.push(`  ${fix.iteration}. [${fix.ruleId}]${stepRef(fix.stepId)} ${JSON.stringify(fix.op)}`);
+    }
+  }
+  if (fixed.length > 0) {
+    lines.push("", "Fixed:");
+    for (const err of fixed) lines.push(`  [${err.ruleId}]${stepRef(err.stepId)} ${err.message}`);
+  }
+  if (result.after.hardErrors.length > 0) {
+    lines.push("", "Remaining errors:");
+    for (const err of result.after.hardErrors) {
+      const hint = getFixHint(err.ruleId);
+      lines.push(`  [${err.ruleId}]${stepRef(err.stepId)} ${err.message}`);
+      if (hint) lines.push(`    -> Fix: ${hint}`);
+    }
+  }
+  if (result.skipped.length > 0) {
+    lines.push("", "Skipped:");
+    for (const fix of result.skipped) lines.push(`  [${fix.ruleId}]${stepRef(fix.stepId)} ${fix.reason}`);
+  }
+  lines.push("");
+  if (!apply) lines.push(result.changed ? "Dry run. Use --fix --apply to write the repaired build." : "Nothing to fix.");
+  else lines.push(path ? `Updated ${result.build.id} at ${path}` : "Nothing to fix; build unchanged.");
+  return lines;
+}
+
 function outputSingleValidation(
   flags: GlobalFlags,
   build: BenchTopLineBuild,
   validation: BuildValidationResult,
   includeOps: boolean,
-  suggestions?: Suggestion[]
+  suggestions?: Suggestion[],
+  ruleTimings?: RuleTiming[]
 ) {
   if (flags.json) {
     const enrichedValidation = {
@@ -201,14 +592,20 @@ function outputSingleValidation(
     if (includeOps && suggestions) {
       output.suggestions = suggestions;
     }
+    if (ruleTimings) output.ruleTimings = ruleTimings;
     writeJson(output);
   } else {
     const lines = [
       `Valid: ${validation.valid}`,
+      ...(validation.profile ? [`Profile: ${validation.profile}`] : []),
       `Errors: ${validation.hardErrors.length}`,
       `Warnings: ${validation.warnings.length}`,
       `Infos: ${validation.infos.length}`,
     ];
+    const suppressed = validation.suppressed ?? [];
+    if (suppressed.length > 0) lines.push(`Suppressed by overrides: ${suppressed.length}`);
+    const unusedOverrideIds = validation.unusedOverrideIds ?? [];
+    if (unusedOverrideIds.length > 0) lines.push(`Stale overrides: ${unusedOverrideIds.length}`);
     if (validation.hardErrors.length > 0) {
       lines.push("");
       lines.push("Errors:");
@@ -221,6 +618,22 @@ function outputSingleValidation(
         }
       }
     }
+    if (suppressed.length > 0) {
+      lines.push("");
+      lines.push("Suppressed:");
+      for (const s of suppressed) {
+        const stepRef = s.stepId ? ` (${s.stepId})` : "";
+        lines.push(`  [${s.ruleId}]${stepRef} ${s.message} -- override ${s.overrideId}: ${s.reason}`);
+      }
+    }
+    if (unusedOverrideIds.length > 0) {
+      lines.push("");
+      lines.push(`Stale overrides (approved, matched no finding; lb override revoke ${build.id} <overrideId>):`);
+      for (const o of (build.validationOverrides ?? []).filter((o) => unusedOverrideIds.includes(o.id))) {
+        const stepRef = o.stepId ? ` (${o.stepId})` : "";
+        lines.push(`  ${o.id} [${o.ruleId}]${stepRef} ${o.reason}`);
+      }
+    }
     if (includeOps && suggestions) {
       const autoFixable = suggestions.filter(s => s.candidateOp);
       if (autoFixable.length > 0) {
@@ -231,6 +644,7 @@ function outputSingleValidation(
         }
       }
     }
+    if (ruleTimings) lines.push("", ...formatRuleTimings(ruleTimings));
     writeHuman(lines);
   }
 }
@@ -243,6 +657,9 @@ async function runBatchValidation(
     itemId?: string;
     summary: boolean;
     includeOps: boolean;
+    runOpts: ValidateRunOptions;
+    format?: ReportFormat;
+    profileRules?: boolean;
   }
 ): Promise<number> {
   const buildIds = await getBuildsToValidate({
@@ -251,6 +668,10 @@ async function runBatchValidation(
     itemId: opts.itemId,
   });
 
+  if (buildIds.length === 0 && opts.format) {
+    writeReport(opts.format, []);
+    return EXIT_SUCCESS;
+  }
   if (buildIds.length === 0) {
     if (flags.json) writeJson({ ok: true, totalBuilds: 0, validCount: 0, invalidCount: 0, results: [] });
     else writeHuman(["No builds to validate."]);
@@ -260,7 +681,7 @@ async function runBatchValidation(
   const results: SingleBuildResult[] = [];
   for (const id of buildIds) {
     try {
-      results.push(await validateSingleBuild(id, opts.includeOps));
+      results.push(await validateSingleBuild(id, opts.includeOps, opts.runOpts));
     } catch (err) {
       results.push({
         buildId: id,
@@ -281,11 +702,16 @@ async function runBatchValidation(
 
   const validCount = results.filter(r => r.valid).length;
   const invalidCount = results.length - validCount;
-
-  if (opts.summary) {
-    outputSummary(flags, results, validCount, invalidCount);
+  const ruleTimings = opts.profileRules ? mergeRuleTimings(results.map(r => r.ruleTimings ?? [])) : undefined;
+
+  if (opts.format) {
+    const entries: ValidationReportEntry[] = [];
+    for (const r of results) entries.push(await reportEntry(r.buildId, r.validation));
+    writeReport(opts.format, entries);
+  } else if (opts.summary) {
+    outputSummary(flags, results, validCount, invalidCount, ruleTimings);
   } else {
-    outputBatchResults(flags, results, validCount, invalidCount, opts.includeOps);
+    outputBatchResults(flags, results, validCount, invalidCount, opts.includeOps, ruleTimings);
   }
 
   return invalidCount > 0 ? EXIT_VALIDATION_FAILED : EXIT_SUCCESS;
@@ -295,7 +721,8 @@ function outputSummary(
   flags: GlobalFlags,
   results: SingleBuildResult[],
   validCount: number,
-  invalidCount: number
+  invalidCount: number,
+  ruleTimings?: RuleTiming[]
 ) {
   const totalErrors = results.reduce((sum, r) => sum + r.errorCount, 0);
   const ruleCounts = new Map<string, number>();
@@ -325,6 +752,7 @@ function outputSummary(
       topRules,
       worstBuilds,
       scannedAt: new Date().toISOString(),
+      ...(ruleTimings ? { ruleTimings } : {}),
     });
   } else {
     const pct = results.length > 0 ? Math.round((invalidCount / results.length) * 100) : 0;
@@ -345,6 +773,7 @@ function outputSummary(
         lines.push(`  ${name || buildId}: ${errorCount} error(s)`);
       }
     }
+    if (ruleTimings) lines.push("", ...formatRuleTimings(ruleTimings));
     writeHuman(lines);
   }
 }
@@ -354,7 +783,8 @@ function outputBatchResults(
   results: SingleBuildResult[],
   validCount: number,
   invalidCount: number,
-  _includeOps: boolean
+  _includeOps: boolean,
+  ruleTimings?: RuleTiming[]
 ) {
   if (flags.json) {
     writeJson({
@@ -370,6 +800,7 @@ function outputBatchResults(
         errorCount: r.errorCount,
         warningCount: r.warningCount,
         infoCount: r.infoCount,
+        suppressedCount: r.validation.suppressed?.length ?? 0,
         topErrors: r.validation.hardErrors.slice(0, 3).map(e => ({
           ruleId: e.ruleId,
           message: e.message,
@@ -377,6 +808,7 @@ function outputBatchResults(
         })),
         suggestions: r.suggestions,
       })),
+      ...(ruleTimings ? { ruleTimings } : {}),
     });
   } else {
     const lines = [`Validated ${results.length} builds: ${validCount} valid, ${invalidCount} invalid`];
@@ -389,6 +821,7 @@ function outputBatchResults(
         lines.push(`  ${r.name || r.buildId}: ${r.errorCount} error(s) (${ruleIds})`);
       }
     }
+    if (ruleTimings) lines.push("", ...formatRuleTimings(ruleTimings));
     writeHuman(lines);
   }
 }
@@ -0,0 +1,97 @@
+import { readBuild, readBom } from "../lib/store";
+import { buildVariantMatrix, DEFAULT_VARIANT_LIMIT, type VariantResult } from "../lib/variants";
+import { ScenarioError } from "../lib/resolve";
+import type { GlobalFlags } from "../lb";
+
+const EXIT_SUCCESS = 0;
+const EXIT_VALIDATION_FAILED = 2;
+const EXIT_USAGE_ERROR = 3;
+
+function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
+function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
+function writeError(flags: GlobalFlags, message: string) {
+  if (flags.json) writeJson({ ok: false, error: { message } });
+  else process.stderr.write(message + "\n");
+}
+
+function takeOption(argv: string[], name: string): { value: string | undefined; rest: string[] } {
+  const out: string[] = [];
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === name) { value = argv[i + 1]; i += 1; continue; }
+    if (a.startsWith(`${name}=`)) { value = a.slice(name.length + 1); continue; }
+    out.push(a);
+  }
+  return { value, rest: out };
+}
+
+function hasFlag(argv: string[], name: string): { present: boolean; rest: string[] } {
+  const rest = argv.filter((a) => a !== name);
+  return { present: rest.length !== argv.length, rest };
+}
+
+const USAGE = "usage: variants <buildId> [--profile <equipmentProfileId>] [--limit <n>] [--invalid-only]";
+
+function formatVariantLine(v: VariantResult): string {
+  const status = v.valid ? "ok" : `INVALID (${v.hardErrorRuleIds.join(", ")})`;
+  return `  ${v.variantId.padEnd(5)} score=${v.rawScore.toFixed(1).padStart(6)} ${v.rating.padEnd(9)} steps=${String(v.stepCount).padStart(3)}  ${status}  ${v.label}`;
+}
+
+export async function cmdVariants(flags: GlobalFlags, argv: string[]): Promise<number> {
+  const profileOpt = takeOption(argv, "--profile");
+  const limitOpt = takeOption(profileOpt.rest, "--limit");
+  const invalidOnly = hasFlag(limitOpt.rest, "--invalid-only");
+  const buildId = invalidOnly.rest[0];
+
+  if (!buildId) { writeError(flags, USAGE); return EXIT_USAGE_ERROR; }
+
+  const limit = limitOpt.value !== undefined ? Number(limitOpt.value) : DEFAULT_VARIANT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    writeError(flags, `Invalid --limit: ${limitOpt.value} (expected a positive integer)`);
+    return EXIT_USAGE_ERROR;
+  }
+
+  const build = await readBuild(buildId);
+  const bom = await readBom(build.itemId);
+
+  let matrix;
+  try {
+    matrix = buildVariantMatrix(build, { equipmentProfileId: profileOpt.value, limit, bom });
+  } catch (err) {
+    if (err instanceof ScenarioError) { writeError(flags, `Variants failed: ${err.message}`); return EXIT_USAGE_ERROR; }
+    throw err;
+  }
+
+  const shown = invalidOnly.present ? matrix.variants.filter((v) => !v.valid) : matrix.variants;
+  const exitCode = matrix.invalidCount > 0 ? EXIT_VALIDATION_FAILED : EXIT_SUCCESS;
+
+  if (flags.json) {
+    writeJson({ ok: matrix.invalidCount === 0, ...matrix, variants: shown });
+    return exitCode;
+  }
+
+  const lines = [
+    `Variants for ${matrix.buildId}`,
+    `Equipment profiles: ${matrix.equipmentProfileIds.join(", ") || "none"}`,
+    `Customization groups: ${(build.customizationGroups ?? []).length}`,
+    `Combinations: ${matrix.variants.length}${matrix.truncated ? ` of ${matrix.totalCombinations} (truncated by --limit ${limit})` : ""}`,
+    `Invalid: ${matrix.invalidCount}`,
+  ];
+  if (matrix.worstCase && matrix.bestCase) {
+    lines.push(
+      "",
+      `Worst case: ${matrix.worstCase.variantId} score=${matrix.worstCase.rawScore.toFixed(1)} (${matrix.worstCase.rating}) ${matrix.worstCase.label}`,
+      `Best case:  ${matrix.bestCase.variantId} score=${matrix.bestCase.rawScore.toFixed(1)} (${matrix.bestCase.rating}) ${matrix.bestCase.label}`,
+    );
+  }
+  if (shown.length > 0) {
+    lines.push("", invalidOnly.present ? "Invalid variants:" : "Per-variant:");
+    for (const v of shown) lines.push(formatVariantLine(v));
+  }
+  if (matrix.invalidCount > 0) {
+    lines.push("", `Inspect a variant with: lb resolve ${buildId} --format summary [--profile <id>] [--customization <valueId>]...`);
+  }
+  writeHuman(lines);
+  return exitCode;
+}
@@ -1,7 +1,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { BUILDS_DIR_ABS, DATA_ROOT_ABS, readBuild, readBom } from "../lib/store";
-import { validateBuild } from "../lib/validate";
+import { createValidationCache, formatRuleTimings, validateBuildIncremental, type RuleTiming, type ValidationCache } from "../lib/validate";
 import { writeValidationOutput } from "../lib/validationOutput";
 import { randomUUID } from "node:crypto";
 import * as fsPromises from "node:fs/promises";
@@ -13,6 +13,7 @@ type WatchFlags = {
   log?: string;
   once: boolean;
   quiet: boolean;
+  profileRules: boolean;
 };
 
 type WatchEvent = {
@@ -24,6 +25,10 @@ type WatchEvent = {
   valid: boolean;
   hardErrorCount: number;
   warningCount: number;
+  /** Steps added, edited or removed since the previous validation of this build. */
+  changedSteps: string[];
+  /** Present with --profile-rules. */
+  ruleTimings?: RuleTiming[];
   topErrors: Array<{
     ruleId: string;
     stepId?: string;
@@ -55,6 +60,9 @@ async function appendJsonl(filePath: string, event: WatchEvent): Promise<void> {
   await fsPromises.appendFile(filePath, JSON.stringify(event) + "\n");
 }
 
+/** Per-build validation caches, kept for the life of the watch. */
+const caches = new Map<string, ValidationCache>();
+
 async function validateAndReport(
   buildId: string,
   flags: WatchFlags,
@@ -63,7 +71,9 @@ async function validateAndReport(
   try {
     const build = await readBuild(buildId);
     const bom = await readBom(build.itemId);
-    const validation = validateBuild(build, { bom });
+    const cache = caches.get(build.id) ?? createValidationCache();
+    caches.set(build.id, cache);
+    const { validation, changedSteps, ruleTimings } = validateBuildIncremental(build, cache, { bom });
     await writeValidationOutput(build, validation);
 
     const event: WatchEvent = {
@@ -75,6 +85,8 @@ async function validateAndReport(
       valid: validation.valid,
       hardErrorCount: validation.hardErrors.length,
       warningCount: validation.warnings.length,
+      changedSteps,
+      ...(flags.profileRules ? { ruleTimings } : {}),
       topErrors: validation.hardErrors.slice(0, 5).map(err => ({
         ruleId: err.ruleId,
         stepId: err.stepId,
@@ -90,13 +102,14 @@ async function validateAndReport(
     if (!flags.quiet) {
       const time = dim(`[${formatTime()}]`);
       const name = build.name || build.itemId || buildId;
+      const changed = dim(` (${changedSteps.length} step(s) changed)`);
 
       if (validation.valid) {
-        console.log(`${time} ${green("VALID")} ${name}`);
+        console.log(`${time} ${green("VALID")} ${name}${changed}`);
       } else {
         const errCount = validation.hardErrors.length;
         const warnCount = validation.warnings.length;
-        console.log(`${time} ${red("INVALID")} ${name} - ${red(`${errCount} error(s)`)}${warnCount > 0 ? `, ${yellow(`${warnCount} warning(s)`)}` : ""}`);
+        console.log(`${time} ${red("INVALID")} ${name} - ${red(`${errCount} error(s)`)}${warnCount > 0 ? `, ${yellow(`${warnCount} warning(s)`)}` : ""}${changed}`);
         
         const topErrors = validation.hardErrors.slice(0, 3);
         for (const err of topErrors) {
@@ -108,6 +121,9 @@ async function validateAndReport(
           console.log(dim(`  ... and ${validation.hardErrors.length - 3} more`));
         }
       }
+      if (flags.profileRules) {
+        for (const line of formatRuleTimings(ruleTimings.slice(0, 10))) console.log(dim(`  ${line}`));
+      }
     }
 
     await jumpViewer(buildId);
@@ -140,11 +156,13 @@ export async function cmdWatch(argv: string[]): Promise<number> {
   const logOpt = takeOption(argv, "--log");
   const onceFlag = hasFlag(logOpt.rest, "--once");
   const quietFlag = hasFlag(onceFlag.rest, "--quiet");
+  const profileRulesFlag = hasFlag(quietFlag.rest, "--profile-rules");
 
   const flags: WatchFlags = {
     log: logOpt.value,
     once: onceFlag.present,
     quiet: quietFlag.present,
+    profileRules: profileRulesFlag.present,
   };
 
   if (!flags.quiet) {
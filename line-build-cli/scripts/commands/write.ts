@@ -1,14 +1,16 @@
-import { readBom, writeBuild } from "../lib/store";
+import { isWriteConflict, readBom, reopenPublishedBuild, writeBuildWithImage } from "../lib/store";
 import { validateBuild } from "../lib/validate";
 import { writeReceipt } from "../lib/receipts";
 import { writeValidationOutput } from "../lib/validationOutput";
-import { parseBuild, BuildParseError } from "../lib/schema";
+import { BuildParseError, SchemaVersionError } from "../lib/schema";
+import { parseAnyBuildVersion } from "../lib/migrations";
 import type { GlobalFlags } from "../lb";
 import * as fs from "node:fs/promises";
 
 const EXIT_SUCCESS = 0;
 const EXIT_VALIDATION_FAILED = 2;
 const EXIT_USAGE_ERROR = 3;
+const EXIT_CONFLICT = 4;
 
 function writeJson(obj: unknown) { process.stdout.write(JSON.stringify(obj, null, 2) + "\n"); }
 function writeHuman(lines: string[]) { process.stdout.write(lines.join("\n") + "\n"); }
@@ -44,14 +46,15 @@ async function readStdin(): Promise<string> {
 
 export async function cmdWrite(flags: GlobalFlags, argv: string[]): Promise<number> {
   const fileOpt = takeOption(argv, "--file");
-  const stdinFlag = hasFlag(fileOpt.rest, "--stdin");
+  const ifMatchOpt = takeOption(fileOpt.rest, "--if-match");
+  const stdinFlag = hasFlag(ifMatchOpt.rest, "--stdin");
   let raw: string;
   if (fileOpt.value) raw = await fs.readFile(fileOpt.value, "utf8");
   else raw = await readStdin();
 
   let build: any;
   try {
-    build = parseBuild(JSON.parse(raw));
+    build = parseAnyBuildVersion(JSON.parse(raw));
   } catch (err) {
     if (err instanceof BuildParseError) {
       // Format detailed schema validation errors
@@ -88,10 +91,16 @@ export async function cmdWrite(flags: GlobalFlags, argv: string[]): Promise<numb
       writeError(flags, `Schema validation failed:\n${issueLines.join("\n")}${hintSection}`);
       return EXIT_USAGE_ERROR;
     }
+    if (err instanceof SchemaVersionError) {
+      writeError(flags, err.message);
+      return EXIT_USAGE_ERROR;
+    }
     const msg = err instanceof Error ? err.message : String(err);
     writeError(flags, `Invalid JSON input: ${msg}`);
     return EXIT_USAGE_ERROR;
   }
+  // Changing a published version's content writes a draft of the next one.
+  build = await reopenPublishedBuild(build);
   const bom = await readBom(build.itemId);
   const validation = validateBuild(build, { bom });
 
@@ -100,11 +109,19 @@ export async function cmdWrite(flags: GlobalFlags, argv: string[]): Promise<numb
     return EXIT_VALIDATION_FAILED;
   }
 
-  const buildPath = await writeBuild(build);
+  let written;
+  try {
+    written = await writeBuildWithImage(build, { ifMatch: ifMatchOpt.value });
+  } catch (err) {
+    if (!isWriteConflict(err)) throw err;
+    writeError(flags, `Write rejected: ${err.message}`);
+    return EXIT_CONFLICT;
+  }
+  const { path: buildPath, image, hash } = written;
   await writeValidationOutput(build, validation);
-  await writeReceipt({ command: "write", timestamp: new Date().toISOString(), inputs: { buildId: build.id }, outputs: { path: buildPath, valid: validation.valid }, touchedFiles: [buildPath] });
+  await writeReceipt({ command: "write", timestamp: new Date().toISOString(), inputs: { buildId: build.id }, outputs: { path: buildPath, valid: validation.valid }, touchedFiles: [buildPath], builds: [image] });
 
-  if (flags.json) writeJson({ ok: true, buildId: build.id, path: buildPath });
-  else writeHuman([`Wrote ${build.id} to ${buildPath}`]);
+  if (flags.json) writeJson({ ok: true, buildId: build.id, path: buildPath, hash });
+  else writeHuman([`Wrote ${build.id} to ${buildPath} (hash ${hash})`]);
   return EXIT_SUCCESS;
 }
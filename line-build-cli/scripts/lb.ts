@@ -5,7 +5,6 @@
  *   npx tsx scripts/lb.ts <command> [options]
  */
 
-import { validateFixtures } from "./lib/fixtures";
 
 import { cmdList } from "./commands/list";
 import { cmdGet } from "./commands/get";
@@ -16,15 +15,24 @@ import { cmdSearch } from "./commands/search";
 import { cmdView } from "./commands/view";
 import { cmdRules } from "./commands/rules";
 import { cmdWatch } from "./commands/watch";
+import { cmdValidateFixtures } from "./commands/validate-fixtures";
 import { cmdDiff } from "./commands/diff";
 import { cmdHelp } from "./commands/help";
 import { cmdTechniques } from "./commands/techniques";
 import { cmdScore } from "./commands/score";
 import { cmdScorePortfolio } from "./commands/score-portfolio";
 import { cmdScorePreview } from "./commands/score-preview";
+import { cmdResolve } from "./commands/resolve";
+import { cmdVariants } from "./commands/variants";
+import { cmdPublish } from "./commands/publish";
+import { cmdHistory } from "./commands/history";
+import { cmdMigrate } from "./commands/migrate";
+import { cmdUndo, cmdRedo } from "./commands/undo";
+import { cmdSchema } from "./commands/schema";
+import { cmdBomUsage } from "./commands/bom-usage";
+import { cmdOverride } from "./commands/override";
 
 const EXIT_SUCCESS = 0;
-const EXIT_VALIDATION_FAILED = 2;
 const EXIT_USAGE_ERROR = 3;
 
 export type GlobalFlags = { json: boolean };
@@ -41,8 +49,18 @@ function printHelp(): void {
       "  list       Discover builds",
       "  get        Read build details",
       "  write      Create or replace a build",
+      "  resolve    Resolve overlays/conditions for a scenario",
+      "  variants   Enumerate, validate and score customization variants",
+      "  bom-usage  Roll up portioned quantities per BOM entry",
+      "  publish    Validate and freeze an immutable version snapshot",
+      "  history    List published versions of a build",
+      "  undo       Revert the last build write (redo re-applies it)",
+      "  migrate    Upgrade builds to the current schemaVersion",
+      "  schema     Export the model as JSON Schema or TypeScript types",
       "  search     Search steps across builds",
       "  rules      Validation rules reference",
+      "  validate-fixtures  Check data/fixtures against their expectation sidecars",
+      "  override   Manage validation overrides (add, approve, list, revoke)",
       "  techniques Technique vocabulary reference",
       "  score      Score a build's complexity",
       "  score-portfolio  Score all builds and show ranking",
@@ -101,23 +119,28 @@ async function main(argv: string[]): Promise<number> {
     case "list": return await cmdList(flags, args);
     case "get": return await cmdGet(flags, args);
     case "write": return await cmdWrite(flags, args);
+    case "resolve": return await cmdResolve(flags, args);
+    case "variants": return await cmdVariants(flags, args);
+    case "bom-usage": return await cmdBomUsage(flags, args);
+    case "publish": return await cmdPublish(flags, args);
+    case "history": return await cmdHistory(flags, args);
+    case "undo": return await cmdUndo(flags, args);
+    case "redo": return await cmdRedo(flags, args);
+    case "migrate": return await cmdMigrate(flags, args);
+    case "schema": return await cmdSchema(flags, args);
     case "edit": return await cmdEdit(flags, args);
     case "validate": return await handleValidate(flags, args);
     case "search": return await cmdSearch(flags, args);
     case "view": return await cmdView(args);
-    case "rules": return await cmdRules(args);
+    case "rules": return await cmdRules(flags, args);
+    case "override": return await cmdOverride(flags, args);
     case "techniques": return await cmdTechniques(flags, args);
     case "watch": return await cmdWatch(args);
     case "help": return await cmdHelp(flags, args);
     case "score": return await cmdScore(flags, args);
     case "score-portfolio": return await cmdScorePortfolio(flags, args);
     case "score-preview": return await cmdScorePreview(flags, args);
-    case "validate-fixtures": {
-      const res = await validateFixtures();
-      if (flags.json) writeJson(res);
-      else writeHuman([`Fixtures: ${res.fixtureCount}, Passed: ${res.passed}, Failed: ${res.failed}`]);
-      return res.ok ? EXIT_SUCCESS : EXIT_VALIDATION_FAILED;
-    }
+    case "validate-fixtures": return await cmdValidateFixtures(flags, args);
     default: writeError(flags, `Unknown command: ${cmd}`); return EXIT_USAGE_ERROR;
   }
 }
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ActionFamily, type BenchTopLineBuild, type Step } from "./schema";
+import { autoFixBuild, getFixedErrors } from "./autoFix";
+import type { EditOp } from "./edit";
+import { normalizeBuild } from "./normalize";
+import { generateSuggestions } from "./suggestOps";
+
+vi.mock("./suggestOps", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./suggestOps")>();
+  return { ...actual, generateSuggestions: vi.fn(actual.generateSuggestions) };
+});
+
+const LOC = { stationId: "garnish" as const, sublocation: { type: "work_surface" as const } };
+
+function step(id: string, orderIndex: number, partial: Partial<Step> = {}): Step {
+  return {
+    id,
+    orderIndex,
+    action: { family: ActionFamily.PREP, techniqueId: "open_pack" },
+    stationId: "garnish",
+    workLocation: { type: "work_surface" },
+    input: [],
+    output: [{ source: { type: "in_build", assemblyId: `out_${id}` }, to: LOC }],
+    ...partial,
+  };
+}
+
+function build(steps: Step[]): BenchTopLineBuild {
+  return normalizeBuild({
+    id: "b1",
+    itemId: "item-1",
+    version: 1,
+    status: "draft",
+    steps,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  });
+}
+
+/** Make every round propose exactly one op, chosen from the current build. */
+function proposeEachRound(opFor: (build: BenchTopLineBuild) => EditOp) {
+  vi.mocked(generateSuggestions).mockImplementation((_errors, current) => [
+    { ruleId: "TEST", stepId: "s1", message: "", fixHint: null, autoFixable: true, candidateOp: opFor(current) },
+  ]);
+}
+
+describe("autoFixBuild", () => {
+  afterEach(() => {
+    vi.mocked(generateSuggestions).mockReset();
+  });
+
+  it("repairs auto-fixable errors to a fixed point", () => {
+    const result = autoFixBuild(build([
+      step("heat", 1, {
+        action: { family: ActionFamily.HEAT },
+        stationId: "turbo",
+        workLocation: { type: "equipment", equipmentId: "turbo" },
+        equipment: { applianceId: "turbo" },
+        output: [{ source: { type: "in_build", assemblyId: "out_heat" }, to: { stationId: "turbo", sublocation: { type: "equipment", equipmentId: "turbo" } } }],
+      }),
+      // No stationId and an ambiguous workLocation; the input's named station decides (H36).
+      step("open", 2, {
+        stationId: undefined,
+        input: [{ source: { type: "in_build", assemblyId: "out_heat" }, from: { stationId: "garnish", sublocation: { type: "work_surface" } } }],
+        output: [{ source: { type: "in_build", assemblyId: "out_open" }, to: { sublocation: { type: "work_surface" } } }],
+      }),
+    ]));
+
+    expect(result.before.hardErrors.map((e) => e.ruleId)).toEqual(["H22", "H36", "H42"]);
+    expect(result.after.valid).toBe(true);
+    expect(result.stopReason).toBe("fixed_point");
+    expect(result.build.steps.find((s) => s.id === "open")?.stationId).toBe("garnish");
+    expect(getFixedErrors(result).map((e) => e.ruleId)).toEqual(["H22", "H36", "H42"]);
+  });
+
+  it("leaves a clean build untouched", () => {
+    const clean = build([step("s1", 1)]);
+    const result = autoFixBuild(clean);
+    expect(result.changed).toBe(false);
+    expect(result.applied).toEqual([]);
+    expect(result.build).toBe(clean);
+  });
+
+  it("sets merge input roles one input per round (H29)", () => {
+    // Two outputs, so normalizeBuild leaves the roles to the fixer.
+    const result = autoFixBuild(build([
+      step("a", 1),
+      step("b", 2),
+      step("merge", 3, {
+        input: [
+          { source: { type: "in_build", assemblyId: "out_a" }, from: LOC },
+          { source: { type: "in_build", assemblyId: "out_b" }, from: LOC },
+        ],
+        output: [
+          { source: { type: "in_build", assemblyId: "out_merge" }, to: LOC },
+          { source: { type: "in_build", assemblyId: "out_rest" }, to: LOC },
+        ],
+      }),
+    ]));
+
+    expect(result.applied.filter((f) => f.ruleId === "H29").map((f) => f.op)).toEqual([
+      { type: "set_input_role", stepId: "merge", inputIndex: 0, role: "base" },
+      { type: "set_input_role", stepId: "merge", inputIndex: 1, role: "added" },
+    ]);
+    expect(result.after.warnings.filter((w) => w.ruleId === "H29")).toEqual([]);
+    expect(result.stopReason).toBe("fixed_point");
+  });
+
+  it("sets the ambiguous ref's stationId from the producer, not the step's (H42)", () => {
+    const result = autoFixBuild(build([
+      step("cut", 1),
+      step("plate", 2, {
+        workLocation: { type: "equipment", equipmentId: "turbo" },
+        stationId: undefined,
+        input: [{ source: { type: "in_build", assemblyId: "out_cut" }, from: { sublocation: { type: "work_surface" } } }],
+      }),
+    ]));
+
+    const h42 = result.applied.filter((f) => f.ruleId === "H42").map((f) => f.op);
+    expect(h42).toEqual([{ type: "set_field", where: "step.id = plate", field: "step.input[0].from.stationId", value: "garnish" }]);
+    expect(result.build.steps.find((s) => s.id === "plate")?.input[0]?.from?.stationId).toBe("garnish");
+  });
+
+  it("stops when a round returns to an earlier build (oscillation)", () => {
+    proposeEachRound((current) => ({
+      type: "set_field",
+      where: "step.id = s1",
+      field: "step.notes",
+      value: current.steps[0]?.notes === "a" ? "b" : "a",
+    }));
+    const result = autoFixBuild(build([step("s1", 1)]));
+
+    expect(result.stopReason).toBe("oscillation");
+    expect(result.iterations).toBe(2);
+    expect(result.build.steps[0]?.notes).toBe("b");
+  });
+
+  it("reverts a round that adds hard errors (regression)", () => {
+    proposeEachRound(() => ({ type: "set_field", where: "step.id = s1", field: "step.action.family", value: ActionFamily.HEAT }));
+    const clean = build([step("s1", 1)]);
+    const result = autoFixBuild(clean);
+
+    expect(result.stopReason).toBe("regression");
+    expect(result.build).toBe(clean);
+    expect(result.applied).toEqual([]);
+    expect(result.skipped.map((f) => f.reason)).toEqual(["round increased hard errors; reverted"]);
+  });
+});
@@ -0,0 +1,148 @@
+import { applyOps, EditError, type EditOp } from "./edit";
+import { normalizeBuild } from "./normalize";
+import { BuildParseError, type BenchTopLineBuild } from "./schema";
+import { QueryParseError } from "./query";
+import { generateSuggestions, getAutoFixableSuggestions } from "./suggestOps";
+import {
+  validateBuild,
+  type BuildValidationResult,
+  type ValidateBuildOptions,
+  type ValidationError,
+} from "./validate";
+
+/**
+ * Iterative auto-repair (`lb validate --fix`).
+ *
+ * Each round validates, collects the candidateOps of auto-fixable findings
+ * (suggestOps.ts), applies them, re-normalizes and validates again. Stops at a
+ * fixed point, when a round would revisit an earlier build state (oscillation),
+ * when a round makes hard errors worse (reverted), or after maxIterations.
+ */
+
+export type AutoFixStopReason = "fixed_point" | "oscillation" | "regression" | "max_iterations";
+
+export type AppliedFix = {
+  iteration: number;
+  ruleId: string;
+  stepId?: string;
+  op: EditOp;
+};
+
+export type SkippedFix = AppliedFix & { reason: string };
+
+export type AutoFixResult = {
+  build: BenchTopLineBuild;
+  before: BuildValidationResult;
+  after: BuildValidationResult;
+  applied: AppliedFix[];
+  skipped: SkippedFix[];
+  iterations: number;
+  stopReason: AutoFixStopReason;
+  /** False when no op changed the build. */
+  changed: boolean;
+};
+
+export type AutoFixOptions = ValidateBuildOptions & {
+  /** Upper bound on repair rounds. Default: 10. */
+  maxIterations?: number;
+};
+
+const DEFAULT_MAX_ITERATIONS = 10;
+
+function fingerprint(build: BenchTopLineBuild): string {
+  return JSON.stringify(build);
+}
+
+function fixableFindings(validation: BuildValidationResult): ValidationError[] {
+  return [...validation.hardErrors, ...validation.warnings];
+}
+
+export function autoFixBuild(build: BenchTopLineBuild, opts: AutoFixOptions = {}): AutoFixResult {
+  const { maxIterations = DEFAULT_MAX_ITERATIONS, ...validateOpts } = opts;
+  const before = validateBuild(build, validateOpts);
+
+  let current = build;
+  let validation = before;
+  const seen = new Set([fingerprint(current)]);
+  const applied: AppliedFix[] = [];
+  const skipped: SkippedFix[] = [];
+  const skippedOps = new Set<string>();
+  let iterations = 0;
+  let stopReason: AutoFixStopReason = "max_iterations";
+
+  while (iterations < maxIterations) {
+    const suggestions = getAutoFixableSuggestions(generateSuggestions(fixableFindings(validation), current));
+    const seenOps = new Set<string>();
+    const round: AppliedFix[] = [];
+    let next = current;
+
+    for (const s of suggestions) {
+      const key = JSON.stringify(s.candidateOp);
+      if (seenOps.has(key)) continue;
+      seenOps.add(key);
+      const fix: AppliedFix = { iteration: iterations + 1, ruleId: s.ruleId, stepId: s.stepId, op: s.candidateOp! };
+      try {
+        next = applyOps(next, [fix.op]);
+        round.push(fix);
+      } catch (err) {
+        // A bad candidate op is skipped; the rest of the round still applies.
+        if (!(err instanceof EditError || err instanceof BuildParseError || err instanceof QueryParseError)) throw err;
+        if (!skippedOps.has(key)) skipped.push({ ...fix, reason: err.message });
+        skippedOps.add(key);
+      }
+    }
+
+    if (round.length === 0) {
+      stopReason = "fixed_point";
+      break;
+    }
+
+    next = normalizeBuild(next);
+    const key = fingerprint(next);
+    if (key === fingerprint(current)) {
+      stopReason = "fixed_point";
+      break;
+    }
+    if (seen.has(key)) {
+      stopReason = "oscillation";
+      break;
+    }
+
+    const nextValidation = validateBuild(next, validateOpts);
+    if (nextValidation.hardErrors.length > validation.hardErrors.length) {
+      skipped.push(...round.map((fix) => ({ ...fix, reason: "round increased hard errors; reverted" })));
+      stopReason = "regression";
+      break;
+    }
+
+    seen.add(key);
+    applied.push(...round);
+    current = next;
+    validation = nextValidation;
+    iterations += 1;
+  }
+
+  return {
+    build: current,
+    before,
+    after: validation,
+    applied,
+    skipped,
+    iterations,
+    stopReason,
+    changed: current !== build,
+  };
+}
+
+/** Identity of a finding across validation runs (rule, step, field, message). */
+export function findingKey(e: ValidationError): string {
+  return [e.ruleId, e.stepId ?? "", e.fieldPath ?? "", e.message].join("\u0000");
+}
+
+/**
+ * Hard errors present before but not after the repair.
+ */
+export function getFixedErrors(result: Pick<AutoFixResult, "before" | "after">): ValidationError[] {
+  const remaining = new Set(result.after.hardErrors.map(findingKey));
+  return result.before.hardErrors.filter((e) => !remaining.has(findingKey(e)));
+}
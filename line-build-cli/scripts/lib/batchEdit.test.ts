@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { commitBatchEdit, planBatchEdit } from "./batchEdit";
+import { baseFixtureBuild } from "./fixtures";
+import { normalizeBuild } from "./normalize";
+import { CURRENT_SCHEMA_VERSION } from "./schema";
+import { deleteBuild, StaleWriteError, writeBuildWithImage } from "./store";
+
+vi.mock("./store", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./store")>();
+  return { ...actual, deleteBuild: vi.fn(), writeBuildWithImage: vi.fn() };
+});
+
+describe("planBatchEdit", () => {
+  it("applies the ops to every matching build and reports per-build patches", () => {
+    const builds = [baseFixtureBuild("batch-a"), baseFixtureBuild("batch-b"), baseFixtureBuild("batch-c")];
+    builds[2]!.steps[2]!.stationId = "clamshell_grill";
+
+    const plan = planBatchEdit(builds, [{ type: "set_field", where: "step.stationId = turbo", field: "step.equipment.presetId", value: "program_2" }], {
+      where: "step.stationId = turbo",
+    });
+    expect(plan.ok).toBe(true);
+    expect(plan.entries.map((e) => e.buildId)).toEqual(["batch-a", "batch-b"]);
+    expect(plan.entries[0]!.patch).toEqual([{ op: "replace", path: "/steps/2/equipment/presetId", value: "program_2" }]);
+
+    const byItem = planBatchEdit(builds, [{ type: "set_build_field", field: "build.name", value: "Renamed" }], { where: "build.itemId = ITEM_BATCH_C" });
+    expect(byItem.entries.map((e) => e.buildId)).toEqual(["batch-c"]);
+  });
+
+  it("blocks the whole batch when any build fails or gains a hard error", () => {
+    const builds = [baseFixtureBuild("batch-a"), baseFixtureBuild("batch-b")];
+    builds[1]!.steps[2]!.equipment = undefined;
+
+    const plan = planBatchEdit(builds, [{ type: "set_field", where: "step.id = s3", field: "step.equipment", mode: "unset" }], { where: "step.id = s3" });
+    expect(plan.ok).toBe(false);
+    expect(plan.entries[0]!.error).toMatch(/new hard error.*H15/);
+    // batch-b already lacked equipment: unchanged, and its existing error is not "new".
+    expect(plan.entries[1]).toMatchObject({ buildId: "batch-b", patch: [], newHardErrors: [] });
+    expect(plan.entries[1]!.error).toBeUndefined();
+
+    const failed = planBatchEdit(builds, [{ type: "set_field", field: "step.stationId", value: "grill" }], { where: "build.status = draft" });
+    expect(failed.ok).toBe(false);
+    expect(failed.entries.every((e) => e.build === undefined && e.error)).toBe(true);
+  });
+
+  it("turns an edited published working copy into a draft of the next version", () => {
+    const published = { ...baseFixtureBuild("batch-pub"), status: "published" as const };
+    const snapshots = new Map([["batch-pub", normalizeBuild(published)]]);
+    const op = { type: "set_build_field" as const, field: "build.name", value: "Renamed" };
+
+    const plan = planBatchEdit([published], [op], { where: "build.status = published", snapshots });
+    expect(plan.entries[0]!.build).toMatchObject({ status: "draft", version: published.version + 1, name: "Renamed" });
+    // Without a snapshot (published before history existed) the build is edited in place.
+    expect(planBatchEdit([published], [op], { where: "build.status = published" }).entries[0]!.build).toMatchObject({ status: "published" });
+  });
+
+  it("blocks on unloadable builds unless their raw JSON rules the where clause out", () => {
+    const op = { type: "set_build_field" as const, field: "build.name", value: "Renamed" };
+    const broken = { ...baseFixtureBuild("batch-x"), schemaVersion: CURRENT_SCHEMA_VERSION, createdAt: 42 };
+    const unreadable = [
+      { buildId: "batch-x", message: "Build JSON failed schema validation", raw: broken },
+      { buildId: "batch-y", message: "Unexpected token } in JSON" },
+    ];
+
+    const plan = planBatchEdit([baseFixtureBuild("batch-a")], [op], { where: "build.itemId = ITEM_BATCH_A", unreadable: unreadable.slice(0, 1) });
+    expect(plan.ok).toBe(true);
+    expect(plan.skipped.map((u) => u.buildId)).toEqual(["batch-x"]);
+
+    const selected = planBatchEdit([], [op], { where: "build.itemId = ITEM_BATCH_X", unreadable });
+    expect(selected.ok).toBe(false);
+    expect(selected.entries.map((e) => [e.buildId, e.unreadable])).toEqual([["batch-x", true], ["batch-y", true]]);
+    expect(selected.skipped).toEqual([]);
+  });
+});
+
+describe("commitBatchEdit", () => {
+  it("keeps restoring after a failed restore and rethrows the original error", async () => {
+    const builds = ["batch-a", "batch-b", "batch-c"].map((id) => baseFixtureBuild(id));
+    const plan = planBatchEdit(builds, [{ type: "set_build_field", field: "build.name", value: "Renamed" }], { where: "build.status = draft" });
+    expect(plan.ok).toBe(true);
+
+    const conflict = new StaleWriteError("batch-c", "planned", "changed");
+    vi.mocked(writeBuildWithImage).mockImplementation(async (build) => {
+      if (build.id === "batch-c") throw conflict;
+      const before = build.id === "batch-a" ? normalizeBuild(builds[0]!) : null;
+      return { path: `${build.id}.json`, image: { buildId: build.id, before, after: build }, hash: `h-${build.id}` };
+    });
+    vi.mocked(deleteBuild).mockRejectedValueOnce(new Error("EACCES"));
+
+    const err = await commitBatchEdit(plan).catch((e: unknown) => e);
+    expect(err).toBe(conflict);
+    expect(conflict.message).toMatch(/could not restore batch-b \(EACCES\)$/);
+    // batch-a was still restored after batch-b failed.
+    const [restored, opts] = vi.mocked(writeBuildWithImage).mock.calls.at(-1)!;
+    expect(restored).toMatchObject({ id: "batch-a" });
+    expect(restored.name).not.toBe("Renamed");
+    expect(opts).toEqual({ ifMatch: "h-batch-a" });
+  });
+});
@@ -0,0 +1,168 @@
+import { findingKey } from "./autoFix";
+import { applyOps, type EditOp } from "./edit";
+import { createJsonPatch, type JsonPatchOperation } from "./jsonPatch";
+import { parseAnyBuildVersion } from "./migrations";
+import { buildMatchesWhere, parseWhere, type QueryExpr } from "./query";
+import { BuildParseError, CURRENT_SCHEMA_VERSION, parseBuild, type BenchTopLineBuild } from "./schema";
+import { type BomItem, type BuildImage, deleteBuild, reopenPublished, writeBuildWithImage } from "./store";
+import { validateBuild, type BuildValidationResult, type ValidationError } from "./validate";
+
+/**
+ * Multi-build transactional edits (`lb edit --where <dsl>`).
+ *
+ * planBatchEdit applies the same ops to every build the where clause selects
+ * (see buildMatchesWhere) and validates each result against its own
+ * before-state. The batch is committable only if every build still parses and
+ * none gains a hard error; commitBatchEdit then writes them all (each with
+ * ifMatch against the hash it was planned from), restoring the already-written
+ * ones if a later write fails or finds its build changed. Builds that cannot be
+ * restored are listed in the message of the error that is rethrown.
+ *
+ * A build file that cannot be loaded blocks the batch too, unless its raw JSON
+ * (at the current schemaVersion) shows the where clause cannot select it.
+ */
+
+export type BatchEditEntry = {
+  buildId: string;
+  /** Edited build; undefined when the ops failed on this build. */
+  build?: BenchTopLineBuild;
+  /** JSON Patch from the current build to the edited one ([] = unchanged). */
+  patch: JsonPatchOperation[];
+  validation?: BuildValidationResult;
+  /** Hard errors the edit introduced. */
+  newHardErrors: ValidationError[];
+  /** Why this build blocks the batch (op failure, new hard errors, invalid published build). */
+  error?: string;
+  /** Content hash the build was read with (ifMatch for the write). */
+  baseHash?: string;
+  /** The build file could not be loaded, so the edit could not be planned. */
+  unreadable?: boolean;
+};
+
+export type UnreadableBuild = {
+  buildId: string;
+  message: string;
+  /** File contents when they parse as JSON but not as a build. */
+  raw?: unknown;
+};
+
+export type BatchEditPlan = {
+  entries: BatchEditEntry[];
+  /** Unreadable builds the where clause rules out; reported, not blocking. */
+  skipped: UnreadableBuild[];
+  /** True when every entry can be written. */
+  ok: boolean;
+};
+
+export type BatchEditOptions = {
+  where: string;
+  /** BOM per itemId, for H23 (see readBom). */
+  boms?: Map<string, BomItem[] | undefined>;
+  /** Content hash per buildId (see readBuildWithHash). */
+  hashes?: Map<string, string>;
+  /** Published snapshot per published buildId (see reopenPublished). */
+  snapshots?: Map<string, BenchTopLineBuild | null>;
+  /** Build files that failed to load. */
+  unreadable?: UnreadableBuild[];
+};
+
+function describeError(err: unknown): string {
+  const issues = err instanceof BuildParseError ? err.issues.map((i) => `; ${i.path}: ${i.message}`).join("") : "";
+  return `${err instanceof Error ? err.message : String(err)}${issues}`;
+}
+
+/**
+ * False only when the raw JSON is at the current schemaVersion (field paths mean
+ * what the where clause expects) and the where clause does not select it.
+ */
+function mayMatchUnreadable(where: QueryExpr, raw: unknown): boolean {
+  if (!raw || typeof raw !== "object" || (raw as { schemaVersion?: unknown }).schemaVersion !== CURRENT_SCHEMA_VERSION) return true;
+  try {
+    return buildMatchesWhere(where, raw as BenchTopLineBuild);
+  } catch {
+    return true;
+  }
+}
+
+export function planBatchEdit(builds: BenchTopLineBuild[], ops: EditOp[], opts: BatchEditOptions): BatchEditPlan {
+  const where = parseWhere(opts.where);
+  const entries: BatchEditEntry[] = [];
+
+  for (const build of builds.filter((b) => buildMatchesWhere(where, b))) {
+    const bom = opts.boms?.get(build.itemId);
+    const baseHash = opts.hashes?.get(build.id);
+    let updated: BenchTopLineBuild;
+    try {
+      updated = reopenPublished(applyOps(build, ops), opts.snapshots?.get(build.id) ?? null);
+    } catch (err) {
+      entries.push({ buildId: build.id, patch: [], newHardErrors: [], error: describeError(err), baseHash });
+      continue;
+    }
+
+    // Diff against the parsed build so schema defaults filled in by applyOps are not reported as edits.
+    const baseline = parseBuild(build);
+    const patch = createJsonPatch(baseline, updated);
+    if (patch.length === 0) {
+      entries.push({ buildId: build.id, build: updated, patch, newHardErrors: [], baseHash });
+      continue;
+    }
+
+    const before = new Set(validateBuild(baseline, { bom }).hardErrors.map(findingKey));
+    const validation = validateBuild(updated, { bom });
+    const newHardErrors = validation.hardErrors.filter((e) => !before.has(findingKey(e)));
+    const entry: BatchEditEntry = { buildId: build.id, build: updated, patch, validation, newHardErrors, baseHash };
+    if (newHardErrors.length > 0) {
+      entry.error = `${newHardErrors.length} new hard error(s): ${newHardErrors[0]!.message}`;
+    } else if (updated.status === "published" && !validation.valid) {
+      entry.error = `Publish blocked after edit: ${validation.hardErrors[0]?.message}`;
+    }
+    entries.push(entry);
+  }
+
+  const skipped: UnreadableBuild[] = [];
+  for (const u of opts.unreadable ?? []) {
+    if (!mayMatchUnreadable(where, u.raw)) {
+      skipped.push(u);
+      continue;
+    }
+    entries.push({ buildId: u.buildId, patch: [], newHardErrors: [], unreadable: true, error: `Cannot load build (the where clause may select it): ${u.message}` });
+  }
+
+  return { entries, skipped, ok: entries.every((e) => !e.error) };
+}
+
+/**
+ * Write every changed build of an ok plan. On a failed write, builds written so
+ * far are restored from their before-images and the error is rethrown.
+ */
+export async function commitBatchEdit(plan: BatchEditPlan): Promise<{ paths: string[]; images: BuildImage[] }> {
+  if (!plan.ok) throw new Error("Refusing to commit a batch edit with blocked builds");
+
+  const paths: string[] = [];
+  const images: BuildImage[] = [];
+  const hashes: string[] = [];
+  try {
+    for (const entry of plan.entries) {
+      if (!entry.build || entry.patch.length === 0) continue;
+      const { path, image, hash } = await writeBuildWithImage(entry.build, { ifMatch: entry.baseHash });
+      paths.push(path);
+      images.push(image);
+      hashes.push(hash);
+    }
+  } catch (err) {
+    const unrestored: string[] = [];
+    for (const [i, image] of [...images.entries()].reverse()) {
+      try {
+        if (image.before === null) await deleteBuild(image.buildId);
+        else await writeBuildWithImage(parseAnyBuildVersion(image.before), { ifMatch: hashes[i] });
+      } catch (restoreErr) {
+        unrestored.push(`${image.buildId} (${describeError(restoreErr)})`);
+      }
+    }
+    if (unrestored.length > 0 && err instanceof Error) {
+      err.message += `; could not restore ${unrestored.join(", ")}`;
+    }
+    throw err;
+  }
+  return { paths, images };
+}
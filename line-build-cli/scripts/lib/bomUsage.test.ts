@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { ActionFamily, type BenchTopLineBuild, type Step } from "./schema";
+import { rollupBomUsage } from "./bomUsage";
+import { validateBuild } from "./validate";
+
+const LOC = { stationId: "garnish" as const, sublocation: { type: "work_surface" as const } };
+
+function portion(id: string, bomUsageId: string, quantity?: Step["quantity"], partial: Partial<Step> = {}): Step {
+  return {
+    id,
+    orderIndex: 1,
+    action: { family: ActionFamily.PORTION },
+    stationId: "garnish",
+    workLocation: { type: "work_surface" },
+    target: { type: "bom_usage", bomUsageId },
+    quantity,
+    input: [],
+    output: [{ source: { type: "in_build", assemblyId: `out_${id}` }, to: LOC }],
+    ...partial,
+  };
+}
+
+function build(steps: Step[]): BenchTopLineBuild {
+  return {
+    id: "build-1",
+    itemId: "item-1",
+    version: 1,
+    status: "draft",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    bom: [
+      { id: "cheese", name: "Cheddar", quantity: { value: 2, unit: "oz" } },
+      { id: "sauce", name: "Ranch", quantity: { value: 2, unit: "fl_oz" } },
+      { id: "chives", name: "Chives", quantity: { value: 1, unit: "tbsp" } },
+      { id: "napkin", name: "Napkin" },
+    ],
+    steps,
+  };
+}
+
+describe("rollupBomUsage", () => {
+  it("converts units, applies multipliers and flags over/under-portioning", () => {
+    const report = rollupBomUsage(build([
+      portion("cheese-1", "cheese", { value: 28.35, unit: "g" }),
+      portion("cheese-2", "cheese", { value: 1, unit: "ounces" }),
+      portion("sauce", "sauce", { value: 2, unit: "each", kind: "multiplier" }),
+      portion("chives", "chives", { value: 1, unit: "tsp" }),
+      portion("extra", "chives", { value: 5, unit: "tbsp" }, { conditions: { requiresCustomizationValueIds: ["x"] } }),
+      portion("ghost", "missing", { value: 1, unit: "each" }),
+    ]));
+
+    const byId = Object.fromEntries(report.rows.map((r) => [r.bomUsageId, r]));
+    expect(byId.cheese).toMatchObject({ status: "ok", used: 2, unit: "oz" });
+    expect(byId.sauce).toMatchObject({ status: "over", used: 4, ratio: 2 });
+    expect(byId.chives).toMatchObject({ status: "under", unit: "tbsp" });
+    expect(byId.chives!.contributions.map((c) => c.stepId)).toEqual(["chives"]);
+    expect(byId.napkin!.status).toBe("unused");
+    expect(report.unknownTargets).toEqual([{ stepId: "ghost", bomUsageId: "missing" }]);
+    expect(report.mismatchCount).toBe(2);
+  });
+
+  it("reports unconvertible units and surfaces mismatches as S24", () => {
+    const b = build([portion("cheese", "cheese", { value: 2, unit: "each" })]);
+    expect(rollupBomUsage(b).rows[0]!.status).toBe("incompatible");
+    expect(validateBuild(b).warnings.filter((w) => w.ruleId === "S24").map((w) => w.stepId)).toEqual(["cheese"]);
+  });
+});
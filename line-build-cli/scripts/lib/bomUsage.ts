@@ -0,0 +1,161 @@
+import type { BenchTopLineBuild, BomEntry, Step } from "./schema";
+import { convertQuantity, normalizeUnit } from "./units";
+import { VALIDATION_CONFIG } from "../../config";
+
+/**
+ * BOM quantity rollup.
+ *
+ * Sums the quantity each step portions into a BOM entry (`target.bomUsageId`)
+ * and compares it to the entry's expected `quantity`:
+ * - absolute quantities are converted to the BOM entry's unit (units.ts)
+ * - multiplier quantities count standard portions: value x BomEntry.quantity
+ * - excluded steps and steps with unresolved conditions are skipped (resolve
+ *   the build first to roll up a specific customization scenario)
+ *
+ * H23 checks that BOM components are referenced; S24 uses this rollup to check
+ * the referenced amount.
+ */
+
+/** Allowed relative deviation from the expected BOM quantity before flagging. */
+export const DEFAULT_BOM_TOLERANCE = VALIDATION_CONFIG.bomQuantityTolerance;
+
+export type BomUsageStatus =
+  | "ok"
+  | "over"
+  | "under"
+  | "unused"
+  | "unquantified"
+  | "incompatible"
+  | "no_expected";
+
+export type BomUsageContribution = {
+  stepId: string;
+  value: number;
+  unit: string;
+  kind: "absolute" | "multiplier";
+  /** Amount in the row unit; undefined when it cannot be converted. */
+  amount?: number;
+};
+
+export type BomUsageRow = {
+  bomUsageId: string;
+  name: string;
+  componentId?: string;
+  expected?: { value: number; unit: string };
+  /** Total portioned amount in `unit` (the BOM unit, else the first contribution's unit). */
+  used?: number;
+  unit?: string;
+  /** used / expected.value */
+  ratio?: number;
+  status: BomUsageStatus;
+  contributions: BomUsageContribution[];
+  /** Steps that target the entry without a quantity. */
+  unquantifiedStepIds: string[];
+  issues: string[];
+};
+
+export type BomUsageReport = {
+  buildId: string;
+  tolerance: number;
+  rows: BomUsageRow[];
+  /** Steps whose target.bomUsageId is not in build.bom. */
+  unknownTargets: Array<{ stepId: string; bomUsageId: string }>;
+  /** Rows that are over, under or incompatible. */
+  mismatchCount: number;
+};
+
+export type BomUsageOptions = {
+  tolerance?: number;
+};
+
+function countsTowardUsage(step: Step): boolean {
+  return step.exclude !== true && !step.conditions;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function rollupEntry(entry: BomEntry, steps: Step[], tolerance: number): BomUsageRow {
+  const expected = entry.quantity
+    ? { value: entry.quantity.value, unit: normalizeUnit(entry.quantity.unit) ?? entry.quantity.unit }
+    : undefined;
+  const row: BomUsageRow = {
+    bomUsageId: entry.id,
+    name: entry.name,
+    componentId: entry.componentId,
+    expected,
+    unit: expected?.unit,
+    status: "ok",
+    contributions: [],
+    unquantifiedStepIds: [],
+    issues: [],
+  };
+
+  for (const step of steps) {
+    const q = step.quantity;
+    if (!q) {
+      row.unquantifiedStepIds.push(step.id);
+      continue;
+    }
+    const kind = q.kind ?? "absolute";
+    const contribution: BomUsageContribution = { stepId: step.id, value: q.value, unit: q.unit, kind };
+    if (kind === "multiplier") {
+      if (expected) contribution.amount = q.value * expected.value;
+      else row.issues.push(`${step.id}: multiplier quantity but the BOM entry has no expected quantity`);
+    } else {
+      row.unit ??= normalizeUnit(q.unit) ?? q.unit;
+      contribution.amount = convertQuantity(q.value, q.unit, row.unit);
+      if (contribution.amount === undefined) {
+        row.issues.push(`${step.id}: ${q.value} ${q.unit} cannot be converted to ${row.unit}`);
+      }
+    }
+    row.contributions.push(contribution);
+  }
+
+  const amounts = row.contributions.map((c) => c.amount).filter((a): a is number => a !== undefined);
+  if (amounts.length > 0) row.used = round(amounts.reduce((sum, a) => sum + a, 0));
+  if (row.unquantifiedStepIds.length > 0 && row.contributions.length > 0) {
+    row.issues.push(`steps without quantity are not counted: ${row.unquantifiedStepIds.join(", ")}`);
+  }
+
+  if (row.contributions.length === 0) {
+    row.status = row.unquantifiedStepIds.length > 0 ? "unquantified" : "unused";
+  } else if (row.contributions.some((c) => c.amount === undefined && c.kind === "absolute")) {
+    row.status = "incompatible";
+  } else if (!expected || row.used === undefined) {
+    row.status = "no_expected";
+  } else {
+    row.ratio = expected.value > 0 ? round(row.used / expected.value) : undefined;
+    if (row.ratio !== undefined && row.ratio > 1 + tolerance) row.status = "over";
+    else if (row.ratio !== undefined && row.ratio < 1 - tolerance) row.status = "under";
+  }
+  return row;
+}
+
+export function rollupBomUsage(build: BenchTopLineBuild, opts: BomUsageOptions = {}): BomUsageReport {
+  const tolerance = opts.tolerance ?? DEFAULT_BOM_TOLERANCE;
+  const entries = build.bom ?? [];
+  const known = new Set(entries.map((e) => e.id));
+
+  const stepsByUsage = new Map<string, Step[]>();
+  const unknownTargets: BomUsageReport["unknownTargets"] = [];
+  for (const step of build.steps) {
+    const usageId = step.target?.bomUsageId;
+    if (!usageId || !countsTowardUsage(step)) continue;
+    if (!known.has(usageId)) {
+      unknownTargets.push({ stepId: step.id, bomUsageId: usageId });
+      continue;
+    }
+    stepsByUsage.set(usageId, [...(stepsByUsage.get(usageId) ?? []), step]);
+  }
+
+  const rows = entries.map((entry) => rollupEntry(entry, stepsByUsage.get(entry.id) ?? [], tolerance));
+  return {
+    buildId: build.id,
+    tolerance,
+    rows,
+    unknownTargets,
+    mismatchCount: rows.filter((r) => r.status === "over" || r.status === "under" || r.status === "incompatible").length,
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import { ActionFamily, type BenchTopLineBuild, type Step } from "./schema";
+import type { BuildSummary } from "./store";
+import { expandBuild, selectBuildVersion, type BuildCatalog } from "./composition";
+
+const LOC = { stationId: "garnish" as const, sublocation: { type: "work_surface" as const } };
+
+function step(id: string, orderIndex: number, partial: Partial<Step> = {}): Step {
+  return {
+    id,
+    orderIndex,
+    action: { family: ActionFamily.PREP, techniqueId: "open_pack" },
+    stationId: "garnish",
+    workLocation: { type: "work_surface" },
+    input: [],
+    output: [{ source: { type: "in_build", assemblyId: `out_${id}` }, to: LOC }],
+    ...partial,
+  };
+}
+
+function build(id: string, itemId: string, steps: Step[], partial: Partial<BenchTopLineBuild> = {}): BenchTopLineBuild {
+  return {
+    id,
+    itemId,
+    version: 1,
+    status: "published",
+    steps,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...partial,
+  };
+}
+
+function catalog(builds: BenchTopLineBuild[]): BuildCatalog {
+  const summaries: BuildSummary[] = builds.map((b) => ({
+    buildId: b.id,
+    itemId: b.itemId,
+    version: b.version,
+    status: b.status,
+    createdAt: b.createdAt,
+    updatedAt: b.updatedAt,
+    relativePath: `line-builds/${b.id}.json`,
+  }));
+  return {
+    summaries,
+    read: async (s) => builds.find((b) => b.id === s.buildId && b.version === s.version)!,
+  };
+}
+
+describe("selectBuildVersion", () => {
+  const c = catalog([
+    build("sauce-v1", "sauce", [], { version: 1, status: "published" }),
+    build("sauce-v2", "sauce", [], { version: 2, status: "published" }),
+    build("sauce-v3", "sauce", [], { version: 3, status: "draft" }),
+  ]);
+
+  it("honors explicit versions and latest_published", () => {
+    expect(selectBuildVersion(c.summaries, "sauce", 1)?.buildId).toBe("sauce-v1");
+    expect(selectBuildVersion(c.summaries, "sauce", "latest_published")?.buildId).toBe("sauce-v2");
+    expect(selectBuildVersion(c.summaries, "sauce", 9)).toBeUndefined();
+  });
+
+  it("resolves latest_published against history when the working copy is a newer draft", () => {
+    const h = catalog([
+      build("sauce", "sauce", [], { version: 1, status: "published" }),
+      build("sauce", "sauce", [], { version: 2, status: "draft" }),
+    ]);
+    expect(selectBuildVersion(h.summaries, "sauce", "latest_published")?.version).toBe(1);
+    expect(selectBuildVersion(h.summaries, "sauce", 2)?.status).toBe("draft");
+  });
+});
+
+describe("expandBuild", () => {
+  it("inlines the producer and links the consuming step to it", async () => {
+    const sauce = build("sauce-v1", "sauce", [
+      step("mix", 1),
+      step("portion", 2, {
+        dependsOn: ["mix"],
+        input: [{ source: { type: "in_build", assemblyId: "out_mix" } }],
+        output: [{ source: { type: "in_build", assemblyId: "sauce_cup" }, to: LOC }],
+      }),
+    ], { primaryOutputAssemblyId: "sauce_cup" });
+
+    const bowl = build("bowl-v1", "bowl", [
+      step("dress", 1, { input: [{ source: { type: "external_build", itemId: "sauce" } }] }),
+    ], { requiresBuilds: [{ itemId: "sauce", version: "latest_published" }] });
+
+    const res = await expandBuild(bowl, catalog([sauce, bowl]));
+    expect(res.build.steps.map((s) => s.id)).toEqual(["sauce::mix", "sauce::portion", "dress"]);
+    expect(res.build.steps[1]!.dependsOn).toEqual(["sauce::mix"]);
+
+    const dress = res.build.steps[2]!;
+    expect(dress.dependsOn).toEqual(["sauce::portion"]);
+    expect(dress.input[0]!.source).toEqual({ type: "in_build", assemblyId: "sauce::sauce_cup" });
+    expect(res.components).toMatchObject([{ itemId: "sauce", buildId: "sauce-v1", stepIds: ["sauce::mix", "sauce::portion"] }]);
+    expect(res.cycles).toEqual([]);
+  });
+
+  it("reports an input whose version disagrees with requiresBuilds", async () => {
+    const v1 = build("sauce-v1", "sauce", [step("mix", 1)], { version: 1 });
+    const v2 = build("sauce-v2", "sauce", [step("mix", 1)], { version: 2 });
+    const bowl = build("bowl-v1", "bowl", [
+      step("dress", 1, { input: [{ source: { type: "external_build", itemId: "sauce", version: 1 } }] }),
+      step("top", 2, { input: [{ source: { type: "external_build", itemId: "sauce", version: 2 } }] }),
+    ], { requiresBuilds: [{ itemId: "sauce", version: 2 }] });
+
+    const res = await expandBuild(bowl, catalog([v1, v2, bowl]));
+    expect(res.components).toMatchObject([{ itemId: "sauce", buildId: "sauce-v2", version: 2 }]);
+    expect(res.unresolved).toMatchObject([{ requiredBy: "bowl", itemId: "sauce", requestedVersion: 1 }]);
+    expect(res.links.map((l) => l.stepId)).toEqual(["top"]);
+
+    const [dress, top] = res.build.steps.slice(-2);
+    expect(dress!.dependsOn).toBeUndefined();
+    expect(dress!.input[0]!.source).toMatchObject({ type: "external_build", version: 1 });
+    expect(top!.dependsOn).toEqual(["sauce::mix"]);
+  });
+
+  it("reports cross-build cycles and unresolved refs without throwing", async () => {
+    const a = build("a-v1", "a", [step("a1", 1)], { requiresBuilds: [{ itemId: "b" }, { itemId: "missing" }] });
+    const b = build("b-v1", "b", [step("b1", 1)], { requiresBuilds: [{ itemId: "a" }] });
+
+    const res = await expandBuild(a, catalog([a, b]));
+    expect(res.cycles).toEqual([{ path: ["a", "b", "a"] }]);
+    expect(res.unresolved.map((u) => u.itemId)).toEqual(["missing"]);
+    expect(res.build.steps.map((s) => s.id)).toEqual(["b::b1", "a1"]);
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  type Assembly,
+  type AssemblyRef,
+  type BenchTopLineBuild,
+  type BuildRefVersion,
+  type DependencyRef,
+  type Step,
+  getDependencyStepId,
+  parseBuild,
+} from "./schema";
+import { listBuilds, listBuildSnapshots, readBuildVersion, type BuildSummary } from "./store";
+
+/**
+ * Cross-build composition.
+ *
+ * A build declares prepared components (sauces, prepped proteins, ...) in
+ * `requiresBuilds` and consumes them through `external_build` assembly sources.
+ * Expanding a build follows those refs, loads the producer builds, and inlines
+ * their steps into one composite graph:
+ *
+ * - producer step/assembly IDs are prefixed with the producer itemId
+ *   (`<itemId>::<stepId>`; nested producers nest the prefix)
+ * - consumer inputs from an external build are rewritten to the inlined
+ *   assembly, and the consuming step gains dependsOn edges to the producer
+ *   steps that make it
+ * - cross-build cycles are reported and not followed
+ *
+ * Version selection (BuildRef.version / external_build.version), over working
+ * copies plus published history (data/history, see `lb publish`):
+ * - number: exactly that version of the item
+ * - "latest_published": highest published version
+ * - omitted: highest published version, else the highest version of any status
+ *
+ * An item is inlined once, at the version its requiresBuilds entry selects. An
+ * external_build input whose own version selects a different build is reported
+ * in `unresolved` and left unlinked.
+ */
+
+export const COMPOSITE_ID_SEPARATOR = "::";
+
+export type BuildCatalog = {
+  summaries: BuildSummary[];
+  read(summary: BuildSummary): Promise<BenchTopLineBuild>;
+};
+
+export type ComposedComponent = {
+  itemId: string;
+  requestedVersion?: BuildRefVersion;
+  buildId: string;
+  version: number;
+  status: string;
+  /** itemId of the build that declared the requirement. */
+  requiredBy: string;
+  depth: number;
+  /** Composite step IDs contributed by this component (excludes its own nested components). */
+  stepIds: string[];
+};
+
+export type UnresolvedBuildRef = {
+  requiredBy: string;
+  itemId: string;
+  requestedVersion?: BuildRefVersion;
+  reason: string;
+};
+
+export type CompositionCycle = {
+  /** itemIds from the first occurrence back to the repeated item, e.g. [a, b, a]. */
+  path: string[];
+};
+
+export type CompositionLink = {
+  stepId: string;
+  itemId: string;
+  assemblyId?: string;
+  producerStepIds: string[];
+};
+
+export type ExpandedBuild = {
+  build: BenchTopLineBuild;
+  components: ComposedComponent[];
+  unresolved: UnresolvedBuildRef[];
+  cycles: CompositionCycle[];
+  links: CompositionLink[];
+};
+
+export function createStoreCatalog(summaries: BuildSummary[]): BuildCatalog {
+  return { summaries, read: (s) => readBuildVersion(s.buildId, s.version) };
+}
+
+export async function loadStoreCatalog(): Promise<BuildCatalog> {
+  const [current, published] = await Promise.all([listBuilds(), listBuildSnapshots()]);
+  return createStoreCatalog([...current, ...published]);
+}
+
+function highestVersion(candidates: BuildSummary[]): BuildSummary | undefined {
+  return [...candidates].sort((a, b) => b.version - a.version || b.updatedAt.localeCompare(a.updatedAt))[0];
+}
+
+/**
+ * Pick the build that satisfies a (itemId, version) reference.
+ */
+export function selectBuildVersion(
+  summaries: BuildSummary[],
+  itemId: string,
+  version: BuildRefVersion | undefined,
+): BuildSummary | undefined {
+  const forItem = summaries.filter((s) => s.itemId === itemId);
+  if (typeof version === "number") {
+    const exact = forItem.filter((s) => s.version === version);
+    return exact.find((s) => s.status === "published") ?? highestVersion(exact);
+  }
+  const published = highestVersion(forItem.filter((s) => s.status === "published"));
+  if (version === "latest_published") return published;
+  return published ?? highestVersion(forItem);
+}
+
+function describeVersion(version: BuildRefVersion | undefined): string {
+  if (version === undefined) return "any version";
+  return version === "latest_published" ? "latest_published" : `version ${version}`;
+}
+
+// -----------------------------
+// Prefixing
+// -----------------------------
+
+function prefixId(prefix: string, id: string): string {
+  return `${prefix}${COMPOSITE_ID_SEPARATOR}${id}`;
+}
+
+function prefixAssemblyRef(prefix: string, ref: AssemblyRef): AssemblyRef {
+  if (ref.source.type !== "in_build") return ref;
+  return { ...ref, source: { type: "in_build", assemblyId: prefixId(prefix, ref.source.assemblyId) } };
+}
+
+function prefixDependencyRef(prefix: string, ref: DependencyRef): DependencyRef {
+  if (typeof ref === "string") return prefixId(prefix, ref);
+  return { ...ref, stepId: prefixId(prefix, ref.stepId) };
+}
+
+function prefixBuild(build: BenchTopLineBuild, prefix: string): BenchTopLineBuild {
+  return {
+    ...build,
+    primaryOutputAssemblyId: build.primaryOutputAssemblyId
+      ? prefixId(prefix, build.primaryOutputAssemblyId)
+      : undefined,
+    assemblies: (build.assemblies ?? []).map((a) => ({
+      ...a,
+      id: prefixId(prefix, a.id),
+      lineage: a.lineage?.evolvesFrom
+        ? { ...a.lineage, evolvesFrom: prefixId(prefix, a.lineage.evolvesFrom) }
+        : a.lineage,
+    })),
+    steps: build.steps.map((s) => ({
+      ...s,
+      id: prefixId(prefix, s.id),
+      dependsOn: s.dependsOn?.map((d) => prefixDependencyRef(prefix, d)),
+      input: s.input.map((r) => prefixAssemblyRef(prefix, r)),
+      output: s.output.map((r) => prefixAssemblyRef(prefix, r)),
+    })),
+  };
+}
+
+/**
+ * Steps of a (prefixed) producer that make the requested assembly: the explicit
+ * assemblyId, else the primary output, else the producer's sink steps.
+ */
+function findProducerSteps(
+  producer: BenchTopLineBuild,
+  assemblyId: string | undefined,
+): { assemblyId?: string; stepIds: string[] } {
+  const target = assemblyId ?? producer.primaryOutputAssemblyId;
+  if (target) {
+    const stepIds = producer.steps
+      .filter((s) => s.output.some((o) => o.source.type === "in_build" && o.source.assemblyId === target))
+      .map((s) => s.id);
+    if (stepIds.length > 0) return { assemblyId: target, stepIds };
+  }
+
+  const dependedOn = new Set(producer.steps.flatMap((s) => (s.dependsOn ?? []).map(getDependencyStepId)));
+  return { stepIds: producer.steps.filter((s) => !dependedOn.has(s.id)).map((s) => s.id) };
+}
+
+// -----------------------------
+// expandBuild()
+// -----------------------------
+
+type ExpandState = {
+  catalog: BuildCatalog;
+  components: ComposedComponent[];
+  unresolved: UnresolvedBuildRef[];
+  cycles: CompositionCycle[];
+  links: CompositionLink[];
+};
+
+async function expandInto(
+  build: BenchTopLineBuild,
+  stack: string[],
+  state: ExpandState,
+): Promise<BenchTopLineBuild> {
+  const refs = build.requiresBuilds ?? [];
+  if (refs.length === 0) return build;
+
+  const inlinedSteps: Step[] = [];
+  const inlinedAssemblies: Assembly[] = [];
+  const producers = new Map<string, { build: BenchTopLineBuild; summary: BuildSummary }>();
+
+  for (const ref of refs) {
+    const cycleStart = stack.indexOf(ref.itemId);
+    if (cycleStart >= 0) {
+      state.cycles.push({ path: [...stack.slice(cycleStart), ref.itemId] });
+      continue;
+    }
+
+    const summary = selectBuildVersion(state.catalog.summaries, ref.itemId, ref.version);
+    if (!summary) {
+      state.unresolved.push({
+        requiredBy: build.itemId,
+        itemId: ref.itemId,
+        requestedVersion: ref.version,
+        reason: `no build found for itemId ${ref.itemId} (${describeVersion(ref.version)})`,
+      });
+      continue;
+    }
+
+    const producer = await state.catalog.read(summary);
+    const expanded = await expandInto(producer, [...stack, ref.itemId], state);
+    const prefixed = prefixBuild(expanded, ref.itemId);
+    producers.set(ref.itemId, { build: prefixed, summary });
+
+    const fullPrefix = [...stack.slice(1), ref.itemId].join(COMPOSITE_ID_SEPARATOR);
+    state.components.push({
+      itemId: ref.itemId,
+      requestedVersion: ref.version,
+      buildId: summary.buildId,
+      version: summary.version,
+      status: summary.status,
+      requiredBy: build.itemId,
+      depth: stack.length,
+      stepIds: producer.steps.map((s) => prefixId(fullPrefix, s.id)),
+    });
+
+    inlinedSteps.push(...prefixed.steps);
+    inlinedAssemblies.push(...(prefixed.assemblies ?? []));
+  }
+
+  const steps = build.steps.map((step) => {
+    const extraDeps: string[] = [];
+    const input = step.input.map((ref) => {
+      if (ref.source.type !== "external_build") return ref;
+      const producer = producers.get(ref.source.itemId);
+      if (!producer) return ref;
+
+      // Only one version of an item is inlined: an input asking for a version
+      // that resolves elsewhere is reported instead of silently using it.
+      const requested = ref.source.version;
+      if (requested !== undefined) {
+        const wanted = selectBuildVersion(state.catalog.summaries, ref.source.itemId, requested);
+        if (wanted?.buildId !== producer.summary.buildId || wanted.version !== producer.summary.version) {
+          state.unresolved.push({
+            requiredBy: build.itemId,
+            itemId: ref.source.itemId,
+            requestedVersion: requested,
+            reason: `step ${step.id} consumes ${ref.source.itemId} (${describeVersion(requested)}) `
+              + `but requiresBuilds resolves it to version ${producer.summary.version}`,
+          });
+          return ref;
+        }
+      }
+
+      const made = findProducerSteps(producer.build, ref.source.assemblyId
+        ? prefixId(ref.source.itemId, ref.source.assemblyId)
+        : undefined);
+      extraDeps.push(...made.stepIds);
+      if (stack.length === 1) {
+        state.links.push({
+          stepId: step.id,
+          itemId: ref.source.itemId,
+          assemblyId: made.assemblyId,
+          producerStepIds: made.stepIds,
+        });
+      }
+      return made.assemblyId
+        ? { ...ref, source: { type: "in_build" as const, assemblyId: made.assemblyId } }
+        : ref;
+    });
+
+    if (extraDeps.length === 0) return step;
+    const existing = new Set((step.dependsOn ?? []).map(getDependencyStepId));
+    const dependsOn = [...(step.dependsOn ?? []), ...Array.from(new Set(extraDeps)).filter((id) => !existing.has(id))];
+    return { ...step, input, dependsOn };
+  });
+
+  return {
+    ...build,
+    steps: [...inlinedSteps, ...steps],
+    assemblies: [...inlinedAssemblies, ...(build.assemblies ?? [])],
+  };
+}
+
+/**
+ * Expand a build's requiresBuilds into a single composite build.
+ * Unresolvable refs and cycles are reported, never thrown.
+ */
+export async function expandBuild(build: BenchTopLineBuild, catalog: BuildCatalog): Promise<ExpandedBuild> {
+  const state: ExpandState = { catalog, components: [], unresolved: [], cycles: [], links: [] };
+  const composite = await expandInto(build, [build.itemId], state);
+  return {
+    build: parseBuild(composite),
+    components: state.components,
+    unresolved: state.unresolved,
+    cycles: state.cycles,
+    links: state.links,
+  };
+}
@@ -259,7 +259,7 @@ export function deriveInputSource(
 
     // No producer - must be storage retrieval
     // REMOVED: step.from no longer exists
-    // Input location should be explicitly set or derived from storageLocation
+    // Input location should be explicitly set or derived from workLocation
     return inp;
   });
 
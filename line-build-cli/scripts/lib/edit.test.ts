@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { applyOps, EditError } from "./edit";
+import { baseFixtureBuild } from "./fixtures";
+import { validateBuild } from "./validate";
+import type { BenchTopLineBuild } from "./schema";
+
+function flowErrors(build: BenchTopLineBuild): string[] {
+  const published = validateBuild({ ...build, status: "published" });
+  return published.hardErrors.filter((e) => e.ruleId === "H43" || e.ruleId === "H44").map((e) => `${e.stepId}: ${e.message}`);
+}
+
+function withAssemblies(): BenchTopLineBuild {
+  const build = baseFixtureBuild("flow-ops");
+  build.assemblies = [
+    { id: "bun" },
+    { id: "bun_filled", lineage: { evolvesFrom: "bun" } },
+    { id: "bun_toasted", lineage: { evolvesFrom: "bun_filled" } },
+    { id: "bun_packaged", type: "final" },
+  ];
+  build.primaryOutputAssemblyId = "bun_packaged";
+  // Consumers pick up where producers left off, so H43 starts clean.
+  for (const step of build.steps) {
+    for (const inp of step.input) {
+      const producer = build.steps.find((s) => s.output.some((o) => JSON.stringify(o.source) === JSON.stringify(inp.source)));
+      inp.from = producer?.output[0]?.to;
+    }
+  }
+  return build;
+}
+
+describe("material flow ops", () => {
+  it("rename_assembly rewrites refs, lineage and the primary output", () => {
+    const out = applyOps(withAssemblies(), [
+      { type: "rename_assembly", from: "bun_toasted", to: "bun_warm" },
+      { type: "rename_assembly", from: "bun_packaged", to: "bun_boxed" },
+    ]);
+    expect(out.steps.find((s) => s.id === "s3")!.output[0]!.source).toEqual({ type: "in_build", assemblyId: "bun_warm" });
+    expect(out.steps.find((s) => s.id === "s4")!.input[0]!.source).toEqual({ type: "in_build", assemblyId: "bun_warm" });
+    expect(out.assemblies!.map((a) => a.id)).toEqual(["bun", "bun_filled", "bun_warm", "bun_boxed"]);
+    expect(out.primaryOutputAssemblyId).toBe("bun_boxed");
+    expect(() => applyOps(out, [{ type: "rename_assembly", from: "bun", to: "bun_warm" }])).toThrow(/already exists/);
+  });
+
+  it("split_step and merge_steps keep continuity and undo each other", () => {
+    const base = withAssemblies();
+    const split = applyOps(base, [{ type: "split_step", stepId: "s3", newStepId: "s3b", assemblyId: "bun_hot" }]);
+
+    expect(split.steps.map((s) => `${s.id}@${s.orderIndex}`)).toEqual(["s1@1", "s2@2", "s3@3", "s3b@4", "s4@5"]);
+    const [s3, s3b, s4] = ["s3", "s3b", "s4"].map((id) => split.steps.find((s) => s.id === id)!);
+    expect(s3!.output).toEqual([{ source: { type: "in_build", assemblyId: "bun_hot" }, to: { stationId: "turbo", sublocation: { type: "work_surface" } } }]);
+    expect(s3b!.input[0]!.from).toEqual(s3!.output[0]!.to);
+    expect(s3b!.dependsOn).toEqual(["s3"]);
+    expect(s4!.dependsOn).toEqual(["s3b"]);
+    expect(split.assemblies!.find((a) => a.id === "bun_toasted")!.lineage).toEqual({ evolvesFrom: "bun_hot" });
+    expect(flowErrors(base)).toEqual([]);
+    expect(flowErrors(split)).toEqual([]);
+
+    const merged = applyOps(split, [{ type: "merge_steps", stepId: "s3", mergeStepId: "s3b" }]);
+    expect(merged.steps.map((s) => s.id)).toEqual(["s1", "s2", "s3", "s4"]);
+    expect(merged.steps.find((s) => s.id === "s3")!.output).toEqual(base.steps.find((s) => s.id === "s3")!.output);
+    expect(merged.steps.find((s) => s.id === "s4")!.dependsOn).toEqual(["s3"]);
+    expect(merged.assemblies).toEqual(base.assemblies);
+    expect(flowErrors(merged)).toEqual([]);
+  });
+
+  it("refuses to merge an upstream step into its consumer", () => {
+    const build = baseFixtureBuild("merge-reverse");
+    expect(() => applyOps(build, [{ type: "merge_steps", stepId: "s2", mergeStepId: "s1" }])).toThrow(/s1 is upstream of it/);
+    expect(() => applyOps(build, [{ type: "merge_steps", stepId: "s3", mergeStepId: "s1" }])).toThrow(EditError);
+    expect(applyOps(build, [{ type: "merge_steps", stepId: "s1", mergeStepId: "s2" }]).steps.map((s) => s.id)).not.toContain("s2");
+  });
+
+  it("refuses to merge steps with another step between them", () => {
+    // s1 <- s2 <- s3: folding s3 into s1 would make s1 and s2 depend on each other.
+    const build = baseFixtureBuild("merge-between");
+    expect(() => applyOps(build, [{ type: "merge_steps", stepId: "s1", mergeStepId: "s3" }])).toThrow(/s2 lies between them/);
+    expect(() => applyOps(build, [{ type: "merge_steps", stepId: "s3", mergeStepId: "s1" }])).toThrow(/s2 lies between them/);
+  });
+
+  it("refuses edits that would break single-producer or continuity", () => {
+    const build = withAssemblies();
+    expect(() => applyOps(build, [{ type: "add_output", stepId: "s1", output: { source: { type: "in_build", assemblyId: "bun_filled" } } }])).toThrow(EditError);
+    expect(() => applyOps(build, [{ type: "remove_output", stepId: "s2", assemblyId: "bun_filled" }])).toThrow(/still consumed by s3/);
+
+    const moved = applyOps(build, [
+      { type: "set_output_location", stepId: "s3", assemblyId: "bun_toasted", to: { stationId: "expo", sublocation: { type: "work_surface" } } },
+      { type: "add_input", stepId: "s4", input: { source: { type: "in_build", assemblyId: "bun" } } },
+    ]);
+    const s4 = moved.steps.find((s) => s.id === "s4")!;
+    expect(s4.input[0]!.from).toEqual({ stationId: "expo", sublocation: { type: "work_surface" } });
+    expect(s4.input[1]!.from).toEqual({ stationId: "garnish", sublocation: { type: "work_surface" } });
+    expect(s4.dependsOn).toEqual(["s3", "s1"]);
+    expect(flowErrors(moved)).toEqual([]);
+  });
+});
@@ -1,20 +1,40 @@
-import { type BenchTopLineBuild, type Step, parseBuild, ActionFamily, CookingPhase } from "./schema";
-import { matchesWhere, parseWhere, QUERY_FIELD_WHITELIST, type QueryField, type QueryPrimitive, coerceQueryValue } from "./query";
+import { z } from "zod";
+import { type AssemblyInputRole, type AssemblyRef, type BenchTopLineBuild, type DependencyRef, type LocationRef, type Step, AssemblyRefSchema, LocationRefSchema, StepSchema, getDependencyStepId, parseBuild, ActionFamily, CookingPhase, createTrackComparator } from "./schema";
+import { matchesWhere, parseWhere } from "./query";
+import { FieldPathError, SET_FIELD_MODES, parseFieldPath, writeField, type FieldPath, type SetFieldMode } from "./fieldPath";
+import { applyJsonPatch, JsonPatchSchema } from "./jsonPatch";
 
 /**
  * Atomic mutation engine for BenchTopLineBuilds.
  * Supports field-level and structural edits.
  */
 
-export type EditOp =
-  | { type: "set_field"; where?: string; field: string; value: string | number | boolean }
-  | { type: "add_step"; step: Partial<Step>; afterStepId?: string; atIndex?: number }
-  | { type: "remove_step"; stepId: string }
-  | { type: "move_step"; stepId: string; toOrderIndex: number }
-  | { type: "add_dep"; stepId: string; dependsOn: string }
-  | { type: "remove_dep"; stepId: string; dependsOn: string }
-  | { type: "set_build_field"; field: string; value: string | number | boolean }
-  | { type: "normalize_indices" };
+/**
+ * Runtime contract for EditOp (exported as JSON Schema by `lb schema`).
+ * The EditOp type is inferred from it, so the two cannot drift.
+ */
+export const EditOpSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("set_field"), where: z.string().optional(), field: z.string(), value: z.unknown().optional(), mode: z.enum(SET_FIELD_MODES).optional() }).strict(),
+  z.object({ type: z.literal("add_step"), step: StepSchema.partial(), afterStepId: z.string().optional(), atIndex: z.number().int().optional() }).strict(),
+  z.object({ type: z.literal("remove_step"), stepId: z.string() }).strict(),
+  z.object({ type: z.literal("move_step"), stepId: z.string(), toOrderIndex: z.number() }).strict(),
+  z.object({ type: z.literal("add_dep"), stepId: z.string(), dependsOn: z.string() }).strict(),
+  z.object({ type: z.literal("remove_dep"), stepId: z.string(), dependsOn: z.string() }).strict(),
+  z.object({ type: z.literal("set_input_role"), stepId: z.string(), inputIndex: z.number().int(), role: z.enum(["base", "added"]) }).strict(),
+  z.object({ type: z.literal("set_build_field"), field: z.string(), value: z.unknown().optional(), mode: z.enum(SET_FIELD_MODES).optional() }).strict(),
+  z.object({ type: z.literal("normalize_indices") }).strict(),
+  z.object({ type: z.literal("json_patch"), patch: JsonPatchSchema }).strict(),
+  z.object({ type: z.literal("add_input"), stepId: z.string(), input: AssemblyRefSchema, atIndex: z.number().int().optional() }).strict(),
+  z.object({ type: z.literal("remove_input"), stepId: z.string(), inputIndex: z.number().int().optional(), assemblyId: z.string().optional() }).strict(),
+  z.object({ type: z.literal("add_output"), stepId: z.string(), output: AssemblyRefSchema }).strict(),
+  z.object({ type: z.literal("remove_output"), stepId: z.string(), assemblyId: z.string() }).strict(),
+  z.object({ type: z.literal("set_output_location"), stepId: z.string(), assemblyId: z.string(), to: LocationRefSchema }).strict(),
+  z.object({ type: z.literal("rename_assembly"), from: z.string(), to: z.string() }).strict(),
+  z.object({ type: z.literal("split_step"), stepId: z.string(), newStepId: z.string(), assemblyId: z.string(), step: StepSchema.partial().optional() }).strict(),
+  z.object({ type: z.literal("merge_steps"), stepId: z.string(), mergeStepId: z.string() }).strict(),
+]);
+
+export type EditOp = z.infer<typeof EditOpSchema>;
 
 export class EditError extends Error {
   constructor(message: string) {
@@ -50,12 +70,43 @@ export function applyOps(build: BenchTopLineBuild, ops: EditOp[]): BenchTopLineB
       case "remove_dep":
         current = applyRemoveDep(current, op);
         break;
+      case "set_input_role":
+        current = applySetInputRole(current, op);
+        break;
       case "set_build_field":
         current = applySetBuildField(current, op);
         break;
       case "normalize_indices":
         current = applyNormalizeIndices(current);
         break;
+      case "json_patch":
+        // RFC 6902 against the raw build JSON; the parseBuild below is the schema check.
+        current = applyJsonPatch(current, op.patch);
+        break;
+      case "add_input":
+        current = applyAddInput(current, op);
+        break;
+      case "remove_input":
+        current = applyRemoveInput(current, op);
+        break;
+      case "add_output":
+        current = applyAddOutput(current, op);
+        break;
+      case "remove_output":
+        current = applyRemoveOutput(current, op);
+        break;
+      case "set_output_location":
+        current = applySetOutputLocation(current, op);
+        break;
+      case "rename_assembly":
+        current = applyRenameAssembly(current, op);
+        break;
+      case "split_step":
+        current = applySplitStep(current, op);
+        break;
+      case "merge_steps":
+        current = applyMergeSteps(current, op);
+        break;
       default:
         // @ts-ignore
         throw new EditError(`Unknown op type: ${op.type}`);
@@ -66,111 +117,46 @@ export function applyOps(build: BenchTopLineBuild, ops: EditOp[]): BenchTopLineB
   return parseBuild(current);
 }
 
-function applySetField(build: BenchTopLineBuild, op: { where?: string; field: string; value: any }): BenchTopLineBuild {
-  const clauses = op.where ? parseWhere(op.where) : [];
-  const field = op.field as QueryField;
-  
-  if (!(QUERY_FIELD_WHITELIST as readonly string[]).includes(field)) {
-    throw new EditError(`Field not allowed in set_field: ${field}`);
+function resolveEditField(field: string, root: "step" | "build"): FieldPath {
+  try {
+    return parseFieldPath(field, root);
+  } catch (err) {
+    if (err instanceof FieldPathError) throw new EditError(err.message);
+    throw err;
   }
+}
 
-  for (const step of build.steps) {
-    if (matchesWhere(clauses, build, step)) {
-      setStepField(step, field, op.value);
-    }
+function writeEditField(target: object, path: FieldPath, op: { value?: unknown; mode?: SetFieldMode }, label: string) {
+  try {
+    writeField(target as Record<string, unknown>, path, op.mode ?? "set", op.value);
+  } catch (err) {
+    if (err instanceof FieldPathError) throw new EditError(`${label}: ${err.message}`);
+    throw err;
   }
-  return build;
 }
 
-function setStepField(step: Step, field: string, value: any) {
-  // Simplified field setting logic from old bulkUpdate.ts
-  if (field === "step.time.durationSeconds") {
-    if (!step.time) step.time = { durationSeconds: value, isActive: false };
-    else step.time.durationSeconds = value;
-  } else if (field === "step.time.isActive") {
-    if (!step.time) step.time = { durationSeconds: 0, isActive: value };
-    else step.time.isActive = value;
-  } else if (field === "step.quantity.value") {
-    if (!step.quantity) step.quantity = { value, unit: "" };
-    else step.quantity.value = value;
-  } else if (field === "step.action.family") {
-    step.action.family = value;
-  } else if (field === "step.action.techniqueId") {
-    step.action.techniqueId = value;
-  } else if (field === "step.stationId") {
-    step.stationId = value;
-  } else if (field === "step.toolId") {
-    step.toolId = value;
-  } else if (field === "step.notes") {
-    step.notes = value;
-  } else if (field === "step.instruction") {
-    step.instruction = value;
-  } else if (field === "step.cookingPhase") {
-    step.cookingPhase = value;
-  } else if (field === "step.workLocation.type") {
-    if (!step.workLocation) step.workLocation = { type: value };
-    else step.workLocation.type = value;
-  } else if (field === "step.workLocation.equipmentId") {
-    if (!step.workLocation) step.workLocation = { type: "equipment", equipmentId: value };
-    else step.workLocation.equipmentId = value;
-  } else if (field === "step.from.stationId") {
-    if (!step.from) step.from = { stationId: value };
-    else step.from.stationId = value;
-  } else if (field === "step.from.sublocation.type") {
-    if (!step.from) step.from = { sublocation: { type: value } } as any;
-    else {
-      if (!step.from.sublocation) step.from.sublocation = { type: value } as any;
-      else step.from.sublocation.type = value;
-    }
-  } else if (field === "step.from.sublocation.equipmentId") {
-    if (!step.from) step.from = { sublocation: { type: "equipment", equipmentId: value } } as any;
-    else {
-      if (!step.from.sublocation) step.from.sublocation = { type: "equipment", equipmentId: value } as any;
-      else step.from.sublocation.equipmentId = value;
-    }
-  } else if (field === "step.to.stationId") {
-    if (!step.to) step.to = { stationId: value };
-    else step.to.stationId = value;
-  } else if (field === "step.to.sublocation.type") {
-    if (!step.to) step.to = { sublocation: { type: value } } as any;
-    else {
-      if (!step.to.sublocation) step.to.sublocation = { type: value } as any;
-      else step.to.sublocation.type = value;
-    }
-  } else if (field === "step.to.sublocation.equipmentId") {
-    if (!step.to) step.to = { sublocation: { type: "equipment", equipmentId: value } } as any;
-    else {
-      if (!step.to.sublocation) step.to.sublocation = { type: "equipment", equipmentId: value } as any;
-      else step.to.sublocation.equipmentId = value;
+/**
+ * Field paths and values are checked against the Zod schema (see fieldPath.ts);
+ * mode defaults to "set".
+ */
+function applySetField(build: BenchTopLineBuild, op: { where?: string; field: string; value?: unknown; mode?: SetFieldMode }): BenchTopLineBuild {
+  const where = op.where ? parseWhere(op.where) : undefined;
+  const path = resolveEditField(op.field, "step");
+
+  for (const step of build.steps) {
+    if (!where || matchesWhere(where, build, step)) {
+      writeEditField(step, path, op, `Step ${step.id}`);
     }
-  } else if (field.startsWith("step.equipment.")) {
-    if (!step.equipment) step.equipment = { applianceId: value };
-    else step.equipment.applianceId = value;
-  } else if (field.startsWith("step.container.")) {
-    const sub = field.split(".")[2];
-    if (!step.container) step.container = {} as any;
-    (step.container as any)[sub!] = value;
-  } else if (field.startsWith("step.storageLocation.")) {
-    if (!step.storageLocation) step.storageLocation = { type: value };
-    else step.storageLocation.type = value;
-  } else if (field.startsWith("step.target.")) {
-    const sub = field.split(".")[2];
-    if (!step.target) step.target = { type: sub === "bomUsageId" ? "bom_usage" : "bom_component" } as any;
-    (step.target as any)[sub!] = value;
-  } else if (field === "step.quantity.unit") {
-    if (!step.quantity) step.quantity = { value: 0, unit: value };
-    else step.quantity.unit = value;
-  } else {
-    throw new EditError(`Unsupported field for set_field: ${field}`);
   }
+  return build;
 }
 
-function applySetBuildField(build: BenchTopLineBuild, op: { field: string; value: any }): BenchTopLineBuild {
-  const field = op.field;
-  if (field === "build.name") build.name = op.value;
-  else if (field === "build.status") build.status = op.value;
-  else if (field === "build.itemId") build.itemId = op.value;
-  else throw new EditError(`Unsupported build field: ${field}`);
+function applySetBuildField(build: BenchTopLineBuild, op: { field: string; value?: unknown; mode?: SetFieldMode }): BenchTopLineBuild {
+  const path = resolveEditField(op.field, "build");
+  if (path.segments[0] && "key" in path.segments[0] && path.segments[0].key === "steps") {
+    throw new EditError(`Use set_field or structural ops for steps, not set_build_field: ${op.field}`);
+  }
+  writeEditField(build, path, op, `Build ${build.id}`);
   return build;
 }
 
@@ -249,12 +235,23 @@ function applyRemoveDep(build: BenchTopLineBuild, op: { stepId: string; dependsO
   return build;
 }
 
+function applySetInputRole(build: BenchTopLineBuild, op: { stepId: string; inputIndex: number; role: AssemblyInputRole }): BenchTopLineBuild {
+  const step = build.steps.find(s => s.id === op.stepId);
+  if (!step) throw new EditError(`Step not found: ${op.stepId}`);
+
+  const input = step.input?.[op.inputIndex];
+  if (!input) throw new EditError(`Input not found: ${op.stepId} input[${op.inputIndex}]`);
+  input.role = op.role;
+  return build;
+}
+
 function applyNormalizeIndices(build: BenchTopLineBuild): BenchTopLineBuild {
-  // Sort by track then current orderIndex then id
+  // Sort by track (declared build.tracks order) then current orderIndex then id
+  const compareTracks = createTrackComparator(build.tracks);
   build.steps.sort((a, b) => {
     const aTrack = a.trackId || "";
     const bTrack = b.trackId || "";
-    if (aTrack !== bTrack) return aTrack.localeCompare(bTrack);
+    if (aTrack !== bTrack) return compareTracks(aTrack, bTrack);
     if (a.orderIndex !== b.orderIndex) return a.orderIndex - b.orderIndex;
     return a.id.localeCompare(b.id);
   });
@@ -270,3 +267,326 @@ function applyNormalizeIndices(build: BenchTopLineBuild): BenchTopLineBuild {
 
   return build;
 }
+
+// -----------------------------
+// Material flow ops
+// -----------------------------
+//
+// These keep the assembly graph consistent so H43 (continuity) and H44 (single
+// producer) stay green: consumer input.from follows the producer's output.to,
+// an assembly never gains a second producer, and dependsOn is rewired when steps
+// are split or merged.
+
+function findStep(build: BenchTopLineBuild, stepId: string): Step {
+  const step = build.steps.find((s) => s.id === stepId);
+  if (!step) throw new EditError(`Step not found: ${stepId}`);
+  return step;
+}
+
+function inBuildId(ref: AssemblyRef): string | undefined {
+  return ref.source.type === "in_build" ? ref.source.assemblyId : undefined;
+}
+
+/** Non-excluded steps (other than `exceptStepId`) with an in_build output of `assemblyId`. */
+function producersOf(build: BenchTopLineBuild, assemblyId: string, exceptStepId?: string): Step[] {
+  return build.steps.filter(
+    (s) => s.id !== exceptStepId && !s.exclude && s.output.some((o) => inBuildId(o) === assemblyId),
+  );
+}
+
+function consumersOf(build: BenchTopLineBuild, assemblyId: string): Step[] {
+  return build.steps.filter((s) => s.input.some((i) => inBuildId(i) === assemblyId));
+}
+
+function isAssemblyReferenced(build: BenchTopLineBuild, assemblyId: string): boolean {
+  return (
+    build.primaryOutputAssemblyId === assemblyId ||
+    (build.assemblies ?? []).some((a) => a.id === assemblyId) ||
+    build.steps.some((s) => [...s.input, ...s.output].some((r) => inBuildId(r) === assemblyId || r.onAssembly === assemblyId))
+  );
+}
+
+/** Where a step leaves an intermediate: its station and work location. */
+function stepLocation(step: Step): LocationRef | undefined {
+  if (!step.stationId && !step.workLocation) return undefined;
+  return {
+    ...(step.stationId ? { stationId: step.stationId } : {}),
+    ...(step.workLocation ? { sublocation: { ...step.workLocation } } : {}),
+  };
+}
+
+function addDependency(step: Step, dep: DependencyRef) {
+  const id = getDependencyStepId(dep);
+  if (id === step.id) return;
+  if (!step.dependsOn) step.dependsOn = [];
+  if (!step.dependsOn.some((d) => getDependencyStepId(d) === id)) step.dependsOn.push(dep);
+}
+
+/** Point every dependsOn on `fromStepId` at `toStepId` (keeping conditions). */
+function retargetDependencies(build: BenchTopLineBuild, fromStepId: string, toStepId: string) {
+  for (const s of build.steps) {
+    if (!s.dependsOn?.some((d) => getDependencyStepId(d) === fromStepId)) continue;
+    const deps = s.dependsOn;
+    s.dependsOn = [];
+    for (const d of deps) {
+      if (getDependencyStepId(d) !== fromStepId) addDependency(s, d);
+      else addDependency(s, typeof d === "string" ? toStepId : { ...d, stepId: toStepId });
+    }
+    if (s.dependsOn.length === 0) delete s.dependsOn;
+  }
+}
+
+function applyAddInput(build: BenchTopLineBuild, op: { stepId: string; input: AssemblyRef; atIndex?: number }): BenchTopLineBuild {
+  const step = findStep(build, op.stepId);
+  const input: AssemblyRef = cloneJson(op.input);
+  const assemblyId = inBuildId(input);
+
+  if (assemblyId) {
+    if ((build.assemblies ?? []).length > 0 && !build.assemblies!.some((a) => a.id === assemblyId)) {
+      throw new EditError(`Unknown assembly: ${assemblyId} (add it with add_output on its producing step)`);
+    }
+    const producer = producersOf(build, assemblyId, step.id)[0];
+    const producedTo = producer?.output.find((o) => inBuildId(o) === assemblyId)?.to;
+    if (!input.from && producedTo) input.from = cloneJson(producedTo);
+    if (producer) addDependency(step, producer.id);
+  }
+
+  if (op.atIndex !== undefined) step.input.splice(op.atIndex, 0, input);
+  else step.input.push(input);
+  return build;
+}
+
+function applyRemoveInput(build: BenchTopLineBuild, op: { stepId: string; inputIndex?: number; assemblyId?: string }): BenchTopLineBuild {
+  const step = findStep(build, op.stepId);
+  const idx = op.inputIndex ?? step.input.findIndex((i) => inBuildId(i) === op.assemblyId);
+  if (op.inputIndex === undefined && op.assemblyId === undefined) throw new EditError("remove_input requires inputIndex or assemblyId");
+  if (idx < 0 || idx >= step.input.length) {
+    throw new EditError(`Input not found: ${op.stepId} ${op.assemblyId ?? `input[${op.inputIndex}]`}`);
+  }
+  step.input.splice(idx, 1);
+  return build;
+}
+
+function applyAddOutput(build: BenchTopLineBuild, op: { stepId: string; output: AssemblyRef }): BenchTopLineBuild {
+  const step = findStep(build, op.stepId);
+  const output: AssemblyRef = cloneJson(op.output);
+  const assemblyId = inBuildId(output);
+
+  if (assemblyId) {
+    const others = producersOf(build, assemblyId, step.id);
+    if (others.length > 0) {
+      throw new EditError(`Assembly ${assemblyId} is already produced by ${others.map((s) => s.id).join(", ")} (H44)`);
+    }
+    if (step.output.some((o) => inBuildId(o) === assemblyId)) throw new EditError(`${op.stepId} already outputs ${assemblyId}`);
+    if (build.assemblies && !build.assemblies.some((a) => a.id === assemblyId)) build.assemblies.push({ id: assemblyId });
+    // Existing consumers now read from this step.
+    for (const consumer of consumersOf(build, assemblyId)) {
+      if (consumer.id === step.id) continue;
+      for (const inp of consumer.input) {
+        if (inBuildId(inp) === assemblyId && output.to && !inp.from) inp.from = cloneJson(output.to);
+      }
+      addDependency(consumer, step.id);
+    }
+  }
+
+  step.output.push(output);
+  return build;
+}
+
+function applyRemoveOutput(build: BenchTopLineBuild, op: { stepId: string; assemblyId: string }): BenchTopLineBuild {
+  const step = findStep(build, op.stepId);
+  const idx = step.output.findIndex((o) => inBuildId(o) === op.assemblyId);
+  if (idx === -1) throw new EditError(`Output not found: ${op.stepId} ${op.assemblyId}`);
+
+  const consumers = consumersOf(build, op.assemblyId).filter((s) => s.id !== step.id);
+  if (consumers.length > 0) {
+    throw new EditError(
+      `Assembly ${op.assemblyId} is still consumed by ${consumers.map((s) => s.id).join(", ")} (remove those inputs first)`,
+    );
+  }
+  step.output.splice(idx, 1);
+  return build;
+}
+
+function applySetOutputLocation(build: BenchTopLineBuild, op: { stepId: string; assemblyId: string; to: LocationRef }): BenchTopLineBuild {
+  const step = findStep(build, op.stepId);
+  const output = step.output.find((o) => inBuildId(o) === op.assemblyId);
+  if (!output) throw new EditError(`Output not found: ${op.stepId} ${op.assemblyId}`);
+
+  output.to = cloneJson(op.to);
+  for (const consumer of consumersOf(build, op.assemblyId)) {
+    if (consumer.id === step.id) continue;
+    for (const inp of consumer.input) {
+      if (inBuildId(inp) === op.assemblyId) inp.from = cloneJson(op.to);
+    }
+  }
+  return build;
+}
+
+function applyRenameAssembly(build: BenchTopLineBuild, op: { from: string; to: string }): BenchTopLineBuild {
+  if (op.from === op.to) return build;
+  if (!isAssemblyReferenced(build, op.from)) throw new EditError(`Assembly not found: ${op.from}`);
+  if (isAssemblyReferenced(build, op.to)) throw new EditError(`Assembly already exists: ${op.to}`);
+
+  const rename = (id: string | undefined) => (id === op.from ? op.to : id);
+  for (const assembly of build.assemblies ?? []) {
+    assembly.id = rename(assembly.id)!;
+    if (assembly.lineage?.evolvesFrom) assembly.lineage.evolvesFrom = rename(assembly.lineage.evolvesFrom);
+  }
+  for (const step of build.steps) {
+    for (const ref of [...step.input, ...step.output]) {
+      if (ref.source.type === "in_build") ref.source.assemblyId = rename(ref.source.assemblyId)!;
+      if (ref.onAssembly) ref.onAssembly = rename(ref.onAssembly);
+    }
+  }
+  if (build.primaryOutputAssemblyId) build.primaryOutputAssemblyId = rename(build.primaryOutputAssemblyId);
+  return build;
+}
+
+/**
+ * Split a step in two, joined by a new intermediate assembly: the original keeps
+ * its inputs and now outputs `assemblyId`; the new step (inserted right after it)
+ * consumes that and takes over the original outputs and the steps that depended on it.
+ */
+function applySplitStep(
+  build: BenchTopLineBuild,
+  op: { stepId: string; newStepId: string; assemblyId: string; step?: Partial<Step> },
+): BenchTopLineBuild {
+  const first = findStep(build, op.stepId);
+  if (build.steps.some((s) => s.id === op.newStepId)) throw new EditError(`Step already exists: ${op.newStepId}`);
+  if (isAssemblyReferenced(build, op.assemblyId)) throw new EditError(`Assembly already exists: ${op.assemblyId}`);
+
+  const location = stepLocation(first);
+  const intermediate: AssemblyRef = { source: { type: "in_build", assemblyId: op.assemblyId }, ...(location ? { to: location } : {}) };
+  const { instruction: _instruction, time: _time, notes: _notes, provenance: _provenance, overlays: _overlays, ...carried } = cloneJson(first);
+  const second: Step = {
+    ...carried,
+    ...cloneJson(op.step ?? {}),
+    id: op.newStepId,
+    orderIndex: first.orderIndex + 1,
+    input: [{ source: { type: "in_build", assemblyId: op.assemblyId }, ...(location ? { from: cloneJson(location) } : {}) }],
+    output: first.output,
+    dependsOn: [first.id],
+  };
+
+  retargetDependencies(build, first.id, second.id);
+  first.output = [intermediate];
+
+  // Lineage: input -> intermediate -> original outputs (keeps H30 happy for 1:1 chains).
+  const firstInputs = first.input.map(inBuildId).filter((id): id is string => !!id);
+  if (build.assemblies) {
+    build.assemblies.push({
+      id: op.assemblyId,
+      type: "intermediate",
+      ...(firstInputs.length === 1 ? { lineage: { evolvesFrom: firstInputs[0] } } : {}),
+    });
+    for (const assembly of build.assemblies) {
+      if (assembly.id !== op.assemblyId && assembly.lineage?.evolvesFrom && firstInputs.includes(assembly.lineage.evolvesFrom) &&
+        second.output.some((o) => inBuildId(o) === assembly.id)) {
+        assembly.lineage.evolvesFrom = op.assemblyId;
+      }
+    }
+  }
+
+  const track = first.trackId ?? "";
+  for (const s of build.steps) {
+    if ((s.trackId ?? "") === track && s.orderIndex > first.orderIndex) s.orderIndex++;
+  }
+  build.steps.splice(build.steps.indexOf(first) + 1, 0, second);
+  return build;
+}
+
+/** Steps `step` directly follows: its dependsOn plus the producers of its in_build inputs. */
+function directUpstreamIds(build: BenchTopLineBuild, step: Step): string[] {
+  const consumed = new Set(step.input.map(inBuildId).filter((id): id is string => !!id));
+  const producers = build.steps.filter((s) => s !== step && s.output.some((o) => consumed.has(inBuildId(o) ?? "")));
+  return [...(step.dependsOn ?? []).map(getDependencyStepId), ...producers.map((s) => s.id)];
+}
+
+/** True when `stepId` (transitively) follows `upstreamId` through dependsOn or material flow. */
+function isDownstreamOf(build: BenchTopLineBuild, stepId: string, upstreamId: string): boolean {
+  const seen = new Set<string>();
+  const pending = [stepId];
+  while (pending.length > 0) {
+    const id = pending.pop();
+    const step = build.steps.find((s) => s.id === id);
+    for (const depId of step ? directUpstreamIds(build, step) : []) {
+      if (depId === upstreamId) return true;
+      if (!seen.has(depId)) {
+        seen.add(depId);
+        pending.push(depId);
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Fold `mergeStepId` into `stepId`. Assemblies the first step hands only to the
+ * merged step disappear; everything else (inputs, outputs, dependencies, time)
+ * is combined onto the first step. The merged step must not be upstream of the
+ * first one (merge the downstream step into the upstream one instead), and no
+ * other step may sit between the two: folding them would close a cycle through it.
+ */
+function applyMergeSteps(build: BenchTopLineBuild, op: { stepId: string; mergeStepId: string }): BenchTopLineBuild {
+  if (op.stepId === op.mergeStepId) throw new EditError("merge_steps needs two different steps");
+  const target = findStep(build, op.stepId);
+  const merged = findStep(build, op.mergeStepId);
+  const between = (from: Step, to: Step) =>
+    directUpstreamIds(build, from).find((id) => id !== to.id && isDownstreamOf(build, id, to.id));
+  if (isDownstreamOf(build, target.id, merged.id)) {
+    const via = between(target, merged);
+    throw new EditError(
+      via
+        ? `Cannot merge ${merged.id} into ${target.id}: ${via} lies between them (merging would create a dependency cycle)`
+        : `Cannot merge ${merged.id} into ${target.id}: ${merged.id} is upstream of it (use stepId "${merged.id}", mergeStepId "${target.id}")`,
+    );
+  }
+  const via = between(merged, target);
+  if (via) {
+    throw new EditError(`Cannot merge ${merged.id} into ${target.id}: ${via} lies between them (merging would create a dependency cycle)`);
+  }
+  const others = build.steps.filter((s) => s !== target && s !== merged);
+
+  const handedOver = new Set(
+    target.output
+      .map(inBuildId)
+      .filter((id): id is string => !!id && merged.input.some((i) => inBuildId(i) === id))
+      .filter((id) => build.primaryOutputAssemblyId !== id && !others.some((s) => s.input.some((i) => inBuildId(i) === id))),
+  );
+
+  // The merged step's inputs from the first step become internal to the merged step.
+  const producedByTarget = new Set(target.output.map(inBuildId).filter((id): id is string => !!id));
+  target.input = [...target.input, ...merged.input.filter((i) => !producedByTarget.has(inBuildId(i) ?? ""))];
+  target.output = [
+    ...target.output.filter((o) => !handedOver.has(inBuildId(o) ?? "")),
+    ...merged.output.filter((o) => !producedByTarget.has(inBuildId(o) ?? "")),
+  ];
+
+  for (const dep of merged.dependsOn ?? []) {
+    if (getDependencyStepId(dep) !== target.id) addDependency(target, dep);
+  }
+  retargetDependencies(build, merged.id, target.id);
+
+  if (merged.time) {
+    target.time = target.time
+      ? { durationSeconds: target.time.durationSeconds + merged.time.durationSeconds, isActive: target.time.isActive || merged.time.isActive }
+      : merged.time;
+  }
+  if (merged.instruction) target.instruction = [target.instruction, merged.instruction].filter(Boolean).join(" ");
+  if (merged.notes) target.notes = [target.notes, merged.notes].filter(Boolean).join(" ");
+
+  if (build.assemblies) {
+    const dropped = build.assemblies.filter((a) => handedOver.has(a.id));
+    build.assemblies = build.assemblies.filter((a) => !handedOver.has(a.id));
+    for (const assembly of build.assemblies) {
+      const from = dropped.find((d) => d.id === assembly.lineage?.evolvesFrom);
+      if (!from) continue;
+      if (from.lineage?.evolvesFrom) assembly.lineage = { ...assembly.lineage, evolvesFrom: from.lineage.evolvesFrom };
+      else delete assembly.lineage;
+    }
+  }
+
+  build.steps = build.steps.filter((s) => s !== merged);
+  return build;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { applyOps, EditError } from "./edit";
+import { baseFixtureBuild } from "./fixtures";
+import { FieldPathError, parseFieldPath, readFieldValues } from "./fieldPath";
+import { runQuery } from "./query";
+
+describe("parseFieldPath", () => {
+  it("resolves nested, indexed and fan-out paths against the schema", () => {
+    expect(parseFieldPath("step.overlays[0].overrides.stationId").fanOut).toBe(false);
+    expect(parseFieldPath("step.overlays.0.overrides.stationId").segments).toEqual(parseFieldPath("step.overlays[0].overrides.stationId").segments);
+    expect(parseFieldPath("build.requiresBuilds.itemId").fanOut).toBe(true);
+    expect(() => parseFieldPath("step.equipment.bogus")).toThrow(/Unknown field bogus in step.equipment \(fields: applianceId/);
+    expect(() => parseFieldPath("build.name", "step")).toThrow(FieldPathError);
+  });
+});
+
+describe("set_field", () => {
+  it("sets, appends and unsets any schema path with coercion", () => {
+    const base = baseFixtureBuild("field-path");
+    const out = applyOps(base, [
+      { type: "set_field", where: "step.id = s2", field: "step.time.durationSeconds", value: "90" },
+      { type: "set_field", where: "step.id = s2", field: "step.conditions.requiresRestaurantIds", mode: "append", value: "r1" },
+      { type: "set_field", where: "step.id = s2", field: "step.conditions.requiresRestaurantIds", mode: "append", value: "r2" },
+      { type: "set_field", field: "step.notes", mode: "unset" },
+      { type: "set_build_field", field: "build.name", value: "Renamed" },
+    ]);
+    const s2 = out.steps.find((s) => s.id === "s2")!;
+    expect(s2.time?.durationSeconds).toBe(90);
+    expect(s2.conditions).toEqual({ requiresRestaurantIds: ["r1", "r2"] });
+    expect(out.steps.every((s) => s.notes === undefined)).toBe(true);
+    expect(out.name).toBe("Renamed");
+    expect(readFieldValues(parseFieldPath("step.conditions.requiresRestaurantIds"), s2)).toEqual(["r1", "r2"]);
+    expect(runQuery({ builds: [out], where: "step.conditions.requiresRestaurantIds = r2" }).matches.map((m) => m.stepId)).toEqual(["s2"]);
+  });
+
+  it("rejects enum values with the allowed list and refuses to unset required fields", () => {
+    const base = baseFixtureBuild("field-path");
+    expect(() => applyOps(base, [{ type: "set_field", field: "step.action.family", value: "SAUTE" }])).toThrow(
+      /Invalid value "SAUTE" for step.action.family. Allowed: PREP, HEAT,/,
+    );
+    expect(() => applyOps(base, [{ type: "set_field", field: "step.action", mode: "unset" }])).toThrow(/required and cannot be unset/);
+    expect(() => applyOps(base, [{ type: "set_field", field: "step.input.role", value: "base" }])).toThrow(EditError);
+  });
+});
@@ -0,0 +1,339 @@
+import { type z } from "zod";
+import { BenchTopLineBuildSchema, StepSchema } from "./schema";
+
+/**
+ * Field paths shared by the query DSL (`--where`) and set_field edits.
+ *
+ * A path is `step.<...>` or `build.<...>`, resolved against StepSchema /
+ * BenchTopLineBuildSchema, so every leaf the schema has is addressable and
+ * nothing else is:
+ *   step.equipment.presetId
+ *   step.overlays[0].overrides.stationId      (or overlays.0.overrides...)
+ *   step.input.source.assemblyId              (no index: every element, reads only)
+ *
+ * Values are coerced to the leaf type ("75" -> 75, "true" -> true) and checked
+ * against the schema; enum-like leaves (z.enum, unions of literals) report the
+ * allowed values.
+ */
+
+export type FieldRoot = "step" | "build";
+
+export type FieldSegment = { key: string } | { index: number };
+
+export type FieldPath = {
+  /** Original text, for messages. */
+  text: string;
+  root: FieldRoot;
+  segments: FieldSegment[];
+  /** Leaf schema (optional/default wrappers removed). */
+  schema: z.ZodType;
+  /** The leaf may be removed (optional or defaulted in the schema). */
+  optional: boolean;
+  /** The path crosses an array without an index, so it can be read but not written. */
+  fanOut: boolean;
+};
+
+export type SetFieldMode = "set" | "unset" | "append";
+
+export const SET_FIELD_MODES = ["set", "unset", "append"] as const;
+
+export class FieldPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FieldPathError";
+  }
+}
+
+const ROOT_SCHEMAS: Record<FieldRoot, z.ZodType> = {
+  step: StepSchema,
+  build: BenchTopLineBuildSchema,
+};
+
+// -----------------------------
+// Zod introspection
+// -----------------------------
+
+type ZodDef = {
+  type: string;
+  innerType?: z.ZodType;
+  shape?: Record<string, z.ZodType>;
+  element?: z.ZodType;
+  options?: z.ZodType[];
+  entries?: Record<string, string | number>;
+  values?: unknown[];
+  valueType?: z.ZodType;
+  in?: z.ZodType;
+  getter?: () => z.ZodType;
+};
+
+const WRAPPER_TYPES = new Set(["optional", "default", "prefault", "nullable", "readonly", "catch", "nonoptional"]);
+
+function defOf(schema: z.ZodType): ZodDef {
+  return (schema as unknown as { _zod: { def: ZodDef } })._zod.def;
+}
+
+/** Strip optional/default/... wrappers; `optional` reports whether any of them allowed a missing value. */
+function unwrap(schema: z.ZodType): { schema: z.ZodType; optional: boolean } {
+  let current = schema;
+  let optional = false;
+  for (;;) {
+    const def = defOf(current);
+    if (WRAPPER_TYPES.has(def.type) && def.innerType) {
+      if (def.type === "optional" || def.type === "default" || def.type === "prefault") optional = true;
+      current = def.innerType;
+    } else if (def.type === "pipe" && def.in) {
+      current = def.in;
+    } else if (def.type === "lazy" && def.getter) {
+      current = def.getter();
+    } else {
+      return { schema: current, optional };
+    }
+  }
+}
+
+function objectKeys(schema: z.ZodType): string[] {
+  const def = defOf(schema);
+  if (def.type === "object") return Object.keys(def.shape ?? {});
+  if (def.type === "union") return Array.from(new Set((def.options ?? []).flatMap((o) => objectKeys(unwrap(o).schema))));
+  return [];
+}
+
+function childSchema(schema: z.ZodType, key: string): z.ZodType | undefined {
+  const def = defOf(schema);
+  if (def.type === "object") return def.shape?.[key];
+  if (def.type === "record") return def.valueType;
+  if (def.type === "union") {
+    for (const option of def.options ?? []) {
+      const child = childSchema(unwrap(option).schema, key);
+      if (child) return child;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Allowed values for enum-like schemas (z.enum / nativeEnum, literals, unions of those), else undefined.
+ */
+export function allowedValues(schema: z.ZodType): unknown[] | undefined {
+  const inner = unwrap(schema).schema;
+  const def = defOf(inner);
+  if (def.type === "enum") return Object.values(def.entries ?? {});
+  if (def.type === "literal") return def.values ?? [];
+  if (def.type === "union") {
+    const parts = (def.options ?? []).map(allowedValues);
+    if (parts.every((p): p is unknown[] => p !== undefined)) return parts.flat();
+  }
+  return undefined;
+}
+
+function leafType(schema: z.ZodType): string {
+  return defOf(unwrap(schema).schema).type;
+}
+
+// -----------------------------
+// Parsing
+// -----------------------------
+
+function tokenize(text: string): FieldSegment[] {
+  const segments: FieldSegment[] = [];
+  for (const part of text.split(".")) {
+    const m = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!m || (m[1] === "" && m[2] === "")) throw new FieldPathError(`Invalid field path: ${text}`);
+    if (m[1] !== "") segments.push(/^\d+$/.test(m[1]!) ? { index: Number(m[1]) } : { key: m[1]! });
+    for (const idx of m[2]!.matchAll(/\[(\d+)\]/g)) segments.push({ index: Number(idx[1]) });
+  }
+  return segments;
+}
+
+function formatSegments(root: string, segments: FieldSegment[]): string {
+  return segments.reduce((acc, s) => ("index" in s ? `${acc}[${s.index}]` : `${acc}.${s.key}`), root);
+}
+
+/**
+ * Resolve `text` against the schema. `root` restricts the prefix (e.g. set_field only takes step paths).
+ */
+export function parseFieldPath(text: string, root?: FieldRoot): FieldPath {
+  const [head, ...rest] = tokenize(text.trim());
+  const pathRoot = head && "key" in head ? head.key : undefined;
+  if (pathRoot !== "step" && pathRoot !== "build") {
+    throw new FieldPathError(`Field path must start with step. or build.: ${text}`);
+  }
+  if (root && pathRoot !== root) throw new FieldPathError(`Expected a ${root}.* field path: ${text}`);
+  if (rest.length === 0) throw new FieldPathError(`Field path needs at least one field after ${pathRoot}.`);
+
+  let schema = ROOT_SCHEMAS[pathRoot];
+  let optional = false;
+  let fanOut = false;
+  for (let i = 0; i < rest.length; i++) {
+    const seg = rest[i]!;
+    let inner = unwrap(schema).schema;
+    const at = formatSegments(pathRoot, rest.slice(0, i));
+
+    if ("index" in seg) {
+      const def = defOf(inner);
+      if (def.type !== "array" || !def.element) throw new FieldPathError(`${at} is not an array (in ${text})`);
+      schema = def.element;
+      optional = false;
+      continue;
+    }
+
+    // A key on an array reads that key from every element.
+    if (defOf(inner).type === "array") {
+      fanOut = true;
+      inner = unwrap(defOf(inner).element!).schema;
+    }
+    const child = childSchema(inner, seg.key);
+    if (!child) {
+      const keys = objectKeys(inner);
+      throw new FieldPathError(
+        keys.length > 0
+          ? `Unknown field ${seg.key} in ${at} (fields: ${keys.join(", ")})`
+          : `${at} has no fields (in ${text})`,
+      );
+    }
+    schema = child;
+    optional = unwrap(child).optional;
+  }
+
+  return { text, root: pathRoot, segments: rest, schema: unwrap(schema).schema, optional, fanOut };
+}
+
+// -----------------------------
+// Values
+// -----------------------------
+
+/**
+ * Coerce a raw value (CLI strings included) to `schema` and validate it.
+ */
+export function coerceFieldValue(path: FieldPath | string, schema: z.ZodType, value: unknown): unknown {
+  const label = typeof path === "string" ? path : path.text;
+  let v = value;
+  switch (leafType(schema)) {
+    case "number":
+      if (typeof v === "string" && v.trim() !== "" && !Number.isNaN(Number(v))) v = Number(v);
+      break;
+    case "boolean":
+      if (v === "true" || v === "false") v = v === "true";
+      break;
+    case "string":
+      if (typeof v === "number" || typeof v === "boolean") v = String(v);
+      break;
+  }
+
+  const allowed = allowedValues(schema);
+  if (allowed && !allowed.includes(v)) {
+    throw new FieldPathError(`Invalid value ${JSON.stringify(v)} for ${label}. Allowed: ${allowed.join(", ")}`);
+  }
+  const result = schema.safeParse(v);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue && issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    throw new FieldPathError(`Invalid value ${JSON.stringify(v)} for ${label}${where}: ${issue?.message ?? "invalid"}`);
+  }
+  return v;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Values at `path` under `root` (a step or a build). Arrays crossed without an
+ * index fan out, and a leaf array contributes its elements. [] means "not present".
+ */
+export function readFieldValues(path: FieldPath, root: unknown): unknown[] {
+  let current: unknown[] = [root];
+  for (const seg of path.segments) {
+    const next: unknown[] = [];
+    for (const v of current) {
+      if ("index" in seg) {
+        if (Array.isArray(v) && v[seg.index] !== undefined) next.push(v[seg.index]);
+      } else if (Array.isArray(v)) {
+        for (const el of v) if (isRecord(el) && el[seg.key] !== undefined) next.push(el[seg.key]);
+      } else if (isRecord(v) && v[seg.key] !== undefined) {
+        next.push(v[seg.key]);
+      }
+    }
+    current = next;
+  }
+  return current.flatMap((v) => (Array.isArray(v) ? v : [v]));
+}
+
+/** Empty container for a missing parent, with required booleans/numbers defaulted (false / 0). */
+function emptyContainer(schema: z.ZodType): Record<string, unknown> | unknown[] {
+  const inner = unwrap(schema).schema;
+  const def = defOf(inner);
+  if (def.type === "array") return [];
+  const out: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(def.shape ?? {})) {
+    if (unwrap(child).optional) continue;
+    const type = leafType(child);
+    if (type === "boolean") out[key] = false;
+    else if (type === "number") out[key] = 0;
+  }
+  return out;
+}
+
+/**
+ * Set, unset or append at `path` under `root`, creating missing parent objects.
+ */
+export function writeField(root: Record<string, unknown>, path: FieldPath, mode: SetFieldMode, value?: unknown): void {
+  if (path.fanOut) throw new FieldPathError(`${path.text} crosses an array; add an index (e.g. [0]) to write it`);
+  if (mode !== "unset" && value === undefined) throw new FieldPathError(`${mode} ${path.text} requires a value`);
+
+  // Schema of each segment, to build missing parents.
+  const schemas: z.ZodType[] = [];
+  let s = ROOT_SCHEMAS[path.root];
+  for (const seg of path.segments) {
+    const inner = unwrap(s).schema;
+    s = "index" in seg ? defOf(inner).element! : childSchema(inner, seg.key)!;
+    schemas.push(s);
+  }
+
+  let parent: Record<string, unknown> | unknown[] = root;
+  for (let i = 0; i < path.segments.length - 1; i++) {
+    const seg = path.segments[i]!;
+    const at = formatSegments(path.root, path.segments.slice(0, i + 1));
+    let next: unknown;
+    if ("index" in seg) {
+      if (!Array.isArray(parent) || seg.index >= parent.length) throw new FieldPathError(`${at} does not exist`);
+      next = parent[seg.index];
+    } else {
+      const obj = parent as Record<string, unknown>;
+      next = obj[seg.key];
+      if (next === undefined) {
+        if (mode === "unset") return;
+        if ("index" in path.segments[i + 1]!) throw new FieldPathError(`${at} does not exist`);
+        next = emptyContainer(schemas[i]!);
+        obj[seg.key] = next;
+      }
+    }
+    if (typeof next !== "object" || next === null) throw new FieldPathError(`${at} is not an object`);
+    parent = next as Record<string, unknown> | unknown[];
+  }
+
+  const leaf = path.segments[path.segments.length - 1]!;
+  if ("index" in leaf) {
+    if (!Array.isArray(parent) || leaf.index >= parent.length) throw new FieldPathError(`${path.text} does not exist`);
+    if (mode === "append") throw new FieldPathError(`append needs an array field, not an element: ${path.text}`);
+    if (mode === "unset") parent.splice(leaf.index, 1);
+    else parent[leaf.index] = coerceFieldValue(path, path.schema, value);
+    return;
+  }
+
+  const obj = parent as Record<string, unknown>;
+  if (mode === "unset") {
+    if (!path.optional) throw new FieldPathError(`${path.text} is required and cannot be unset`);
+    delete obj[leaf.key];
+  } else if (mode === "append") {
+    const def = defOf(path.schema);
+    if (def.type !== "array" || !def.element) throw new FieldPathError(`append needs an array field: ${path.text}`);
+    const element = coerceFieldValue(`${path.text}[]`, def.element, value);
+    const list = obj[leaf.key];
+    if (list === undefined) obj[leaf.key] = [element];
+    else if (Array.isArray(list)) list.push(element);
+    else throw new FieldPathError(`${path.text} is not an array`);
+  } else {
+    obj[leaf.key] = coerceFieldValue(path, path.schema, value);
+  }
+}
@@ -57,6 +57,8 @@ export const BOMS_DIR_ABS = path.join(DATA_ROOT_ABS, "bom");
 export const RECEIPTS_DIR_ABS = path.join(DATA_ROOT_ABS, "receipts");
 export const VALIDATION_DIR_ABS = path.join(DATA_ROOT_ABS, "validation");
 export const DERIVED_DIR_ABS = path.join(DATA_ROOT_ABS, "derived");
+export const HISTORY_DIR_ABS = path.join(DATA_ROOT_ABS, "history");
+export const LOCKS_DIR_ABS = path.join(DATA_ROOT_ABS, ".locks");
 
 async function ensureDir(dirAbs: string): Promise<void> {
   await fs.mkdir(dirAbs, { recursive: true });
@@ -42,6 +42,11 @@
   H43: "Ensure input[].from matches the producer output location before publishing",
   S21: "Rename step-based assembly IDs to descriptive names (e.g., pizza_baked_v1)",
   S22: "Ensure input[].from aligns with the producer output location or explicitly model movement",
+  S24: "Align step quantities targeting the BOM entry with BomEntry.quantity (see lb bom-usage <buildId>)",
+  S25: "Check time.durationSeconds against the appliance's typical range (config/validation.config.ts) and fix the time or applianceId",
+  S26: "Use a tool suited to the action family (see config/tools.config.ts) or correct action.family",
+  S27: "Use a tool available on this station's side (see config/tools.config.ts) or correct stationId",
+  S28: "Use one of the technique's typicalTools (lb techniques) or pick the technique that matches the tool",
  
    // Assembly/merge rules
    H29: "Add input[].role with exactly one 'base' for merge steps (2+ inputs)",
@@ -60,10 +65,30 @@
    H20: "Fix overlay predicates to reference valid customization valueIds",
    H21: "Add minChoices and maxChoices to MANDATORY_CHOICE groups",
  
+   // Track/operation rules
+   H47: "Declare the track in build.tracks (unique ids) or fix step.trackId / operation.trackId",
+   H48: "Declare the operation in build.operations (unique ids) or fix step.operationId; keep its steps on the operation's track",
+ 
+   // Unit rules
+   H49: "Use a known unit (g, oz, ml, fl_oz, tsp, tbsp, each, pump, spoodle_<n>oz); multipliers need a count unit",
+   H50: "Match the spoodle toolId to the portion (e.g. 3 oz -> spoodle_3oz) or adjust the quantity",
+
    // Composition rules
    C1: "Ensure requiresBuilds entries are unique and not self-referential",
    C2: "Declare external_build input in requiresBuilds array",
    C3: "Ensure in_build assembly refs point to existing assemblies",
+
+   // Portfolio rules (lb validate --portfolio)
+   P1: "Archive or demote all but one published build of the item",
+   P2: "Break the requiresBuilds cycle: an item cannot (transitively) require itself",
+   P3: "Create a build for the referenced item (publish it for latest_published) or fix the itemId",
+   P4: "Reference an assembly the item's build produces (lb get <buildId>) or fix assemblyId",
+   P5: "Portion the component with the same toolId and quantity in every item, or confirm the difference is intended",
+
+   // HDR feasibility rules (lb validate --hdr)
+   F1: "Use an appliance the HDR has (data/hdr-configs/<configId>.json pods[].equipment) or add it to a pod",
+   F2: "Map the station in the HDR's stationLocations/stationPodDefaults or move the step to a mapped station",
+   F3: "Keep producer and consumer in one pod (stationId/equipment) or accept the inter-pod handoff",
  };
  
  /**
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { baseFixtureBuild, checkFixtureExpectation, scaffoldFixture } from "./fixtures";
+import { validateBuild } from "./validate";
+
+describe("fixture expectations", () => {
+  it("compares exact rule sets, stepIds and negative rules", () => {
+    const validation = validateBuild(scaffoldFixture("H22").build);
+
+    expect(checkFixtureExpectation(validation, { hard: ["H22"], stepIds: { H22: ["s3"] }, negative: ["H15"] })).toEqual([]);
+    expect(checkFixtureExpectation(validation, { hard: ["H15"], stepIds: { H22: ["s2"] }, negative: ["H22"] })).toEqual([
+      "hard: expected H15 but it did not fire",
+      "hard: unexpected H22",
+      "H22 stepIds: expected s2 but it did not fire",
+      "H22 stepIds: unexpected s3",
+      "negative: H22 fired",
+    ]);
+  });
+});
+
+describe("scaffoldFixture", () => {
+  it("starts from a clean base build", () => {
+    const result = validateBuild(baseFixtureBuild("fixture-base"));
+    expect([...result.hardErrors, ...result.warnings]).toEqual([]);
+  });
+
+  it("writes a sidecar the scaffolded build satisfies", () => {
+    for (const ruleId of ["H4", "H9", "H15", "H24", "H46"]) {
+      const scaffold = scaffoldFixture(ruleId);
+      expect(scaffold.triggersRule).toBe(true);
+      expect(scaffold.expectation.hard).toContain(ruleId);
+      expect(checkFixtureExpectation(validateBuild(scaffold.build), scaffold.expectation)).toEqual([]);
+    }
+  });
+
+  it("leaves a failing sidecar for rules without a known mutation", () => {
+    const scaffold = scaffoldFixture("H16", "h16-case");
+    expect(scaffold.fileName).toBe("h16-case.json");
+    expect(scaffold.triggersRule).toBe(false);
+    expect(checkFixtureExpectation(validateBuild(scaffold.build), scaffold.expectation)).toEqual([
+      "hard: expected H16 but it did not fire",
+    ]);
+    expect(() => scaffoldFixture("P1")).toThrow(/cannot be covered/);
+  });
+});
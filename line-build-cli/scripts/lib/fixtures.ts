@@ -1,20 +1,37 @@
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
+import { z } from "zod";
 
-import { parseBuild, type BenchTopLineBuild, type BuildParseIssue } from "./schema";
-import { validateBuild, type BuildValidationResult } from "./validate";
+import { type BenchTopLineBuild, type BuildParseIssue, type StationId, type Step, ActionFamily } from "./schema";
+import { parseAnyBuildVersion } from "./migrations";
+import { validateBuild, type BuildValidationResult, type ValidationError } from "./validate";
+import { VALIDATION_RULES, type RuleInfo } from "./rules";
 import { DATA_ROOT_ABS } from "./store";
 
 export const FIXTURES_DIR_ABS = path.join(DATA_ROOT_ABS, "fixtures");
 
-export type FixtureExpectation = {
-  expectedValid: boolean;
-  /**
-   * If provided, all of these ruleIds must appear in hardErrors.
-   * (Used for fixtures that are expected to fail for a specific invariant.)
-   */
-  mustHaveHardRuleIds?: string[];
-};
+/**
+ * Every fixture `<name>.json` has a sidecar `<name>.expect.json`.
+ */
+export const FIXTURE_EXPECTATION_SUFFIX = ".expect.json";
+
+export const FixtureExpectationSchema = z
+  .object({
+    description: z.string().optional(),
+    /** Exact set of hard ruleIds (empty: the fixture must be valid). */
+    hard: z.array(z.string()),
+    /** Exact set of warning (strong/soft) ruleIds. Omit to leave warnings unchecked. */
+    warnings: z.array(z.string()).optional(),
+    /** Exact set of info ruleIds. Omit to leave infos unchecked. */
+    infos: z.array(z.string()).optional(),
+    /** Per ruleId, the exact stepIds its findings point at. */
+    stepIds: z.record(z.string(), z.array(z.string())).optional(),
+    /** Rules this fixture is a passing case for (it exercises them; they must not fire). */
+    negative: z.array(z.string()).optional(),
+  })
+  .strict();
+
+export type FixtureExpectation = z.infer<typeof FixtureExpectationSchema>;
 
 export type FixtureValidationRow = {
   fileName: string;
@@ -26,60 +43,114 @@ export type FixtureValidationRow = {
   validation?: BuildValidationResult;
   ok: boolean;
   notes?: string;
+  /** One line per expectation the validation result did not meet. */
+  mismatches?: string[];
   parseIssues?: BuildParseIssue[];
 };
 
-const EXPECTATIONS: Record<string, FixtureExpectation> = {
-  // Valid builds
-  "simple-linear.json": { expectedValid: true },
-  "parallel-join.json": { expectedValid: true },
-  "external-consume.json": { expectedValid: true },
-
-  // Structural errors
-  "cycle-error.json": { expectedValid: false, mustHaveHardRuleIds: ["H9"] },
-
-  // Common interview failure modes (authoring gaps)
-  "heat-missing-equipment.json": { expectedValid: false, mustHaveHardRuleIds: ["H15"] },
-  "heat-missing-time-notes.json": { expectedValid: false, mustHaveHardRuleIds: ["H22"] },
-  "portion-missing-quantity-notes.json": { expectedValid: false, mustHaveHardRuleIds: ["H24"] },
-  "prep-missing-technique-notes.json": { expectedValid: false, mustHaveHardRuleIds: ["H25"] },
-  "quantity-value-zero.json": { expectedValid: false, mustHaveHardRuleIds: ["H10"] },
-  "container-in-target-name.json": { expectedValid: false, mustHaveHardRuleIds: ["H4"] },
+export type FixtureValidationReport = {
+  ok: boolean;
+  fixtureCount: number;
+  passed: number;
+  failed: number;
+  rows: FixtureValidationRow[];
 };
 
+export class FixtureScaffoldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FixtureScaffoldError";
+  }
+}
+
+function expectationPathAbs(fixturePathAbs: string): string {
+  return fixturePathAbs.replace(/\.json$/, FIXTURE_EXPECTATION_SUFFIX);
+}
+
 async function listFixtureFiles(): Promise<Array<{ fileName: string; filePathAbs: string }>> {
   const entries = await fs.readdir(FIXTURES_DIR_ABS, { withFileTypes: true });
   return entries
-    .filter((e) => e.isFile() && e.name.endsWith(".json"))
+    .filter((e) => e.isFile() && e.name.endsWith(".json") && !e.name.endsWith(FIXTURE_EXPECTATION_SUFFIX))
     .map((e) => ({ fileName: e.name, filePathAbs: path.join(FIXTURES_DIR_ABS, e.name) }))
     .sort((a, b) => a.fileName.localeCompare(b.fileName));
 }
 
-function includesAll(haystack: string[], needles: string[]): boolean {
-  const set = new Set(haystack);
-  return needles.every((n) => set.has(n));
+async function readExpectation(fixturePathAbs: string): Promise<FixtureExpectation | string> {
+  const sidecar = expectationPathAbs(fixturePathAbs);
+  let raw: string;
+  try {
+    raw = await fs.readFile(sidecar, { encoding: "utf8" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return `No expectation sidecar (create ${path.basename(sidecar)})`;
+    }
+    throw err;
+  }
+  try {
+    const parsed = FixtureExpectationSchema.safeParse(JSON.parse(raw) as unknown);
+    if (!parsed.success) {
+      return `Invalid ${path.basename(sidecar)}: ${parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"} ${i.message}`).join("; ")}`;
+    }
+    return parsed.data;
+  } catch (err) {
+    return `Invalid JSON in ${path.basename(sidecar)}: ${(err as { message?: string }).message ?? String(err)}`;
+  }
 }
 
-export async function validateFixtures(): Promise<{
-  ok: boolean;
-  fixtureCount: number;
-  passed: number;
-  failed: number;
-  rows: FixtureValidationRow[];
-}> {
+function uniqueSorted(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.filter((v): v is string => Boolean(v)))).sort();
+}
+
+function compareSets(label: string, actual: string[], expected: string[]): string[] {
+  const out: string[] = [];
+  const missing = expected.filter((id) => !actual.includes(id));
+  const unexpected = actual.filter((id) => !expected.includes(id));
+  if (missing.length > 0) out.push(`${label}: expected ${missing.join(", ")} but it did not fire`);
+  if (unexpected.length > 0) out.push(`${label}: unexpected ${unexpected.join(", ")}`);
+  return out;
+}
+
+/**
+ * Compare a validation result against a fixture expectation; [] when it matches.
+ */
+export function checkFixtureExpectation(
+  validation: BuildValidationResult,
+  expected: FixtureExpectation,
+): string[] {
+  const all: ValidationError[] = [...validation.hardErrors, ...validation.warnings, ...validation.infos];
+  const mismatches = [
+    ...compareSets("hard", uniqueSorted(validation.hardErrors.map((e) => e.ruleId)), uniqueSorted(expected.hard)),
+    ...(expected.warnings
+      ? compareSets("warnings", uniqueSorted(validation.warnings.map((e) => e.ruleId)), uniqueSorted(expected.warnings))
+      : []),
+    ...(expected.infos
+      ? compareSets("infos", uniqueSorted(validation.infos.map((e) => e.ruleId)), uniqueSorted(expected.infos))
+      : []),
+  ];
+  for (const [ruleId, stepIds] of Object.entries(expected.stepIds ?? {})) {
+    const actual = uniqueSorted(all.filter((e) => e.ruleId === ruleId).map((e) => e.stepId));
+    mismatches.push(...compareSets(`${ruleId} stepIds`, actual, uniqueSorted(stepIds)));
+  }
+  for (const ruleId of expected.negative ?? []) {
+    if (all.some((e) => e.ruleId === ruleId)) mismatches.push(`negative: ${ruleId} fired`);
+  }
+  return mismatches;
+}
+
+export async function validateFixtures(): Promise<FixtureValidationReport> {
   const fixtures = await listFixtureFiles();
 
   const rows: FixtureValidationRow[] = [];
   for (const f of fixtures) {
-    const expected = EXPECTATIONS[f.fileName];
-    if (!expected) {
+    const expected = await readExpectation(f.filePathAbs);
+    if (typeof expected === "string") {
       rows.push({
         fileName: f.fileName,
         filePathAbs: f.filePathAbs,
         expected: undefined,
         parseOk: false,
         ok: false,
-        notes: "No expectation registered for this fixture filename (update EXPECTATIONS).",
+        notes: expected,
       });
       continue;
     }
@@ -116,7 +187,7 @@ export async function validateFixtures(): Promise<{
 
     let build: BenchTopLineBuild;
     try {
-      build = parseBuild(json);
+      build = parseAnyBuildVersion(json);
     } catch (err) {
       const e = err as { issues?: BuildParseIssue[]; message?: string };
       rows.push({
@@ -132,12 +203,7 @@ export async function validateFixtures(): Promise<{
     }
 
     const validation = validateBuild(build);
-    const hardRuleIds = validation.hardErrors.map((e) => e.ruleId);
-    const mustHave = expected.mustHaveHardRuleIds ?? [];
-
-    const expectationMatch =
-      validation.valid === expected.expectedValid &&
-      (mustHave.length === 0 || includesAll(hardRuleIds, mustHave));
+    const mismatches = checkFixtureExpectation(validation, expected);
 
     rows.push({
       fileName: f.fileName,
@@ -147,12 +213,9 @@ export async function validateFixtures(): Promise<{
       expected,
       parseOk: true,
       validation,
-      ok: expectationMatch,
-      notes: expectationMatch
-        ? undefined
-        : `Expected valid=${String(expected.expectedValid)}${
-            mustHave.length > 0 ? ` and must include hard rule(s): ${mustHave.join(", ")}` : ""
-          }`,
+      ok: mismatches.length === 0,
+      notes: mismatches.length === 0 ? undefined : mismatches.join("; "),
+      mismatches: mismatches.length === 0 ? undefined : mismatches,
     });
   }
 
@@ -167,3 +230,255 @@ export async function validateFixtures(): Promise<{
   };
 }
 
+// -----------------------------
+// Rule Coverage
+// -----------------------------
+
+export type RuleCoverageRow = {
+  ruleId: string;
+  /** Fixtures expected to trigger the rule. */
+  positive: string[];
+  /** Fixtures that list the rule as a passing case. */
+  negative: string[];
+};
+
+export type FixtureCoverageReport = {
+  /** One row per implemented, non-deprecated Build/Step rule. */
+  rules: RuleCoverageRow[];
+  /** Rules with neither a positive nor a negative fixture. */
+  uncovered: string[];
+  positiveOnly: string[];
+  negativeOnly: string[];
+  /** Rules single-build fixtures cannot exercise, with the reason. */
+  excluded: Array<{ ruleId: string; reason: string }>;
+};
+
+function coverageExclusion(rule: RuleInfo): string | undefined {
+  if (rule.deprecated) return "deprecated";
+  if (!rule.implemented) return "not implemented";
+  if (rule.scope === "Portfolio") return "portfolio rule (lb validate --portfolio)";
+  if (rule.scope === "Hdr") return "HDR rule (lb validate --hdr)";
+  return undefined;
+}
+
+/**
+ * Which VALIDATION_RULES have a positive (expected to fire) and/or negative
+ * (expected not to fire) fixture, from the expectation sidecars.
+ */
+export async function fixtureRuleCoverage(): Promise<FixtureCoverageReport> {
+  const positive = new Map<string, string[]>();
+  const negative = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, ruleId: string, fileName: string) => {
+    map.set(ruleId, [...(map.get(ruleId) ?? []), fileName]);
+  };
+  for (const f of await listFixtureFiles()) {
+    const expected = await readExpectation(f.filePathAbs);
+    if (typeof expected === "string") continue;
+    for (const ruleId of new Set([...expected.hard, ...(expected.warnings ?? []), ...(expected.infos ?? [])])) add(positive, ruleId, f.fileName);
+    for (const ruleId of new Set(expected.negative ?? [])) add(negative, ruleId, f.fileName);
+  }
+
+  const rules: RuleCoverageRow[] = [];
+  const excluded: FixtureCoverageReport["excluded"] = [];
+  for (const rule of VALIDATION_RULES) {
+    const reason = coverageExclusion(rule);
+    if (reason) {
+      excluded.push({ ruleId: rule.id, reason });
+      continue;
+    }
+    rules.push({ ruleId: rule.id, positive: positive.get(rule.id) ?? [], negative: negative.get(rule.id) ?? [] });
+  }
+
+  return {
+    rules,
+    uncovered: rules.filter((r) => r.positive.length === 0 && r.negative.length === 0).map((r) => r.ruleId),
+    positiveOnly: rules.filter((r) => r.positive.length > 0 && r.negative.length === 0).map((r) => r.ruleId),
+    negativeOnly: rules.filter((r) => r.positive.length === 0 && r.negative.length > 0).map((r) => r.ruleId),
+    excluded,
+  };
+}
+
+// -----------------------------
+// Scaffolding
+// -----------------------------
+
+/**
+ * Minimal valid build (no hard errors, no warnings) that scaffolds start from:
+ * open pack -> combine -> turbo -> package.
+ */
+export function baseFixtureBuild(id: string): BenchTopLineBuild {
+  const loc = (stationId: StationId, type: "work_surface" | "window_shelf" = "work_surface") => ({
+    stationId,
+    sublocation: { type },
+  });
+  const steps: Step[] = [
+    {
+      id: "s1",
+      orderIndex: 1,
+      stationId: "garnish",
+      action: { family: ActionFamily.PREP, techniqueId: "open_pack" },
+      instruction: "Open bun package and stage bun.",
+      workLocation: { type: "cold_storage" },
+      input: [],
+      output: [{ source: { type: "in_build", assemblyId: "bun" }, to: loc("garnish") }],
+    },
+    {
+      id: "s2",
+      orderIndex: 2,
+      stationId: "garnish",
+      action: { family: ActionFamily.COMBINE },
+      dependsOn: ["s1"],
+      instruction: "Assemble bun with filling.",
+      workLocation: { type: "work_surface" },
+      input: [{ source: { type: "in_build", assemblyId: "bun" }, from: loc("garnish") }],
+      output: [{ source: { type: "in_build", assemblyId: "bun_filled" }, to: loc("garnish") }],
+    },
+    {
+      id: "s3",
+      orderIndex: 3,
+      stationId: "turbo",
+      action: { family: ActionFamily.HEAT },
+      dependsOn: ["s2"],
+      equipment: { applianceId: "turbo", presetId: "program_1" },
+      time: { durationSeconds: 75, isActive: false },
+      instruction: "Toast assembled bun until warm.",
+      workLocation: { type: "work_surface" },
+      input: [{ source: { type: "in_build", assemblyId: "bun_filled" }, from: loc("turbo") }],
+      output: [{ source: { type: "in_build", assemblyId: "bun_toasted" }, to: loc("turbo") }],
+    },
+    {
+      id: "s4",
+      orderIndex: 4,
+      stationId: "expo",
+      action: { family: ActionFamily.PACKAGING },
+      dependsOn: ["s3"],
+      container: { type: "clamshell", name: "Standard clamshell" },
+      instruction: "Place in clamshell and hand off.",
+      workLocation: { type: "work_surface" },
+      input: [{ source: { type: "in_build", assemblyId: "bun_toasted" }, from: loc("expo") }],
+      output: [{ source: { type: "in_build", assemblyId: "bun_packaged" }, to: loc("expo", "window_shelf") }],
+    },
+  ];
+  return {
+    id,
+    itemId: `ITEM_${id.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`,
+    version: 1,
+    status: "draft",
+    steps,
+    createdAt: "2026-01-10T00:00:00.000Z",
+    updatedAt: "2026-01-10T00:00:00.000Z",
+  };
+}
+
+type ScaffoldMutation = {
+  description: string;
+  /** Mutates the base build in place so that the rule fires. */
+  apply: (build: BenchTopLineBuild) => void;
+};
+
+function stepById(build: BenchTopLineBuild, stepId: string): Step {
+  return build.steps.find((s) => s.id === stepId)!;
+}
+
+/**
+ * Known ways to break the base build for one rule. Rules without an entry get
+ * the untouched base build, so the new fixture fails until it is edited.
+ */
+const SCAFFOLD_MUTATIONS: Record<string, ScaffoldMutation> = {
+  H4: {
+    description: "container-like target.name without step.container",
+    apply: (b) => { stepById(b, "s2").target = { type: "free_text", name: "clamshell container" }; },
+  },
+  H8: {
+    description: "dependsOn references a missing step",
+    apply: (b) => { stepById(b, "s2").dependsOn = ["s1", "missing"]; },
+  },
+  H9: {
+    description: "dependsOn cycle",
+    apply: (b) => { stepById(b, "s1").dependsOn = ["s3"]; },
+  },
+  H10: {
+    description: "quantity.value of zero",
+    apply: (b) => { stepById(b, "s2").quantity = { value: 0, unit: "oz" }; },
+  },
+  H15: {
+    description: "HEAT step without equipment",
+    apply: (b) => { delete stepById(b, "s3").equipment; },
+  },
+  H22: {
+    description: "HEAT step without time or notes",
+    apply: (b) => { delete stepById(b, "s3").time; },
+  },
+  H24: {
+    description: "PORTION step without quantity or notes",
+    apply: (b) => { stepById(b, "s2").action = { family: ActionFamily.PORTION }; },
+  },
+  H25: {
+    description: "PREP step without techniqueId or notes",
+    apply: (b) => { stepById(b, "s1").action = { family: ActionFamily.PREP }; },
+  },
+  H33: {
+    description: "techniqueId outside the controlled vocabulary",
+    apply: (b) => { stepById(b, "s1").action = { family: ActionFamily.PREP, techniqueId: "not_a_technique" }; },
+  },
+  H46: {
+    description: "step without workLocation",
+    apply: (b) => { delete stepById(b, "s2").workLocation; },
+  },
+};
+
+export type FixtureScaffold = {
+  fileName: string;
+  build: BenchTopLineBuild;
+  expectation: FixtureExpectation;
+  /** False when no mutation is known for the rule: edit the fixture until it fires. */
+  triggersRule: boolean;
+};
+
+/**
+ * Build a minimal failing fixture (and its sidecar) for one rule, without writing it.
+ */
+export function scaffoldFixture(ruleId: string, name?: string): FixtureScaffold {
+  const rule = VALIDATION_RULES.find((r) => r.id === ruleId);
+  if (!rule) throw new FixtureScaffoldError(`Unknown rule: ${ruleId}`);
+  const exclusion = coverageExclusion(rule);
+  if (exclusion) throw new FixtureScaffoldError(`${ruleId} cannot be covered by a build fixture (${exclusion})`);
+
+  const baseName = (name ?? `${ruleId.toLowerCase()}-scaffold`).replace(/\.json$/, "");
+  const build = baseFixtureBuild(`fixture-${baseName}`);
+  const mutation = SCAFFOLD_MUTATIONS[ruleId];
+  mutation?.apply(build);
+
+  const validation = validateBuild(build);
+  const fired = [...validation.hardErrors, ...validation.warnings, ...validation.infos].filter((e) => e.ruleId === ruleId);
+  // Record everything the fixture triggers today, plus the target rule in its
+  // default-severity bucket (so an unknown mutation leaves a failing fixture).
+  const bucket = (findings: ValidationError[], severities: string[]) =>
+    uniqueSorted([...findings.map((e) => e.ruleId), ...(severities.includes(rule.severity) ? [ruleId] : [])]);
+  const expectation: FixtureExpectation = {
+    description: mutation ? `${ruleId}: ${mutation.description}` : `${ruleId}: TODO edit the fixture until ${ruleId} fires`,
+    hard: bucket(validation.hardErrors, ["hard"]),
+    warnings: bucket(validation.warnings, ["strong", "soft"]),
+    infos: bucket(validation.infos, ["info"]),
+  };
+  const firedStepIds = uniqueSorted(fired.map((e) => e.stepId));
+  if (firedStepIds.length > 0) expectation.stepIds = { [ruleId]: firedStepIds };
+
+  return { fileName: `${baseName}.json`, build, expectation, triggersRule: fired.length > 0 };
+}
+
+/**
+ * Write a scaffold's fixture and sidecar into FIXTURES_DIR_ABS. Refuses to overwrite.
+ */
+export async function writeFixtureScaffold(scaffold: FixtureScaffold): Promise<{ fixturePathAbs: string; expectationPathAbs: string }> {
+  const fixturePathAbs = path.join(FIXTURES_DIR_ABS, scaffold.fileName);
+  const sidecarPathAbs = expectationPathAbs(fixturePathAbs);
+  for (const p of [fixturePathAbs, sidecarPathAbs]) {
+    const exists = await fs.stat(p).then(() => true, () => false);
+    if (exists) throw new FixtureScaffoldError(`Fixture already exists: ${path.relative(DATA_ROOT_ABS, p)}`);
+  }
+  await fs.mkdir(FIXTURES_DIR_ABS, { recursive: true });
+  await fs.writeFile(fixturePathAbs, `${JSON.stringify(scaffold.build, null, 2)}\n`, "utf8");
+  await fs.writeFile(sidecarPathAbs, `${JSON.stringify(scaffold.expectation, null, 2)}\n`, "utf8");
+  return { fixturePathAbs, expectationPathAbs: sidecarPathAbs };
+}
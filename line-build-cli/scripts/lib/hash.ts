@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto";
-import type { BenchTopLineBuild } from "./schema";
+import type { BenchTopLineBuild, Step } from "./schema";
 
 /**
  * Compute a deterministic hash of a build's source data for cache invalidation.
@@ -40,3 +40,41 @@ export function computeBuildSourceHash(build: BenchTopLineBuild): string {
   // SHA256 produces a 64-char hex string - truncate to 16 for readability
   return createHash("sha256").update(json).digest("hex").slice(0, 16);
 }
+
+/**
+ * JSON with object keys sorted at every level, so equal values serialize equally
+ * regardless of key order. undefined object values are dropped (as JSON.stringify does).
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+}
+
+/**
+ * Deterministic hash of any JSON value (key order independent).
+ */
+export function computeValueHash(value: unknown): string {
+  return createHash("sha256").update(stableStringify(value)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Hash of a step's full content, for per-step validation caching.
+ * Unlike computeBuildSourceHash this covers every field: any edit to the step changes it.
+ */
+export function computeStepHash(step: Step): string {
+  return computeValueHash(step);
+}
+
+/**
+ * Content hash of a build file as stored (`lb get`, `--if-match`, viewer ETags).
+ * Unlike computeBuildSourceHash this covers metadata too (name, status, ...), so
+ * any write changes it.
+ */
+export function computeBuildContentHash(raw: unknown): string {
+  return computeValueHash(raw);
+}
@@ -59,6 +59,17 @@ export function loadActiveHdrConfig(): HdrPodConfig {
   return loadHdrConfig(activeId);
 }
 
+/**
+ * IDs of all HDR configurations (data/hdr-configs/<configId>.json), sorted.
+ */
+export function listHdrConfigIds(): string[] {
+  return fs
+    .readdirSync(HDR_CONFIGS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.replace(".json", ""))
+    .sort();
+}
+
 /**
  * List all available HDR configurations.
  * Returns metadata for all .json files in data/hdr-configs/.
@@ -70,12 +81,9 @@ export function listHdrConfigs(): Array<{
   isActive: boolean;
 }> {
   const activeId = getActiveConfigId();
-  const files = fs.readdirSync(HDR_CONFIGS_DIR);
 
-  return files
-    .filter((file) => file.endsWith(".json"))
-    .map((file) => {
-      const configId = file.replace(".json", "");
+  return listHdrConfigIds()
+    .map((configId) => {
       const config = loadHdrConfig(configId);
       return {
         hdrId: config.hdrId,
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { applyOps } from "./edit";
+import { baseFixtureBuild } from "./fixtures";
+import { JsonPatchError, applyJsonPatch, createJsonPatch, parseJsonPatch } from "./jsonPatch";
+
+describe("applyJsonPatch", () => {
+  it("applies RFC 6902 operations in order without mutating the input", () => {
+    const doc = { a: { "b/c": 1, "d~e": [1, 2] }, list: ["x", "y"] };
+    const out = applyJsonPatch(doc, [
+      { op: "test", path: "/a/b~1c", value: 1 },
+      { op: "replace", path: "/a/b~1c", value: 2 },
+      { op: "add", path: "/a/d~0e/-", value: 3 },
+      { op: "add", path: "/list/1", value: "inserted" },
+      { op: "remove", path: "/list/0" },
+      { op: "copy", from: "/a/d~0e", path: "/copied" },
+      { op: "move", from: "/copied", path: "/a/moved" },
+    ]);
+    expect(out).toEqual({ a: { "b/c": 2, "d~e": [1, 2, 3], moved: [1, 2, 3] }, list: ["inserted", "y"] });
+    expect(doc).toEqual({ a: { "b/c": 1, "d~e": [1, 2] }, list: ["x", "y"] });
+  });
+
+  it("rejects the whole patch on a failed test or missing path", () => {
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: "test", path: "/a", value: 2 }])).toThrow(JsonPatchError);
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: "remove", path: "/b" }])).toThrow(/operation 0 \(remove\): Path not found: \/b/);
+    expect(() => parseJsonPatch([{ op: "rename", path: "/a" }])).toThrow(JsonPatchError);
+  });
+});
+
+describe("createJsonPatch", () => {
+  it("round-trips a build edit and replays through applyOps", () => {
+    const source = baseFixtureBuild("patch-base");
+    const target = structuredClone(source);
+    target.steps = target.steps.slice(0, 2);
+    target.steps[0]!.notes = "salted";
+    target.name = "Patched";
+
+    const patch = createJsonPatch(source, target);
+    expect(patch).toContainEqual({ op: "remove", path: "/steps/3" });
+    expect(applyJsonPatch(source, patch)).toEqual(JSON.parse(JSON.stringify(target)));
+    expect(applyOps(source, [{ type: "json_patch", patch }]).steps.map((s) => s.id)).toEqual(target.steps.map((s) => s.id));
+    expect(createJsonPatch(source, source)).toEqual([]);
+  });
+});
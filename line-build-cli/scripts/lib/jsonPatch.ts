@@ -0,0 +1,210 @@
+import { z } from "zod";
+
+/**
+ * JSON Patch (RFC 6902) for line builds.
+ *
+ * - applyJsonPatch: the `json_patch` EditOp and `lb edit --patch <file>`.
+ *   Operations run in order on a copy; any failure (missing path, failed
+ *   `test`) rejects the whole patch. Schema checks happen afterwards in
+ *   applyOps (parseBuild), not per operation.
+ * - createJsonPatch: `lb validate diff --format json-patch`. Emits add/remove/
+ *   replace only; array elements are compared by index, with removals from the
+ *   end first so the patch replays in order.
+ */
+
+const PointerSchema = z.string().refine((p) => p === "" || p.startsWith("/"), { message: "JSON Pointer must be empty or start with /" });
+
+export const JsonPatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("add"), path: PointerSchema, value: z.unknown() }).strict(),
+  z.object({ op: z.literal("remove"), path: PointerSchema }).strict(),
+  z.object({ op: z.literal("replace"), path: PointerSchema, value: z.unknown() }).strict(),
+  z.object({ op: z.literal("move"), from: PointerSchema, path: PointerSchema }).strict(),
+  z.object({ op: z.literal("copy"), from: PointerSchema, path: PointerSchema }).strict(),
+  z.object({ op: z.literal("test"), path: PointerSchema, value: z.unknown() }).strict(),
+]);
+
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
+
+export const JsonPatchSchema = z.array(JsonPatchOperationSchema);
+
+export class JsonPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonPatchError";
+  }
+}
+
+/**
+ * Validate an untrusted patch document (e.g. the contents of `--patch <file>`).
+ */
+export function parseJsonPatch(json: unknown): JsonPatchOperation[] {
+  const result = JsonPatchSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new JsonPatchError(`Invalid JSON Patch at /${issue?.path.join("/") ?? ""}: ${issue?.message ?? "invalid"}`);
+  }
+  return result.data;
+}
+
+export function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  return pointer.slice(1).split("/").map((t) => t.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function cloneJson<T>(obj: T): T {
+  return JSON.parse(JSON.stringify(obj)) as T;
+}
+
+function isContainer(v: unknown): v is Record<string, unknown> | unknown[] {
+  return typeof v === "object" && v !== null;
+}
+
+function arrayIndex(arr: unknown[], token: string, pointer: string, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return arr.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) throw new JsonPatchError(`Invalid array index "${token}" in ${pointer}`);
+  const idx = Number(token);
+  if (idx > arr.length || (!allowEnd && idx === arr.length)) throw new JsonPatchError(`Array index out of bounds: ${pointer}`);
+  return idx;
+}
+
+function getAt(doc: unknown, pointer: string): unknown {
+  let current = doc;
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, pointer, false)];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = (current as Record<string, unknown>)[token];
+    } else {
+      throw new JsonPatchError(`Path not found: ${pointer}`);
+    }
+  }
+  return current;
+}
+
+/** Parent container and final token of `pointer` (which must not be the root). */
+function parentOf(doc: unknown, pointer: string): { parent: Record<string, unknown> | unknown[]; token: string } {
+  const tokens = parsePointer(pointer);
+  const token = tokens.pop()!;
+  const parentPointer = tokens.map((t) => `/${escapePointerToken(t)}`).join("");
+  const parent = getAt(doc, parentPointer);
+  if (!isContainer(parent)) throw new JsonPatchError(`Parent of ${pointer} is not an object or array`);
+  return { parent, token };
+}
+
+function addAt(doc: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === "") return value;
+  const { parent, token } = parentOf(doc, pointer);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, token, pointer, true), 0, value);
+  else parent[token] = value;
+  return doc;
+}
+
+function removeAt(doc: unknown, pointer: string): unknown {
+  if (pointer === "") throw new JsonPatchError("Cannot remove the document root");
+  const { parent, token } = parentOf(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, token, pointer, false), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, token)) throw new JsonPatchError(`Path not found: ${pointer}`);
+    delete parent[token];
+  }
+  return doc;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (!isContainer(a) || !isContainer(b)) return false;
+  const aKeys = Object.keys(a);
+  const bObj = b as Record<string, unknown>;
+  if (aKeys.length !== Object.keys(bObj).length) return false;
+  return aKeys.every((k) => Object.prototype.hasOwnProperty.call(bObj, k) && deepEqual((a as Record<string, unknown>)[k], bObj[k]));
+}
+
+/**
+ * Apply `patch` to a copy of `doc` and return the result. The input is not modified.
+ */
+export function applyJsonPatch<T>(doc: T, patch: JsonPatchOperation[]): T {
+  let current: unknown = cloneJson(doc);
+  patch.forEach((op, i) => {
+    try {
+      // z.unknown() accepts a missing member, RFC 6902 does not.
+      if ((op.op === "add" || op.op === "replace" || op.op === "test") && !("value" in op)) {
+        throw new JsonPatchError("value is required");
+      }
+      switch (op.op) {
+        case "add":
+          current = addAt(current, op.path, cloneJson(op.value));
+          break;
+        case "remove":
+          current = removeAt(current, op.path);
+          break;
+        case "replace":
+          getAt(current, op.path);
+          current = op.path === "" ? cloneJson(op.value) : addAt(removeAt(current, op.path), op.path, cloneJson(op.value));
+          break;
+        case "move": {
+          if (op.path.startsWith(`${op.from}/`)) throw new JsonPatchError(`Cannot move ${op.from} into its own child ${op.path}`);
+          const value = getAt(current, op.from);
+          current = addAt(removeAt(current, op.from), op.path, value);
+          break;
+        }
+        case "copy":
+          current = addAt(current, op.path, cloneJson(getAt(current, op.from)));
+          break;
+        case "test":
+          if (!deepEqual(getAt(current, op.path), op.value)) throw new JsonPatchError(`Test failed at ${op.path}`);
+          break;
+      }
+    } catch (err) {
+      if (err instanceof JsonPatchError) throw new JsonPatchError(`Patch operation ${i} (${op.op}): ${err.message}`);
+      throw err;
+    }
+  });
+  return current as T;
+}
+
+function diffValues(source: unknown, target: unknown, basePath: string): JsonPatchOperation[] {
+  if (deepEqual(source, target)) return [];
+
+  if (Array.isArray(source) && Array.isArray(target)) {
+    const ops: JsonPatchOperation[] = [];
+    const common = Math.min(source.length, target.length);
+    for (let i = 0; i < common; i++) ops.push(...diffValues(source[i], target[i], `${basePath}/${i}`));
+    for (let i = source.length - 1; i >= target.length; i--) ops.push({ op: "remove", path: `${basePath}/${i}` });
+    for (let i = source.length; i < target.length; i++) ops.push({ op: "add", path: `${basePath}/${i}`, value: target[i] });
+    return ops;
+  }
+
+  if (isContainer(source) && isContainer(target) && !Array.isArray(source) && !Array.isArray(target)) {
+    const ops: JsonPatchOperation[] = [];
+    for (const key of Object.keys(source)) {
+      const keyPath = `${basePath}/${escapePointerToken(key)}`;
+      if (!Object.prototype.hasOwnProperty.call(target, key)) ops.push({ op: "remove", path: keyPath });
+      else ops.push(...diffValues(source[key], target[key], keyPath));
+    }
+    for (const key of Object.keys(target)) {
+      if (!Object.prototype.hasOwnProperty.call(source, key)) {
+        ops.push({ op: "add", path: `${basePath}/${escapePointerToken(key)}`, value: target[key] });
+      }
+    }
+    return ops;
+  }
+
+  return [{ op: "replace", path: basePath, value: target }];
+}
+
+/**
+ * Patch that turns `source` into `target` (applyJsonPatch(source, patch) deep-equals target).
+ * Both sides are compared as serialized JSON, so `undefined` fields do not show up.
+ */
+export function createJsonPatch(source: unknown, target: unknown): JsonPatchOperation[] {
+  return diffValues(cloneJson(source), cloneJson(target), "");
+}
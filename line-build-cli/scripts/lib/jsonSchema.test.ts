@@ -0,0 +1,36 @@
+import { readFileSync } from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { JSON_SCHEMA_ROOTS, UnknownSchemaTypeError, buildLineBuildJsonSchema, renderTypeScript } from "./jsonSchema";
+import { EditOpSchema } from "./edit";
+import { STATIONS, TECHNIQUES, TOOLS } from "../../config";
+
+describe("buildLineBuildJsonSchema", () => {
+  const doc = buildLineBuildJsonSchema();
+
+  it("exports the roots and their named sub-types", () => {
+    for (const root of JSON_SCHEMA_ROOTS) expect(doc.$defs[root]).toBeDefined();
+    expect(doc.$defs.EditOp?.oneOf).toHaveLength(EditOpSchema.options.length);
+    expect(doc.$defs.Step?.properties?.action).toEqual({ $ref: "#/$defs/StepAction" });
+  });
+
+  it("pulls vocabulary enums from config", () => {
+    expect(doc.$defs.StationId?.enum).toEqual(expect.arrayContaining(STATIONS.map((s) => s.id)));
+    expect(doc.$defs.ToolId?.enum).toEqual(expect.arrayContaining(TOOLS.map((t) => t.id)));
+    expect(doc.$defs.TechniqueId?.enum).toEqual(TECHNIQUES.map((t) => t.id));
+    expect(doc.$defs.StepAction?.properties?.techniqueId).toEqual({ $ref: "#/$defs/TechniqueId" });
+  });
+
+  it("roots the document at --type", () => {
+    expect(buildLineBuildJsonSchema({ root: "EditOp" }).$ref).toBe("#/$defs/EditOp");
+    expect(() => buildLineBuildJsonSchema({ root: "Nope" })).toThrow(UnknownSchemaTypeError);
+  });
+});
+
+describe("renderTypeScript", () => {
+  it("matches the committed viewer types (npm run gen:viewer-types)", () => {
+    const generated = readFileSync(path.join(__dirname, "../../viewer/src/generated/lineBuild.ts"), "utf8");
+    expect(renderTypeScript(buildLineBuildJsonSchema())).toBe(generated);
+  });
+});
@@ -0,0 +1,283 @@
+import { z } from "zod";
+import {
+  ApplianceIdSchema,
+  AssemblyRefSchema,
+  AssemblySchema,
+  BenchTopLineBuildSchema,
+  BomEntrySchema,
+  BuildRefSchema,
+  ContainerTypeSchema,
+  CURRENT_SCHEMA_VERSION,
+  CustomizationGroupSchema,
+  DependencyConditionSchema,
+  DependencyRefSchema,
+  DerivedBuildDataSchema,
+  DerivedTransferStepSchema,
+  FieldProvenanceSchema,
+  GroupingIdSchema,
+  LocationRefSchema,
+  OperationSchema,
+  StationIdSchema,
+  StepActionSchema,
+  StepConditionSchema,
+  StepContainerSchema,
+  StepEquipmentSchema,
+  StepOverlaySchema,
+  StepProvenanceSchema,
+  StepQuantitySchema,
+  StepSchema,
+  StepSublocationSchema,
+  StepTargetSchema,
+  StepTimeSchema,
+  SublocationIdSchema,
+  ToolIdSchema,
+  TrackDefinitionSchema,
+  TransferTypeSchema,
+  ValidationOverrideSchema,
+} from "./schema";
+import { EditOpSchema } from "./edit";
+import { JsonPatchOperationSchema } from "./jsonPatch";
+import { STATIONS, TOOLS, TECHNIQUES } from "../../config";
+
+/**
+ * JSON Schema export of the line build model.
+ *
+ * The Zod schemas in ./schema (plus EditOpSchema) stay the source of truth;
+ * this module converts them into one draft 2020-12 document with a $defs
+ * entry per named type. Vocabulary enums are then replaced with the config
+ * lists so external tools see the same ids the validator checks:
+ * - StationId   <- config/stations.config.ts
+ * - ToolId      <- config/tools.config.ts (schema-only legacy ids are kept)
+ * - TechniqueId <- config/techniques.config.ts (the H33 vocabulary)
+ *
+ * renderTypeScript() emits type declarations from the same document; the
+ * viewer's model types are generated with it (npm run gen:viewer-types).
+ */
+
+export type JsonSchema = {
+  [keyword: string]: unknown;
+  $ref?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  description?: string;
+};
+
+export type JsonSchemaDocument = JsonSchema & {
+  $schema: string;
+  title: string;
+  $defs: Record<string, JsonSchema>;
+};
+
+/** Top-level types of the contract; every other $defs entry is reachable from these. */
+export const JSON_SCHEMA_ROOTS = ["BenchTopLineBuild", "DerivedBuildData", "EditOp"] as const;
+
+export class UnknownSchemaTypeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnknownSchemaTypeError";
+  }
+}
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+/** Zod schemas emitted as named $defs (and named types in renderTypeScript), in output order. */
+const NAMED_SCHEMAS: Array<[string, z.ZodType]> = [
+  ["BenchTopLineBuild", BenchTopLineBuildSchema],
+  ["DerivedBuildData", DerivedBuildDataSchema],
+  ["EditOp", EditOpSchema],
+  ["JsonPatchOperation", JsonPatchOperationSchema],
+  ["Step", StepSchema],
+  ["StepAction", StepActionSchema],
+  ["StepTarget", StepTargetSchema],
+  ["StepEquipment", StepEquipmentSchema],
+  ["StepTime", StepTimeSchema],
+  ["StepContainer", StepContainerSchema],
+  ["StepQuantity", StepQuantitySchema],
+  ["StepCondition", StepConditionSchema],
+  ["StepOverlay", StepOverlaySchema],
+  ["StepProvenance", StepProvenanceSchema],
+  ["FieldProvenance", FieldProvenanceSchema],
+  ["StepSublocation", StepSublocationSchema],
+  ["LocationRef", LocationRefSchema],
+  ["DependencyRef", DependencyRefSchema],
+  ["DependencyCondition", DependencyConditionSchema],
+  ["BomEntry", BomEntrySchema],
+  ["Assembly", AssemblySchema],
+  ["AssemblyRef", AssemblyRefSchema],
+  ["TrackDefinition", TrackDefinitionSchema],
+  ["Operation", OperationSchema],
+  ["BuildRef", BuildRefSchema],
+  ["CustomizationGroup", CustomizationGroupSchema],
+  ["ValidationOverride", ValidationOverrideSchema],
+  ["DerivedTransferStep", DerivedTransferStepSchema],
+  ["TransferType", TransferTypeSchema],
+  ["GroupingId", GroupingIdSchema],
+  ["StationId", StationIdSchema],
+  ["ToolId", ToolIdSchema],
+  ["ApplianceId", ApplianceIdSchema],
+  ["SublocationId", SublocationIdSchema],
+  ["ContainerType", ContainerTypeSchema],
+];
+
+function defRef(id: string): string {
+  return `#/$defs/${id}`;
+}
+
+/** Literal values of a Zod-generated enum (anyOf of consts). */
+function literalValues(schema: JsonSchema | undefined): string[] {
+  return (schema?.anyOf ?? schema?.oneOf ?? [])
+    .map((s) => s.const)
+    .filter((v): v is string => typeof v === "string");
+}
+
+function configEnum(description: string, configIds: string[], schemaIds: string[] = []): JsonSchema {
+  const ids = [...configIds, ...schemaIds.filter((id) => !configIds.includes(id))];
+  return { type: "string", enum: ids, description };
+}
+
+/** Point free-string techniqueId properties at the TechniqueId vocabulary. */
+function linkTechniqueIds(node: unknown): void {
+  if (Array.isArray(node)) {
+    node.forEach(linkTechniqueIds);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+  const schema = node as JsonSchema;
+  const technique = schema.properties?.techniqueId;
+  if (technique && technique.type === "string" && technique.const === undefined && !technique.enum) {
+    schema.properties!.techniqueId = { $ref: defRef("TechniqueId") };
+  }
+  Object.values(schema).forEach(linkTechniqueIds);
+}
+
+/**
+ * Build the JSON Schema document. With `root`, the document itself validates
+ * that type (`$ref` to the def) so it can be handed to a validator as-is.
+ */
+export function buildLineBuildJsonSchema(opts: { root?: string } = {}): JsonSchemaDocument {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of NAMED_SCHEMAS) registry.add(schema, { id });
+
+  const { schemas } = z.toJSONSchema(registry, {
+    uri: defRef,
+    unrepresentable: "any",
+    io: "input",
+  }) as { schemas: Record<string, JsonSchema> };
+
+  const defs: Record<string, JsonSchema> = {};
+  for (const [id] of NAMED_SCHEMAS) {
+    const { $schema: _schema, $id: _id, ...def } = schemas[id]!;
+    defs[id] = def;
+  }
+
+  defs.StationId = configEnum(
+    "Station id (config/stations.config.ts).",
+    STATIONS.map((s) => s.id),
+    literalValues(defs.StationId),
+  );
+  defs.ToolId = configEnum(
+    "Tool id (config/tools.config.ts; legacy schema ids are still accepted).",
+    TOOLS.map((t) => t.id),
+    literalValues(defs.ToolId),
+  );
+  defs.TechniqueId = configEnum(
+    "Technique id (config/techniques.config.ts, checked by H33).",
+    TECHNIQUES.map((t) => t.id),
+  );
+  linkTechniqueIds(defs);
+
+  if (opts.root !== undefined && !defs[opts.root]) {
+    throw new UnknownSchemaTypeError(`Unknown schema type: ${opts.root} (known: ${Object.keys(defs).join(", ")})`);
+  }
+
+  return {
+    $schema: DRAFT_2020_12,
+    title: opts.root ?? "Line build model",
+    description: `Generated from scripts/lib/schema (schemaVersion ${CURRENT_SCHEMA_VERSION}). Roots: ${JSON_SCHEMA_ROOTS.join(", ")}.`,
+    ...(opts.root ? { $ref: defRef(opts.root) } : {}),
+    $defs: defs,
+  };
+}
+
+// -----------------------------
+// TypeScript rendering
+// -----------------------------
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function refName(ref: string): string {
+  return ref.slice(ref.lastIndexOf("/") + 1);
+}
+
+function docComment(description: string | undefined, indent: string): string {
+  return description ? `${indent}/** ${description} */\n` : "";
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const props = Object.entries(schema.properties ?? {});
+  const extra = schema.additionalProperties;
+  if (props.length === 0) {
+    if (extra === false) return "Record<string, never>";
+    return `Record<string, ${extra && extra !== true ? tsType(extra, indent) : "unknown"}>`;
+  }
+
+  const required = new Set(schema.required ?? []);
+  const inner = indent + "  ";
+  const lines = props.map(([key, prop]) => {
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    return `${docComment(prop.description, inner)}${inner}${name}${required.has(key) ? "" : "?"}: ${tsType(prop, inner)};`;
+  });
+  if (extra !== undefined && extra !== false) lines.push(`${inner}[key: string]: unknown;`);
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function tsType(schema: JsonSchema, indent: string): string {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+
+  const members = schema.anyOf ?? schema.oneOf;
+  if (members) return Array.from(new Set(members.map((m) => tsType(m, indent)))).join(" | ");
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => tsType({ ...schema, type }, indent)).join(" | ");
+  }
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      return schema.items ? `Array<${tsType(schema.items, indent)}>` : "unknown[]";
+    case "object":
+      return objectType(schema, indent);
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Render every $defs entry as an exported type alias.
+ */
+export function renderTypeScript(doc: JsonSchemaDocument): string {
+  const header = [
+    "// Generated by `lb schema --format ts` from scripts/lib/schema. Do not edit by hand.",
+    `// schemaVersion ${CURRENT_SCHEMA_VERSION}`,
+  ];
+  const decls = Object.entries(doc.$defs).map(
+    ([name, def]) => `${docComment(def.description, "")}export type ${name} = ${tsType(def, "")};`,
+  );
+  return [...header, "", ...decls.flatMap((d) => [d, ""])].join("\n");
+}
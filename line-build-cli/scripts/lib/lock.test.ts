@@ -0,0 +1,90 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { LockTimeoutError, withLock } from "./lock";
+
+vi.mock("node:fs/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:fs/promises")>();
+  return { ...actual, readFile: vi.fn(actual.readFile) };
+});
+
+describe("withLock", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "lb-lock-"));
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("serializes holders of the same lock and releases it afterwards", async () => {
+    const events: string[] = [];
+    const hold = (id: string) =>
+      withLock("build-a", async () => {
+        events.push(`${id}:start`);
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        events.push(`${id}:end`);
+      }, { dir });
+
+    await Promise.all([hold("one"), hold("two")]);
+    expect(events).toEqual(["one:start", "one:end", "two:start", "two:end"]);
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("times out on a live lock and breaks an abandoned one", async () => {
+    await withLock("build-a", async () => {
+      await expect(withLock("build-a", async () => "inner", { dir, timeoutMs: 50 })).rejects.toThrow(LockTimeoutError);
+    }, { dir });
+
+    // Left behind by a process that no longer exists.
+    const lockPath = path.join(dir, "build-b.lock");
+    await fs.mkdir(lockPath);
+    await fs.writeFile(path.join(lockPath, "owner.json"), JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), acquiredAt: "", argv: [] }));
+    expect(await withLock("build-b", async () => "taken", { dir, timeoutMs: 200 })).toBe("taken");
+  });
+
+  it("does not break a lock that was retaken while it was judged stale", async () => {
+    const lockPath = path.join(dir, "build-c.lock");
+    await fs.mkdir(lockPath);
+    await fs.writeFile(path.join(lockPath, "owner.json"), JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), acquiredAt: "", argv: [] }));
+
+    // The first waiter reads the dead owner, then stalls while a second one
+    // breaks the lock and takes it.
+    const { readFile } = await vi.importActual<typeof fs>("node:fs/promises");
+    vi.mocked(fs.readFile).mockImplementationOnce(async (...args: Parameters<typeof fs.readFile>) => {
+      const content = await readFile(...args);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return content;
+    });
+
+    let inside = 0;
+    let maxInside = 0;
+    const contend = () =>
+      withLock("build-c", async () => {
+        maxInside = Math.max(maxInside, ++inside);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        inside--;
+      }, { dir, timeoutMs: 2000 });
+
+    await Promise.all([contend(), contend()]);
+    expect(maxInside).toBe(1);
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("does not remove a lock that was broken and retaken while fn ran", async () => {
+    const lockPath = path.join(dir, "build-d.lock");
+    const next = { pid: process.pid, hostname: os.hostname(), acquiredAt: "", argv: [], token: "next-holder" };
+
+    await withLock("build-d", async () => {
+      // Another process judged this lock stale, broke it and took it.
+      await fs.rm(lockPath, { recursive: true });
+      await fs.mkdir(lockPath);
+      await fs.writeFile(path.join(lockPath, "owner.json"), JSON.stringify(next));
+    }, { dir });
+
+    expect(await fs.readdir(dir)).toEqual(["build-d.lock"]);
+    expect(JSON.parse(await fs.readFile(path.join(lockPath, "owner.json"), "utf8"))).toEqual(next);
+  });
+});
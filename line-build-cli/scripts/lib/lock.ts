@@ -0,0 +1,180 @@
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { LOCKS_DIR_ABS } from "./fileUtils";
+
+/**
+ * Advisory locks shared by every process writing under one data root (CLI,
+ * viewer API routes, agents).
+ *
+ * A lock is a directory data/.locks/<name>.lock (mkdir is atomic) holding an
+ * owner.json. Locks are not reentrant: never take a lock while holding the same
+ * one. A lock whose owner process is gone (same host) or older than staleMs is
+ * broken and retaken. Releasing removes the lock only while owner.json still
+ * names this acquisition, so a holder whose lock was broken as stale does not
+ * remove the next holder's.
+ */
+
+export type LockOptions = {
+  /** Give up after this long. Default: 10s. */
+  timeoutMs?: number;
+  /** Treat a held lock as abandoned after this long. Default: 60s. */
+  staleMs?: number;
+  /** Lock directory; the viewer passes its own data root. Default: data/.locks. */
+  dir?: string;
+};
+
+type LockOwner = { pid: number; hostname: string; acquiredAt: string; argv: string[]; token?: string };
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 60_000;
+const RETRY_MS = 25;
+
+export class LockTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LockTimeoutError";
+  }
+}
+
+function lockPathAbs(dir: string, name: string): string {
+  return path.join(dir, `${name.replace(/[^A-Za-z0-9._-]/g, "_")}.lock`);
+}
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Identity of the lock directory (inode + mtime) when it is abandoned, else
+ * undefined. breakStale compares it after moving the lock aside.
+ */
+async function staleFingerprint(lockPath: string, staleMs: number): Promise<string | undefined> {
+  try {
+    const stat = await fs.stat(lockPath);
+    const fingerprint = `${stat.ino}:${stat.mtimeMs}`;
+    if (Date.now() - stat.mtimeMs > staleMs) return fingerprint;
+    const owner = JSON.parse(await fs.readFile(path.join(lockPath, "owner.json"), "utf8")) as LockOwner;
+    return owner.hostname === os.hostname() && !processAlive(owner.pid) ? fingerprint : undefined;
+  } catch {
+    // Owner file not written yet (lock just taken) or lock already released.
+    return undefined;
+  }
+}
+
+/**
+ * Remove an abandoned lock without racing other waiters. The lock is renamed to
+ * a unique name first, so only one breaker gets it; if what was moved is not
+ * the directory judged stale (it was broken and retaken in between), it is put
+ * back instead of removed.
+ */
+async function breakStale(lockPath: string, fingerprint: string): Promise<void> {
+  const aside = `${lockPath}.stale-${process.pid}-${randomUUID()}`;
+  try {
+    await fs.rename(lockPath, aside);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw err;
+  }
+  const stat = await fs.stat(aside);
+  if (`${stat.ino}:${stat.mtimeMs}` === fingerprint) {
+    await fs.rm(aside, { recursive: true, force: true });
+    return;
+  }
+  try {
+    await fs.rename(aside, lockPath);
+  } catch {
+    // Taken again meanwhile; the moved lock is lost either way.
+    await fs.rm(aside, { recursive: true, force: true });
+  }
+}
+
+/** Take the lock; returns the token identifying this acquisition in owner.json. */
+async function acquire(lockPath: string, name: string, opts: Required<Omit<LockOptions, "dir">>): Promise<string> {
+  const deadline = Date.now() + opts.timeoutMs;
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      await fs.mkdir(lockPath);
+      const owner: LockOwner = {
+        pid: process.pid,
+        hostname: os.hostname(),
+        acquiredAt: new Date().toISOString(),
+        argv: process.argv.slice(2),
+        token: randomUUID(),
+      };
+      await fs.writeFile(path.join(lockPath, "owner.json"), JSON.stringify(owner, null, 2) + "\n", "utf8");
+      return owner.token!;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+    const fingerprint = await staleFingerprint(lockPath, opts.staleMs);
+    if (fingerprint) {
+      await breakStale(lockPath, fingerprint);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(`Timed out after ${opts.timeoutMs}ms waiting for lock ${name} (${lockPath})`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_MS));
+  }
+}
+
+/**
+ * Remove the lock if this acquisition still owns it. Like breakStale, the lock
+ * is moved aside first and put back if owner.json names another holder (it was
+ * judged stale and retaken while fn ran).
+ */
+async function release(lockPath: string, token: string): Promise<void> {
+  const aside = `${lockPath}.release-${process.pid}-${randomUUID()}`;
+  try {
+    await fs.rename(lockPath, aside);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw err;
+  }
+  let owner: LockOwner | undefined;
+  try {
+    owner = JSON.parse(await fs.readFile(path.join(aside, "owner.json"), "utf8")) as LockOwner;
+  } catch {
+    // Owner file not written yet by the new holder.
+  }
+  if (owner?.pid === process.pid && owner.token === token) {
+    await fs.rm(aside, { recursive: true, force: true });
+    return;
+  }
+  try {
+    await fs.rename(aside, lockPath);
+  } catch {
+    // Taken again meanwhile; the moved lock is lost either way.
+    await fs.rm(aside, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run fn while holding the named locks. Several names are taken in sorted order,
+ * so callers locking overlapping sets cannot deadlock.
+ */
+export async function withLock<T>(names: string | string[], fn: () => Promise<T>, opts: LockOptions = {}): Promise<T> {
+  const dir = opts.dir ?? LOCKS_DIR_ABS;
+  const resolved = { timeoutMs: opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, staleMs: opts.staleMs ?? DEFAULT_STALE_MS };
+  const sorted = Array.from(new Set(typeof names === "string" ? [names] : names)).sort();
+
+  const held: { lockPath: string; token: string }[] = [];
+  try {
+    for (const name of sorted) {
+      const lockPath = lockPathAbs(dir, name);
+      held.push({ lockPath, token: await acquire(lockPath, name, resolved) });
+    }
+    return await fn();
+  } finally {
+    for (const { lockPath, token } of held.reverse()) await release(lockPath, token);
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError, parseBuild } from "./schema";
+import { MIGRATIONS, migrateBuildJson, parseAnyBuildVersion } from "./migrations";
+
+const LEGACY_BUILD = {
+  id: "legacy",
+  itemId: "item-1",
+  version: 1,
+  status: "draft",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  steps: [
+    { id: "pull", orderIndex: 1, action: { family: "PREP" }, storageLocation: { type: "cold_storage" } },
+    {
+      id: "plate",
+      orderIndex: 2,
+      action: { family: "ASSEMBLE" },
+      workLocation: { type: "work_surface" },
+      storageLocation: { type: "dry_rail" },
+    },
+  ],
+};
+
+describe("migration registry", () => {
+  it("covers every version step up to CURRENT_SCHEMA_VERSION", () => {
+    for (let v = 1; v < CURRENT_SCHEMA_VERSION; v++) {
+      const m = MIGRATIONS.find((x) => x.fromVersion === v);
+      expect(m?.toVersion).toBe(v + 1);
+    }
+  });
+});
+
+describe("migrateBuildJson", () => {
+  it("upgrades a v1 build without mutating the input", () => {
+    const res = migrateBuildJson(LEGACY_BUILD);
+    expect(res.fromVersion).toBe(1);
+    expect(res.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(res.applied.map((m) => m.id)).toEqual(["remove-storage-location"]);
+    expect(res.build.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+
+    const [pull, plate] = res.build.steps as Array<Record<string, unknown>>;
+    expect(pull).toMatchObject({ workLocation: { type: "cold_storage" } });
+    expect(plate).toMatchObject({ workLocation: { type: "work_surface" } });
+    expect(pull).not.toHaveProperty("storageLocation");
+    expect(LEGACY_BUILD.steps[0]).toHaveProperty("storageLocation");
+
+    expect(parseAnyBuildVersion(LEGACY_BUILD).steps).toHaveLength(2);
+  });
+
+  it("is a no-op for current builds", () => {
+    const res = migrateBuildJson({ ...LEGACY_BUILD, steps: [], schemaVersion: CURRENT_SCHEMA_VERSION });
+    expect(res.applied).toEqual([]);
+  });
+
+  it("refuses builds newer than this CLI", () => {
+    const future = { ...LEGACY_BUILD, steps: [], schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    expect(() => migrateBuildJson(future)).toThrow(SchemaVersionError);
+    expect(() => parseBuild(future)).toThrow(SchemaVersionError);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  SchemaVersionError,
+  parseBuild,
+  type BenchTopLineBuild,
+} from "../schema";
+import { removeStorageLocation } from "./v2-remove-storage-location";
+
+/**
+ * Versioned build-format migrations.
+ *
+ * Builds carry `schemaVersion` (missing = 1). Migrations run on the raw JSON,
+ * before parseBuild, one version step at a time until CURRENT_SCHEMA_VERSION.
+ * Reads migrate in memory (see store.readBuild); `lb migrate` persists the
+ * upgrade and records a receipt.
+ *
+ * To change the model: bump CURRENT_SCHEMA_VERSION, add a `vN-<name>.ts`
+ * migration from N-1 to N, and append it to MIGRATIONS.
+ */
+
+export type BuildJson = Record<string, unknown>;
+
+export type BuildMigration = {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  /** Mutates the build JSON in place; returns human-readable change notes. */
+  migrate(build: BuildJson): string[];
+};
+
+/** Ordered by fromVersion; each entry upgrades exactly one version. */
+export const MIGRATIONS: BuildMigration[] = [removeStorageLocation];
+
+export type AppliedMigration = {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  changes: string[];
+};
+
+export type MigrationResult = {
+  build: BuildJson;
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+};
+
+export function getSchemaVersion(json: unknown): number {
+  const v = (json as { schemaVersion?: unknown } | null)?.schemaVersion;
+  return typeof v === "number" ? v : 1;
+}
+
+/**
+ * Upgrade build JSON to CURRENT_SCHEMA_VERSION. The input is not mutated.
+ * Throws SchemaVersionError for builds newer than this CLI.
+ */
+export function migrateBuildJson(json: unknown): MigrationResult {
+  const fromVersion = getSchemaVersion(json);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) throw new SchemaVersionError(fromVersion);
+
+  const build = structuredClone(json) as BuildJson;
+  const applied: AppliedMigration[] = [];
+  let version = fromVersion;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.fromVersion === version);
+    if (!migration) throw new Error(`No migration registered from schemaVersion ${version}`);
+    const changes = migration.migrate(build);
+    applied.push({
+      id: migration.id,
+      fromVersion: migration.fromVersion,
+      toVersion: migration.toVersion,
+      description: migration.description,
+      changes,
+    });
+    version = migration.toVersion;
+  }
+  if (applied.length > 0) build.schemaVersion = version;
+
+  return { build, fromVersion, toVersion: version, applied };
+}
+
+/**
+ * parseBuild() for JSON of any supported schemaVersion.
+ */
+export function parseAnyBuildVersion(json: unknown): BenchTopLineBuild {
+  return parseBuild(migrateBuildJson(json).build);
+}
@@ -0,0 +1,31 @@
+import type { BuildMigration } from "./index";
+
+/**
+ * v1 -> v2: drop the legacy `step.storageLocation`.
+ *
+ * Where a step has no workLocation, the storage sublocation becomes its
+ * workLocation (retrieval happens at the storage spot); otherwise the legacy
+ * value is discarded in favour of the explicit workLocation.
+ */
+export const removeStorageLocation: BuildMigration = {
+  id: "remove-storage-location",
+  fromVersion: 1,
+  toVersion: 2,
+  description: "Move step.storageLocation into step.workLocation and drop the legacy field",
+  migrate(build) {
+    const changes: string[] = [];
+    const steps = Array.isArray(build.steps) ? build.steps : [];
+    for (const step of steps as Array<Record<string, unknown>>) {
+      if (!step || typeof step !== "object" || !("storageLocation" in step)) continue;
+      const legacy = step.storageLocation as { type?: unknown } | undefined;
+      if (!step.workLocation && typeof legacy?.type === "string") {
+        step.workLocation = { type: legacy.type };
+        changes.push(`${String(step.id)}: storageLocation.type "${legacy.type}" -> workLocation.type`);
+      } else {
+        changes.push(`${String(step.id)}: dropped storageLocation (workLocation already set)`);
+      }
+      delete step.storageLocation;
+    }
+    return changes;
+  },
+};
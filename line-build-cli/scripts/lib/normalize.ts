@@ -9,6 +9,7 @@ import {
 } from "./schema";
 import { deriveDependencies } from "./flow";
 import { deriveAllMaterialFlow } from "./derive";
+import { canonicalizeQuantity } from "./units";
 import {
   canDeriveStationFromEquipment,
   getStationForUniqueEquipment,
@@ -19,7 +20,7 @@ import {
 
 /**
  * Normalizes a line build by:
- * 1. Filling defaults (input/output arrays)
+ * 1. Filling defaults (input/output arrays) and canonical quantity units
  * 2. Auto-creating missing assemblies
  * 3. Normalizing material flow roles + lineage
  * 4. Deriving Tier 2 fields (sublocation, to, from)
@@ -51,19 +52,27 @@ export function normalizeBuild(build: BenchTopLineBuild): BenchTopLineBuild {
 
     return {
       ...withStation,
+      quantity: canonicalizeQuantity(withStation.quantity),
       // Removed: from/to derivation at step level
       // Only derive on assembly refs (material flow is on assemblies, not steps)
       input: (withStation.input ?? []).map((inp) => ({
         ...inp,
+        quantity: canonicalizeQuantity(inp.quantity),
         from: applyStationToLocation(inp.from, withStation),
       })),
       output: (withStation.output ?? []).map((out) => ({
         ...out,
+        quantity: canonicalizeQuantity(out.quantity),
         to: applyStationToLocation(out.to, withStation),
       })),
     };
   });
 
+  // 1c. Canonical quantity units ("ounces" -> "oz"); unknown units are left for H49
+  if (normalized.bom) {
+    normalized.bom = normalized.bom.map((entry) => ({ ...entry, quantity: canonicalizeQuantity(entry.quantity) }));
+  }
+
   // 2. Auto-create assembly stubs for any referenced in_build assemblies
   const existingAssemblyIds = new Set(normalized.assemblies?.map(a => a.id) || []);
   const referencedAssemblyIds = new Set<AssemblyId>();
@@ -103,7 +112,7 @@ export function normalizeBuild(build: BenchTopLineBuild): BenchTopLineBuild {
     return created;
   };
 
-  for (const assemblyId of referencedAssemblyIds) {
+  for (const assemblyId of Array.from(referencedAssemblyIds)) {
     if (!existingAssemblyIds.has(assemblyId)) {
       ensureAssembly(assemblyId);
     }
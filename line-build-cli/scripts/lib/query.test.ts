@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { applyOps } from "./edit";
+import { baseFixtureBuild } from "./fixtures";
+import { parseWhere, QueryParseError, runQuery } from "./query";
+
+function stepIds(where: string): string[] {
+  const build = baseFixtureBuild("query");
+  build.steps = build.steps.slice(0, 3);
+  build.steps[0]!.time = { durationSeconds: 600, isActive: false };
+  build.steps[1]!.instruction = "Place potato in clamshell";
+  build.steps[2]!.instruction = undefined;
+  return runQuery({ builds: [build], where }).matches.map((m) => m.stepId);
+}
+
+describe("parseWhere", () => {
+  it("supports OR, NOT, grouping, comparisons, regex and missing()", () => {
+    expect(stepIds("step.id = s1 OR step.id = s3")).toEqual(["s1", "s3"]);
+    expect(stepIds("NOT (step.id = s1 OR step.id = s3)")).toEqual(["s2"]);
+    expect(stepIds("step.id = s3 OR step.id = s1 AND step.time.durationSeconds > 300")).toEqual(["s1", "s3"]);
+    expect(stepIds("(step.id = s3 OR step.id = s1) AND step.time.durationSeconds <= 300")).toEqual(["s3"]);
+    expect(stepIds('step.instruction ~ "^Place (potato|fries)"')).toEqual(["s2"]);
+    expect(stepIds("missing(step.instruction) OR NOT exists(step.time)")).toEqual(["s2", "s3"]);
+    expect(stepIds("step.instruction = Place potato in clamshell")).toEqual(["s2"]);
+  });
+
+  it("reports the column of the offending token", () => {
+    const cases: Array<[string, number]> = [
+      ["step.id = s1 AND (step.id = s2", 31],
+      ["step.time.durationSeconds > soon", 29],
+      ["step.id = s1 OR step.bogus = 1", 17],
+      ['step.notes ~ "(["', 14],
+      ["step.id = s1 )", 14],
+    ];
+    for (const [where, column] of cases) {
+      let error: unknown;
+      try {
+        parseWhere(where);
+      } catch (err) {
+        error = err;
+      }
+      expect(error, where).toBeInstanceOf(QueryParseError);
+      expect((error as QueryParseError).column, where).toBe(column);
+    }
+  });
+
+  it("drives set_field where clauses", () => {
+    const out = applyOps(baseFixtureBuild("query"), [
+      { type: "set_field", where: "step.id in [s1, s2, s3] AND NOT (step.id = s2 OR step.time.durationSeconds < 60)", field: "step.notes", value: "checked" },
+    ]);
+    expect(out.steps.slice(0, 3).map((s) => s.notes)).toEqual(["checked", undefined, "checked"]);
+  });
+});
@@ -1,30 +1,55 @@
 import type { BenchTopLineBuild, Step } from "./schema";
+import { FieldPathError, parseFieldPath, readFieldValues, type FieldPath } from "./fieldPath";
 
 /**
  * Query DSL implementation (PoC).
  *
- * Source of truth:
- * - docs/handoff/POC_TASKS.json -> shared_conventions.dsl_contract
+ * Originally specified in docs/handoff/POC_TASKS.json -> shared_conventions.dsl_contract
+ * (AND-only); the grammar below is a superset of it.
  *
  * Grammar:
- * - Conjunction of clauses separated by AND (no parentheses).
+ *   expr    := or
+ *   or      := and (OR and)*
+ *   and     := unary (AND unary)*
+ *   unary   := NOT unary | primary
+ *   primary := ( expr ) | exists(<field>) | missing(<field>) | <clause>
+ * - AND binds tighter than OR; AND, OR and NOT are upper case.
  * - Clause forms:
  *   - <field> = <value>
  *   - <field> != <value>
+ *   - <field> > | >= | < | <= <number>
+ *   - <field> ~ <regex>          (JavaScript RegExp, quote it if it has spaces or parens)
  *   - <field> in [<value>, <value>, ...]
- *   - exists(<field>)
+ *   - exists(<field>) / missing(<field>)
+ * - Values may be quoted; unquoted values run to the next AND/OR/)/end, so
+ *   `step.instruction = Place potato` still works.
  *
- * Whitelist:
- * - field_whitelist in POC_TASKS.json
+ * Fields:
+ * - Any step.* / build.* path in the schema (see fieldPath.ts), e.g.
+ *   step.overlays[0].overrides.stationId or build.requiresBuilds.itemId.
+ *   Arrays without an index match if any element matches (!= and missing()
+ *   require that no element matches).
  */
 
 export type QueryPrimitive = string | number | boolean;
 
+export type QueryComparison = ">" | ">=" | "<" | "<=";
+
 export type QueryClause =
   | { kind: "eq"; field: QueryField; value: QueryPrimitive }
   | { kind: "ne"; field: QueryField; value: QueryPrimitive }
+  | { kind: "cmp"; field: QueryField; op: QueryComparison; value: number }
+  | { kind: "regex"; field: QueryField; pattern: string }
   | { kind: "in"; field: QueryField; values: QueryPrimitive[] }
-  | { kind: "exists"; field: QueryField };
+  | { kind: "exists"; field: QueryField }
+  | { kind: "missing"; field: QueryField };
+
+/** Parsed where expression; an empty "and" matches everything. */
+export type QueryExpr =
+  | QueryClause
+  | { kind: "and"; operands: QueryExpr[] }
+  | { kind: "or"; operands: QueryExpr[] }
+  | { kind: "not"; operand: QueryExpr };
 
 export type QueryMatch = {
   buildId: string;
@@ -40,367 +65,377 @@ export type QueryMatch = {
   label: string;
 };
 
-export const QUERY_FIELD_WHITELIST = [
-  "step.id",
-  "step.action.family",
-  "step.action.techniqueId",
-  "step.equipment.applianceId",
-  "step.time.durationSeconds",
-  "step.time.isActive",
-  "step.cookingPhase",
-  "step.prepType",
-  "step.storageLocation.type",
-  "step.container.type",
-  "step.container.name",
-  "step.container.size",
-  "step.stationId",
-  "step.workLocation.type",
-  "step.workLocation.equipmentId",
-  "step.from.stationId",
-  "step.from.sublocation.type",
-  "step.from.sublocation.equipmentId",
-  "step.to.stationId",
-  "step.to.sublocation.type",
-  "step.to.sublocation.equipmentId",
-  "step.toolId",
-  "step.target.bomUsageId",
-  "step.target.bomComponentId",
-  "step.quantity.value",
-  "step.quantity.unit",
-  "step.notes",
-  "step.instruction",
-  "build.itemId",
-  "build.status",
-  "build.name",
-  "build.requiresBuilds.itemId",
-] as const;
-
-export type QueryField = (typeof QUERY_FIELD_WHITELIST)[number];
+/** A step.* or build.* path, resolved against the schema by parseFieldPath. */
+export type QueryField = string;
 
 export class QueryParseError extends Error {
-  constructor(message: string) {
+  /** 1-based column of the offending token, when known. */
+  column?: number;
+
+  constructor(message: string, column?: number) {
     super(message);
     this.name = "QueryParseError";
+    this.column = column;
   }
 }
 
-function isWhitelistedField(field: string): field is QueryField {
-  return (QUERY_FIELD_WHITELIST as readonly string[]).includes(field);
+const resolvedFields = new Map<string, FieldPath>();
+
+function resolveField(field: string): FieldPath {
+  const cached = resolvedFields.get(field);
+  if (cached) return cached;
+  try {
+    const path = parseFieldPath(field);
+    resolvedFields.set(field, path);
+    return path;
+  } catch (err) {
+    if (err instanceof FieldPathError) throw new QueryParseError(`field not allowed in where: ${err.message}`);
+    throw err;
+  }
 }
 
-function isQueryPrimitive(v: unknown): v is QueryPrimitive {
-  return (
-    typeof v === "string" || typeof v === "number" || typeof v === "boolean"
-  );
-}
+const compiledPatterns = new Map<string, RegExp>();
 
-function unquote(s: string): string {
-  const t = s.trim();
-  if (t.length >= 2) {
-    const q = t[0];
-    if ((q === `"` || q === `'`) && t[t.length - 1] === q) {
-      return t.slice(1, -1);
-    }
+function compilePattern(pattern: string): RegExp {
+  let re = compiledPatterns.get(pattern);
+  if (!re) {
+    re = new RegExp(pattern);
+    compiledPatterns.set(pattern, re);
   }
-  return t;
+  return re;
 }
 
 export function coerceQueryValue(raw: string): QueryPrimitive {
-  const t = unquote(raw.trim());
+  const t = raw.trim();
   if (/^\d+$/.test(t)) return Number(t);
   if (t === "true") return true;
   if (t === "false") return false;
   return t;
 }
 
-function splitTopLevelAnd(where: string): string[] {
-  const s = where.trim();
-  if (s.length === 0) return [];
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
 
-  const parts: string[] = [];
-  let buf = "";
-  let inQuote: "'" | '"' | null = null;
-  let bracketDepth = 0;
-
-  const flush = () => {
-    const t = buf.trim();
-    if (t.length > 0) parts.push(t);
-    buf = "";
-  };
-
-  for (let i = 0; i < s.length; i++) {
-    const ch = s[i]!;
-
-    if (inQuote) {
-      if (ch === inQuote) inQuote = null;
-      buf += ch;
+type TokenKind = "word" | "string" | "op" | "(" | ")" | "[" | "]" | ",";
+
+type Token = { kind: TokenKind; text: string; start: number; end: number };
+
+const OPERATORS = ["!=", ">=", "<=", "=", ">", "<", "~"] as const;
+const PUNCTUATION = new Set(["(", ")", "[", "]", ","]);
+const WORD_STOP = /[\s(),=!<>~"']/;
+
+function tokenize(where: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < where.length) {
+    const ch = where[i]!;
+    if (/\s/.test(ch)) {
+      i++;
       continue;
     }
 
-    if (ch === "'" || ch === '"') {
-      inQuote = ch;
-      buf += ch;
+    if (ch === `"` || ch === `'`) {
+      const close = where.indexOf(ch, i + 1);
+      if (close === -1) throw new QueryParseError(`unterminated ${ch} string`, i + 1);
+      tokens.push({ kind: "string", text: where.slice(i + 1, close), start: i, end: close + 1 });
+      i = close + 1;
       continue;
     }
 
-    if (ch === "[") {
-      bracketDepth++;
-      buf += ch;
+    const op = OPERATORS.find((o) => where.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: "op", text: op, start: i, end: i + op.length });
+      i += op.length;
       continue;
     }
-    if (ch === "]") {
-      bracketDepth = Math.max(0, bracketDepth - 1);
-      buf += ch;
+
+    if (PUNCTUATION.has(ch)) {
+      tokens.push({ kind: ch as TokenKind, text: ch, start: i, end: i + 1 });
+      i++;
       continue;
     }
 
-    // Only split on AND when not in quotes/brackets.
-    if (bracketDepth === 0) {
-      const maybe = s.slice(i);
-      if (/^(\s+AND\s+)/.test(maybe)) {
-        // consume the leading whitespace + AND + trailing whitespace
-        const m = maybe.match(/^(\s+AND\s+)/);
-        if (m) {
-          flush();
-          i += m[1].length - 1;
-          continue;
-        }
-      }
+    if (ch === "!") throw new QueryParseError(`unexpected "!" (use != or NOT)`, i + 1);
+
+    // Words (fields, keywords, bare values). Brackets opened inside a word belong
+    // to it (step.overlays[0].x); a "]" or "," outside them ends the word.
+    let j = i;
+    let depth = 0;
+    while (j < where.length) {
+      const c = where[j]!;
+      if (c === "[") depth++;
+      else if (c === "]") {
+        if (depth === 0) break;
+        depth--;
+      } else if (depth === 0 && (WORD_STOP.test(c) || c === ",")) break;
+      j++;
     }
+    tokens.push({ kind: "word", text: where.slice(i, j), start: i, end: j });
+    i = j;
+  }
+  return tokens;
+}
 
-    buf += ch;
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+const KEYWORDS = new Set(["AND", "OR", "NOT"]);
+
+class WhereParser {
+  private pos = 0;
+
+  constructor(
+    private readonly where: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): QueryExpr {
+    if (this.tokens.length === 0) throw new QueryParseError("where is required and cannot be empty");
+    const expr = this.parseOr();
+    const extra = this.peek();
+    if (extra) this.fail(`unexpected ${describeToken(extra)}; expected AND, OR or end of query`, extra);
+    return expr;
   }
 
-  flush();
-  return parts;
-}
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
 
-function splitCsvValues(inner: string): string[] {
-  const s = inner.trim();
-  const out: string[] = [];
-  let buf = "";
-  let inQuote: "'" | '"' | null = null;
-
-  const flush = () => {
-    const t = buf.trim();
-    if (t.length > 0) out.push(t);
-    buf = "";
-  };
-
-  for (let i = 0; i < s.length; i++) {
-    const ch = s[i]!;
-    if (inQuote) {
-      if (ch === inQuote) inQuote = null;
-      buf += ch;
-      continue;
-    }
-    if (ch === "'" || ch === '"') {
-      inQuote = ch;
-      buf += ch;
-      continue;
+  private next(expected: string): Token {
+    const tok = this.tokens[this.pos];
+    if (!tok) this.fail(`expected ${expected}, found end of query`);
+    this.pos++;
+    return tok;
+  }
+
+  private isKeyword(tok: Token | undefined, keyword: string): boolean {
+    return tok?.kind === "word" && tok.text === keyword;
+  }
+
+  private expect(kind: TokenKind, expected: string): Token {
+    const tok = this.next(expected);
+    if (tok.kind !== kind) this.fail(`expected ${expected}, found ${describeToken(tok)}`, tok);
+    return tok;
+  }
+
+  /** Throw a QueryParseError pointing at tok (or the end of the query). */
+  private fail(reason: string, tok?: Token): never {
+    const column = (tok ? tok.start : this.where.length) + 1;
+    throw new QueryParseError(`${reason} at column ${column}\n  ${this.where}\n  ${" ".repeat(column - 1)}^`, column);
+  }
+
+  private parseOr(): QueryExpr {
+    const operands = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), "OR")) {
+      this.pos++;
+      operands.push(this.parseAnd());
     }
-    if (ch === ",") {
-      flush();
-      continue;
+    return operands.length === 1 ? operands[0]! : { kind: "or", operands };
+  }
+
+  private parseAnd(): QueryExpr {
+    const operands = [this.parseUnary()];
+    while (this.isKeyword(this.peek(), "AND")) {
+      this.pos++;
+      operands.push(this.parseUnary());
     }
-    buf += ch;
+    return operands.length === 1 ? operands[0]! : { kind: "and", operands };
   }
-  flush();
-  return out;
-}
 
-export function parseWhere(where: string): QueryClause[] {
-  const clausesRaw = splitTopLevelAnd(where);
-  if (clausesRaw.length === 0) {
-    throw new QueryParseError("where is required and cannot be empty");
+  private parseUnary(): QueryExpr {
+    if (this.isKeyword(this.peek(), "NOT")) {
+      this.pos++;
+      return { kind: "not", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
   }
 
-  const clauses: QueryClause[] = [];
+  private parsePrimary(): QueryExpr {
+    const tok = this.next("a clause");
+    if (tok.kind === "(") {
+      const inner = this.parseOr();
+      this.expect(")", `")"`);
+      return inner;
+    }
+    if (tok.kind !== "word" || KEYWORDS.has(tok.text)) this.fail(`expected a field, exists() or missing(), found ${describeToken(tok)}`, tok);
 
-  for (const rawClause of clausesRaw) {
-    const c = rawClause.trim();
+    if ((tok.text === "exists" || tok.text === "missing") && this.peek()?.kind === "(") {
+      this.pos++;
+      const field = this.parseField(this.next("a field"));
+      this.expect(")", `")"`);
+      return { kind: tok.text === "exists" ? "exists" : "missing", field };
+    }
 
-    // exists(<field>)
-    const existsMatch = c.match(/^exists\((.+)\)$/);
-    if (existsMatch) {
-      const field = existsMatch[1]!.trim();
-      if (!isWhitelistedField(field)) {
-        throw new QueryParseError(
-          `field not allowed in where: ${field} (must be in whitelist)`,
-        );
+    const field = this.parseField(tok);
+    const opTok = this.next(`an operator after ${field}`);
+    if (opTok.kind === "word" && opTok.text === "in") return { kind: "in", field, values: this.parseList() };
+    if (opTok.kind !== "op") this.fail(`expected =, !=, >, >=, <, <=, ~ or in after ${field}, found ${describeToken(opTok)}`, opTok);
+
+    const op = opTok.text as (typeof OPERATORS)[number];
+    const valueTok = this.peek();
+    const raw = this.parseValue(`a value after ${op}`);
+    switch (op) {
+      case "=":
+        return { kind: "eq", field, value: raw.quoted ? raw.text : coerceQueryValue(raw.text) };
+      case "!=":
+        return { kind: "ne", field, value: raw.quoted ? raw.text : coerceQueryValue(raw.text) };
+      case "~":
+        try {
+          compilePattern(raw.text);
+        } catch (err) {
+          this.fail(`invalid regex: ${err instanceof Error ? err.message : String(err)}`, valueTok);
+        }
+        return { kind: "regex", field, pattern: raw.text };
+      default: {
+        if (raw.quoted || !/^-?\d+(\.\d+)?$/.test(raw.text)) this.fail(`expected a number after ${op}, found ${describeToken(valueTok!)}`, valueTok);
+        return { kind: "cmp", field, op, value: Number(raw.text) };
       }
-      clauses.push({ kind: "exists", field });
-      continue;
     }
+  }
 
-    // <field> in [ ... ]
-    const inMatch = c.match(/^(.+?)\s+in\s+\[(.*)\]$/);
-    if (inMatch) {
-      const fieldRaw = inMatch[1]!.trim();
-      const inner = inMatch[2]!.trim();
-      if (!isWhitelistedField(fieldRaw)) {
-        throw new QueryParseError(
-          `field not allowed in where: ${fieldRaw} (must be in whitelist)`,
-        );
-      }
-      const rawVals = inner.length === 0 ? [] : splitCsvValues(inner);
-      const values = rawVals.map(coerceQueryValue).filter(isQueryPrimitive);
-      clauses.push({ kind: "in", field: fieldRaw, values });
-      continue;
+  private parseField(tok: Token): QueryField {
+    if (tok.kind !== "word" || KEYWORDS.has(tok.text)) this.fail(`expected a field, found ${describeToken(tok)}`, tok);
+    try {
+      resolveField(tok.text);
+    } catch (err) {
+      if (err instanceof QueryParseError) this.fail(err.message, tok);
+      throw err;
     }
+    return tok.text;
+  }
 
-    // <field> != <value>   OR   <field> = <value>
-    const opMatch = c.match(/^(.+?)\s*(!=|=)\s*(.+)$/);
-    if (opMatch) {
-      const fieldRaw = opMatch[1]!.trim();
-      const op = opMatch[2]!;
-      const valueRaw = opMatch[3]!.trim();
-      if (!isWhitelistedField(fieldRaw)) {
-        throw new QueryParseError(
-          `field not allowed in where: ${fieldRaw} (must be in whitelist)`,
-        );
-      }
-      const value = coerceQueryValue(valueRaw);
-      if (op === "=") clauses.push({ kind: "eq", field: fieldRaw, value });
-      else clauses.push({ kind: "ne", field: fieldRaw, value });
-      continue;
+  /** A quoted string, or bare words up to the next AND/OR/")"/end (inner spacing kept). */
+  private parseValue(expected: string): { text: string; quoted: boolean } {
+    const first = this.next(expected);
+    if (first.kind === "string") return { text: first.text, quoted: true };
+    if (first.kind !== "word" || KEYWORDS.has(first.text)) this.fail(`expected ${expected}, found ${describeToken(first)}`, first);
+
+    let last = first;
+    for (let tok = this.peek(); tok && tok.kind === "word" && !KEYWORDS.has(tok.text); tok = this.peek()) {
+      last = tok;
+      this.pos++;
     }
+    return { text: this.where.slice(first.start, last.end), quoted: false };
+  }
 
-    throw new QueryParseError(`could not parse clause: ${c}`);
+  private parseList(): QueryPrimitive[] {
+    this.expect("[", `"[" after in`);
+    const values: QueryPrimitive[] = [];
+    if (this.peek()?.kind === "]") {
+      this.pos++;
+      return values;
+    }
+    for (;;) {
+      const tok = this.next("a list value");
+      if (tok.kind === "string") values.push(tok.text);
+      else if (tok.kind === "word") values.push(coerceQueryValue(tok.text));
+      else this.fail(`expected a list value, found ${describeToken(tok)}`, tok);
+
+      const sep = this.next(`"," or "]"`);
+      if (sep.kind === "]") return values;
+      if (sep.kind !== ",") this.fail(`expected "," or "]", found ${describeToken(sep)}`, sep);
+    }
   }
+}
+
+function describeToken(tok: Token): string {
+  return tok.kind === "string" ? `string "${tok.text}"` : `"${tok.text}"`;
+}
 
-  return clauses;
+export function parseWhere(where: string): QueryExpr {
+  return new WhereParser(where, tokenize(where)).parse();
 }
 
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
 function getFieldValues(
   field: QueryField,
   build: BenchTopLineBuild,
-  step: Step,
-): QueryPrimitive[] {
-  // Note: returning [] means "no value present"
-  switch (field) {
-    // step.*
-    case "step.id":
-      return [step.id];
-    case "step.action.family":
-      return [step.action.family];
-    case "step.action.techniqueId":
-      return typeof step.action.techniqueId === "string"
-        ? [step.action.techniqueId]
-        : [];
-    case "step.equipment.applianceId":
-      return step.equipment?.applianceId ? [step.equipment.applianceId] : [];
-    case "step.time.durationSeconds":
-      return typeof step.time?.durationSeconds === "number"
-        ? [step.time.durationSeconds]
-        : [];
-    case "step.time.isActive":
-      return typeof step.time?.isActive === "boolean"
-        ? [step.time.isActive]
-        : [];
-    case "step.cookingPhase":
-      return step.cookingPhase ? [step.cookingPhase] : [];
-    case "step.prepType":
-      return step.prepType ? [step.prepType] : [];
-    case "step.storageLocation.type":
-      return step.storageLocation?.type ? [step.storageLocation.type] : [];
-    case "step.container.type":
-      return step.container?.type ? [step.container.type] : [];
-    case "step.container.name":
-      return step.container?.name ? [step.container.name] : [];
-    case "step.container.size":
-      return step.container?.size ? [step.container.size] : [];
-    case "step.stationId":
-      return step.stationId ? [step.stationId] : [];
-    case "step.workLocation.type":
-      return step.workLocation?.type ? [step.workLocation.type] : [];
-    case "step.workLocation.equipmentId":
-      return step.workLocation?.equipmentId ? [step.workLocation.equipmentId] : [];
-    case "step.from.stationId":
-      return step.from?.stationId ? [step.from.stationId] : [];
-    case "step.from.sublocation.type":
-      return step.from?.sublocation?.type ? [step.from.sublocation.type] : [];
-    case "step.from.sublocation.equipmentId":
-      return step.from?.sublocation?.equipmentId ? [step.from.sublocation.equipmentId] : [];
-    case "step.to.stationId":
-      return step.to?.stationId ? [step.to.stationId] : [];
-    case "step.to.sublocation.type":
-      return step.to?.sublocation?.type ? [step.to.sublocation.type] : [];
-    case "step.to.sublocation.equipmentId":
-      return step.to?.sublocation?.equipmentId ? [step.to.sublocation.equipmentId] : [];
-    case "step.toolId":
-      return step.toolId ? [step.toolId] : [];
-    case "step.target.bomUsageId":
-      return step.target?.bomUsageId ? [step.target.bomUsageId] : [];
-    case "step.target.bomComponentId":
-      return step.target?.bomComponentId ? [step.target.bomComponentId] : [];
-    case "step.quantity.value":
-      return typeof step.quantity?.value === "number"
-        ? [step.quantity.value]
-        : [];
-    case "step.quantity.unit":
-      return step.quantity?.unit ? [step.quantity.unit] : [];
-    case "step.notes":
-      return step.notes ? [step.notes] : [];
-    case "step.instruction":
-      return step.instruction ? [step.instruction] : [];
-
-    // build.*
-    case "build.itemId":
-      return [build.itemId];
-    case "build.status":
-      return [build.status];
-    case "build.name":
-      return build.name ? [build.name] : [];
-    case "build.requiresBuilds.itemId":
-      return (build.requiresBuilds ?? []).map((r) => r.itemId);
-    default: {
-      const _exhaustive: never = field;
-      return _exhaustive;
-    }
-  }
+  step: Step | undefined,
+): unknown[] {
+  // Note: returning [] means "no value present" (empty strings count as absent).
+  const path = resolveField(field);
+  return readFieldValues(path, path.root === "step" ? step : build).filter(
+    (v) => v !== "" && v !== null,
+  );
+}
+
+function equalsPrimitive(a: unknown, b: QueryPrimitive): boolean {
+  // Bare digits coerce to a number; still match string fields like build.itemId.
+  return a === b || (typeof a === "string" && typeof b === "number" && a === String(b));
 }
 
-function equalsPrimitive(a: QueryPrimitive, b: QueryPrimitive): boolean {
-  return a === b;
+function compareNumber(a: number, op: QueryComparison, b: number): boolean {
+  switch (op) {
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+  }
 }
 
+/**
+ * `step` may be omitted to evaluate build.* clauses alone; step.* fields then have no value.
+ */
 export function matchesWhere(
-  clauses: QueryClause[],
+  expr: QueryExpr,
   build: BenchTopLineBuild,
-  step: Step,
+  step?: Step,
 ): boolean {
-  for (const clause of clauses) {
-    const vals = getFieldValues(clause.field, build, step);
+  switch (expr.kind) {
+    case "and":
+      return expr.operands.every((e) => matchesWhere(e, build, step));
+    case "or":
+      return expr.operands.some((e) => matchesWhere(e, build, step));
+    case "not":
+      return !matchesWhere(expr.operand, build, step);
+    default:
+      break;
+  }
 
-    switch (clause.kind) {
-      case "exists": {
-        if (vals.length === 0) return false;
-        break;
-      }
-      case "eq": {
-        if (!vals.some((v) => equalsPrimitive(v, clause.value))) return false;
-        break;
-      }
-      case "ne": {
-        if (vals.some((v) => equalsPrimitive(v, clause.value))) return false;
-        break;
-      }
-      case "in": {
-        if (
-          !vals.some((v) => clause.values.some((x) => equalsPrimitive(v, x)))
-        ) {
-          return false;
-        }
-        break;
-      }
-      default: {
-        const _exhaustive: never = clause;
-        return _exhaustive;
-      }
+  const vals = getFieldValues(expr.field, build, step);
+  switch (expr.kind) {
+    case "exists":
+      return vals.length > 0;
+    case "missing":
+      return vals.length === 0;
+    case "eq":
+      return vals.some((v) => equalsPrimitive(v, expr.value));
+    case "ne":
+      return !vals.some((v) => equalsPrimitive(v, expr.value));
+    case "in":
+      return vals.some((v) => expr.values.some((x) => equalsPrimitive(v, x)));
+    case "cmp":
+      return vals.some((v) => typeof v === "number" && compareNumber(v, expr.op, expr.value));
+    case "regex": {
+      const re = compilePattern(expr.pattern);
+      return vals.some((v) => (typeof v === "string" || typeof v === "number" || typeof v === "boolean") && re.test(String(v)));
+    }
+    default: {
+      const _exhaustive: never = expr;
+      return _exhaustive;
     }
   }
-  return true;
+}
+
+/**
+ * Build-level selection (`lb edit --where`): a build matches when any of its
+ * steps does, or, for a build without steps, when the build.* clauses do.
+ */
+export function buildMatchesWhere(
+  expr: QueryExpr,
+  build: BenchTopLineBuild,
+): boolean {
+  if (build.steps.length === 0) return matchesWhere(expr, build);
+  return build.steps.some((step) => matchesWhere(expr, build, step));
 }
 
 export function buildMatchLabel(step: Step): string {
@@ -454,13 +489,13 @@ export function buildGapsFromValidation(
 export function runQuery(input: {
   builds: BenchTopLineBuild[];
   where: string;
-}): { clauses: QueryClause[]; matches: QueryMatch[] } {
-  const clauses = parseWhere(input.where);
+}): { expr: QueryExpr; matches: QueryMatch[] } {
+  const expr = parseWhere(input.where);
 
   const matches: QueryMatch[] = [];
   for (const build of input.builds) {
     for (const step of build.steps) {
-      if (!matchesWhere(clauses, build, step)) continue;
+      if (!matchesWhere(expr, build, step)) continue;
       matches.push({
         buildId: build.id,
         itemId: build.itemId,
@@ -482,6 +517,6 @@ export function runQuery(input: {
     return a.stepId.localeCompare(b.stepId);
   });
 
-  return { clauses, matches };
+  return { expr, matches };
 }
 
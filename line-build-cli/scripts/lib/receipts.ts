@@ -1,7 +1,8 @@
 import { randomUUID } from "node:crypto";
+import * as fs from "node:fs/promises";
 import * as path from "node:path";
 
-import { RECEIPTS_DIR_ABS, atomicWriteJsonFile } from "./store";
+import { RECEIPTS_DIR_ABS, atomicWriteJsonFile, type BuildImage } from "./store";
 
 /**
  * Receipt writer for write/apply commands.
@@ -20,6 +21,12 @@ export type Receipt = {
   inputs?: unknown;
   outputs?: unknown;
   touchedFiles?: string[];
+  /** Pre/post images of every build the command wrote (what `lb undo` / `lb redo` restore). */
+  builds?: BuildImage[];
+  /** Set on `lb undo` receipts: the receipt that was undone. */
+  undoOf?: string;
+  /** Set on `lb redo` receipts: the receipt that was redone. */
+  redoOf?: string;
 };
 
 function fileSafeTimestamp(iso: string): string {
@@ -39,6 +46,9 @@ export async function writeReceipt(input: {
   inputs?: unknown;
   outputs?: unknown;
   touchedFiles?: string[];
+  builds?: BuildImage[];
+  undoOf?: string;
+  redoOf?: string;
 }): Promise<{ receipt: Receipt; filePathAbs: string }> {
   const timestamp = input.timestamp ?? new Date().toISOString();
   const receipt: Receipt = {
@@ -48,6 +58,9 @@ export async function writeReceipt(input: {
     inputs: input.inputs,
     outputs: input.outputs,
     touchedFiles: input.touchedFiles,
+    builds: input.builds,
+    undoOf: input.undoOf,
+    redoOf: input.redoOf,
   };
 
   const fileName = `${fileSafeTimestamp(timestamp)}-${sanitizeCommand(input.command)}-${receipt.id}.json`;
@@ -58,3 +71,21 @@ export async function writeReceipt(input: {
   return { receipt, filePathAbs };
 }
 
+/**
+ * All receipts, oldest first (file names start with the timestamp).
+ */
+export async function listReceipts(): Promise<Array<{ receipt: Receipt; filePathAbs: string }>> {
+  let names: string[];
+  try {
+    names = (await fs.readdir(RECEIPTS_DIR_ABS)).filter((n) => n.endsWith(".json")).sort();
+  } catch (err) {
+    if ((err as { code?: string }).code === "ENOENT") return [];
+    throw err;
+  }
+  const out: Array<{ receipt: Receipt; filePathAbs: string }> = [];
+  for (const name of names) {
+    const filePathAbs = path.join(RECEIPTS_DIR_ABS, name);
+    out.push({ receipt: JSON.parse(await fs.readFile(filePathAbs, "utf8")) as Receipt, filePathAbs });
+  }
+  return out;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import { ActionFamily, type BenchTopLineBuild, type Step } from "./schema";
+import { resolveBuild, overlayMatches, ScenarioError } from "./resolve";
+
+const LOC = { stationId: "garnish" as const, sublocation: { type: "work_surface" as const } };
+
+function baseBuild(steps: Step[], partial: Partial<BenchTopLineBuild> = {}): BenchTopLineBuild {
+  return {
+    id: "build-1",
+    itemId: "item-1",
+    version: 1,
+    status: "draft",
+    steps,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    customizationGroups: [
+      { optionId: "toppings", type: "OPTIONAL_ADDITION", valueIds: ["sour_cream", "chives"] },
+    ],
+    ...partial,
+  };
+}
+
+function step(id: string, orderIndex: number, partial: Partial<Step> = {}): Step {
+  return {
+    id,
+    orderIndex,
+    action: { family: ActionFamily.PREP, techniqueId: "open_pack" },
+    stationId: "garnish",
+    workLocation: { type: "work_surface" },
+    input: [],
+    output: [{ source: { type: "in_build", assemblyId: `out_${id}` }, to: LOC }],
+    ...partial,
+  };
+}
+
+describe("resolveBuild", () => {
+  it("keeps only steps whose equipment profile condition matches", () => {
+    const build = baseBuild([
+      step("turbo", 1, { conditions: { requiresEquipmentProfileIds: ["eqp_has_turbo"] } }),
+      step("fryer", 1, { conditions: { requiresEquipmentProfileIds: ["eqp_no_turbo_has_fryer"] } }),
+      step("plate", 2),
+    ]);
+
+    const res = resolveBuild(build, { equipmentProfileId: "eqp_has_turbo" });
+    expect(res.build.steps.map((s) => s.id)).toEqual(["turbo", "plate"]);
+    expect(res.removedSteps).toEqual([
+      { stepId: "fryer", reason: "condition", detail: "requires equipment profile eqp_no_turbo_has_fryer" },
+    ]);
+    expect(res.build.steps.every((s) => s.conditions === undefined)).toBe(true);
+  });
+
+  it("applies matching overlays in ascending priority so the highest wins", () => {
+    const build = baseBuild([
+      step("cook", 1, {
+        time: { durationSeconds: 60, isActive: false },
+        overlays: [
+          { id: "high", predicate: { equipmentProfileId: "eqp_slow" }, overrides: { time: { durationSeconds: 180, isActive: false } }, priority: 10 },
+          { id: "low", predicate: { equipmentProfileId: "eqp_slow" }, overrides: { time: { durationSeconds: 120, isActive: false }, notes: "slow oven" }, priority: 1 },
+          { id: "other", predicate: { equipmentProfileId: "eqp_fast" }, overrides: { notes: "fast" }, priority: 99 },
+        ],
+      }),
+    ]);
+
+    const res = resolveBuild(build, { equipmentProfileId: "eqp_slow" });
+    const cook = res.build.steps[0]!;
+    expect(cook.time?.durationSeconds).toBe(180);
+    expect(cook.notes).toBe("slow oven");
+    expect(cook.overlays).toBeUndefined();
+    expect(res.appliedOverlays.map((o) => o.overlayId)).toEqual(["low", "high"]);
+  });
+
+  it("drops steps excluded by an overlay and prunes dependsOn", () => {
+    const build = baseBuild([
+      step("a", 1, {
+        overlays: [{ id: "skip", predicate: { customizationValueIds: ["chives"] }, overrides: { exclude: true }, priority: 1 }],
+      }),
+      step("b", 2, { dependsOn: ["a"] }),
+    ]);
+
+    const res = resolveBuild(build, { customizationValueIds: ["chives"] });
+    expect(res.build.steps.map((s) => s.id)).toEqual(["b"]);
+    expect(res.removedSteps[0]).toMatchObject({ stepId: "a", reason: "exclude", detail: "excluded by overlay" });
+    expect(res.build.steps[0]!.dependsOn).toEqual([]);
+    expect(res.droppedDependencies).toEqual([{ stepId: "b", dependsOn: "a", reason: "removed_step" }]);
+  });
+
+  it("drops conditional dependencies when the customization is not selected", () => {
+    const build = baseBuild([
+      step("base", 1),
+      step("topping", 2, { conditions: { requiresCustomizationValueIds: ["sour_cream"] } }),
+      step("finish", 3, {
+        dependsOn: ["base", { stepId: "topping", condition: { requiresCustomizationValueIds: ["sour_cream"] } }],
+      }),
+    ]);
+
+    const plain = resolveBuild(build, {});
+    expect(plain.build.steps.map((s) => s.id)).toEqual(["base", "finish"]);
+    expect(plain.build.steps[1]!.dependsOn).toEqual(["base"]);
+
+    const loaded = resolveBuild(build, { customizationValueIds: ["sour_cream"] });
+    expect(loaded.build.steps.map((s) => s.id)).toEqual(["base", "topping", "finish"]);
+    expect(loaded.build.steps[2]!.dependsOn).toEqual(["base", "topping"]);
+  });
+
+  it("rejects unknown customization valueIds", () => {
+    expect(() => resolveBuild(baseBuild([step("a", 1)]), { customizationValueIds: ["bacon"] })).toThrow(ScenarioError);
+  });
+});
+
+describe("overlayMatches", () => {
+  const overlay = {
+    id: "o1",
+    predicate: { customizationValueIds: ["sour_cream", "chives"], minCustomizationCount: 2 },
+    overrides: {},
+    priority: 1,
+  };
+
+  it("honors minCustomizationCount against the listed values", () => {
+    expect(overlayMatches(overlay, { customizationValueIds: ["sour_cream"] })).toBe(false);
+    expect(overlayMatches(overlay, { customizationValueIds: ["sour_cream", "chives"] })).toBe(true);
+  });
+
+  it("never matches an empty predicate", () => {
+    expect(overlayMatches({ ...overlay, predicate: {} }, { equipmentProfileId: "x" })).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  type BenchTopLineBuild,
+  type DependencyRef,
+  type Step,
+  type StepCondition,
+  type StepOverlay,
+  getDependencyStepId,
+  parseBuild,
+} from "./schema";
+import { normalizeBuild } from "./normalize";
+
+/**
+ * Scenario resolver.
+ *
+ * A master build carries every variant at once: steps gated by `conditions`,
+ * per-step `overlays`, and conditional `dependsOn` refs. Resolving a build for
+ * a scenario (one equipment profile + a set of selected customization values)
+ * produces a concrete BenchTopLineBuild with no conditional content left, so it
+ * can be validated, scored and viewed like any authored build.
+ *
+ * Spec: poc/specs/equipment-profile-variant-mvp.md (section 4)
+ *
+ * Resolution order:
+ * 1. Apply matching overlays in ascending priority (highest priority wins)
+ * 2. Drop steps whose conditions are not met, or that end up excluded
+ * 3. Drop dependsOn refs to removed steps and unmet conditional deps
+ * 4. Strip overlays/conditions and re-normalize
+ */
+
+export type Scenario = {
+  equipmentProfileId?: string;
+  customizationValueIds?: string[];
+  restaurantId?: string;
+};
+
+export type RemovedStep = {
+  stepId: string;
+  reason: "condition" | "exclude";
+  detail: string;
+};
+
+export type AppliedOverlay = {
+  stepId: string;
+  overlayId: string;
+  priority: number;
+  fields: string[];
+};
+
+export type DroppedDependency = {
+  stepId: string;
+  dependsOn: string;
+  reason: "removed_step" | "condition";
+};
+
+export type ScenarioResolution = {
+  scenario: Scenario;
+  build: BenchTopLineBuild;
+  removedSteps: RemovedStep[];
+  appliedOverlays: AppliedOverlay[];
+  droppedDependencies: DroppedDependency[];
+};
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+function cloneJson<T>(obj: T): T {
+  return JSON.parse(JSON.stringify(obj)) as T;
+}
+
+// -----------------------------
+// Predicates
+// -----------------------------
+
+/**
+ * Overlay predicate match. Every specified predicate field must hold:
+ * - equipmentProfileId: equals the scenario profile
+ * - customizationValueIds: at least `minCustomizationCount` (default 1) of them are selected
+ * - minCustomizationCount alone: at least that many customization values are selected overall
+ */
+export function overlayMatches(overlay: StepOverlay, scenario: Scenario): boolean {
+  const p = overlay.predicate;
+  const selected = new Set(scenario.customizationValueIds ?? []);
+
+  if (p.equipmentProfileId !== undefined && p.equipmentProfileId !== scenario.equipmentProfileId) {
+    return false;
+  }
+
+  const ids = p.customizationValueIds ?? [];
+  if (ids.length > 0) {
+    const hits = ids.filter((v) => selected.has(v)).length;
+    if (hits < (p.minCustomizationCount ?? 1)) return false;
+  } else if (p.minCustomizationCount !== undefined && selected.size < p.minCustomizationCount) {
+    return false;
+  }
+
+  // An empty predicate never matches (H14 flags it).
+  return p.equipmentProfileId !== undefined || ids.length > 0 || p.minCustomizationCount !== undefined;
+}
+
+/**
+ * Returns a human-readable reason when a step condition is not met, or null when it is.
+ * Each requirement list is satisfied when the scenario matches ANY of its entries.
+ */
+export function unmetConditionReason(
+  conditions: StepCondition | undefined,
+  scenario: Scenario,
+): string | null {
+  if (!conditions) return null;
+  const selected = new Set(scenario.customizationValueIds ?? []);
+
+  const profiles = conditions.requiresEquipmentProfileIds ?? [];
+  if (profiles.length > 0 && !(scenario.equipmentProfileId && profiles.includes(scenario.equipmentProfileId))) {
+    return `requires equipment profile ${profiles.join(" | ")}`;
+  }
+
+  const values = conditions.requiresCustomizationValueIds ?? [];
+  if (values.length > 0 && !values.some((v) => selected.has(v))) {
+    return `requires customization ${values.join(" | ")}`;
+  }
+
+  const restaurants = conditions.requiresRestaurantIds ?? [];
+  if (restaurants.length > 0 && !(scenario.restaurantId && restaurants.includes(scenario.restaurantId))) {
+    return `requires restaurant ${restaurants.join(" | ")}`;
+  }
+
+  return null;
+}
+
+function dependencyConditionMet(ref: DependencyRef, scenario: Scenario): boolean {
+  if (typeof ref === "string") return true;
+  const values = ref.condition?.requiresCustomizationValueIds ?? [];
+  if (values.length === 0) return true;
+  const selected = new Set(scenario.customizationValueIds ?? []);
+  return values.some((v) => selected.has(v));
+}
+
+// -----------------------------
+// Scenario helpers
+// -----------------------------
+
+/**
+ * Collect every equipment profile ID referenced by the build (conditions + overlay predicates).
+ */
+export function collectEquipmentProfileIds(build: BenchTopLineBuild): string[] {
+  const ids = new Set<string>();
+  for (const step of build.steps) {
+    for (const id of step.conditions?.requiresEquipmentProfileIds ?? []) ids.add(id);
+    for (const overlay of step.overlays ?? []) {
+      if (overlay.predicate.equipmentProfileId) ids.add(overlay.predicate.equipmentProfileId);
+    }
+  }
+  return [...ids].sort();
+}
+
+/**
+ * Throws ScenarioError when the scenario selects customization values the build does not declare.
+ */
+export function assertScenarioValid(build: BenchTopLineBuild, scenario: Scenario): void {
+  const known = new Set((build.customizationGroups ?? []).flatMap((g) => g.valueIds ?? []));
+  const unknown = (scenario.customizationValueIds ?? []).filter((v) => !known.has(v));
+  if (unknown.length > 0) {
+    const valid = [...known].sort();
+    throw new ScenarioError(
+      `unknown customization valueId(s): ${unknown.join(", ")}` +
+        (valid.length > 0 ? ` (valid: ${valid.join(", ")})` : " (build declares no customizationGroups)"),
+    );
+  }
+}
+
+// -----------------------------
+// resolveBuild()
+// -----------------------------
+
+function applyOverlays(step: Step, scenario: Scenario, applied: AppliedOverlay[]): Step {
+  const matching = (step.overlays ?? [])
+    .map((overlay, index) => ({ overlay, index }))
+    .filter(({ overlay }) => overlayMatches(overlay, scenario))
+    // Ascending priority so the highest priority is applied last; ties keep authored order.
+    .sort((a, b) => a.overlay.priority - b.overlay.priority || a.index - b.index);
+
+  let resolved = step;
+  for (const { overlay } of matching) {
+    resolved = { ...resolved, ...cloneJson(overlay.overrides) };
+    applied.push({
+      stepId: step.id,
+      overlayId: overlay.id,
+      priority: overlay.priority,
+      fields: Object.keys(overlay.overrides).sort(),
+    });
+  }
+  return resolved;
+}
+
+export function resolveBuild(build: BenchTopLineBuild, scenario: Scenario): ScenarioResolution {
+  assertScenarioValid(build, scenario);
+
+  const removedSteps: RemovedStep[] = [];
+  const appliedOverlays: AppliedOverlay[] = [];
+  const droppedDependencies: DroppedDependency[] = [];
+
+  const kept: Step[] = [];
+  for (const original of build.steps) {
+    const step = applyOverlays(cloneJson(original), scenario, appliedOverlays);
+
+    const reason = unmetConditionReason(step.conditions, scenario);
+    if (reason) {
+      removedSteps.push({ stepId: step.id, reason: "condition", detail: reason });
+      continue;
+    }
+    if (step.exclude === true) {
+      const viaOverlay = original.exclude !== true;
+      removedSteps.push({
+        stepId: step.id,
+        reason: "exclude",
+        detail: viaOverlay ? "excluded by overlay" : "step.exclude=true",
+      });
+      continue;
+    }
+
+    delete step.overlays;
+    delete step.conditions;
+    delete step.exclude;
+    kept.push(step);
+  }
+
+  const keptIds = new Set(kept.map((s) => s.id));
+  for (const step of kept) {
+    if (!step.dependsOn) continue;
+    const deps: DependencyRef[] = [];
+    for (const ref of step.dependsOn) {
+      const depId = getDependencyStepId(ref);
+      if (!keptIds.has(depId)) {
+        droppedDependencies.push({ stepId: step.id, dependsOn: depId, reason: "removed_step" });
+        continue;
+      }
+      if (!dependencyConditionMet(ref, scenario)) {
+        droppedDependencies.push({ stepId: step.id, dependsOn: depId, reason: "condition" });
+        continue;
+      }
+      // Conditions are settled for this scenario; keep the plain form (deduplicated).
+      if (!deps.includes(depId)) deps.push(depId);
+    }
+    step.dependsOn = deps;
+  }
+
+  const resolved = normalizeBuild(parseBuild({ ...cloneJson(build), steps: kept }));
+
+  return {
+    scenario,
+    build: parseBuild(resolved),
+    removedSteps,
+    appliedOverlays,
+    droppedDependencies,
+  };
+}
+
+/**
+ * Short label for a scenario (used for derived build IDs and report headers).
+ */
+export function formatScenarioLabel(scenario: Scenario): string {
+  const parts: string[] = [];
+  if (scenario.equipmentProfileId) parts.push(`profile=${scenario.equipmentProfileId}`);
+  if (scenario.restaurantId) parts.push(`restaurant=${scenario.restaurantId}`);
+  const values = scenario.customizationValueIds ?? [];
+  parts.push(values.length > 0 ? `customizations=${[...values].sort().join(",")}` : "customizations=none");
+  return parts.join(" ");
+}
@@ -14,6 +14,7 @@ import {
   type CustomizationGroupType,
   type TransferType,
   NonEmptyString,
+  StationIdSchema,
   TransferTypeSchema,
 } from "./enums";
 import { type Step, StepSchema, type LocationRef, LocationRefSchema } from "./step";
@@ -25,12 +26,74 @@ import { type Assembly, type BomEntry, AssemblySchema } from "./assembly";
  */
 
 // -----------------------------
-// Operation & Track (Permissive)
+// Operation & Track
 // -----------------------------
 
-// Not defined in the embedded PoC schema_contract; keep permissive for Cycle 1.
-export type Operation = Record<string, unknown>;
-export type TrackDefinition = Record<string, unknown>;
+/**
+ * How a track runs relative to the tracks declared before it.
+ * - parallel (default): runs at the same time as other tracks
+ * - sequential: starts after the preceding track finishes
+ */
+export type TrackMode = "parallel" | "sequential";
+
+/**
+ * An independent line of work within a build (e.g. "protein", "sides").
+ * Declared order in build.tracks is the canonical track order.
+ */
+export interface TrackDefinition {
+  id: string;
+  label?: string;
+  mode?: TrackMode;
+  /** Station that owns the track (where most of its work happens). */
+  stationId?: StationId;
+  notes?: string;
+}
+
+export const TrackDefinitionSchema = z
+  .object({
+    id: NonEmptyString,
+    label: z.string().optional(),
+    mode: z.union([z.literal("parallel"), z.literal("sequential")]).optional(),
+    stationId: StationIdSchema.optional(),
+    notes: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * A named unit of work spanning one or more steps (e.g. "dress salad").
+ * Steps join an operation via step.operationId.
+ */
+export interface Operation {
+  id: string;
+  label?: string;
+  /** When set, every step in the operation must be on this track. */
+  trackId?: string;
+  stationId?: StationId;
+  notes?: string;
+}
+
+export const OperationSchema = z
+  .object({
+    id: NonEmptyString,
+    label: z.string().optional(),
+    trackId: z.string().optional(),
+    stationId: StationIdSchema.optional(),
+    notes: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * Comparator for step trackIds in declared track order:
+ * untracked steps first, then build.tracks order, then undeclared tracks alphabetically.
+ */
+export function createTrackComparator(
+  tracks: TrackDefinition[] | undefined,
+): (a: string | undefined, b: string | undefined) => number {
+  const rank = new Map((tracks ?? []).map((t, i) => [t.id, i]));
+  const key = (id: string | undefined): number =>
+    !id ? -1 : rank.get(id) ?? Number.MAX_SAFE_INTEGER;
+  return (a, b) => key(a) - key(b) || (a ?? "").localeCompare(b ?? "");
+}
 
 // -----------------------------
 // Build Reference
@@ -90,7 +153,13 @@ export const CustomizationGroupSchema = z
 export interface ValidationOverride {
   id: string;
   ruleId: string;
+  /**
+   * Severity the finding is accepted at. With action "downgrade", matching
+   * findings are lowered to this severity.
+   */
   severity: ValidationSeverity;
+  /** What an approved override does to matching findings (default: suppress). */
+  action?: "suppress" | "downgrade";
   stepId?: StepId;
   fieldPath?: string;
   reason: string;
@@ -110,6 +179,7 @@ export const ValidationOverrideSchema = z
       z.literal("strong"),
       z.literal("soft"),
     ]),
+    action: z.union([z.literal("suppress"), z.literal("downgrade")]).optional(),
     stepId: z.string().optional(),
     fieldPath: z.string().optional(),
     reason: z.string(),
@@ -208,6 +278,12 @@ export const DerivedTransferStepSchema = z
 // BenchTopLineBuild (Main Interface)
 // -----------------------------
 
+/**
+ * Version of the on-disk build format this CLI reads and writes.
+ * Bump it together with a new entry in scripts/lib/migrations.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
 export interface BenchTopLineBuild {
   // required
   id: BuildId;
@@ -233,7 +309,8 @@ export interface BenchTopLineBuild {
   validationOverrides?: ValidationOverride[];
   authorId?: string;
   changeLog?: string;
-
+  /** On-disk format version; missing means 1 (pre-versioning). Stamped on write. */
+  schemaVersion?: number;
 }
 
 // Import BomEntrySchema from assembly (already defined there)
@@ -251,8 +328,8 @@ export const BenchTopLineBuildSchema = z
 
     name: z.string().optional(),
     menuItemId: z.string().optional(),
-    operations: z.array(z.record(z.string(), z.unknown())).optional(),
-    tracks: z.array(z.record(z.string(), z.unknown())).optional(),
+    operations: z.array(OperationSchema).optional(),
+    tracks: z.array(TrackDefinitionSchema).optional(),
     requiresBuilds: z.array(BuildRefSchema).optional(),
     bom: z.array(BomEntrySchema).default([]),
     assemblies: z.array(AssemblySchema).optional(),
@@ -261,5 +338,6 @@ export const BenchTopLineBuildSchema = z
     validationOverrides: z.array(ValidationOverrideSchema).optional(),
     authorId: z.string().optional(),
     changeLog: z.string().optional(),
+    schemaVersion: z.number().int().positive().optional(),
   })
   .strict();
@@ -18,7 +18,7 @@ export * from "./derived";
 // Import for station mapping functionality
 import { getStationSide as _getStationSide, STATION_BY_ID } from "../../../config/stations.config";
 import { type StationId, type GroupingId } from "./enums";
-import { BenchTopLineBuildSchema, type BenchTopLineBuild } from "./build";
+import { BenchTopLineBuildSchema, CURRENT_SCHEMA_VERSION, type BenchTopLineBuild } from "./build";
 
 // -----------------------------
 // Station to Grouping Mapping
@@ -61,6 +61,22 @@ export class BuildParseError extends Error {
   }
 }
 
+/**
+ * Thrown for builds written by a newer CLI (schemaVersion > CURRENT_SCHEMA_VERSION).
+ * Parsing them would silently drop or misread fields, so they are refused outright.
+ */
+export class SchemaVersionError extends Error {
+  public readonly schemaVersion: number;
+
+  constructor(schemaVersion: number) {
+    super(
+      `Build schemaVersion ${schemaVersion} is newer than this CLI supports (${CURRENT_SCHEMA_VERSION}); upgrade the CLI`,
+    );
+    this.name = "SchemaVersionError";
+    this.schemaVersion = schemaVersion;
+  }
+}
+
 function formatZodPath(path: Array<string | number | symbol>): string {
   // Converts Zod paths like ["steps", 0, "action", "family"] into "steps[0].action.family"
   return path
@@ -73,6 +89,11 @@ function formatZodPath(path: Array<string | number | symbol>): string {
 }
 
 export function parseBuild(json: unknown): BenchTopLineBuild {
+  const schemaVersion = (json as { schemaVersion?: unknown } | null)?.schemaVersion;
+  if (typeof schemaVersion === "number" && schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(schemaVersion);
+  }
+
   const result = BenchTopLineBuildSchema.safeParse(json);
   if (result.success) return result.data;
 
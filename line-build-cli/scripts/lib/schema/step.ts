@@ -103,7 +103,7 @@ export interface StepSublocation {
   equipmentId?: ApplianceId; // required when type === "equipment"
 }
 
-const StepSublocationSchema = z
+export const StepSublocationSchema = z
   .object({
     type: SublocationIdSchema,
     equipmentId: ApplianceIdSchema.optional(),
@@ -188,7 +188,7 @@ export interface FieldProvenance {
   confidence?: "high" | "medium" | "low";
 }
 
-const FieldProvenanceSchema = z
+export const FieldProvenanceSchema = z
   .object({
     type: ProvenanceTypeSchema,
     sourceId: z.string().optional(),
@@ -213,7 +213,7 @@ export interface StepProvenance {
   to?: FieldProvenance;
 }
 
-const StepProvenanceSchema = z
+export const StepProvenanceSchema = z
   .object({
     target: FieldProvenanceSchema.optional(),
     stationId: FieldProvenanceSchema.optional(),
@@ -384,8 +384,7 @@ export interface Step {
   cookingPhase?: CookingPhase;
   container?: StepContainer;
   workLocation?: StepSublocation;
-  /** @deprecated Legacy field - use workLocation instead */
-  storageLocation?: { type: SublocationId };
+  // REMOVED: storageLocation - migrated into workLocation (schema v2)
   exclude?: boolean;
   prepType?: PrepType;
   bulkPrep?: boolean;
@@ -421,8 +420,6 @@ export const StepSchema = z
     cookingPhase: z.nativeEnum(CookingPhase).optional(),
     container: StepContainerSchema.optional(),
     workLocation: StepSublocationSchema.optional(),
-    // Legacy field - storage location for retrieval steps
-    storageLocation: z.object({ type: SublocationIdSchema }).optional(),
     // REMOVED: from/to fields - material flow is described via assembly refs only
     exclude: z.boolean().optional(),
     prepType: z.union([z.literal("pre_service"), z.literal("order_execution")]).optional(),
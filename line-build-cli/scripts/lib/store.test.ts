@@ -0,0 +1,41 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+import { DATA_ROOT_ABS } from "./fileUtils";
+import { baseFixtureBuild } from "./fixtures";
+import * as store from "./store";
+
+// fileUtils resolves the data root when it is loaded, so point it at a scratch dir first.
+vi.mock("./fileUtils", async (importOriginal) => {
+  const { mkdtemp } = await import("node:fs/promises");
+  const { tmpdir } = await import("node:os");
+  const { join } = await import("node:path");
+  process.env.LINE_BUILD_POC_DATA_DIR = await mkdtemp(join(tmpdir(), "lb-store-"));
+  return importOriginal<typeof import("./fileUtils")>();
+});
+
+afterAll(async () => {
+  delete process.env.LINE_BUILD_POC_DATA_DIR;
+  await fs.rm(DATA_ROOT_ABS, { recursive: true, force: true });
+});
+
+describe("publishBuild", () => {
+  it("leaves no snapshot behind when the working copy changed since it was read", async () => {
+    const build = baseFixtureBuild("store-pub");
+    await store.writeBuild(build);
+    const { hash } = await store.readBuildForUpdate(build.id);
+
+    // A concurrent writer gets in between the read and the publish.
+    await store.writeBuild({ ...build, name: "Edited elsewhere" });
+    await expect(store.publishBuild(build, { ifMatch: hash })).rejects.toThrow(store.StaleWriteError);
+    expect(await store.listBuildSnapshots(build.id)).toEqual([]);
+
+    // Re-reading and publishing again succeeds.
+    const reread = await store.readBuildForUpdate(build.id);
+    const published = await store.publishBuild(reread.build, { ifMatch: reread.hash });
+    expect((await store.readBuildSnapshot(build.id, build.version)).name).toBe("Edited elsewhere");
+    expect((await store.readBuild(build.id)).status).toBe("published");
+    expect(published.snapshotPath).toContain(path.join("history", build.id));
+  });
+});
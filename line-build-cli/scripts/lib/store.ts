@@ -1,9 +1,12 @@
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 
-import { parseBuild, type BenchTopLineBuild } from "./schema";
+import { CURRENT_SCHEMA_VERSION, type BenchTopLineBuild } from "./schema";
+import { parseAnyBuildVersion } from "./migrations";
 import { normalizeBuild } from "./normalize";
 import { getDerivedTransfers } from "./derivedCache";
+import { computeBuildContentHash, computeValueHash } from "./hash";
+import { LockTimeoutError, withLock } from "./lock";
 
 // Re-export from fileUtils for backwards compatibility
 export {
@@ -12,11 +15,12 @@ export {
   BOMS_DIR_ABS,
   RECEIPTS_DIR_ABS,
   VALIDATION_DIR_ABS,
+  HISTORY_DIR_ABS,
   atomicWriteFile,
   atomicWriteJsonFile,
 } from "./fileUtils";
 
-import { BUILDS_DIR_ABS, BOMS_DIR_ABS, atomicWriteJsonFile } from "./fileUtils";
+import { BUILDS_DIR_ABS, BOMS_DIR_ABS, HISTORY_DIR_ABS, atomicWriteJsonFile } from "./fileUtils";
 
 /**
  * PoC file-backed store utilities.
@@ -27,12 +31,17 @@ import { BUILDS_DIR_ABS, BOMS_DIR_ABS, atomicWriteJsonFile } from "./fileUtils";
  * File naming conventions (per docs/handoff/POC-CLI-VIEWER-IMPLEMENTATION-PLAN.md):
  * - builds: data/line-builds/<buildId>.json
  * - boms:   data/bom/<itemId>.json
+ * - published snapshots (immutable): data/history/<buildId>/v<version>.json
  */
 
 function buildFilePathAbs(buildId: string): string {
   return path.join(BUILDS_DIR_ABS, `${buildId}.json`);
 }
 
+function snapshotFilePathAbs(buildId: string, version: number): string {
+  return path.join(HISTORY_DIR_ABS, buildId, `v${version}.json`);
+}
+
 function bomFilePathAbs(itemId: string): string {
   return path.join(BOMS_DIR_ABS, `${itemId}.json`);
 }
@@ -50,58 +59,375 @@ export type BuildSummary = {
    * Example: "line-builds/<buildId>.json"
    */
   relativePath: string;
+  /** Content hash of the working copy (for `--if-match`); not set on snapshots. */
+  contentHash?: string;
 };
 
-export async function readBuild(buildId: string): Promise<BenchTopLineBuild> {
+/**
+ * Raw build JSON as stored on disk (no migration or schema parsing).
+ */
+export async function readBuildJson(buildId: string): Promise<unknown> {
   const raw = await fs.readFile(buildFilePathAbs(buildId), { encoding: "utf8" });
-  const json = JSON.parse(raw) as unknown;
-  return parseBuild(json);
+  return JSON.parse(raw) as unknown;
+}
+
+/**
+ * Older schemaVersions are migrated in memory; `lb migrate` persists the upgrade.
+ */
+export async function readBuild(buildId: string): Promise<BenchTopLineBuild> {
+  return parseAnyBuildVersion(await readBuildJson(buildId));
+}
+
+/**
+ * Raw build JSON plus its content hash (the value `--if-match` compares against).
+ */
+export async function readBuildWithHash(buildId: string): Promise<{ build: BenchTopLineBuild; hash: string }> {
+  const raw = await readBuildJson(buildId);
+  return { build: parseAnyBuildVersion(raw), hash: computeBuildContentHash(raw) };
+}
+
+export type WriteBuildOptions = {
+  /**
+   * Optimistic concurrency: write only if the file's current content hash
+   * (computeBuildContentHash) equals this, else StaleWriteError.
+   */
+  ifMatch?: string;
+};
+
+/**
+ * The build changed (or disappeared) since the caller read the hash it passed as ifMatch.
+ */
+export class StaleWriteError extends Error {
+  constructor(
+    public readonly buildId: string,
+    public readonly expectedHash: string,
+    public readonly actualHash: string | null,
+  ) {
+    super(
+      actualHash === null
+        ? `${buildId} does not exist (expected hash ${expectedHash})`
+        : `${buildId} changed since it was read (expected hash ${expectedHash}, found ${actualHash})`,
+    );
+    this.name = "StaleWriteError";
+  }
+}
+
+/**
+ * Write refused by optimistic concurrency or the build lock (CLI exit code 4).
+ */
+export function isWriteConflict(err: unknown): err is StaleWriteError | LockTimeoutError {
+  return err instanceof StaleWriteError || err instanceof LockTimeoutError;
+}
+
+/**
+ * readBuildWithHash for a read-modify-write. ifMatch (a caller's `--if-match`)
+ * must equal the current hash; pass the returned hash as ifMatch when writing back.
+ */
+export async function readBuildForUpdate(buildId: string, ifMatch?: string): Promise<{ build: BenchTopLineBuild; hash: string }> {
+  const read = await readBuildWithHash(buildId);
+  if (ifMatch !== undefined && ifMatch !== read.hash) throw new StaleWriteError(buildId, ifMatch, read.hash);
+  return read;
+}
+
+function buildLockName(buildId: string): string {
+  return `build-${buildId}`;
+}
+
+/**
+ * Hash of what identifies a version's content (ignores version bookkeeping and timestamps).
+ */
+export function publishableContentHash(build: BenchTopLineBuild): string {
+  const { version: _v, status: _s, createdAt: _c, updatedAt: _u, changeLog: _l, ...content } = build;
+  return computeValueHash(content);
 }
 
-export async function writeBuild(build: BenchTopLineBuild): Promise<string> {
-  const normalized = normalizeBuild(build);
+/**
+ * `lb publish` leaves the working copy "published" at the snapshot's version, so
+ * status consumers (dashboard, build.status queries, P1, publish gates) see it.
+ * A change to its content turns it back into a draft of the next version: a
+ * published version is never rewritten in place. Builds published before
+ * history existed (no snapshot) are left alone.
+ */
+export function reopenPublished(build: BenchTopLineBuild, snapshot: BenchTopLineBuild | null): BenchTopLineBuild {
+  if (build.status !== "published" || !snapshot || snapshot.version !== build.version) return build;
+  if (publishableContentHash(normalizeBuild(build)) === publishableContentHash(snapshot)) return build;
+  return { ...build, version: build.version + 1, status: "draft", changeLog: undefined };
+}
+
+/**
+ * reopenPublished against the build's own snapshot, when one exists.
+ */
+export async function reopenPublishedBuild(build: BenchTopLineBuild): Promise<BenchTopLineBuild> {
+  if (build.status !== "published") return build;
+  return reopenPublished(build, await readBuildSnapshotIfExists(build.id, build.version));
+}
+
+export async function writeBuild(build: BenchTopLineBuild, opts: WriteBuildOptions = {}): Promise<string> {
+  return (await writeBuildWithImage(build, opts)).path;
+}
+
+/**
+ * A build file's content just before and after one write (null: no file).
+ * Receipts keep these so `lb undo` / `lb redo` can restore either side.
+ */
+export type BuildImage = {
+  buildId: string;
+  before: unknown | null;
+  after: unknown | null;
+};
+
+/**
+ * Raw build JSON, or null when the build file does not exist.
+ */
+export async function readBuildJsonIfExists(buildId: string): Promise<unknown | null> {
+  try {
+    return await readBuildJson(buildId);
+  } catch (err) {
+    if ((err as { code?: string }).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * Current build JSON, refused with StaleWriteError unless its hash equals
+ * ifMatch. Call while holding the build's lock.
+ */
+async function readBeforeWrite(buildId: string, ifMatch: string | undefined): Promise<unknown | null> {
+  const before = await readBuildJsonIfExists(buildId);
+  if (ifMatch !== undefined) {
+    const actual = before === null ? null : computeBuildContentHash(before);
+    if (actual !== ifMatch) throw new StaleWriteError(buildId, ifMatch, actual);
+  }
+  return before;
+}
+
+/**
+ * Write the working copy and return its image. Call while holding the build's lock.
+ */
+async function writeWorkingCopy(normalized: BenchTopLineBuild, before: unknown | null): Promise<{ path: string; image: BuildImage; hash: string }> {
   const filePath = buildFilePathAbs(normalized.id);
   await atomicWriteJsonFile(filePath, normalized);
+  const after = await readBuildJson(normalized.id);
+  return { path: filePath, image: { buildId: normalized.id, before, after }, hash: computeBuildContentHash(after) };
+}
+
+/**
+ * writeBuild, also returning the file content before and after (for receipts).
+ * The check against ifMatch and the write happen under the build's lock.
+ * A changed published working copy is written as a draft (see reopenPublished).
+ */
+export async function writeBuildWithImage(
+  build: BenchTopLineBuild,
+  opts: WriteBuildOptions = {},
+): Promise<{ path: string; image: BuildImage; hash: string }> {
+  const normalized = normalizeBuild(await reopenPublishedBuild({ ...build, schemaVersion: CURRENT_SCHEMA_VERSION }));
+  const written = await withLock(buildLockName(normalized.id), async () =>
+    writeWorkingCopy(normalized, await readBeforeWrite(normalized.id, opts.ifMatch)),
+  );
 
   // Warm the derived cache - pre-compute transfers so they're ready for viewer/analysis
   await getDerivedTransfers(normalized);
 
+  return written;
+}
+
+/**
+ * `lb publish`: freeze the build as its version snapshot and write it as the
+ * (published) working copy, both under the build's lock and only after the
+ * ifMatch check. If the working copy cannot be written the snapshot is removed
+ * again, so a failed publish can be retried.
+ */
+export async function publishBuild(
+  build: BenchTopLineBuild,
+  opts: WriteBuildOptions = {},
+): Promise<{ snapshotPath: string; path: string; image: BuildImage; hash: string }> {
+  const normalized = normalizeBuild({ ...build, status: "published", schemaVersion: CURRENT_SCHEMA_VERSION });
+  const written = await withLock(buildLockName(normalized.id), async () => {
+    const before = await readBeforeWrite(normalized.id, opts.ifMatch);
+    const snapshotPath = await writeBuildSnapshot(normalized);
+    try {
+      return { snapshotPath, ...(await writeWorkingCopy(normalized, before)) };
+    } catch (err) {
+      await fs.rm(snapshotPath, { force: true });
+      throw err;
+    }
+  });
+
+  await getDerivedTransfers(normalized);
+
+  return written;
+}
+
+/**
+ * Remove a build's working copy (used by `lb undo` of the command that created it).
+ * Published snapshots are never removed.
+ */
+export async function deleteBuild(buildId: string): Promise<string> {
+  const filePath = buildFilePathAbs(buildId);
+  await withLock(buildLockName(buildId), () => fs.rm(filePath, { force: true }));
   return filePath;
 }
 
-export async function listBuilds(): Promise<BuildSummary[]> {
+/**
+ * Build IDs on disk, sorted, without reading the files.
+ */
+export async function listBuildIds(): Promise<string[]> {
   try {
     const entries = await fs.readdir(BUILDS_DIR_ABS, { withFileTypes: true });
-    const ids = entries
+    return entries
       .filter((e) => e.isFile() && e.name.endsWith(".json"))
-      .map((e) => e.name.slice(0, -".json".length));
-
-    const builds: BuildSummary[] = [];
-    for (const id of ids) {
-      const b = await readBuild(id);
-      builds.push({
-        buildId: b.id,
-        itemId: b.itemId,
-        name: b.name,
-        version: b.version,
-        status: b.status,
-        updatedAt: b.updatedAt,
-        createdAt: b.createdAt,
-        relativePath: `line-builds/${b.id}.json`,
-      });
+      .map((e) => e.name.slice(0, -".json".length))
+      .sort();
+  } catch (err) {
+    // If directory doesn't exist yet, treat as empty store.
+    if ((err as { code?: string }).code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+export async function listBuilds(): Promise<BuildSummary[]> {
+  const builds: BuildSummary[] = [];
+  for (const id of await listBuildIds()) {
+    const { build: b, hash } = await readBuildWithHash(id);
+    builds.push({ ...toSummary(b, `line-builds/${b.id}.json`), contentHash: hash });
+  }
+
+  // Stable ordering independent of filesystem traversal order.
+  return builds.sort((a, b) => {
+    if (a.itemId !== b.itemId) return a.itemId.localeCompare(b.itemId);
+    if (a.version !== b.version) return a.version - b.version;
+    return a.buildId.localeCompare(b.buildId);
+  });
+}
+
+// -----------------------------
+// Published version history
+// -----------------------------
+
+export class SnapshotExistsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotExistsError";
+  }
+}
+
+/**
+ * Freeze a build as an immutable version snapshot.
+ * Never overwrites: publishing the same buildId/version twice throws SnapshotExistsError.
+ */
+export async function writeBuildSnapshot(build: BenchTopLineBuild): Promise<string> {
+  const normalized = normalizeBuild({ ...build, schemaVersion: CURRENT_SCHEMA_VERSION });
+  const filePath = snapshotFilePathAbs(normalized.id, normalized.version);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    // "wx" fails if the file exists, so concurrent publishes cannot clobber a snapshot.
+    await fs.writeFile(filePath, `${JSON.stringify(normalized, null, 2)}\n`, { encoding: "utf8", flag: "wx" });
+  } catch (err) {
+    if ((err as { code?: string }).code === "EEXIST") {
+      throw new SnapshotExistsError(`version ${normalized.version} of ${normalized.id} is already published`);
     }
+    throw err;
+  }
+  return filePath;
+}
 
-    // Stable ordering independent of filesystem traversal order.
-    return builds.sort((a, b) => {
-      if (a.itemId !== b.itemId) return a.itemId.localeCompare(b.itemId);
-      if (a.version !== b.version) return a.version - b.version;
-      return a.buildId.localeCompare(b.buildId);
-    });
+export async function readBuildSnapshot(buildId: string, version: number): Promise<BenchTopLineBuild> {
+  const raw = await fs.readFile(snapshotFilePathAbs(buildId, version), { encoding: "utf8" });
+  return parseAnyBuildVersion(JSON.parse(raw) as unknown);
+}
+
+/**
+ * Published snapshot of that version, or null when it was never published.
+ */
+export async function readBuildSnapshotIfExists(buildId: string, version: number): Promise<BenchTopLineBuild | null> {
+  try {
+    return await readBuildSnapshot(buildId, version);
+  } catch (err) {
+    if ((err as { code?: string }).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * Read a specific version: the working copy when it carries that version, else the snapshot.
+ */
+export async function readBuildVersion(buildId: string, version: number): Promise<BenchTopLineBuild> {
+  try {
+    const current = await readBuild(buildId);
+    if (current.version === version) return current;
+  } catch (err) {
+    if ((err as { code?: string }).code !== "ENOENT") throw err;
+  }
+  return readBuildSnapshot(buildId, version);
+}
+
+/**
+ * Parse "<buildId>" or "<buildId>@<version>".
+ */
+export function parseBuildSpecifier(spec: string): { buildId: string; version?: number } {
+  const at = spec.lastIndexOf("@");
+  if (at <= 0) return { buildId: spec };
+  const version = Number(spec.slice(at + 1));
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid version in "${spec}" (expected <buildId>@<positive integer>)`);
+  }
+  return { buildId: spec.slice(0, at), version };
+}
+
+function toSummary(b: BenchTopLineBuild, relativePath: string): BuildSummary {
+  return {
+    buildId: b.id,
+    itemId: b.itemId,
+    name: b.name,
+    version: b.version,
+    status: b.status,
+    updatedAt: b.updatedAt,
+    createdAt: b.createdAt,
+    relativePath,
+  };
+}
+
+/**
+ * Published snapshot versions on disk, oldest first, without reading the files.
+ * Omit buildId to list every build's history.
+ */
+export async function listBuildSnapshotVersions(buildId?: string): Promise<Array<{ buildId: string; version: number }>> {
+  let buildIds: string[];
+  try {
+    buildIds = buildId
+      ? [buildId]
+      : (await fs.readdir(HISTORY_DIR_ABS, { withFileTypes: true })).filter((e) => e.isDirectory()).map((e) => e.name);
   } catch (err) {
-    // If directory doesn't exist yet, treat as empty store.
     if ((err as { code?: string }).code === "ENOENT") return [];
     throw err;
   }
+
+  const out: Array<{ buildId: string; version: number }> = [];
+  for (const id of buildIds) {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(HISTORY_DIR_ABS, id));
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") continue;
+      throw err;
+    }
+    for (const f of files) {
+      const m = /^v(\d+)\.json$/.exec(f);
+      if (m) out.push({ buildId: id, version: Number(m[1]) });
+    }
+  }
+  return out.sort((a, b) => a.buildId.localeCompare(b.buildId) || a.version - b.version);
+}
+
+/**
+ * List published snapshots, oldest first. Omit buildId to list every build's history.
+ */
+export async function listBuildSnapshots(buildId?: string): Promise<BuildSummary[]> {
+  const out: BuildSummary[] = [];
+  for (const { buildId: id, version } of await listBuildSnapshotVersions(buildId)) {
+    out.push(toSummary(await readBuildSnapshot(id, version), `history/${id}/v${version}.json`));
+  }
+  return out;
 }
 
 export type BomItem = {
@@ -7,9 +7,15 @@
 
 import type { EditOp } from "./edit";
 import type { ValidationError } from "./validate";
-import type { BenchTopLineBuild, Step } from "./schema";
+import type { BenchTopLineBuild, LocationRef, Step } from "./schema";
 import { getFixHint } from "./fixHints";
-import { getAvailableEquipment } from "../../config/stations.config";
+import {
+  getAvailableEquipment,
+  getStationsWithEquipment,
+  STATIONS,
+  STATION_BY_ID,
+  type EquipmentId,
+} from "../../config/stations.config";
 
 export type Suggestion = {
   ruleId: string;
@@ -30,7 +36,9 @@ const AUTO_FIXABLE_RULES = new Set([
   "H22",  // HEAT missing time or notes -> add placeholder notes
   "H24",  // PORTION missing quantity or notes -> add placeholder notes
   "H25",  // PREP missing techniqueId or notes -> add placeholder notes
-  // H36 is not auto-fixable: stationId required only when ambiguous
+  "H29",  // merge inputs missing role -> lineage/group base, others added
+  "H36",  // ambiguous workLocation -> stationId when the step's locations agree on one
+  "H42",  // ambiguous ref location -> ref stationId when the matching producer/consumer ref names one candidate
 ]);
 
 /**
@@ -57,7 +65,7 @@ export function generateSuggestion(
   const step = build.steps.find((s) => s.id === error.stepId);
   if (!step) return base;
 
-  const op = generateOpForRule(error.ruleId, step, build);
+  const op = generateOpForRule(error.ruleId, step, build, error.fieldPath);
   if (op) {
     return { ...base, candidateOp: op };
   }
@@ -81,7 +89,8 @@ export function generateSuggestions(
 function generateOpForRule(
   ruleId: string,
   step: Step,
-  _build: BenchTopLineBuild
+  build: BenchTopLineBuild,
+  fieldPath?: string
 ): EditOp | undefined {
   switch (ruleId) {
     case "H3": {
@@ -116,11 +125,12 @@ function generateOpForRule(
     }
 
     case "H17": {
-      // pre_service step missing to.sublocation
+      // pre_service step missing output[0].to.sublocation (needs an output to put it on)
+      if (step.output.length === 0) break;
       return {
         type: "set_field",
         where: `step.id = ${step.id}`,
-        field: "step.to.sublocation.type",
+        field: "step.output[0].to.sublocation.type",
         value: "cold_storage",
       };
     }
@@ -164,8 +174,47 @@ function generateOpForRule(
       break;
     }
 
+    case "H29": {
+      // One input per op; the fix loop re-validates until every role is set.
+      const inputs = step.input ?? [];
+      const inputIndex = inputs.findIndex((inp) => !inp.role);
+      if (inputIndex === -1) break;
+      const hasBase = inputs.some((inp) => inp.role === "base");
+      const baseIndex = hasBase ? -1 : inferBaseInputIndex(step, build);
+      return {
+        type: "set_input_role",
+        stepId: step.id,
+        inputIndex,
+        role: inputIndex === baseIndex ? "base" : "added",
+      };
+    }
+
     case "H36": {
-      // Station ambiguity needs human choice; no safe auto-fix.
+      // Only when the step's own locations narrow the candidates to one station;
+      // otherwise the choice is a human one.
+      const stationId = deriveStepStationId(step);
+      if (stationId) {
+        return {
+          type: "set_field",
+          where: `step.id = ${step.id}`,
+          field: "step.stationId",
+          value: stationId,
+        };
+      }
+      break;
+    }
+
+    case "H42": {
+      // fieldPath is input[i].from.stationId or output[i].to.stationId; fix that ref only.
+      const stationId = fieldPath ? deriveRefStationId(step, build, fieldPath) : undefined;
+      if (stationId) {
+        return {
+          type: "set_field",
+          where: `step.id = ${step.id}`,
+          field: `step.${fieldPath}`,
+          value: stationId,
+        };
+      }
       break;
     }
   }
@@ -173,6 +222,108 @@ function generateOpForRule(
   return undefined;
 }
 
+/**
+ * Base input for a merge step: the input the output assembly evolves from,
+ * else the one sharing the output's groupId, else the first in_build input
+ * (same fallback order as normalizeBuild).
+ */
+function inferBaseInputIndex(step: Step, build: BenchTopLineBuild): number {
+  const inputs = step.input ?? [];
+  const assemblyOf = (id: string) => build.assemblies?.find((a) => a.id === id);
+  const inBuildId = (i: number) => {
+    const source = inputs[i]?.source;
+    return source?.type === "in_build" ? source.assemblyId : undefined;
+  };
+
+  for (const out of step.output ?? []) {
+    if (out.source.type !== "in_build") continue;
+    const output = assemblyOf(out.source.assemblyId);
+    const lineage = inputs.findIndex((_, i) => inBuildId(i) !== undefined && inBuildId(i) === output?.lineage?.evolvesFrom);
+    if (lineage !== -1) return lineage;
+    const groupId = output?.groupId;
+    const group = groupId ? inputs.findIndex((_, i) => assemblyOf(inBuildId(i) ?? "")?.groupId === groupId) : -1;
+    if (group !== -1) return group;
+  }
+
+  const firstInBuild = inputs.findIndex((_, i) => inBuildId(i) !== undefined);
+  return firstInBuild === -1 ? 0 : firstInBuild;
+}
+
+function locationCandidates(loc: LocationRef | undefined): string[] | undefined {
+  const sublocation = loc?.sublocation;
+  if (!sublocation?.type) return undefined;
+  if (sublocation.type === "equipment") {
+    return sublocation.equipmentId ? getStationsWithEquipment(sublocation.equipmentId as EquipmentId) : undefined;
+  }
+  return STATIONS.filter((s) => s.sublocations.includes(sublocation.type)).map((s) => s.id);
+}
+
+/**
+ * Intersect the stations allowed by every location on the step (workLocation,
+ * equipment, unstationed input/output refs). Stations named explicitly on the
+ * step's other refs break remaining ties. Returns a station only when exactly one remains.
+ */
+function deriveStepStationId(step: Step): string | undefined {
+  const constraints: string[][] = [];
+  const add = (candidates: string[] | undefined) => {
+    if (candidates && candidates.length > 0) constraints.push(candidates);
+  };
+
+  if (step.workLocation) add(locationCandidates({ sublocation: step.workLocation }));
+  if (step.equipment?.applianceId) add(getStationsWithEquipment(step.equipment.applianceId as EquipmentId));
+  const refs = [...(step.input ?? []).map((r) => r.from), ...(step.output ?? []).map((r) => r.to)];
+  for (const loc of refs) {
+    if (!loc?.stationId) add(locationCandidates(loc));
+  }
+  if (constraints.length === 0) return undefined;
+
+  let candidates = constraints.reduce((acc, c) => acc.filter((id) => c.includes(id)));
+  if (step.groupingId) {
+    const sameSide = candidates.filter((id) => STATION_BY_ID[id]?.side === step.groupingId);
+    if (sameSide.length > 0) candidates = sameSide;
+  }
+  if (candidates.length > 1) {
+    const named = new Set<string>(refs.flatMap((loc) => (loc?.stationId ? [loc.stationId] : [])));
+    const namedCandidates = candidates.filter((id) => named.has(id));
+    if (namedCandidates.length > 0) candidates = namedCandidates;
+  }
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Station for one ambiguous input.from / output.to: the ref's own candidates,
+ * narrowed by the stations named on the other end of the same assembly (the
+ * producer's output.to for an input, consumers' input.from for an output).
+ * Returns a station only when exactly one remains.
+ */
+function deriveRefStationId(step: Step, build: BenchTopLineBuild, fieldPath: string): string | undefined {
+  const match = /^(input|output)\[(\d+)\]\./.exec(fieldPath);
+  if (!match) return undefined;
+  const isInput = match[1] === "input";
+  const ref = (isInput ? step.input : step.output)?.[Number(match[2])];
+  if (!ref || ref.source.type !== "in_build") return undefined;
+  const assemblyId = ref.source.assemblyId;
+
+  let candidates = locationCandidates(isInput ? ref.from : ref.to) ?? [];
+  if (step.groupingId) {
+    const sameSide = candidates.filter((id) => STATION_BY_ID[id]?.side === step.groupingId);
+    if (sameSide.length > 0) candidates = sameSide;
+  }
+
+  const named = new Set<string>();
+  for (const other of build.steps) {
+    if (other.id === step.id) continue;
+    const counterparts = isInput ? other.output ?? [] : other.input ?? [];
+    for (const c of counterparts) {
+      if (c.source.type !== "in_build" || c.source.assemblyId !== assemblyId) continue;
+      const stationId = (isInput ? c.to : c.from)?.stationId;
+      if (stationId) named.add(stationId);
+    }
+  }
+  const narrowed = candidates.filter((id) => named.has(id));
+  return narrowed.length === 1 ? narrowed[0] : undefined;
+}
+
 /**
  * Filter suggestions to only those that are auto-fixable with ops.
  */
@@ -211,12 +211,14 @@ function upsertMostSevere(
  * 2. Compare producer's output location → consumer's input location
  * 3. If locations differ → generate a DerivedTransferStep
  *
+ * Pods are assigned from `hdrConfig` (default: the active HDR config).
+ *
  * Returns an array of derived transfer steps.
  */
-export function deriveTransferSteps(build: BenchTopLineBuild): DerivedTransferStep[] {
-  // Load HDR config once for all pod assignments
-  const hdrConfig = loadActiveHdrConfig();
-
+export function deriveTransferSteps(
+  build: BenchTopLineBuild,
+  hdrConfig: HdrPodConfig = loadActiveHdrConfig(),
+): DerivedTransferStep[] {
   const steps = [...build.steps].sort(
     (a, b) => a.orderIndex - b.orderIndex || a.id.localeCompare(b.id),
   );
@@ -0,0 +1,174 @@
+import { computeBuildContentHash, computeValueHash } from "./hash";
+import { parseAnyBuildVersion } from "./migrations";
+import { type Receipt, listReceipts, writeReceipt } from "./receipts";
+import { type BuildImage, StaleWriteError, deleteBuild, readBuildJsonIfExists, writeBuildWithImage } from "./store";
+
+/**
+ * Undo/redo over receipts (`lb undo`, `lb redo`).
+ *
+ * Every command that writes builds stores pre/post images in its receipt
+ * (Receipt.builds). A receipt is "undone" when it has more undo receipts
+ * (undoOf) than redo receipts (redoOf). `lb undo` reverts the newest active
+ * receipt; `lb redo` re-applies the oldest undone receipt newer than every
+ * active one, so a new edit after an undo ends the redo chain. Both refuse when
+ * a build file no longer matches what the receipt chain last wrote.
+ */
+
+export class NothingToUndoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NothingToUndoError";
+  }
+}
+
+export class UndoConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UndoConflictError";
+  }
+}
+
+export type UndoDirection = "undo" | "redo";
+
+export type UndoResult = {
+  /** The receipt that was undone or redone. */
+  target: Pick<Receipt, "id" | "command" | "timestamp">;
+  buildIds: string[];
+  /** Receipt written for this undo/redo. */
+  receiptPathAbs: string;
+};
+
+type ReceiptChain = {
+  receipt: Receipt;
+  /** Undo and redo receipts for this receipt, oldest first. */
+  history: Receipt[];
+};
+
+function isUndone(chain: ReceiptChain): boolean {
+  const undos = chain.history.filter((r) => r.undoOf).length;
+  return undos > chain.history.length - undos;
+}
+
+/**
+ * Images as last written by the chain: after its last undo/redo (or the receipt itself),
+ * expected on disk before the next undo/redo.
+ */
+function lastImages(chain: ReceiptChain): BuildImage[] {
+  return (chain.history[chain.history.length - 1] ?? chain.receipt).builds ?? [];
+}
+
+async function loadChains(buildId?: string): Promise<ReceiptChain[]> {
+  const receipts = (await listReceipts()).map((r) => r.receipt);
+  const chains = new Map<string, ReceiptChain>();
+  for (const receipt of receipts) {
+    if (receipt.undoOf || receipt.redoOf || !receipt.builds?.length) continue;
+    if (buildId && !receipt.builds.some((b) => b.buildId === buildId)) continue;
+    chains.set(receipt.id, { receipt, history: [] });
+  }
+  for (const receipt of receipts) {
+    const chain = chains.get(receipt.undoOf ?? receipt.redoOf ?? "");
+    if (chain) chain.history.push(receipt);
+  }
+  return [...chains.values()];
+}
+
+/**
+ * Next receipt `lb undo` / `lb redo` would act on, or undefined.
+ */
+async function nextChain(direction: UndoDirection, buildId?: string): Promise<ReceiptChain | undefined> {
+  const chains = await loadChains(buildId);
+  const active = chains.filter((c) => !isUndone(c));
+  if (direction === "undo") return active[active.length - 1];
+
+  const newestActive = active[active.length - 1];
+  const newestActiveIndex = newestActive ? chains.indexOf(newestActive) : -1;
+  return chains.slice(newestActiveIndex + 1).find(isUndone);
+}
+
+function sameContent(a: unknown | null, b: unknown | null): boolean {
+  if (a === null || b === null) return a === b;
+  return computeValueHash(a) === computeValueHash(b);
+}
+
+/**
+ * The conflict check in applyOne runs outside the build lock; ifMatch on the
+ * write closes that window.
+ */
+async function restoreImage(restore: unknown, expectedAfter: unknown, direction: UndoDirection) {
+  try {
+    return await writeBuildWithImage(parseAnyBuildVersion(restore), {
+      ifMatch: expectedAfter ? computeBuildContentHash(expectedAfter) : undefined,
+    });
+  } catch (err) {
+    if (err instanceof StaleWriteError) throw new UndoConflictError(`${err.message}; refusing to ${direction}`);
+    throw err;
+  }
+}
+
+async function applyOne(direction: UndoDirection, buildId?: string): Promise<UndoResult> {
+  const chain = await nextChain(direction, buildId);
+  if (!chain) {
+    throw new NothingToUndoError(`Nothing to ${direction}${buildId ? ` for ${buildId}` : ""}`);
+  }
+  const images = lastImages(chain);
+
+  // Undo restores the pre-image of the receipt; redo restores its post-image.
+  const targets = chain.receipt.builds ?? [];
+  for (const [i, image] of images.entries()) {
+    const current = await readBuildJsonIfExists(image.buildId);
+    if (!sameContent(current, image.after)) {
+      throw new UndoConflictError(
+        `${image.buildId} changed since receipt ${chain.receipt.id} (${chain.receipt.command}, ${chain.receipt.timestamp}); refusing to ${direction}`,
+      );
+    }
+    if (targets[i]?.buildId !== image.buildId) {
+      throw new UndoConflictError(`receipt chain for ${chain.receipt.id} is inconsistent; refusing to ${direction}`);
+    }
+  }
+
+  const written: BuildImage[] = [];
+  const touchedFiles: string[] = [];
+  for (const target of targets) {
+    const restore = direction === "undo" ? target.before : target.after;
+    if (restore === null) {
+      const before = await readBuildJsonIfExists(target.buildId);
+      touchedFiles.push(await deleteBuild(target.buildId));
+      written.push({ buildId: target.buildId, before, after: null });
+      continue;
+    }
+    const { path, image } = await restoreImage(restore, images.find((img) => img.buildId === target.buildId)?.after, direction);
+    touchedFiles.push(path);
+    written.push(image);
+  }
+
+  const target = { id: chain.receipt.id, command: chain.receipt.command, timestamp: chain.receipt.timestamp };
+  const receipt = await writeReceipt({
+    command: direction,
+    inputs: { buildId, receiptId: target.id },
+    outputs: { command: target.command, buildIds: targets.map((t) => t.buildId) },
+    touchedFiles,
+    builds: written,
+    ...(direction === "undo" ? { undoOf: target.id } : { redoOf: target.id }),
+  });
+  return { target, buildIds: targets.map((t) => t.buildId), receiptPathAbs: receipt.filePathAbs };
+}
+
+/**
+ * Undo or redo up to `steps` receipts (newest first for undo). Stops at the
+ * first refusal; steps already applied stay applied and are returned with the error.
+ */
+export async function undoRedo(
+  direction: UndoDirection,
+  opts: { buildId?: string; steps?: number } = {},
+): Promise<{ results: UndoResult[]; error?: NothingToUndoError | UndoConflictError }> {
+  const results: UndoResult[] = [];
+  for (let i = 0; i < (opts.steps ?? 1); i++) {
+    try {
+      results.push(await applyOne(direction, opts.buildId));
+    } catch (err) {
+      if (err instanceof NothingToUndoError || err instanceof UndoConflictError) return { results, error: err };
+      throw err;
+    }
+  }
+  return { results };
+}
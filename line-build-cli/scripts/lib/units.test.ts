@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import { canonicalizeQuantity, convertQuantity, getSpoodleOz, normalizeUnit, toNominalOunces } from "./units";
+
+describe("units", () => {
+  it("normalizes aliases to canonical ids", () => {
+    expect(normalizeUnit("Ounces")).toBe("oz");
+    expect(normalizeUnit("fl. oz")).toBe("fl_oz");
+    expect(normalizeUnit("Tbsp")).toBe("tbsp");
+    expect(normalizeUnit("2 oz spoodle")).toBe("spoodle_2oz");
+    expect(normalizeUnit("smidgen")).toBeUndefined();
+    expect(canonicalizeQuantity({ value: 1, unit: "grams" })).toEqual({ value: 1, unit: "g" });
+  });
+
+  it("converts within a dimension only", () => {
+    expect(convertQuantity(1, "lb", "oz")).toBeCloseTo(16, 3);
+    expect(convertQuantity(3, "tsp", "tbsp")).toBeCloseTo(1, 3);
+    expect(convertQuantity(1, "spoodle_2oz", "fl_oz")).toBeCloseTo(2, 6);
+    expect(convertQuantity(1, "oz", "ml")).toBeUndefined();
+    expect(convertQuantity(1, "pump", "each")).toBeUndefined();
+    expect(convertQuantity(2, "pump", "pumps")).toBe(2);
+  });
+
+  it("sizes spoodles in nominal ounces", () => {
+    expect(getSpoodleOz("spoodle_3oz")).toBe(3);
+    expect(getSpoodleOz("spoon")).toBeUndefined();
+    expect(toNominalOunces(2, "tbsp")).toBeCloseTo(1, 2);
+    expect(toNominalOunces(2, "each")).toBeUndefined();
+  });
+});
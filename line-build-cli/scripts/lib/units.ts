@@ -0,0 +1,131 @@
+/**
+ * Canonical quantity units.
+ *
+ * StepQuantity.unit, AssemblyRef.quantity.unit and BomEntry.quantity.unit are
+ * free strings in the schema; this module is the vocabulary they are checked
+ * against (H49/H50) and canonicalized to on write (normalizeBuild).
+ *
+ * - mass (base g), volume (base ml), count (base each)
+ * - spoodle_<n>oz units are volume units sized like the matching toolId
+ * - pump/shake are counts with no fixed size: convertible only to themselves
+ */
+
+export type UnitDimension = "mass" | "volume" | "count";
+
+export type UnitDefinition = {
+  id: string;
+  label: string;
+  dimension: UnitDimension;
+  /** Size in the dimension's base unit (g, ml, each); omitted when not convertible. */
+  toBase?: number;
+  /** Nominal ounces for portioning units (spoodles). */
+  spoodleOz?: number;
+  aliases: string[];
+};
+
+const ML_PER_FL_OZ = 29.5735;
+
+/** Spoodle sizes (oz) with a matching ToolId. */
+export const SPOODLE_SIZES_OZ = [1, 2, 3, 5, 6, 8] as const;
+
+export const UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Mass
+  { id: "g", label: "gram", dimension: "mass", toBase: 1, aliases: ["gram", "grams", "gr", "gm", "gms"] },
+  { id: "kg", label: "kilogram", dimension: "mass", toBase: 1000, aliases: ["kilogram", "kilograms", "kgs"] },
+  { id: "oz", label: "ounce", dimension: "mass", toBase: 28.3495, aliases: ["ounce", "ounces", "onz"] },
+  { id: "lb", label: "pound", dimension: "mass", toBase: 453.592, aliases: ["lbs", "pound", "pounds"] },
+
+  // Volume
+  { id: "ml", label: "milliliter", dimension: "volume", toBase: 1, aliases: ["milliliter", "milliliters", "millilitre", "millilitres", "mls"] },
+  { id: "l", label: "liter", dimension: "volume", toBase: 1000, aliases: ["liter", "liters", "litre", "litres", "ltr"] },
+  { id: "fl_oz", label: "fluid ounce", dimension: "volume", toBase: ML_PER_FL_OZ, aliases: ["floz", "fluid_ounce", "fluid_ounces", "fluid_oz"] },
+  { id: "tsp", label: "teaspoon", dimension: "volume", toBase: 4.92892, aliases: ["teaspoon", "teaspoons", "tsps"] },
+  { id: "tbsp", label: "tablespoon", dimension: "volume", toBase: 14.7868, aliases: ["tablespoon", "tablespoons", "tbsps", "tbs", "tbl"] },
+  { id: "cup", label: "cup", dimension: "volume", toBase: 236.588, aliases: ["cups"] },
+  ...SPOODLE_SIZES_OZ.map((oz): UnitDefinition => ({
+    id: `spoodle_${oz}oz`,
+    label: `${oz}oz spoodle`,
+    dimension: "volume",
+    toBase: oz * ML_PER_FL_OZ,
+    spoodleOz: oz,
+    aliases: [`${oz}oz_spoodle`, `${oz}_oz_spoodle`, `spoodle_${oz}_oz`],
+  })),
+
+  // Count
+  { id: "each", label: "each", dimension: "count", toBase: 1, aliases: ["ea", "pc", "pcs", "piece", "pieces", "count", "ct", "x", "unit", "units"] },
+  { id: "pump", label: "pump", dimension: "count", aliases: ["pumps"] },
+  { id: "shake", label: "shake", dimension: "count", aliases: ["shakes"] },
+];
+
+const UNIT_BY_ID = new Map(UNIT_DEFINITIONS.map((u) => [u.id, u]));
+const UNIT_BY_KEY = new Map<string, UnitDefinition>();
+for (const u of UNIT_DEFINITIONS) {
+  for (const key of [u.id, ...u.aliases]) UNIT_BY_KEY.set(key, u);
+}
+
+/** Lowercase, trim a trailing period, and join words with "_" ("Fl. Oz" -> "fl_oz"). */
+function unitKey(raw: string): string {
+  return raw.trim().toLowerCase().replace(/\.$/, "").replace(/[\s.\-]+/g, "_");
+}
+
+export function getUnitDefinition(unit: string): UnitDefinition | undefined {
+  return UNIT_BY_ID.get(unit) ?? UNIT_BY_KEY.get(unitKey(unit));
+}
+
+/**
+ * Canonical unit id for a unit string or alias ("ounces" -> "oz"); undefined if unknown.
+ */
+export function normalizeUnit(unit: string): string | undefined {
+  return getUnitDefinition(unit)?.id;
+}
+
+export function isKnownUnit(unit: string): boolean {
+  return getUnitDefinition(unit) !== undefined;
+}
+
+/**
+ * Convert a value between units of the same dimension.
+ * Returns undefined when either unit is unknown or the units are not convertible.
+ */
+export function convertQuantity(value: number, from: string, to: string): number | undefined {
+  const a = getUnitDefinition(from);
+  const b = getUnitDefinition(to);
+  if (!a || !b || a.dimension !== b.dimension) return undefined;
+  if (a.id === b.id) return value;
+  if (a.toBase === undefined || b.toBase === undefined) return undefined;
+  return (value * a.toBase) / b.toBase;
+}
+
+export function areUnitsCompatible(a: string, b: string): boolean {
+  return convertQuantity(1, a, b) !== undefined;
+}
+
+/**
+ * Quantity with its unit rewritten to the canonical id; unknown units are left as authored.
+ */
+export function canonicalizeQuantity<T extends { unit: string }>(quantity: T): T;
+export function canonicalizeQuantity<T extends { unit: string }>(quantity: T | undefined): T | undefined;
+export function canonicalizeQuantity<T extends { unit: string }>(quantity: T | undefined): T | undefined {
+  if (!quantity) return quantity;
+  const unit = normalizeUnit(quantity.unit);
+  return unit && unit !== quantity.unit ? { ...quantity, unit } : quantity;
+}
+
+/**
+ * Spoodle size (oz) for a spoodle toolId or unit, else undefined.
+ */
+export function getSpoodleOz(toolIdOrUnit: string | undefined): number | undefined {
+  return toolIdOrUnit ? getUnitDefinition(toolIdOrUnit)?.spoodleOz : undefined;
+}
+
+/**
+ * Quantity in nominal ounces, the way portion tools are labeled: mass in oz,
+ * volume in fl oz. Undefined for count units and unknown units.
+ */
+export function toNominalOunces(value: number, unit: string): number | undefined {
+  const def = getUnitDefinition(unit);
+  if (!def) return undefined;
+  if (def.dimension === "mass") return convertQuantity(value, def.id, "oz");
+  if (def.dimension === "volume") return convertQuantity(value, def.id, "fl_oz");
+  return undefined;
+}
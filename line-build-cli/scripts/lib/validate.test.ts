@@ -1,7 +1,17 @@
 import { describe, expect, it } from "vitest";
 
-import { ActionFamily, type BenchTopLineBuild, type Step } from "./schema";
-import { validateBuild } from "./validate";
+import { ActionFamily, type BenchTopLineBuild, type Step, type ToolId } from "./schema";
+import {
+  RULE_REGISTRY,
+  UnknownValidationProfileError,
+  createValidationCache,
+  validateBuild,
+  validateBuildIncremental,
+  validateHdrFeasibility,
+  validatePortfolio,
+} from "./validate";
+import type { HdrPodConfig } from "../../config";
+import { reopenPublished } from "./store";
 
 const DEFAULT_LOC = { stationId: "garnish", sublocation: { type: "work_surface" as const } };
 
@@ -226,4 +236,348 @@ describe("validateBuild (hard rules + composition/flow)", () => {
     expect(result.valid).toBe(false);
     expect(result.hardErrors.some((e) => e.ruleId === "H43")).toBe(true);
   });
+
+  it("requires step trackIds and operationIds to resolve (H47, H48)", () => {
+    const tracks = [{ id: "protein", label: "Protein" }, { id: "sides", mode: "parallel" as const }];
+    const operations = [{ id: "sear", trackId: "protein" }];
+
+    const ok = validateBuild(baseBuild([
+      step("s1", 1, ActionFamily.PREP, { trackId: "protein", operationId: "sear" }),
+      step("s2", 1, ActionFamily.PREP, { trackId: "sides" }),
+    ], { tracks, operations }));
+    expect(ok.hardErrors.filter((e) => e.ruleId === "H47" || e.ruleId === "H48")).toEqual([]);
+
+    const bad = validateBuild(baseBuild([
+      step("s1", 1, ActionFamily.PREP, { trackId: "grill" }),
+      step("s2", 1, ActionFamily.PREP, { trackId: "sides", operationId: "sear" }),
+      step("s3", 1, ActionFamily.PREP, { operationId: "missing" }),
+    ], { tracks, operations }));
+    expect(bad.hardErrors.filter((e) => e.ruleId === "H47").map((e) => e.stepId)).toEqual(["s1"]);
+    expect(bad.hardErrors.filter((e) => e.ruleId === "H48").map((e) => e.stepId)).toEqual(["s2", "s3"]);
+
+    // Builds that predate build.tracks keep their free-form trackIds.
+    const legacy = validateBuild(baseBuild([step("s1", 1, ActionFamily.PREP, { trackId: "grill" })]));
+    expect(legacy.hardErrors.filter((e) => e.ruleId === "H47")).toEqual([]);
+  });
+
+  it("flags unknown and incompatible quantity units (H49)", () => {
+    const result = validateBuild(baseBuild([
+      step("s1", 1, ActionFamily.PREP, { quantity: { value: 2, unit: "ounces" } }),
+      step("s2", 1, ActionFamily.PREP, { quantity: { value: 2, unit: "smidgen" } }),
+      step("s3", 1, ActionFamily.PREP, { quantity: { value: 2, unit: "g", kind: "multiplier" } }),
+      step("s4", 1, ActionFamily.PREP, {
+        quantity: { value: 1, unit: "each" },
+        target: { type: "bom_usage", bomUsageId: "cheese" },
+      }),
+    ], { bom: [{ id: "cheese", name: "Cheddar", quantity: { value: 56, unit: "g" } }] }));
+    expect(result.hardErrors.filter((e) => e.ruleId === "H49").map((e) => e.stepId)).toEqual(["s2", "s3", "s4"]);
+  });
+
+  it("checks spoodle portions against the spoodle toolId (H50)", () => {
+    const portion = (id: string, toolId: Step["toolId"], value: number, unit: string) =>
+      step(id, 1, ActionFamily.PORTION, { toolId, quantity: { value, unit } });
+    const result = validateBuild(baseBuild([
+      portion("ok", "spoodle_2oz", 4, "oz"),
+      portion("half", "spoodle_2oz", 3, "oz"),
+      portion("unit", "spoodle_2oz", 1, "spoodle_3oz"),
+      portion("scoops", "spoodle_2oz", 2, "each"),
+    ]));
+    const h50 = result.hardErrors.filter((e) => e.ruleId === "H50");
+    expect(h50.map((e) => e.stepId)).toEqual(["half", "unit"]);
+    expect(h50[0]!.message).toContain("use spoodle_3oz");
+  });
+
+  it("warns on implausible cook times and tools (S25-S28)", () => {
+    const result = validateBuild(baseBuild([
+      step("turbo-long", 1, ActionFamily.HEAT, {
+        stationId: "turbo",
+        equipment: { applianceId: "turbo" },
+        time: { durationSeconds: 1200, isActive: false },
+        overlays: [{ id: "ov", predicate: { equipmentProfileId: "p1" }, overrides: { time: { durationSeconds: 90, isActive: false } }, priority: 1 }],
+      }),
+      step("turbo-ok", 2, ActionFamily.HEAT, {
+        stationId: "turbo",
+        equipment: { applianceId: "turbo" },
+        time: { durationSeconds: 90, isActive: false },
+        toolId: "paddle",
+      }),
+      step("sauce", 3, ActionFamily.PORTION, { toolId: "tongs", action: { family: ActionFamily.PORTION, techniqueId: "drizzle" } }),
+      step("fry-cold", 4, ActionFamily.HEAT, { toolId: "fry_basket" }),
+    ]));
+    const plausibility = result.warnings
+      .filter((w) => ["S25", "S26", "S27", "S28"].includes(w.ruleId))
+      .map((w) => [w.ruleId, w.stepId]);
+    expect(plausibility).toEqual([
+      ["S25", "turbo-long"],
+      ["S26", "sauce"],
+      ["S27", "fry-cold"],
+      ["S28", "sauce"],
+    ]);
+  });
+
+  describe("validationOverrides", () => {
+    const heat = () => step("s1", 1, ActionFamily.HEAT, { notes: "cook until hot" });
+    const override = {
+      id: "ovr-1",
+      ruleId: "H15",
+      severity: "hard" as const,
+      stepId: "s1",
+      reason: "Equipment varies by HDR; confirmed with ops",
+      createdAt: "2026-01-01T00:00:00.000Z",
+    };
+
+    it("ignores overrides that are not approved", () => {
+      const result = validateBuild(baseBuild([heat()], { validationOverrides: [override] }));
+      expect(result.valid).toBe(false);
+      expect(result.suppressed).toEqual([]);
+    });
+
+    it("suppresses matching findings when approved and lists them separately", () => {
+      const result = validateBuild(
+        baseBuild([heat()], { validationOverrides: [{ ...override, approved: true }] }),
+      );
+      expect(result.valid).toBe(true);
+      expect(result.hardErrors).toEqual([]);
+      expect(result.suppressed?.map((e) => [e.ruleId, e.overrideId])).toEqual([["H15", "ovr-1"]]);
+      expect(result.unusedOverrideIds).toEqual([]);
+
+      const raw = validateBuild(
+        baseBuild([heat()], { validationOverrides: [{ ...override, approved: true }] }),
+        { ignoreOverrides: true },
+      );
+      expect(raw.valid).toBe(false);
+    });
+
+    it("downgrades matching findings to the override severity", () => {
+      const result = validateBuild(
+        baseBuild([heat()], {
+          validationOverrides: [{ ...override, severity: "soft", action: "downgrade", approved: true }],
+        }),
+      );
+      expect(result.valid).toBe(true);
+      const downgraded = result.warnings.find((w) => w.ruleId === "H15");
+      expect(downgraded).toMatchObject({ severity: "soft", originalSeverity: "hard", overrideId: "ovr-1" });
+    });
+
+    it("only matches the scoped step and reports the unused override as stale", () => {
+      const result = validateBuild(
+        baseBuild([heat()], { validationOverrides: [{ ...override, stepId: "other", approved: true }] }),
+      );
+      expect(result.hardErrors.some((e) => e.ruleId === "H15")).toBe(true);
+      expect(result.unusedOverrideIds).toEqual(["ovr-1"]);
+    });
+  });
+
+  describe("validation profiles", () => {
+    const heat = step("s1", 1, ActionFamily.HEAT);
+
+    it("declares every rule once in the registry", () => {
+      const ids = RULE_REGISTRY.map((r) => r.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      const result = validateBuild(baseBuild([heat], { assemblies: [{ id: "out_s1" }] }));
+      for (const e of [...result.hardErrors, ...result.warnings, ...result.infos]) {
+        expect(ids).toContain(e.ruleId);
+      }
+    });
+
+    it("defaults to publish", () => {
+      const result = validateBuild(baseBuild([heat]));
+      expect(result.profile).toBe("publish");
+      expect(result.hardErrors.map((e) => e.ruleId)).toEqual(["H15", "H22"]);
+    });
+
+    it("draft downgrades completeness rules to soft", () => {
+      const result = validateBuild(baseBuild([heat]), { profile: "draft" });
+      expect(result.hardErrors.map((e) => e.ruleId)).toEqual(["H15"]);
+      expect(result.warnings.find((w) => w.ruleId === "H22")?.severity).toBe("soft");
+    });
+
+    it("strict makes strong warnings blocking and raises soft to strong", () => {
+      const s1 = step("s1", 1, ActionFamily.PREP, { notes: "prep" });
+      const s2 = step("s2", 2, ActionFamily.ASSEMBLE, { dependsOn: ["s1"] });
+      const build = baseBuild([s1, s2], { assemblies: [{ id: "out_s1" }, { id: "out_s2" }] });
+
+      const publish = validateBuild(build);
+      const soft = publish.warnings.filter((w) => w.severity === "soft");
+      expect(publish.valid).toBe(true);
+      expect(soft.length).toBeGreaterThan(0);
+
+      const strict = validateBuild(build, { profile: "strict" });
+      expect(strict.valid).toBe(false);
+      expect(strict.hardErrors.map((e) => e.ruleId)).toEqual(["S6"]);
+      expect(strict.warnings.map((w) => [w.ruleId, w.severity])).toEqual(soft.map((w) => [w.ruleId, "strong"]));
+    });
+
+    it("rejects unknown profiles", () => {
+      expect(() => validateBuild(baseBuild([heat]), { profile: "nope" })).toThrow(UnknownValidationProfileError);
+    });
+  });
+});
+
+describe("validatePortfolio", () => {
+  const external = (itemId: string, assemblyId?: string): Step["input"] => [
+    {
+      source: { type: "external_build", itemId, ...(assemblyId ? { assemblyId } : {}) },
+      from: { stationId: "garnish", sublocation: { type: "work_surface" } },
+    },
+  ];
+
+  it("reports duplicate published builds, item cycles and dangling external refs", () => {
+    const sauceStep = step("make", 1, ActionFamily.PREP);
+    const builds = [
+      baseBuild([sauceStep], { id: "sauce-v1", itemId: "sauce", status: "published", requiresBuilds: [{ itemId: "bowl" }] }),
+      baseBuild([sauceStep], { id: "sauce-v2", itemId: "sauce", version: 2, status: "published" }),
+      baseBuild([sauceStep], { id: "sauce-v0", itemId: "sauce", status: "archived" }),
+      baseBuild(
+        [
+          step("s1", 1, ActionFamily.ASSEMBLE, { input: external("sauce", "out_make") }),
+          step("s2", 2, ActionFamily.ASSEMBLE, { input: external("sauce", "missing_sauce") }),
+          step("s3", 3, ActionFamily.ASSEMBLE, { input: external("ghost") }),
+        ],
+        { id: "bowl", itemId: "bowl", requiresBuilds: [{ itemId: "sauce" }, { itemId: "ghost" }] },
+      ),
+    ];
+
+    const result = validatePortfolio(builds);
+    expect(result.valid).toBe(false);
+    expect(result.buildCount).toBe(3);
+    expect(result.hardErrors.map((e) => [e.ruleId, e.buildId, e.stepId])).toEqual([
+      ["P1", "sauce-v1", undefined],
+      ["P2", "bowl", undefined],
+      ["P3", "bowl", undefined],
+      ["P3", "bowl", "s3"],
+      ["P4", "bowl", "s2"],
+    ]);
+    expect(result.hardErrors[0]!.relatedBuildIds).toEqual(["sauce-v2"]);
+    expect(result.hardErrors[1]!.message).toBe("P2: requiresBuilds cycle across items: bowl -> sauce -> bowl");
+  });
+
+  it("resolves published refs against history snapshots after lb publish", () => {
+    const sauceStep = step("make", 1, ActionFamily.PREP);
+    // lb publish froze v1; a later edit turned the working copy into a v2 draft.
+    const snapshot = baseBuild([sauceStep], { id: "sauce", itemId: "sauce", status: "published" });
+    const working = reopenPublished({ ...snapshot, name: "Sauce (edited)" }, snapshot);
+    expect(working).toMatchObject({ status: "draft", version: 2 });
+    const bowl = baseBuild(
+      [step("s1", 1, ActionFamily.ASSEMBLE, { input: external("sauce", "out_make").map((r) => ({ ...r, source: { ...r.source, version: "latest_published" as const } })) })],
+      { id: "bowl", itemId: "bowl", requiresBuilds: [{ itemId: "sauce", version: "latest_published" }] },
+    );
+
+    expect(validatePortfolio([working, bowl]).hardErrors.map((e) => e.ruleId)).toEqual(["P3", "P3"]);
+    expect(validatePortfolio([working, bowl], { snapshots: [snapshot] }).hardErrors).toEqual([]);
+
+    const other = baseBuild([sauceStep], { id: "sauce-alt", itemId: "sauce", status: "published" });
+    const p1 = validatePortfolio([working, bowl, other], { snapshots: [snapshot] }).hardErrors;
+    expect(p1.map((e) => [e.ruleId, e.buildId, e.relatedBuildIds])).toEqual([["P1", "sauce", ["sauce-alt"]]]);
+  });
+
+  it("warns when a component is portioned differently across items", () => {
+    const portion = (id: string, toolId: ToolId, value: number, unit: string) =>
+      step(id, 1, ActionFamily.PORTION, {
+        target: { type: "bom_component", bomComponentId: "rice" },
+        toolId,
+        quantity: { value, unit },
+      });
+    const bowl = baseBuild([portion("p1", "spoodle_2oz", 2, "oz")], { id: "bowl", itemId: "bowl" });
+    const wrap = baseBuild([portion("p1", "spoodle_2oz", 56.699, "g")], { id: "wrap", itemId: "wrap" });
+    const plate = baseBuild([portion("p1", "spoodle_3oz", 3, "oz")], { id: "plate", itemId: "plate" });
+
+    expect(validatePortfolio([bowl, wrap]).warnings).toEqual([]);
+
+    const result = validatePortfolio([bowl, wrap, plate]);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => [w.ruleId, w.severity, w.fieldPath])).toEqual([["P5", "soft", "toolId"]]);
+    expect(result.warnings[0]!.message).toContain("quantities 2 oz (bowl/p1, wrap/p1); 3 oz (plate/p1)");
+    expect(validatePortfolio([bowl, wrap, plate], { profile: "strict" }).warnings[0]!.severity).toBe("strong");
+  });
+});
+
+describe("validateHdrFeasibility", () => {
+  const cook = step("cook", 1, ActionFamily.HEAT, {
+    stationId: "waterbath",
+    equipment: { applianceId: "waterbath" },
+    workLocation: { type: "equipment", equipmentId: "waterbath" },
+    output: [{ source: { type: "in_build", assemblyId: "out_cook" }, to: { stationId: "waterbath", sublocation: { type: "equipment", equipmentId: "waterbath" } } }],
+  });
+  const plate = step("plate", 2, ActionFamily.ASSEMBLE, {
+    dependsOn: ["cook"],
+    input: [{ source: { type: "in_build", assemblyId: "out_cook" }, from: { stationId: "waterbath", sublocation: { type: "equipment", equipmentId: "waterbath" } } }],
+  });
+  const build = baseBuild([cook, plate]);
+
+  const twoPods: HdrPodConfig = {
+    hdrId: "two-pod",
+    name: "Two pods",
+    pods: [
+      { podId: "Hot_1", podType: "HOT", equipment: ["WATER_BATH"] },
+      { podId: "Cold_1", podType: "COLD", equipment: [] },
+    ],
+    stationPodDefaults: { waterbath: "HOT" },
+    stationLocations: { garnish: "Cold_1" },
+  };
+
+  it("warns about flow that crosses pods", () => {
+    const result = validateHdrFeasibility(build, twoPods);
+    expect(result.hdrId).toBe("two-pod");
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => [w.ruleId, w.stepId])).toEqual([["F3", "plate"]]);
+    expect(result.warnings[0]!.message).toContain("from pod Hot_1 (cook) to pod Cold_1");
+  });
+
+  it("blocks on missing appliances and unmapped stations", () => {
+    const coldOnly: HdrPodConfig = {
+      ...twoPods,
+      hdrId: "cold-only",
+      pods: [{ podId: "Cold_1", podType: "COLD", equipment: [] }],
+      stationLocations: {},
+    };
+    const result = validateHdrFeasibility(build, coldOnly);
+    expect(result.valid).toBe(false);
+    expect(result.hardErrors.map((e) => [e.ruleId, e.stepId, e.fieldPath])).toEqual([
+      ["F1", "cook", "equipment.applianceId"],
+      ["F2", "cook", "stationId"],
+      ["F2", "plate", "stationId"],
+    ]);
+    expect(result.hardErrors[2]!.message).toContain("station 'garnish' has no pod");
+  });
+});
+
+describe("validateBuildIncremental", () => {
+  const steps = [
+    step("s1", 1, ActionFamily.HEAT),
+    step("s2", 2, ActionFamily.PREP, { input: [{ source: { type: "in_build", assemblyId: "out_s1" } }] }),
+  ];
+
+  it("matches validateBuild and only re-checks edited steps", () => {
+    const build = baseBuild(steps);
+    const cache = createValidationCache();
+
+    const cold = validateBuildIncremental(build, cache);
+    expect(cold.validation).toEqual(validateBuild(build));
+    expect(cold.changedSteps).toEqual(["s1", "s2"]);
+
+    const warm = validateBuildIncremental(build, cache);
+    expect(warm.validation).toEqual(cold.validation);
+    expect(warm.changedSteps).toEqual([]);
+    expect(warm.ruleTimings.every((t) => t.runs === 0)).toBe(true);
+
+    const edited = baseBuild([{ ...steps[0]!, notes: "cook until hot" }, steps[1]!]);
+    const next = validateBuildIncremental(edited, cache);
+    expect(next.validation).toEqual(validateBuild(edited));
+    expect(next.changedSteps).toEqual(["s1"]);
+    expect(next.ruleTimings.find((t) => t.ruleId === "H22")).toMatchObject({ runs: 1, cached: 1 });
+  });
+
+  it("reruns build rules only when a field they read changes", () => {
+    const cache = createValidationCache();
+    validateBuildIncremental(baseBuild(steps), cache);
+
+    const renamed = validateBuildIncremental(baseBuild(steps, { name: "Renamed" }), cache);
+    expect(renamed.ruleTimings.find((t) => t.ruleId === "H8")).toMatchObject({ runs: 0, cached: 1 });
+
+    const removed = validateBuildIncremental(baseBuild([steps[0]!]), cache);
+    expect(removed.changedSteps).toEqual(["s2"]);
+    expect(removed.ruleTimings.find((t) => t.ruleId === "H8")).toMatchObject({ runs: 1 });
+    expect(removed.validation).toEqual(validateBuild(baseBuild([steps[0]!])));
+  });
 });
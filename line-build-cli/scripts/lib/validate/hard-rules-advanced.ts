@@ -16,6 +16,13 @@ import {
   STATION_BY_ID,
   type EquipmentId,
 } from "../../../config";
+import {
+  SPOODLE_SIZES_OZ,
+  areUnitsCompatible,
+  getSpoodleOz,
+  getUnitDefinition,
+  toNominalOunces,
+} from "../units";
 import {
   type ValidationError,
   type ValidateBuildOptions,
@@ -757,3 +764,219 @@ export function validateH46StepWorkLocation(step: Step): ValidationError[] {
 
   return [];
 }
+
+// -----------------------------
+// H47: Track References Resolve
+// -----------------------------
+
+/**
+ * H47: build.tracks ids are unique, and every step.trackId / operation.trackId
+ * resolves to a declared track. Builds without build.tracks (written before
+ * tracks were declared) keep free-form trackIds and are not checked.
+ */
+export function validateH47TrackRefs(build: BenchTopLineBuild): ValidationError[] {
+  if (!build.tracks) return [];
+  const errors: ValidationError[] = [];
+  const declared = new Set<string>();
+  for (const track of build.tracks) {
+    if (declared.has(track.id)) {
+      errors.push({
+        severity: "hard",
+        ruleId: "H47",
+        message: `H47: duplicate track id '${track.id}'`,
+        fieldPath: "tracks[].id",
+      });
+    }
+    declared.add(track.id);
+  }
+
+  const known = declared.size > 0 ? `declared: ${[...declared].join(", ")}` : "build declares no tracks";
+  for (const step of getOrderedSteps(build)) {
+    if (step.trackId && !declared.has(step.trackId)) {
+      errors.push({
+        severity: "hard",
+        ruleId: "H47",
+        message: `H47: step.trackId '${step.trackId}' does not resolve to build.tracks (${known})`,
+        stepId: step.id,
+        fieldPath: "trackId",
+      });
+    }
+  }
+  for (const op of build.operations ?? []) {
+    if (op.trackId && !declared.has(op.trackId)) {
+      errors.push({
+        severity: "hard",
+        ruleId: "H47",
+        message: `H47: operation '${op.id}' trackId '${op.trackId}' does not resolve to build.tracks (${known})`,
+        fieldPath: "operations[].trackId",
+      });
+    }
+  }
+  return errors;
+}
+
+// -----------------------------
+// H48: Operation References Resolve
+// -----------------------------
+
+/**
+ * H48: build.operations ids are unique, every step.operationId resolves, and
+ * steps in an operation that is pinned to a track sit on that track.
+ */
+export function validateH48OperationRefs(build: BenchTopLineBuild): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const operations = new Map<string, NonNullable<BenchTopLineBuild["operations"]>[number]>();
+  for (const op of build.operations ?? []) {
+    if (operations.has(op.id)) {
+      errors.push({
+        severity: "hard",
+        ruleId: "H48",
+        message: `H48: duplicate operation id '${op.id}'`,
+        fieldPath: "operations[].id",
+      });
+    }
+    operations.set(op.id, op);
+  }
+
+  for (const step of getOrderedSteps(build)) {
+    if (!step.operationId) continue;
+    const op = operations.get(step.operationId);
+    if (!op) {
+      errors.push({
+        severity: "hard",
+        ruleId: "H48",
+        message: `H48: step.operationId '${step.operationId}' does not resolve to build.operations`,
+        stepId: step.id,
+        fieldPath: "operationId",
+      });
+      continue;
+    }
+    if (op.trackId && step.trackId !== op.trackId) {
+      errors.push({
+        severity: "hard",
+        ruleId: "H48",
+        message: `H48: step is in operation '${op.id}' (track '${op.trackId}') but is on track '${step.trackId ?? "none"}'`,
+        stepId: step.id,
+        fieldPath: "trackId",
+      });
+    }
+  }
+  return errors;
+}
+
+// -----------------------------
+// H49: Quantity Units Known and Compatible
+// -----------------------------
+
+/**
+ * H49: every quantity unit (steps, assembly refs, BOM entries) is a known unit
+ * or alias (see units.ts); "multiplier" quantities use a count unit; and a step
+ * quantity targeting a BOM usage is convertible to that entry's unit.
+ */
+export function validateH49QuantityUnits(build: BenchTopLineBuild): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const unknown = (unit: string, fieldPath: string, stepId?: string): void => {
+    if (getUnitDefinition(unit)) return;
+    errors.push({
+      severity: "hard",
+      ruleId: "H49",
+      message: `H49: unknown unit '${unit}'`,
+      stepId,
+      fieldPath,
+    });
+  };
+
+  const bomById = new Map((build.bom ?? []).map((e) => [e.id, e]));
+  for (const entry of build.bom ?? []) {
+    if (entry.quantity) unknown(entry.quantity.unit, `bom[${entry.id}].quantity.unit`);
+  }
+
+  for (const step of getOrderedSteps(build)) {
+    for (const [field, refs] of [["input", step.input], ["output", step.output]] as const) {
+      refs.forEach((ref, i) => {
+        if (ref.quantity) unknown(ref.quantity.unit, `${field}[${i}].quantity.unit`, step.id);
+      });
+    }
+
+    const q = step.quantity;
+    if (!q) continue;
+    const def = getUnitDefinition(q.unit);
+    if (!def) {
+      unknown(q.unit, "quantity.unit", step.id);
+      continue;
+    }
+    if (q.kind === "multiplier") {
+      if (def.dimension !== "count") {
+        errors.push({
+          severity: "hard",
+          ruleId: "H49",
+          message: `H49: multiplier quantity counts technique repetitions but unit '${q.unit}' is a ${def.dimension} unit (use each, pump or shake)`,
+          stepId: step.id,
+          fieldPath: "quantity.unit",
+        });
+      }
+      continue;
+    }
+
+    const bomQuantity = step.target?.bomUsageId ? bomById.get(step.target.bomUsageId)?.quantity : undefined;
+    if (bomQuantity && getUnitDefinition(bomQuantity.unit) && !areUnitsCompatible(q.unit, bomQuantity.unit)) {
+      errors.push({
+        severity: "hard",
+        ruleId: "H49",
+        message: `H49: quantity unit '${q.unit}' cannot be converted to BOM '${step.target!.bomUsageId}' unit '${bomQuantity.unit}'`,
+        stepId: step.id,
+        fieldPath: "quantity.unit",
+      });
+    }
+  }
+  return errors;
+}
+
+// -----------------------------
+// H50: Spoodle Portions Match Tool
+// -----------------------------
+
+/**
+ * H50: a quantity portioned with a spoodle toolId is a whole number of scoops
+ * of that spoodle (spoodle_2oz with 3 oz is 1.5 scoops), and spoodle-sized
+ * units match the spoodle in hand.
+ */
+export function validateH50SpoodlePortion(step: Step): ValidationError[] {
+  const q = step.quantity;
+  if (!q || q.kind === "multiplier") return [];
+
+  const toolOz = getSpoodleOz(step.toolId);
+  const unitOz = getSpoodleOz(q.unit);
+  const error = (message: string): ValidationError[] => [{
+    severity: "hard",
+    ruleId: "H50",
+    message: `H50: ${message}`,
+    stepId: step.id,
+    fieldPath: "quantity",
+  }];
+
+  if (toolOz === undefined) {
+    return unitOz !== undefined && step.toolId
+      ? error(`quantity is measured in '${q.unit}' but toolId is '${step.toolId}'`)
+      : [];
+  }
+  if (unitOz !== undefined) {
+    return unitOz === toolOz ? [] : error(`quantity is measured in '${q.unit}' but toolId is '${step.toolId}'`);
+  }
+
+  const def = getUnitDefinition(q.unit);
+  if (!def) return []; // H49 reports unknown units
+  if (def.dimension === "count") {
+    return def.id === "each" ? [] : error(`'${q.unit}' cannot be portioned with ${step.toolId}`);
+  }
+
+  const ounces = toNominalOunces(q.value, q.unit)!;
+  const scoops = ounces / toolOz;
+  if (Math.round(scoops) >= 1 && Math.abs(scoops - Math.round(scoops)) <= 0.05) return [];
+
+  const match = SPOODLE_SIZES_OZ.find((oz) => Math.abs(ounces - oz) <= 0.05 * oz);
+  return error(
+    `${q.value} ${q.unit} is ${Number(scoops.toFixed(2))} scoops of ${step.toolId}` +
+      (match ? ` (use spoodle_${match}oz)` : " (adjust the quantity or tool)"),
+  );
+}
@@ -0,0 +1,147 @@
+import { type BenchTopLineBuild, type LocationRef, type Step } from "../schema";
+import {
+  type HdrPodConfig,
+  assignPodForStep,
+  findPodsWithEquipment,
+  getPodType,
+  isPodTrackedEquipment,
+} from "../../../config";
+import { deriveTransferSteps } from "../transfers";
+import {
+  type ValidationError,
+  getOrderedSteps,
+} from "./helpers";
+
+/**
+ * HDR feasibility rules (F1-F3).
+ * These check a build against one HDR pod configuration (data/hdr-configs/)
+ * and run under validateHdrFeasibility (`lb validate <buildId> --hdr <configId|all>`).
+ */
+
+function refLocations(step: Step): Array<{ fieldPath: string; loc: LocationRef | undefined }> {
+  return [
+    ...(step.input ?? []).map((r, i) => ({ fieldPath: `input[${i}].from`, loc: r.from })),
+    ...(step.output ?? []).map((r, i) => ({ fieldPath: `output[${i}].to`, loc: r.to })),
+  ];
+}
+
+// -----------------------------
+// F1: Equipment Present In The HDR
+// -----------------------------
+
+function stepEquipment(step: Step): Array<{ equipmentId: string; fieldPath: string }> {
+  const found: Array<{ equipmentId: string; fieldPath: string }> = [];
+  if (step.equipment?.applianceId) {
+    found.push({ equipmentId: step.equipment.applianceId, fieldPath: "equipment.applianceId" });
+  }
+  if (step.workLocation?.type === "equipment" && step.workLocation.equipmentId) {
+    found.push({ equipmentId: step.workLocation.equipmentId, fieldPath: "workLocation.equipmentId" });
+  }
+  // Inputs read from the producer's equipment; the producer step reports it.
+  for (const [i, ref] of (step.output ?? []).entries()) {
+    const sub = ref.to?.sublocation;
+    if (sub?.type === "equipment" && sub.equipmentId) {
+      found.push({ equipmentId: sub.equipmentId, fieldPath: `output[${i}].to.sublocation.equipmentId` });
+    }
+  }
+  return found;
+}
+
+/**
+ * F1: Every pod-tracked appliance a step uses is installed in at least one pod.
+ */
+export function validateF1EquipmentInHdr(build: BenchTopLineBuild, config: HdrPodConfig): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const step of getOrderedSteps(build)) {
+    const seen = new Set<string>();
+    for (const { equipmentId, fieldPath } of stepEquipment(step)) {
+      if (seen.has(equipmentId)) continue;
+      seen.add(equipmentId);
+      if (!isPodTrackedEquipment(equipmentId)) continue;
+      if (findPodsWithEquipment(config, equipmentId).length > 0) continue;
+      errors.push({
+        severity: "hard",
+        ruleId: "F1",
+        message: `F1: equipment '${equipmentId}' is not installed in any pod of HDR ${config.hdrId}`,
+        stepId: step.id,
+        fieldPath,
+      });
+    }
+  }
+  return errors;
+}
+
+// -----------------------------
+// F2: Stations Map To A Pod
+// -----------------------------
+
+/**
+ * Why a station cannot be placed in a pod of `config`, or undefined when it can.
+ * Mirrors assignPodForStep: stationLocations, then the station's primary equipment,
+ * then stationPodDefaults.
+ */
+function stationPodProblem(stationId: string, config: HdrPodConfig): string | undefined {
+  const podIds = new Set(config.pods.map((p) => p.podId));
+  const located = config.stationLocations?.[stationId];
+  if (located) {
+    return podIds.has(located) ? undefined : `stationLocations maps it to unknown pod '${located}'`;
+  }
+  if (assignPodForStep(undefined, stationId, config)) return undefined;
+  const podType = config.stationPodDefaults[stationId];
+  return podType
+    ? `stationPodDefaults names pod type ${podType}, but no pod has that type`
+    : "it is not in stationLocations or stationPodDefaults";
+}
+
+/**
+ * F2: Every station the build uses maps to a pod (reported once per station).
+ */
+export function validateF2StationPodMapping(build: BenchTopLineBuild, config: HdrPodConfig): ValidationError[] {
+  const usage = new Map<string, { stepId: string; fieldPath: string; steps: Set<string> }>();
+  for (const step of getOrderedSteps(build)) {
+    const refs = [
+      { fieldPath: "stationId", stationId: step.stationId },
+      ...refLocations(step).map(({ fieldPath, loc }) => ({ fieldPath: `${fieldPath}.stationId`, stationId: loc?.stationId })),
+    ];
+    for (const { fieldPath, stationId } of refs) {
+      if (!stationId) continue;
+      const entry = usage.get(stationId) ?? { stepId: step.id, fieldPath, steps: new Set<string>() };
+      entry.steps.add(step.id);
+      usage.set(stationId, entry);
+    }
+  }
+
+  const errors: ValidationError[] = [];
+  for (const [stationId, { stepId, fieldPath, steps }] of usage) {
+    const problem = stationPodProblem(stationId, config);
+    if (!problem) continue;
+    errors.push({
+      severity: "hard",
+      ruleId: "F2",
+      message: `F2: station '${stationId}' has no pod in HDR ${config.hdrId}: ${problem} (used by ${steps.size} step(s))`,
+      stepId,
+      fieldPath,
+    });
+  }
+  return errors;
+}
+
+// -----------------------------
+// F3: Inter-Pod Transfers
+// -----------------------------
+
+/**
+ * F3: Material flow that crosses pods under this HDR (derived inter_pod transfers).
+ * Handoffs into an EXPO pod are the expected end of every build and are not reported.
+ */
+export function validateF3InterPodTransfers(build: BenchTopLineBuild, config: HdrPodConfig): ValidationError[] {
+  return deriveTransferSteps(build, config)
+    .filter((t) => t.transferType === "inter_pod" && getPodType(t.toPodId ?? "", config) !== "EXPO")
+    .map((t) => ({
+      severity: "soft" as const,
+      ruleId: "F3",
+      message: `F3: ${t.assemblyId} moves from pod ${t.fromPodId} (${t.producerStepId}) to pod ${t.toPodId} in HDR ${config.hdrId}`,
+      stepId: t.consumerStepId,
+      fieldPath: "input[].from",
+    }));
+}
@@ -18,6 +18,17 @@ export type ValidationError = {
   message: string;
   stepId?: string;
   fieldPath?: string;
+  /** Set when an approved validation override downgraded this finding. */
+  overrideId?: string;
+  originalSeverity?: ValidationSeverity;
+};
+
+/**
+ * A finding removed by an approved validation override (reported, never blocking).
+ */
+export type SuppressedFinding = ValidationError & {
+  overrideId: string;
+  reason: string;
 };
 
 export type BuildValidationResult = {
@@ -25,6 +36,11 @@ export type BuildValidationResult = {
   hardErrors: ValidationError[];
   warnings: ValidationError[];
   infos: ValidationError[];
+  suppressed?: SuppressedFinding[];
+  /** Approved validationOverrides that matched no finding (likely stale after an edit). */
+  unusedOverrideIds?: string[];
+  /** Validation profile the findings were evaluated under. */
+  profile?: string;
   metrics?: Record<string, unknown>;
 };
 
@@ -38,8 +54,52 @@ export type ValidateBuildOptions = {
     type?: string; // e.g. "consumable" | "packaged_good"
     name?: string;
   }>;
+  /**
+   * Skip build.validationOverrides (report raw findings). Default: overrides apply.
+   */
+  ignoreOverrides?: boolean;
+  /**
+   * Validation profile id (config VALIDATION_PROFILES). Default: "publish".
+   * Throws UnknownValidationProfileError for unknown ids.
+   */
+  profile?: string;
+};
+
+/**
+ * A cross-build finding (P rules). stepId/fieldPath are relative to buildId.
+ */
+export type PortfolioFinding = ValidationError & {
+  buildId?: string;
+  itemId?: string;
+  /** Other builds involved in the conflict. */
+  relatedBuildIds?: string[];
+};
+
+export type PortfolioValidationResult = {
+  valid: boolean;
+  hardErrors: PortfolioFinding[];
+  warnings: PortfolioFinding[];
+  infos: PortfolioFinding[];
+  /** Builds the portfolio rules saw (archived builds excluded). */
+  buildCount: number;
+  profile?: string;
+};
+
+export type ValidatePortfolioOptions = Pick<ValidateBuildOptions, "profile"> & {
+  /** Published snapshots (data/history, see listBuildSnapshots); refs resolve against them too, as in composition.ts. */
+  snapshots?: BenchTopLineBuild[];
 };
 
+/**
+ * A build's HDR feasibility findings (F rules) against one pod configuration.
+ * `valid` means the build can run in that HDR.
+ */
+export type HdrFeasibilityResult = BuildValidationResult & {
+  hdrId: string;
+};
+
+export type ValidateHdrOptions = Pick<ValidateBuildOptions, "profile" | "ignoreOverrides">;
+
 // -----------------------------
 // Severity Ranking
 // -----------------------------
@@ -108,10 +168,10 @@ export function buildStepOrderIndexMap(build: BenchTopLineBuild): Map<string, nu
 /**
  * Sort validation errors by severity, rule ID, step order, and field path.
  */
-export function sortErrors(
-  errs: ValidationError[],
+export function sortErrors<T extends ValidationError>(
+  errs: T[],
   stepOrderIndexById: Map<string, number>,
-): ValidationError[] {
+): T[] {
   return [...errs].sort((a, b) => {
     const ar = severityRank(a.severity);
     const br = severityRank(b.severity);
@@ -0,0 +1,214 @@
+import { performance } from "node:perf_hooks";
+import { type BenchTopLineBuild } from "../schema";
+import { computeStepHash, computeValueHash } from "../hash";
+import { type ValidateBuildOptions, type ValidationError, getOrderedSteps } from "./helpers";
+import { type RuleDefinition } from "./registry";
+
+/**
+ * Incremental validation support (`lb validate watch`).
+ *
+ * Raw (pre-profile, pre-override) findings are cached per rule:
+ * - Step rules per step, keyed by the step's content hash (hash.ts), so only
+ *   added or edited steps are re-checked.
+ * - Build rules keyed by a hash of the top-level build fields they read on their
+ *   last run (tracked with a Proxy) plus the BOM. A rule that reads `steps`
+ *   reruns when any step changes; one that only reads `assemblies` does not.
+ *
+ * Profiles and overrides are applied after the cache, so one cache serves every
+ * profile. The cache is never persisted: its keys cover the build, not the rule
+ * code or config, so it only lives as long as the process that filled it.
+ */
+
+/** Sentinel read: the rule enumerated the build's keys, so any field change invalidates it. */
+const ALL_FIELDS = "*";
+
+export type StepCacheEntry = {
+  hash: string;
+  /** Raw findings by ruleId. */
+  findings: Record<string, ValidationError[]>;
+};
+
+export type BuildRuleCacheEntry = {
+  /** Top-level build fields the rule read on its last run. */
+  reads: string[];
+  key: string;
+  findings: ValidationError[];
+};
+
+export type ValidationCache = {
+  /** By stepId. */
+  steps: Record<string, StepCacheEntry>;
+  /** By ruleId. */
+  buildRules: Record<string, BuildRuleCacheEntry>;
+};
+
+export type RuleTiming = {
+  ruleId: string;
+  ms: number;
+  /** Rule invocations (once per changed step for step rules). */
+  runs: number;
+  /** Invocations answered from the cache. */
+  cached: number;
+};
+
+export type RuleRunResult = {
+  raw: ValidationError[];
+  /** Steps added, edited or removed since the cache was last used (all steps on a cold cache). */
+  changedSteps: string[];
+  /** Slowest first. */
+  ruleTimings: RuleTiming[];
+};
+
+export function createValidationCache(): ValidationCache {
+  return { steps: {}, buildRules: {} };
+}
+
+function trackReads(build: BenchTopLineBuild): { proxy: BenchTopLineBuild; reads: Set<string> } {
+  const reads = new Set<string>();
+  const note = (key: string | symbol) => {
+    if (typeof key === "string") reads.add(key);
+  };
+  const proxy = new Proxy(build, {
+    get(target, key, receiver) {
+      note(key);
+      return Reflect.get(target, key, receiver);
+    },
+    has(target, key) {
+      note(key);
+      return Reflect.has(target, key);
+    },
+    ownKeys(target) {
+      reads.add(ALL_FIELDS);
+      return Reflect.ownKeys(target);
+    },
+  });
+  return { proxy, reads };
+}
+
+/**
+ * Run the given rules over `build`, reusing and updating `cache` in place.
+ * Returns raw findings in rule order (validateBuild's finalize step sorts them).
+ */
+export function runRulesIncremental(
+  build: BenchTopLineBuild,
+  rules: RuleDefinition[],
+  cache: ValidationCache,
+  opts: ValidateBuildOptions,
+): RuleRunResult {
+  const timings = new Map<string, RuleTiming>();
+  const timed = (ruleId: string, run: () => ValidationError[]): ValidationError[] => {
+    const t = timings.get(ruleId) ?? { ruleId, ms: 0, runs: 0, cached: 0 };
+    timings.set(ruleId, t);
+    const start = performance.now();
+    const out = run();
+    t.ms += performance.now() - start;
+    t.runs += 1;
+    return out;
+  };
+  const hit = (ruleId: string) => {
+    const t = timings.get(ruleId) ?? { ruleId, ms: 0, runs: 0, cached: 0 };
+    timings.set(ruleId, t);
+    t.cached += 1;
+  };
+
+  // Step rules
+  const steps = getOrderedSteps(build);
+  const stepRules = rules.filter((rule) => rule.checkStep);
+  const changedSteps = new Set<string>();
+  const stepHashById = new Map<string, string>();
+  const stepFindings: ValidationError[] = [];
+  for (const step of steps) {
+    const hash = computeStepHash(step);
+    stepHashById.set(step.id, hash);
+    let entry = cache.steps[step.id];
+    if (!entry || entry.hash !== hash) {
+      entry = { hash, findings: {} };
+      cache.steps[step.id] = entry;
+      changedSteps.add(step.id);
+    }
+    for (const rule of stepRules) {
+      const cached = entry.findings[rule.id];
+      if (cached) {
+        hit(rule.id);
+        stepFindings.push(...cached);
+        continue;
+      }
+      const found = timed(rule.id, () => rule.checkStep!(step, build));
+      entry.findings[rule.id] = found;
+      stepFindings.push(...found);
+    }
+  }
+  for (const stepId of Object.keys(cache.steps)) {
+    if (stepHashById.has(stepId)) continue;
+    delete cache.steps[stepId];
+    changedSteps.add(stepId);
+  }
+
+  // Build rules
+  const fieldHashes = new Map<string, string>();
+  const fieldHash = (field: string): string => {
+    let h = fieldHashes.get(field);
+    if (h === undefined) {
+      if (field === "steps") {
+        h = computeValueHash((build.steps ?? []).map((s) => stepHashById.get(s.id) ?? computeStepHash(s)));
+      } else if (field === ALL_FIELDS) {
+        h = computeValueHash(Object.keys(build).sort().map((k) => (k === "steps" ? fieldHash("steps") : fieldHash(k))));
+      } else {
+        h = computeValueHash((build as unknown as Record<string, unknown>)[field]);
+      }
+      fieldHashes.set(field, h);
+    }
+    return h;
+  };
+  const bomHash = computeValueHash(opts.bom ?? null);
+  const keyFor = (reads: string[]) => computeValueHash({ fields: reads.map((f) => [f, fieldHash(f)]), bom: bomHash });
+
+  const buildFindings: ValidationError[] = [];
+  for (const rule of rules) {
+    if (!rule.check) continue;
+    const entry = cache.buildRules[rule.id];
+    if (entry && entry.key === keyFor(entry.reads)) {
+      hit(rule.id);
+      buildFindings.push(...entry.findings);
+      continue;
+    }
+    const { proxy, reads } = trackReads(build);
+    const found = timed(rule.id, () => rule.check!(proxy, opts));
+    const sortedReads = [...reads].sort();
+    cache.buildRules[rule.id] = { reads: sortedReads, key: keyFor(sortedReads), findings: found };
+    buildFindings.push(...found);
+  }
+
+  return {
+    raw: [...buildFindings, ...stepFindings],
+    changedSteps: [...changedSteps],
+    ruleTimings: [...timings.values()].sort((a, b) => b.ms - a.ms || a.ruleId.localeCompare(b.ruleId)),
+  };
+}
+
+/**
+ * Sum timings from several runs (e.g. one per build in `lb validate --all`), slowest first.
+ */
+export function mergeRuleTimings(runs: RuleTiming[][]): RuleTiming[] {
+  const byRule = new Map<string, RuleTiming>();
+  for (const t of runs.flat()) {
+    const acc = byRule.get(t.ruleId) ?? { ruleId: t.ruleId, ms: 0, runs: 0, cached: 0 };
+    acc.ms += t.ms;
+    acc.runs += t.runs;
+    acc.cached += t.cached;
+    byRule.set(t.ruleId, acc);
+  }
+  return [...byRule.values()].sort((a, b) => b.ms - a.ms || a.ruleId.localeCompare(b.ruleId));
+}
+
+/**
+ * Human-readable `--profile-rules` table.
+ */
+export function formatRuleTimings(timings: RuleTiming[]): string[] {
+  const total = timings.reduce((sum, t) => sum + t.ms, 0);
+  const lines = [`Rule timings (${total.toFixed(1)} ms total):`];
+  for (const t of timings) {
+    lines.push(`  ${t.ruleId.padEnd(6)} ${t.ms.toFixed(2).padStart(9)} ms  ${t.runs} run(s), ${t.cached} cached`);
+  }
+  return lines;
+}
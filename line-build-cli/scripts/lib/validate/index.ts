@@ -3,89 +3,73 @@ import { type BenchTopLineBuild } from "../schema";
 // Re-export types and helpers
 export {
   type ValidationError,
+  type SuppressedFinding,
   type BuildValidationResult,
   type ValidateBuildOptions,
+  type PortfolioFinding,
+  type PortfolioValidationResult,
+  type ValidatePortfolioOptions,
+  type HdrFeasibilityResult,
+  type ValidateHdrOptions,
   getOrderedSteps,
   buildStepOrderIndexMap,
   sortErrors,
 } from "./helpers";
 
-// Import all rule validators
-import {
-  validateH1,
-  validateH2,
-  validateH3,
-  validateH4,
-  validateH6,
-  validateH7,
-  validateH8,
-  validateH9,
-  validateH10,
-  validateH11,
-  validateH12,
-  validateH13,
-  validateH14,
-  validateH15,
-  validateH16,
-  validateH17,
-  validateH18,
-} from "./hard-rules";
+export {
+  applyValidationOverrides,
+  isOverrideActive,
+  overrideMatches,
+} from "./overrides";
 
-import {
-  validateH19,
-  validateH20,
-  validateH21,
-  validateH22,
-  validateH23,
-  validateH24,
-  validateH25,
-  validateH32StationSublocationCompatibility,
-  validateH33TechniqueVocabulary,
-  validateH35EquipmentAtStation,
-  validateH36StationOrUniqueEquipment,
-  validateH37SharedEquipmentRequiresStation,
-  validateH38NoAuthoredTransfer,
-  // validateH39StepFromToLocations, // REMOVED - step.from/to no longer exist
-  validateH40AssemblyRefLocations,
-  validateH41MaterialFlow,
-  validateH42AmbiguousStation,
-  validateH43MaterialFlowContinuity,
-  validateH44SingleProducer,
-  validateH46StepWorkLocation,
-} from "./hard-rules-advanced";
+export {
+  type RuleDefinition,
+  type RuleScope,
+  RULE_REGISTRY,
+  getRuleDefinition,
+  isRuleImplemented,
+} from "./registry";
 
-import {
-  validateRequiresBuildsIntegrity,
-  validateExternalBuildRefsDeclared,
-  validateInBuildComponentRefsResolve,
-} from "./composition-rules";
+export {
+  UnknownValidationProfileError,
+  applyValidationProfile,
+  getProfileRuleSetting,
+  isRuleEnabled,
+  listValidationProfileIds,
+  resolveValidationProfile,
+} from "./profiles";
 
-import {
-  validatePrimaryOutputComponentIdWarning,
-  validateS15ComponentSublocation,
-  validateS20DependsOnWithoutInput,
-  validateS21AssemblyNaming,
-  validateS22MaterialFlowContinuity,
-  validateS23ImplicitTransfer,
-  validateS45MissingTributarySource,
-  validateS16aGroupingBouncing,
-  validateS16bStationBouncing,
-  validateS17DerivedSublocation,
-  validateS18DerivedOutputDestination,
-  validateH26GraphConnectivity,
-  validateH29MergeRoles,
-  validateH30Lineage,
-} from "./soft-rules";
+export {
+  type ValidationCache,
+  type RuleTiming,
+  createValidationCache,
+  formatRuleTimings,
+  mergeRuleTimings,
+} from "./incremental";
 
 import {
   type ValidationError,
+  type SuppressedFinding,
   type BuildValidationResult,
   type ValidateBuildOptions,
+  type PortfolioFinding,
+  type PortfolioValidationResult,
+  type ValidatePortfolioOptions,
+  type HdrFeasibilityResult,
+  type ValidateHdrOptions,
   getOrderedSteps,
   buildStepOrderIndexMap,
+  severityRank,
   sortErrors,
 } from "./helpers";
 
+import { RULE_REGISTRY } from "./registry";
+import { type RuleTiming, type ValidationCache, runRulesIncremental } from "./incremental";
+import { portfolioBuilds } from "./portfolio-rules";
+import { applyValidationProfile, isRuleEnabled, resolveValidationProfile } from "./profiles";
+import { applyValidationOverrides } from "./overrides";
+import { DEFAULT_VALIDATION_PROFILE, type HdrPodConfig, type ValidationProfile } from "../../../config";
+
 /**
  * Deterministic build validator.
  *
@@ -96,94 +80,77 @@ export function validateBuild(
   build: BenchTopLineBuild,
   opts: ValidateBuildOptions = {},
 ): BuildValidationResult {
-  const hardErrors: ValidationError[] = [];
-  const warnings: ValidationError[] = [];
-
-  // Build-level first (recommended order).
-  hardErrors.push(...validateH6(build));
-  hardErrors.push(...validateH7(build));
-  hardErrors.push(...validateH8(build));
-  hardErrors.push(...validateH9(build));
-
-  // Per-step (deterministic iteration order).
-  for (const step of getOrderedSteps(build)) {
-    hardErrors.push(...validateH1(step));
-    hardErrors.push(...validateH3(step));
-    hardErrors.push(...validateH10(step));
-    hardErrors.push(...validateH15(step));
-    hardErrors.push(...validateH16(step));
-    hardErrors.push(...validateH17(step));
-    hardErrors.push(...validateH18(step));
-    hardErrors.push(...validateH22(step));
-    hardErrors.push(...validateH24(step));
-    hardErrors.push(...validateH25(step));
-    hardErrors.push(...validateH4(step));
-    hardErrors.push(...validateH11(step));
-    hardErrors.push(...validateH14(step));
-    hardErrors.push(...validateH38NoAuthoredTransfer(step));
-    // hardErrors.push(...validateH39StepFromToLocations(step)); // REMOVED - step.from/to no longer exist
-    hardErrors.push(...validateH40AssemblyRefLocations(step));
-    hardErrors.push(...validateH41MaterialFlow(step));
-    hardErrors.push(...validateH42AmbiguousStation(step));
-    hardErrors.push(...validateH46StepWorkLocation(step));
+  const profileId = opts.profile ?? DEFAULT_VALIDATION_PROFILE;
+  const profile = resolveValidationProfile(profileId);
+  const rules = RULE_REGISTRY.filter((rule) => isRuleEnabled(profile, rule));
+  const steps = getOrderedSteps(build);
+
+  // Registry order; sortErrors makes the output independent of it.
+  const raw: ValidationError[] = [];
+  for (const rule of rules) {
+    if (rule.check) raw.push(...rule.check(build, opts));
+    if (rule.checkStep) {
+      for (const step of steps) raw.push(...rule.checkStep(step, build));
+    }
   }
 
-  // Build-level customization/overlays + override hygiene.
-  hardErrors.push(...validateH12(build));
-  hardErrors.push(...validateH21(build));
-  hardErrors.push(...validateH19(build));
-  hardErrors.push(...validateH20(build));
-  hardErrors.push(...validateH13(build));
-  hardErrors.push(...validateH43MaterialFlowContinuity(build));
-  hardErrors.push(...validateH44SingleProducer(build));
-
-  // Optional H23 (only if bom provided).
-  hardErrors.push(...validateH23(build, opts.bom));
-
-  // Composition / flow integrity.
-  hardErrors.push(...validateRequiresBuildsIntegrity(build));
-  hardErrors.push(...validateExternalBuildRefsDeclared(build));
-  hardErrors.push(...validateInBuildComponentRefsResolve(build));
-
-  // Warnings (Strong) - MVP: primaryOutputComponentId requirement is not publish-blocking.
-  warnings.push(...validatePrimaryOutputComponentIdWarning(build));
-  warnings.push(...validateH2(build));
-  warnings.push(...validateH26GraphConnectivity(build));
-  warnings.push(...validateH29MergeRoles(build));
-  warnings.push(...validateH30Lineage(build));
-  warnings.push(...validateS15ComponentSublocation(build));
-  warnings.push(...validateS21AssemblyNaming(build));
-  warnings.push(...validateS22MaterialFlowContinuity(build));
-  warnings.push(...validateS16aGroupingBouncing(build));
-  warnings.push(...validateS16bStationBouncing(build));
-  for (const step of getOrderedSteps(build)) {
-    warnings.push(...validateS20DependsOnWithoutInput(step));
-  }
+  return finalizeFindings(build, raw, profile, profileId, opts);
+}
 
-  // Config-driven hard rules (per-step)
-  for (const step of getOrderedSteps(build)) {
-    hardErrors.push(...validateH32StationSublocationCompatibility(step));
-    hardErrors.push(...validateH33TechniqueVocabulary(step));
-    hardErrors.push(...validateH35EquipmentAtStation(step));
-    hardErrors.push(...validateH36StationOrUniqueEquipment(step));
-    hardErrors.push(...validateH37SharedEquipmentRequiresStation(step));
-    // Soft warnings for derived fields
-    warnings.push(...validateS17DerivedSublocation(step));
-    warnings.push(...validateS18DerivedOutputDestination(step));
-    // Implicit transfer detection
-    warnings.push(...validateS23ImplicitTransfer(step));
-    // Missing tributary source detection
-    warnings.push(...validateS45MissingTributarySource(step));
-  }
+export type IncrementalValidationResult = {
+  validation: BuildValidationResult;
+  /** Steps added, edited or removed since `cache` was last used. */
+  changedSteps: string[];
+  /** Time spent per rule in this run, slowest first. */
+  ruleTimings: RuleTiming[];
+};
+
+/**
+ * validateBuild with a per-step / per-rule result cache (see incremental.ts).
+ * Returns the same validation as validateBuild; `cache` is updated in place and
+ * can be kept across runs within one process (watch mode).
+ */
+export function validateBuildIncremental(
+  build: BenchTopLineBuild,
+  cache: ValidationCache,
+  opts: ValidateBuildOptions = {},
+): IncrementalValidationResult {
+  const profileId = opts.profile ?? DEFAULT_VALIDATION_PROFILE;
+  const profile = resolveValidationProfile(profileId);
+  const rules = RULE_REGISTRY.filter((rule) => isRuleEnabled(profile, rule));
+
+  const run = runRulesIncremental(build, rules, cache, opts);
+  return {
+    validation: finalizeFindings(build, run.raw, profile, profileId, opts),
+    changedSteps: run.changedSteps,
+    ruleTimings: run.ruleTimings,
+  };
+}
 
+/**
+ * Profile first, then approved validationOverrides suppress/downgrade matching
+ * findings; bucket and sort by final severity.
+ */
+function finalizeFindings(
+  build: BenchTopLineBuild,
+  raw: ValidationError[],
+  profile: ValidationProfile,
+  profileId: string,
+  opts: Pick<ValidateBuildOptions, "ignoreOverrides">,
+): BuildValidationResult {
   const stepOrderIndexById = buildStepOrderIndexMap(build);
-  
-  // Consolidate and re-bucket by actual severity (in case a rule changed severity but was pushed to the wrong list)
+
+  const profiled = applyValidationProfile(profile, raw);
+  const overridden = opts.ignoreOverrides
+    ? { findings: profiled, suppressed: [] as SuppressedFinding[], unusedOverrideIds: [] as string[] }
+    : applyValidationOverrides(build, profiled);
+
+  // Bucket by final severity
   const finalHard: ValidationError[] = [];
   const finalWarn: ValidationError[] = [];
   const finalInfo: ValidationError[] = [];
 
-  for (const e of [...hardErrors, ...warnings]) {
+  for (const e of overridden.findings) {
     if (e.severity === "hard") finalHard.push(e);
     else if (e.severity === "info") finalInfo.push(e);
     else finalWarn.push(e);
@@ -194,5 +161,68 @@ export function validateBuild(
     hardErrors: sortErrors(finalHard, stepOrderIndexById),
     warnings: sortErrors(finalWarn, stepOrderIndexById),
     infos: sortErrors(finalInfo, stepOrderIndexById),
+    suppressed: sortErrors(overridden.suppressed, stepOrderIndexById),
+    unusedOverrideIds: overridden.unusedOverrideIds,
+    profile: profileId,
+  };
+}
+
+/**
+ * HDR feasibility validator (`lb validate <buildId> --hdr <configId|all>`): runs
+ * the Hdr-scope rules for one build against one pod configuration. Profiles and
+ * the build's validationOverrides apply as in validateBuild.
+ */
+export function validateHdrFeasibility(
+  build: BenchTopLineBuild,
+  config: HdrPodConfig,
+  opts: ValidateHdrOptions = {},
+): HdrFeasibilityResult {
+  const profileId = opts.profile ?? DEFAULT_VALIDATION_PROFILE;
+  const profile = resolveValidationProfile(profileId);
+  const rules = RULE_REGISTRY.filter((rule) => rule.checkHdr && isRuleEnabled(profile, rule));
+
+  const raw: ValidationError[] = [];
+  for (const rule of rules) raw.push(...rule.checkHdr!(build, config));
+  return { ...finalizeFindings(build, raw, profile, profileId, opts), hdrId: config.hdrId };
+}
+
+function sortPortfolioFindings(findings: PortfolioFinding[]): PortfolioFinding[] {
+  return [...findings].sort((a, b) => {
+    const ar = severityRank(a.severity);
+    const br = severityRank(b.severity);
+    if (ar !== br) return ar - br;
+    if (a.ruleId !== b.ruleId) return a.ruleId.localeCompare(b.ruleId);
+    if ((a.buildId ?? "") !== (b.buildId ?? "")) return (a.buildId ?? "").localeCompare(b.buildId ?? "");
+    if ((a.stepId ?? "") !== (b.stepId ?? "")) return (a.stepId ?? "").localeCompare(b.stepId ?? "");
+    if ((a.fieldPath ?? "") !== (b.fieldPath ?? "")) return (a.fieldPath ?? "").localeCompare(b.fieldPath ?? "");
+    return a.message.localeCompare(b.message);
+  });
+}
+
+/**
+ * Cross-build validator (`lb validate --portfolio`): runs the Portfolio-scope
+ * rules over every build at once. Profiles apply as in validateBuild;
+ * per-build validationOverrides do not.
+ */
+export function validatePortfolio(
+  builds: BenchTopLineBuild[],
+  opts: ValidatePortfolioOptions = {},
+): PortfolioValidationResult {
+  const profileId = opts.profile ?? DEFAULT_VALIDATION_PROFILE;
+  const profile = resolveValidationProfile(profileId);
+  const rules = RULE_REGISTRY.filter((rule) => rule.checkPortfolio && isRuleEnabled(profile, rule));
+
+  const raw: PortfolioFinding[] = [];
+  for (const rule of rules) raw.push(...rule.checkPortfolio!(builds, opts.snapshots ?? []));
+  const findings = sortPortfolioFindings(applyValidationProfile(profile, raw));
+
+  const hardErrors = findings.filter((e) => e.severity === "hard");
+  return {
+    valid: hardErrors.length === 0,
+    hardErrors,
+    warnings: findings.filter((e) => e.severity === "strong" || e.severity === "soft"),
+    infos: findings.filter((e) => e.severity === "info"),
+    buildCount: portfolioBuilds(builds).length,
+    profile: profileId,
   };
 }
@@ -0,0 +1,79 @@
+import {
+  type BenchTopLineBuild,
+  type ValidationOverride,
+} from "../schema";
+import {
+  type ValidationError,
+  type SuppressedFinding,
+  severityRank,
+} from "./helpers";
+
+/**
+ * Validation override application.
+ *
+ * Approved entries in build.validationOverrides match findings by ruleId and,
+ * when present, stepId and fieldPath (exact match). A matching override either:
+ * - suppress (default): removes the finding; it is reported in `suppressed`
+ * - downgrade: lowers the finding to override.severity (no-op if not lower)
+ *
+ * Unapproved overrides never apply. Override hygiene (H13) cannot itself be overridden.
+ */
+
+const NON_OVERRIDABLE_RULES = new Set(["H13"]);
+
+export function isOverrideActive(o: ValidationOverride): boolean {
+  return o.approved === true;
+}
+
+export function overrideMatches(o: ValidationOverride, err: ValidationError): boolean {
+  if (NON_OVERRIDABLE_RULES.has(err.ruleId)) return false;
+  if (o.ruleId !== err.ruleId) return false;
+  if (o.stepId !== undefined && o.stepId !== err.stepId) return false;
+  if (o.fieldPath !== undefined && o.fieldPath !== err.fieldPath) return false;
+  return true;
+}
+
+export type OverrideApplication = {
+  findings: ValidationError[];
+  suppressed: SuppressedFinding[];
+  /** Approved override IDs that matched nothing (likely stale after an edit). */
+  unusedOverrideIds: string[];
+};
+
+export function applyValidationOverrides(
+  build: BenchTopLineBuild,
+  findings: ValidationError[],
+): OverrideApplication {
+  const active = (build.validationOverrides ?? []).filter(isOverrideActive);
+  if (active.length === 0) return { findings, suppressed: [], unusedOverrideIds: [] };
+
+  const used = new Set<string>();
+  const kept: ValidationError[] = [];
+  const suppressed: SuppressedFinding[] = [];
+
+  for (const err of findings) {
+    const o = active.find((candidate) => overrideMatches(candidate, err));
+    if (!o) {
+      kept.push(err);
+      continue;
+    }
+    used.add(o.id);
+
+    if ((o.action ?? "suppress") === "suppress") {
+      suppressed.push({ ...err, overrideId: o.id, reason: o.reason });
+      continue;
+    }
+
+    if (severityRank(o.severity) > severityRank(err.severity)) {
+      kept.push({ ...err, severity: o.severity, overrideId: o.id, originalSeverity: err.severity });
+    } else {
+      kept.push(err);
+    }
+  }
+
+  return {
+    findings: kept,
+    suppressed,
+    unusedOverrideIds: active.filter((o) => !used.has(o.id)).map((o) => o.id),
+  };
+}
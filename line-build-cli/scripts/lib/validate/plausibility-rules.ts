@@ -0,0 +1,145 @@
+import { type Step, type StepEquipment, type StepTime } from "../schema";
+import {
+  getStationSide,
+  getTimeRangeWarning,
+  getToolsForActionFamily,
+  getTypicalToolsForTechnique,
+  isTypicalToolForAction,
+  isTypicalToolForSide,
+  TOOL_BY_ID,
+} from "../../../config";
+import { type ValidationError } from "./helpers";
+
+/**
+ * Operational plausibility rules (S25-S28).
+ * Soft warnings that compare authored times and tools against the typical
+ * values in validation.config.ts, tools.config.ts and techniques.config.ts.
+ * Tools outside tools.config (legacy schema ids, "other") are not judged.
+ */
+
+function configuredToolId(step: Step): string | undefined {
+  const toolId = step.toolId;
+  return toolId && toolId !== "other" && TOOL_BY_ID[toolId] ? toolId : undefined;
+}
+
+// -----------------------------
+// S25: Cook Time Within Appliance Range
+// -----------------------------
+
+function cookTimeWarning(
+  step: Step,
+  equipment: StepEquipment | undefined,
+  time: StepTime | undefined,
+  fieldPath: string,
+): ValidationError[] {
+  if (!equipment || !time) return [];
+  const warning = getTimeRangeWarning(equipment.applianceId, time.durationSeconds);
+  if (!warning) return [];
+  return [
+    {
+      severity: "soft",
+      ruleId: "S25",
+      message: `S25: ${warning}`,
+      stepId: step.id,
+      fieldPath,
+    },
+  ];
+}
+
+/**
+ * S25: time.durationSeconds should fall inside the appliance's typical range
+ * (VALIDATION_CONFIG.equipmentTimeRanges). Overlay overrides are checked with
+ * the equipment/time they resolve to.
+ */
+export function validateS25CookTimeRange(step: Step): ValidationError[] {
+  if (step.exclude) return [];
+  const warnings = cookTimeWarning(step, step.equipment, step.time, "time.durationSeconds");
+
+  (step.overlays ?? []).forEach((overlay, i) => {
+    const { equipment, time } = overlay.overrides;
+    if (!equipment && !time) return;
+    warnings.push(
+      ...cookTimeWarning(
+        step,
+        equipment ?? step.equipment,
+        time ?? step.time,
+        `overlays[${i}].overrides.${time ? "time.durationSeconds" : "equipment.applianceId"}`,
+      ),
+    );
+  });
+  return warnings;
+}
+
+// -----------------------------
+// S26: Tool Typical For Action Family
+// -----------------------------
+
+/**
+ * S26: toolId should be typical for the step's action family (ToolConfig.typicalActionFamilies).
+ */
+export function validateS26ToolForActionFamily(step: Step): ValidationError[] {
+  const toolId = configuredToolId(step);
+  if (step.exclude || !toolId) return [];
+  const family = step.action.family;
+  if (isTypicalToolForAction(toolId, family)) return [];
+
+  const typical = getToolsForActionFamily(family).map((t) => t.id);
+  return [
+    {
+      severity: "soft",
+      ruleId: "S26",
+      message: `S26: tool '${toolId}' is not typical for ${family} steps${typical.length > 0 ? ` (typical: ${typical.join(", ")})` : ""}`,
+      stepId: step.id,
+      fieldPath: "toolId",
+    },
+  ];
+}
+
+// -----------------------------
+// S27: Tool Typical For Station Side
+// -----------------------------
+
+/**
+ * S27: toolId should be typically available on the station's side (ToolConfig.typicalSides).
+ */
+export function validateS27ToolForStationSide(step: Step): ValidationError[] {
+  const toolId = configuredToolId(step);
+  if (step.exclude || !toolId || !step.stationId) return [];
+  const side = getStationSide(step.stationId);
+  if (isTypicalToolForSide(toolId, side)) return [];
+
+  return [
+    {
+      severity: "soft",
+      ruleId: "S27",
+      message: `S27: tool '${toolId}' is not typically available on ${side} (station '${step.stationId}')`,
+      stepId: step.id,
+      fieldPath: "toolId",
+    },
+  ];
+}
+
+// -----------------------------
+// S28: Tool Typical For Technique
+// -----------------------------
+
+/**
+ * S28: when the technique lists typicalTools, the step's toolId should be one of them.
+ */
+export function validateS28ToolForTechnique(step: Step): ValidationError[] {
+  const toolId = configuredToolId(step);
+  const techniqueId = step.action.techniqueId;
+  if (step.exclude || !toolId || !techniqueId) return [];
+  const typical = getTypicalToolsForTechnique(techniqueId);
+  if (typical.length === 0 || typical.includes(toolId)) return [];
+
+  return [
+    {
+      severity: "soft",
+      ruleId: "S28",
+      message: `S28: technique '${techniqueId}' is usually done with ${typical.join(" or ")}, not '${toolId}'`,
+      stepId: step.id,
+      fieldPath: "toolId",
+    },
+  ];
+}
@@ -0,0 +1,375 @@
+import {
+  ActionFamily,
+  type BenchTopLineBuild,
+  type BuildRefVersion,
+  type Step,
+} from "../schema";
+import { convertQuantity, normalizeUnit } from "../units";
+import {
+  type PortfolioFinding,
+  canonicalizeCyclePath,
+  getOrderedSteps,
+} from "./helpers";
+
+/**
+ * Portfolio validation rules (P1-P5).
+ * These see every build at once and check invariants that span builds.
+ * Archived builds are not part of the portfolio. Published versions live in
+ * data/history (lb publish), so refs and "published" checks also consider the
+ * snapshots of the portfolio's builds (see portfolioVersions).
+ */
+
+export function portfolioBuilds(builds: BenchTopLineBuild[]): BenchTopLineBuild[] {
+  return builds
+    .filter((b) => b.status !== "archived")
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function buildsByItem(builds: BenchTopLineBuild[]): Map<string, BenchTopLineBuild[]> {
+  const map = new Map<string, BenchTopLineBuild[]>();
+  for (const b of portfolioBuilds(builds)) map.set(b.itemId, [...(map.get(b.itemId) ?? []), b]);
+  return map;
+}
+
+/**
+ * Every version refs can resolve to: working copies plus the published
+ * snapshots of builds that are not archived. A working copy still published at
+ * its snapshot's version is counted once.
+ */
+function portfolioVersions(builds: BenchTopLineBuild[], snapshots: BenchTopLineBuild[]): BenchTopLineBuild[] {
+  const current = portfolioBuilds(builds);
+  const archived = new Set(builds.filter((b) => b.status === "archived").map((b) => b.id));
+  const seen = new Set(current.map((b) => `${b.id}@${b.version}`));
+  return [...current, ...snapshots.filter((s) => !archived.has(s.id) && !seen.has(`${s.id}@${s.version}`))];
+}
+
+function versionsByItem(builds: BenchTopLineBuild[], snapshots: BenchTopLineBuild[]): Map<string, BenchTopLineBuild[]> {
+  const map = new Map<string, BenchTopLineBuild[]>();
+  for (const b of portfolioVersions(builds, snapshots)) map.set(b.itemId, [...(map.get(b.itemId) ?? []), b]);
+  return map;
+}
+
+function highestVersion(builds: BenchTopLineBuild[]): BenchTopLineBuild | undefined {
+  return [...builds].sort((a, b) => b.version - a.version || a.id.localeCompare(b.id))[0];
+}
+
+/**
+ * The build that stands for an item: its highest published version, else its
+ * highest version (what an unversioned ref resolves to, see composition.ts).
+ */
+function representativeBuild(builds: BenchTopLineBuild[]): BenchTopLineBuild {
+  return highestVersion(builds.filter((b) => b.status === "published")) ?? highestVersion(builds)!;
+}
+
+function stepRefs(step: Step) {
+  return [
+    ...(step.input ?? []).map((r) => ({ kind: "input" as const, r })),
+    ...(step.output ?? []).map((r) => ({ kind: "output" as const, r })),
+  ];
+}
+
+// -----------------------------
+// P1: One Published Build Per Item
+// -----------------------------
+
+/**
+ * P1: At most one build per itemId has a published version.
+ */
+export function validateP1SinglePublishedBuild(builds: BenchTopLineBuild[], snapshots: BenchTopLineBuild[] = []): PortfolioFinding[] {
+  const errors: PortfolioFinding[] = [];
+  for (const [itemId, list] of versionsByItem(builds, snapshots)) {
+    const published = Array.from(new Set(list.filter((b) => b.status === "published").map((b) => b.id))).sort();
+    if (published.length <= 1) continue;
+    errors.push({
+      severity: "hard",
+      ruleId: "P1",
+      message: `P1: item ${itemId} has ${published.length} published builds (${published.join(", ")})`,
+      buildId: published[0],
+      itemId,
+      relatedBuildIds: published.slice(1),
+      fieldPath: "status",
+    });
+  }
+  return errors;
+}
+
+// -----------------------------
+// P2: No requiresBuilds Cycles Across Items
+// -----------------------------
+
+/**
+ * P2: The item graph formed by requiresBuilds is acyclic.
+ * Self-references are C1's concern and are skipped here.
+ */
+export function validateP2RequiresBuildsCycles(builds: BenchTopLineBuild[]): PortfolioFinding[] {
+  const byItem = buildsByItem(builds);
+  const edges = new Map<string, string[]>();
+  for (const [itemId, list] of byItem) {
+    const deps = new Set(list.flatMap((b) => (b.requiresBuilds ?? []).map((r) => r.itemId)));
+    deps.delete(itemId);
+    edges.set(itemId, [...deps].sort());
+  }
+
+  const state = new Map<string, 0 | 1 | 2>(); // 0 = unvisited, 1 = visiting, 2 = done
+  const stack: string[] = [];
+  const cycleKeys = new Set<string>();
+  const errors: PortfolioFinding[] = [];
+
+  const dfs = (itemId: string) => {
+    if ((state.get(itemId) ?? 0) !== 0) return;
+    state.set(itemId, 1);
+    stack.push(itemId);
+
+    for (const dep of edges.get(itemId) ?? []) {
+      if (!edges.has(dep)) continue; // P3 handles missing items.
+      const depState = state.get(dep) ?? 0;
+      if (depState === 0) {
+        dfs(dep);
+        continue;
+      }
+      if (depState === 1) {
+        const canonical = canonicalizeCyclePath(stack.slice(stack.indexOf(dep)));
+        const key = canonical.join("->");
+        if (cycleKeys.has(key)) continue;
+        cycleKeys.add(key);
+        const anchors = canonical.map((id) => representativeBuild(byItem.get(id)!).id);
+        errors.push({
+          severity: "hard",
+          ruleId: "P2",
+          message: `P2: requiresBuilds cycle across items: ${[...canonical, canonical[0]!].join(" -> ")}`,
+          buildId: anchors[0],
+          itemId: canonical[0],
+          relatedBuildIds: anchors.slice(1),
+          fieldPath: "requiresBuilds[].itemId",
+        });
+      }
+    }
+
+    stack.pop();
+    state.set(itemId, 2);
+  };
+
+  for (const itemId of [...edges.keys()].sort()) dfs(itemId);
+  return errors;
+}
+
+// -----------------------------
+// P3: Referenced Items Exist
+// -----------------------------
+
+/**
+ * P3: requiresBuilds and external_build refs name items that have a build in the portfolio
+ * (a published one when the ref asks for version "latest_published").
+ */
+export function validateP3ReferencedItemsExist(builds: BenchTopLineBuild[], snapshots: BenchTopLineBuild[] = []): PortfolioFinding[] {
+  const byItem = versionsByItem(builds, snapshots);
+  const hasPublished = (itemId: string) => (byItem.get(itemId) ?? []).some((b) => b.status === "published");
+  const errors: PortfolioFinding[] = [];
+
+  for (const build of portfolioBuilds(builds)) {
+    const missing = (itemId: string, latestPublished: boolean): string | undefined => {
+      if (itemId === build.itemId) return undefined; // C1 covers self-references.
+      if (!byItem.has(itemId)) return `item ${itemId} has no build in the portfolio`;
+      if (latestPublished && !hasPublished(itemId)) return `item ${itemId} has no published build (version=latest_published)`;
+      return undefined;
+    };
+
+    for (const ref of build.requiresBuilds ?? []) {
+      const reason = missing(ref.itemId, ref.version === "latest_published");
+      if (!reason) continue;
+      errors.push({
+        severity: "hard",
+        ruleId: "P3",
+        message: `P3: requiresBuilds: ${reason}`,
+        buildId: build.id,
+        itemId: build.itemId,
+        fieldPath: "requiresBuilds[].itemId",
+      });
+    }
+
+    for (const step of getOrderedSteps(build)) {
+      for (const { kind, r } of stepRefs(step)) {
+        if (r.source.type !== "external_build") continue;
+        const reason = missing(r.source.itemId, r.source.version === "latest_published");
+        if (!reason) continue;
+        errors.push({
+          severity: "hard",
+          ruleId: "P3",
+          message: `P3: external_build reference: ${reason}`,
+          buildId: build.id,
+          itemId: build.itemId,
+          stepId: step.id,
+          fieldPath: `${kind}[].source.itemId`,
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+// -----------------------------
+// P4: External Assembly Refs Resolve
+// -----------------------------
+
+function producedAssemblyIds(build: BenchTopLineBuild): Set<string> {
+  const ids = new Set((build.assemblies ?? []).map((a) => a.id));
+  if (build.primaryOutputAssemblyId) ids.add(build.primaryOutputAssemblyId);
+  for (const step of build.steps) {
+    for (const ref of step.output ?? []) {
+      if (ref.source.type === "in_build") ids.add(ref.source.assemblyId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * The versions an external_build ref can resolve to (selectBuildVersion in
+ * composition.ts picks one of them).
+ */
+function refCandidates(versions: BenchTopLineBuild[], version: BuildRefVersion | undefined): BenchTopLineBuild[] {
+  if (typeof version === "number") return versions.filter((b) => b.version === version);
+  const published = highestVersion(versions.filter((b) => b.status === "published"));
+  if (version === "latest_published") return published ? [published] : [];
+  return versions.length > 0 ? [representativeBuild(versions)] : [];
+}
+
+/**
+ * P4: external_build refs with an assemblyId name an assembly of the referenced item's build(s).
+ * Refs to items without builds are reported by P3 only.
+ */
+export function validateP4ExternalAssemblyRefsResolve(builds: BenchTopLineBuild[], snapshots: BenchTopLineBuild[] = []): PortfolioFinding[] {
+  const byItem = versionsByItem(builds, snapshots);
+  const errors: PortfolioFinding[] = [];
+
+  for (const build of portfolioBuilds(builds)) {
+    for (const step of getOrderedSteps(build)) {
+      for (const { kind, r } of stepRefs(step)) {
+        if (r.source.type !== "external_build" || !r.source.assemblyId) continue;
+        const { itemId, version, assemblyId } = r.source;
+        const candidates = refCandidates(byItem.get(itemId) ?? [], version);
+        // Unresolvable versions are P3's (or composition's) concern.
+        if (candidates.length === 0) continue;
+        if (candidates.some((b) => producedAssemblyIds(b).has(assemblyId))) continue;
+        errors.push({
+          severity: "hard",
+          ruleId: "P4",
+          message: `P4: external_build assembly ${assemblyId} not found in item ${itemId} (${candidates.map((b) => b.id).join(", ")})`,
+          buildId: build.id,
+          itemId: build.itemId,
+          stepId: step.id,
+          fieldPath: `${kind}[].source.assemblyId`,
+          relatedBuildIds: candidates.map((b) => b.id),
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+// -----------------------------
+// P5: Consistent Portioning Across Builds
+// -----------------------------
+
+type PortionUse = {
+  buildId: string;
+  itemId: string;
+  stepId: string;
+  toolId?: string;
+  quantity?: { value: number; unit: string; kind: "absolute" | "multiplier" };
+};
+
+function portionComponentId(step: Step, build: BenchTopLineBuild): string | undefined {
+  const target = step.target;
+  if (!target) return undefined;
+  if (target.bomComponentId) return target.bomComponentId;
+  if (!target.bomUsageId) return undefined;
+  return (build.bom ?? []).find((e) => e.id === target.bomUsageId)?.componentId;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/** Quantity label comparable across builds: converted to `unit` when the dimensions match. */
+function quantityLabel(q: NonNullable<PortionUse["quantity"]>, unit: string | undefined): string {
+  if (q.kind === "multiplier") return `x${round(q.value)} ${q.unit}`;
+  const converted = unit ? convertQuantity(q.value, q.unit, unit) : undefined;
+  return converted === undefined ? `${round(q.value)} ${q.unit}` : `${round(converted)} ${unit}`;
+}
+
+function describeVariants(values: Map<string, PortionUse[]>): string {
+  return [...values.entries()]
+    .map(([label, uses]) => `${label} (${uses.map((u) => `${u.buildId}/${u.stepId}`).join(", ")})`)
+    .join("; ");
+}
+
+/** True when two builds disagree (variants within one build alone are not a portfolio issue). */
+function differsAcrossBuilds(values: Map<string, PortionUse[]>): boolean {
+  const variants = [...values.values()];
+  return variants.some((a, i) =>
+    variants.slice(i + 1).some((b) => a.some((u) => b.some((v) => v.buildId !== u.buildId))),
+  );
+}
+
+/**
+ * P5: A BOM component is portioned with the same tool and quantity in every item.
+ * One build per item is compared (published, else latest version); excluded and
+ * conditional steps are ignored.
+ */
+export function validateP5PortioningConsistency(builds: BenchTopLineBuild[], snapshots: BenchTopLineBuild[] = []): PortfolioFinding[] {
+  const usesByComponent = new Map<string, PortionUse[]>();
+  for (const list of versionsByItem(builds, snapshots).values()) {
+    const build = representativeBuild(list);
+    for (const step of getOrderedSteps(build)) {
+      if (step.action.family !== ActionFamily.PORTION || step.exclude === true || step.conditions) continue;
+      const componentId = portionComponentId(step, build);
+      if (!componentId) continue;
+      const q = step.quantity;
+      usesByComponent.set(componentId, [
+        ...(usesByComponent.get(componentId) ?? []),
+        {
+          buildId: build.id,
+          itemId: build.itemId,
+          stepId: step.id,
+          toolId: step.toolId,
+          quantity: q ? { value: q.value, unit: normalizeUnit(q.unit) ?? q.unit, kind: q.kind ?? "absolute" } : undefined,
+        },
+      ]);
+    }
+  }
+
+  const errors: PortfolioFinding[] = [];
+  for (const componentId of [...usesByComponent.keys()].sort()) {
+    const uses = usesByComponent.get(componentId)!;
+    if (new Set(uses.map((u) => u.buildId)).size < 2) continue;
+
+    const tools = new Map<string, PortionUse[]>();
+    const quantities = new Map<string, PortionUse[]>();
+    const unit = uses.find((u) => u.quantity?.kind === "absolute")?.quantity?.unit;
+    for (const u of uses) {
+      if (u.toolId) tools.set(u.toolId, [...(tools.get(u.toolId) ?? []), u]);
+      if (u.quantity) {
+        const label = quantityLabel(u.quantity, unit);
+        quantities.set(label, [...(quantities.get(label) ?? []), u]);
+      }
+    }
+
+    const differences: string[] = [];
+    if (differsAcrossBuilds(tools)) differences.push(`tools ${describeVariants(tools)}`);
+    if (differsAcrossBuilds(quantities)) differences.push(`quantities ${describeVariants(quantities)}`);
+    if (differences.length === 0) continue;
+
+    const anchor = uses[0]!;
+    errors.push({
+      severity: "soft",
+      ruleId: "P5",
+      message: `P5: component ${componentId} is portioned differently across builds: ${differences.join("; ")}`,
+      buildId: anchor.buildId,
+      itemId: anchor.itemId,
+      stepId: anchor.stepId,
+      fieldPath: differsAcrossBuilds(tools) ? "toolId" : "quantity",
+      relatedBuildIds: Array.from(new Set(uses.map((u) => u.buildId))).filter((id) => id !== anchor.buildId),
+    });
+  }
+  return errors;
+}
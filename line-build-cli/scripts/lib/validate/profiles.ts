@@ -0,0 +1,78 @@
+import {
+  DEFAULT_VALIDATION_PROFILE,
+  VALIDATION_PROFILES,
+  type ValidationProfile,
+  type ValidationProfileSetting,
+} from "../../../config";
+import { type ValidationSeverity } from "../schema";
+import { type ValidationError } from "./helpers";
+import { type RuleDefinition } from "./registry";
+
+/**
+ * Validation profile resolution.
+ *
+ * A profile (config/validation.config.ts) adjusts findings before overrides:
+ * - rules[ruleId] wins, then severities[finding.severity]
+ * - "off" skips the rule (or drops the finding); a severity remaps it
+ * Rules and severities a profile does not mention keep their registry behavior.
+ */
+
+export class UnknownValidationProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnknownValidationProfileError";
+  }
+}
+
+export function listValidationProfileIds(): string[] {
+  return Object.keys(VALIDATION_PROFILES);
+}
+
+export function resolveValidationProfile(id: string = DEFAULT_VALIDATION_PROFILE): ValidationProfile {
+  const profile = VALIDATION_PROFILES[id];
+  if (!profile) {
+    throw new UnknownValidationProfileError(
+      `Unknown validation profile: ${id} (known: ${listValidationProfileIds().join(", ")})`,
+    );
+  }
+  return profile;
+}
+
+/**
+ * Effective setting for a rule at its registry severity.
+ */
+export function getProfileRuleSetting(
+  profile: ValidationProfile,
+  rule: Pick<RuleDefinition, "id" | "severity">,
+): ValidationProfileSetting {
+  return findingSetting(profile, rule.id, rule.severity);
+}
+
+function findingSetting(
+  profile: ValidationProfile,
+  ruleId: string,
+  severity: ValidationSeverity,
+): ValidationProfileSetting {
+  return profile.rules?.[ruleId] ?? profile.severities?.[severity] ?? severity;
+}
+
+export function isRuleEnabled(profile: ValidationProfile, rule: RuleDefinition): boolean {
+  return getProfileRuleSetting(profile, rule) !== "off";
+}
+
+/**
+ * Apply a profile to raw findings. A finding's own severity is used (not the
+ * rule default) so rules that emit mixed severities are remapped per finding.
+ */
+export function applyValidationProfile<T extends ValidationError>(
+  profile: ValidationProfile,
+  findings: T[],
+): T[] {
+  const out: T[] = [];
+  for (const err of findings) {
+    const setting = findingSetting(profile, err.ruleId, err.severity);
+    if (setting === "off") continue;
+    out.push(setting === err.severity ? err : { ...err, severity: setting });
+  }
+  return out;
+}
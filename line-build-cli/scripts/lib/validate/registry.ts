@@ -0,0 +1,752 @@
+import { type BenchTopLineBuild, type Step, type ValidationSeverity } from "../schema";
+import { type HdrPodConfig } from "../../../config";
+import { type PortfolioFinding, type ValidateBuildOptions, type ValidationError } from "./helpers";
+import {
+  validateH1,
+  validateH2,
+  validateH3,
+  validateH4,
+  validateH6,
+  validateH7,
+  validateH8,
+  validateH9,
+  validateH10,
+  validateH11,
+  validateH12,
+  validateH13,
+  validateH14,
+  validateH15,
+  validateH16,
+  validateH17,
+  validateH18,
+} from "./hard-rules";
+import {
+  validateH19,
+  validateH20,
+  validateH21,
+  validateH22,
+  validateH23,
+  validateH24,
+  validateH25,
+  validateH32StationSublocationCompatibility,
+  validateH33TechniqueVocabulary,
+  validateH35EquipmentAtStation,
+  validateH36StationOrUniqueEquipment,
+  validateH37SharedEquipmentRequiresStation,
+  validateH38NoAuthoredTransfer,
+  validateH40AssemblyRefLocations,
+  validateH41MaterialFlow,
+  validateH42AmbiguousStation,
+  validateH43MaterialFlowContinuity,
+  validateH44SingleProducer,
+  validateH46StepWorkLocation,
+  validateH47TrackRefs,
+  validateH48OperationRefs,
+  validateH49QuantityUnits,
+  validateH50SpoodlePortion,
+} from "./hard-rules-advanced";
+import {
+  validateRequiresBuildsIntegrity,
+  validateExternalBuildRefsDeclared,
+  validateInBuildAssemblyRefsResolve,
+} from "./composition-rules";
+import {
+  validatePrimaryOutputAssemblyIdWarning,
+  validateS15AssemblySublocation,
+  validateS16aGroupingBouncing,
+  validateS16bStationBouncing,
+  validateS17DerivedSublocation,
+  validateS18DerivedOutputDestination,
+  validateS20DependsOnWithoutInput,
+  validateS21AssemblyNaming,
+  validateS22MaterialFlowContinuity,
+  validateS23ImplicitTransfer,
+  validateS24BomQuantityRollup,
+  validateS45MissingTributarySource,
+  validateH26GraphConnectivity,
+  validateH29MergeRoles,
+  validateH30Lineage,
+} from "./soft-rules";
+import {
+  validateS25CookTimeRange,
+  validateS26ToolForActionFamily,
+  validateS27ToolForStationSide,
+  validateS28ToolForTechnique,
+} from "./plausibility-rules";
+import {
+  validateP1SinglePublishedBuild,
+  validateP2RequiresBuildsCycles,
+  validateP3ReferencedItemsExist,
+  validateP4ExternalAssemblyRefsResolve,
+  validateP5PortioningConsistency,
+} from "./portfolio-rules";
+import {
+  validateF1EquipmentInHdr,
+  validateF2StationPodMapping,
+  validateF3InterPodTransfers,
+} from "./hdr-rules";
+
+/**
+ * Validation rule registry.
+ *
+ * One entry per rule: catalog metadata (what `lb rules` prints) plus the
+ * implementation validateBuild runs. Entries without check/checkStep are
+ * catalog-only (deprecated, or documented but not enforced in the PoC).
+ * Portfolio-scope rules (P*) implement checkPortfolio and only run under
+ * validatePortfolio (`lb validate --portfolio`); Hdr-scope rules (F*) implement
+ * checkHdr and only run under validateHdrFeasibility (`lb validate --hdr`).
+ *
+ * `severity` is the severity the implementation emits by default; validation
+ * profiles (config/validation.config.ts) can turn a rule off or remap it.
+ */
+
+export type RuleScope = "Build" | "Step" | "Portfolio" | "Hdr";
+
+export type RuleDefinition = {
+  id: string;
+  scope: RuleScope;
+  description: string;
+  appliesTo?: string; // e.g., "HEAT steps", "pre_service steps"
+  severity: ValidationSeverity;
+  /** True if rule is deprecated and no longer enforced */
+  deprecated?: boolean;
+  deprecatedReason?: string;
+  /** Build-level implementation (runs once). */
+  check?: (build: BenchTopLineBuild, opts: ValidateBuildOptions) => ValidationError[];
+  /** Per-step implementation (runs for every step in order). */
+  checkStep?: (step: Step, build: BenchTopLineBuild) => ValidationError[];
+  /** Cross-build implementation (runs once over all working copies, with the published snapshots). */
+  checkPortfolio?: (builds: BenchTopLineBuild[], snapshots: BenchTopLineBuild[]) => PortfolioFinding[];
+  /** Implementation against one HDR pod configuration (runs once per build and config). */
+  checkHdr?: (build: BenchTopLineBuild, config: HdrPodConfig) => ValidationError[];
+};
+
+export const RULE_REGISTRY: RuleDefinition[] = [
+  {
+    id: "H1",
+    scope: "Step",
+    severity: "hard",
+    description: "Every step has action.family (valid enum)",
+    checkStep: validateH1,
+  },
+  {
+    id: "H2",
+    scope: "Build",
+    severity: "soft",
+    description: "orderIndex is derived for UX; duplicates are OK unless custom ordering is needed",
+    check: validateH2,
+  },
+  {
+    id: "H3",
+    scope: "Step",
+    severity: "hard",
+    description: "If time exists: durationSeconds > 0 and isActive is boolean",
+    checkStep: validateH3,
+  },
+  {
+    id: "H4",
+    scope: "Step",
+    severity: "hard",
+    description: "Containers are not targets (container concepts must not live in target.name)",
+    checkStep: validateH4,
+  },
+  {
+    id: "H5",
+    scope: "Step",
+    severity: "hard",
+    description: "notes is always allowed (escape hatch)",
+  },
+  {
+    id: "H6",
+    scope: "Build",
+    severity: "hard",
+    description: "Published builds must have at least 1 step",
+    check: validateH6,
+  },
+  {
+    id: "H7",
+    scope: "Build",
+    severity: "hard",
+    description: "step.id values are unique within a build",
+    check: validateH7,
+  },
+  {
+    id: "H8",
+    scope: "Build",
+    severity: "hard",
+    description: "dependsOn references must exist",
+    check: validateH8,
+  },
+  {
+    id: "H9",
+    scope: "Build",
+    severity: "hard",
+    description: "Dependencies must not create cycles (must be a DAG)",
+    check: validateH9,
+  },
+  {
+    id: "H10",
+    scope: "Step",
+    severity: "hard",
+    description: "If quantity exists: quantity.value > 0",
+    checkStep: validateH10,
+  },
+  {
+    id: "H11",
+    scope: "Step",
+    severity: "hard",
+    description: "If overlay exists: overlay.priority is a number",
+    checkStep: validateH11,
+  },
+  {
+    id: "H12",
+    scope: "Build",
+    severity: "hard",
+    description: "customizationGroups[].optionId unique within build",
+    check: validateH12,
+  },
+  {
+    id: "H13",
+    scope: "Build",
+    severity: "hard",
+    description: "If validation override exists: validationOverride.reason non-empty",
+    check: validateH13,
+  },
+  {
+    id: "H14",
+    scope: "Step",
+    severity: "hard",
+    description: "Overlay predicates must not be empty (must specify at least 1 predicate)",
+    checkStep: validateH14,
+  },
+  {
+    id: "H15",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "HEAT steps",
+    description: "HEAT step requires equipment",
+    checkStep: validateH15,
+  },
+  {
+    id: "H16",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "PACKAGING steps",
+    description: "PACKAGING step requires container or packaging target",
+    checkStep: validateH16,
+  },
+  {
+    id: "H17",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "pre_service steps",
+    description: "pre_service steps require to.sublocation (where the prepped item is stored)",
+    checkStep: validateH17,
+  },
+  {
+    id: "H18",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "bulkPrep steps",
+    description: "bulkPrep=true requires prepType='pre_service'",
+    checkStep: validateH18,
+  },
+  {
+    id: "H19",
+    scope: "Build",
+    severity: "hard",
+    description: "Step conditions must reference valid customization valueIds",
+    check: validateH19,
+  },
+  {
+    id: "H20",
+    scope: "Build",
+    severity: "hard",
+    description: "Overlay predicates must reference valid customization valueIds",
+    check: validateH20,
+  },
+  {
+    id: "H21",
+    scope: "Build",
+    severity: "hard",
+    description: "MANDATORY_CHOICE groups must have minChoices and maxChoices",
+    check: validateH21,
+  },
+  {
+    id: "H22",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "HEAT steps",
+    description: "HEAT step requires time OR non-empty notes",
+    checkStep: validateH22,
+  },
+  {
+    id: "H23",
+    scope: "Build",
+    severity: "hard",
+    description: "BOM coverage required (POC-only, if BOM provided)",
+    check: (build, opts) => validateH23(build, opts.bom),
+  },
+  {
+    id: "H24",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "PORTION steps",
+    description: "PORTION step requires quantity OR non-empty notes",
+    checkStep: validateH24,
+  },
+  {
+    id: "H25",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "PREP steps",
+    description: "PREP step requires techniqueId OR non-empty notes",
+    checkStep: validateH25,
+  },
+  {
+    id: "H26",
+    scope: "Build",
+    severity: "soft",
+    description: "Graph must be connected: >75% of steps should have dependsOn (soft warning; entry points can be retrieval steps or first steps of parallel tracks)",
+    check: validateH26GraphConnectivity,
+  },
+  {
+    id: "H27",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "TRANSFER/place steps",
+    description: "TRANSFER/place requires `to`",
+    deprecated: true,
+    deprecatedReason: "TRANSFER steps are derived-only in this PoC (see H38).",
+  },
+  {
+    id: "H28",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "TRANSFER/retrieve steps",
+    description: "TRANSFER/retrieve requires `from`",
+    deprecated: true,
+    deprecatedReason: "TRANSFER steps are derived-only in this PoC (see H38).",
+  },
+  {
+    id: "H29",
+    scope: "Build",
+    severity: "strong",
+    description: "Merge steps require input[].role and exactly one base input",
+    check: validateH29MergeRoles,
+  },
+  {
+    id: "H30",
+    scope: "Build",
+    severity: "strong",
+    description: "1:1 transformations require assembly.lineage.evolvesFrom",
+    check: validateH30Lineage,
+  },
+  {
+    id: "H31",
+    scope: "Step",
+    severity: "hard",
+    description: "Assembly refs should include location details (legacy rule; see H40/H42)",
+    deprecated: true,
+    deprecatedReason: "Replaced by H40 (sublocation required) + H42 (stationId only when ambiguous).",
+  },
+  {
+    id: "C1",
+    scope: "Build",
+    severity: "hard",
+    description: "requiresBuilds must be unique and not self-referential",
+    check: validateRequiresBuildsIntegrity,
+  },
+  {
+    id: "C2",
+    scope: "Build",
+    severity: "hard",
+    description: "external_build input must be declared in requiresBuilds",
+    check: validateExternalBuildRefsDeclared,
+  },
+  {
+    id: "C3",
+    scope: "Build",
+    severity: "hard",
+    description: "in_build assembly refs must exist",
+    check: validateInBuildAssemblyRefsResolve,
+  },
+  {
+    id: "S6",
+    scope: "Build",
+    severity: "strong",
+    description: "primaryOutputAssemblyId should be set when assemblies present (warning)",
+    check: validatePrimaryOutputAssemblyIdWarning,
+  },
+  {
+    id: "S7",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "HEAT steps",
+    description: "HEAT technique should match equipment (warning)",
+  },
+  {
+    id: "S8",
+    scope: "Step",
+    severity: "soft",
+    description: "Station change without explicit transfer modeling (warning)",
+  },
+  {
+    id: "S9",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "HEAT steps",
+    description: "HEAT sublocation should be equipment(...) and match equipment.applianceId (warning)",
+    deprecated: true,
+    deprecatedReason: "Superseded by H32 + H35; sublocation now derived automatically for HEAT actions",
+  },
+  {
+    id: "S10",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "TRANSFER steps",
+    description: "TRANSFER should specify techniqueId (place/retrieve/pass/handoff) or notes (warning)",
+  },
+  {
+    id: "S11",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "TRANSFER place/retrieve steps",
+    description: "TRANSFER place/retrieve should specify endpoint stationId/sublocation shape (warning)",
+  },
+  {
+    id: "S12",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "published order_execution steps",
+    description: "Published order_execution steps should set stationId (warning)",
+  },
+  {
+    id: "S13",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "steps with stationId='pass'",
+    description: "stationId='pass' is typically only used for TRANSFER steps (warning)",
+  },
+  {
+    id: "S14",
+    scope: "Step",
+    severity: "soft",
+    description: "Technique suggests a different action family (warning)",
+  },
+  {
+    id: "S15",
+    scope: "Step",
+    severity: "soft",
+    description: "Assembly refs with stationId should also specify sublocation for precise routing (soft warning)",
+    deprecated: true,
+    deprecatedReason: "Sublocation is now derived automatically from action family and equipment",
+    check: validateS15AssemblySublocation,
+  },
+  {
+    id: "S16a",
+    scope: "Build",
+    severity: "strong",
+    description: "Grouping bouncing: build leaves a kitchen grouping (hot_side, cold_side, vending) and returns to it later (strong warning)",
+    check: validateS16aGroupingBouncing,
+  },
+  {
+    id: "S16b",
+    scope: "Build",
+    severity: "soft",
+    description: "Station bouncing: build leaves a station and returns to it later within the same grouping (soft warning)",
+    check: validateS16bStationBouncing,
+  },
+  {
+    id: "S20",
+    scope: "Step",
+    severity: "soft",
+    description: "Step has dependsOn but no input[] (work-only dependency; verify material flow)",
+    checkStep: validateS20DependsOnWithoutInput,
+  },
+  {
+    id: "S21",
+    scope: "Build",
+    severity: "soft",
+    description: "Assembly IDs should be descriptive (avoid step-based names like step3_v1)",
+    check: validateS21AssemblyNaming,
+  },
+  {
+    id: "S22",
+    scope: "Build",
+    severity: "soft",
+    description: "Material flow continuity: input location should align with producer output (warn on potential teleports)",
+    check: validateS22MaterialFlowContinuity,
+  },
+  {
+    id: "S23",
+    scope: "Step",
+    severity: "soft",
+    description: "Step inputs from a different station than it works at (transfer hidden inside the step instead of derived)",
+    checkStep: validateS23ImplicitTransfer,
+  },
+  {
+    id: "S45",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "PORTION/ASSEMBLE/COMBINE steps",
+    description: "Instruction mentions \"from X\" but output[].from is missing (tributary source)",
+    checkStep: validateS45MissingTributarySource,
+  },
+  {
+    id: "S24",
+    scope: "Build",
+    severity: "strong",
+    description: "Portioned quantity rolled up per BOM entry (units converted, multipliers applied) matches BomEntry.quantity within tolerance (strong warning)",
+    check: validateS24BomQuantityRollup,
+  },
+  {
+    id: "H32",
+    scope: "Step",
+    severity: "hard",
+    description: "Sublocation must be valid for the station (config-driven)",
+    checkStep: validateH32StationSublocationCompatibility,
+  },
+  {
+    id: "H33",
+    scope: "Step",
+    severity: "hard",
+    description: "TechniqueId must be in controlled vocabulary and match action family",
+    checkStep: validateH33TechniqueVocabulary,
+  },
+  {
+    id: "H38",
+    scope: "Step",
+    severity: "hard",
+    description: "TRANSFER steps are derived-only (authored TRANSFER not allowed)",
+    checkStep: validateH38NoAuthoredTransfer,
+  },
+  {
+    id: "H39",
+    scope: "Step",
+    severity: "hard",
+    description: "Step requires from/to locations (sublocation required; stationId only when ambiguous)",
+    deprecated: true,
+    deprecatedReason: "step.from/to no longer exist; material flow lives on assembly refs (H40).",
+  },
+  {
+    id: "H40",
+    scope: "Step",
+    severity: "hard",
+    description: "Assembly refs require locations (sublocation required; stationId only when ambiguous)",
+    checkStep: validateH40AssemblyRefLocations,
+  },
+  {
+    id: "H41",
+    scope: "Step",
+    severity: "hard",
+    description: "Steps require explicit material flow (output required)",
+    checkStep: validateH41MaterialFlow,
+  },
+  {
+    id: "H42",
+    scope: "Step",
+    severity: "hard",
+    description: "StationId required when a location is ambiguous (sublocation/equipment appears in multiple stations)",
+    checkStep: validateH42AmbiguousStation,
+  },
+  {
+    id: "H43",
+    scope: "Build",
+    severity: "hard",
+    description: "Material flow continuity required for published builds (input location must match producer output)",
+    check: validateH43MaterialFlowContinuity,
+  },
+  {
+    id: "S17",
+    scope: "Step",
+    severity: "info",
+    description: "Derived sublocation flagged for review (provenance.sublocation.type='inferred')",
+    checkStep: validateS17DerivedSublocation,
+  },
+  {
+    id: "S18",
+    scope: "Step",
+    severity: "info",
+    description: "Derived output destination flagged for review (provenance.to.type='inferred')",
+    checkStep: validateS18DerivedOutputDestination,
+  },
+  {
+    id: "S19",
+    scope: "Step",
+    severity: "soft",
+    description: "Derived sublocation may be incorrect for this action (soft warning)",
+  },
+  {
+    id: "H35",
+    scope: "Step",
+    severity: "hard",
+    description: "Equipment must be available at station (config-driven)",
+    checkStep: validateH35EquipmentAtStation,
+  },
+  {
+    id: "H36",
+    scope: "Step",
+    severity: "hard",
+    description: "Step requires stationId when step location is ambiguous (stationId can be derived when unique)",
+    checkStep: validateH36StationOrUniqueEquipment,
+  },
+  {
+    id: "H37",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "steps with shared equipment",
+    description: "Shared equipment requires explicit stationId (equipment available at multiple stations)",
+    checkStep: validateH37SharedEquipmentRequiresStation,
+  },
+  {
+    id: "H44",
+    scope: "Build",
+    severity: "hard",
+    description: "Each assembly must have exactly one producing step (multiple producers create location ambiguity)",
+    check: validateH44SingleProducer,
+  },
+  {
+    id: "H46",
+    scope: "Step",
+    severity: "hard",
+    description: "Every step has workLocation (where the action physically happens)",
+    checkStep: validateH46StepWorkLocation,
+  },
+  {
+    id: "H47",
+    scope: "Build",
+    severity: "hard",
+    description: "Track ids are unique and every step.trackId / operation.trackId resolves to build.tracks (when declared)",
+    check: validateH47TrackRefs,
+  },
+  {
+    id: "H48",
+    scope: "Build",
+    severity: "hard",
+    description: "Operation ids are unique, every step.operationId resolves to build.operations, and steps sit on the operation's track",
+    check: validateH48OperationRefs,
+  },
+  {
+    id: "H49",
+    scope: "Build",
+    severity: "hard",
+    description: "Quantity units are known (canonical or alias), multiplier quantities use count units, and step units convert to the targeted BOM entry's unit",
+    check: validateH49QuantityUnits,
+  },
+  {
+    id: "H50",
+    scope: "Step",
+    severity: "hard",
+    appliesTo: "steps with a spoodle toolId",
+    description: "Spoodle portions are a whole number of scoops of the spoodle used (e.g. spoodle_2oz cannot portion 3 oz)",
+    checkStep: validateH50SpoodlePortion,
+  },
+  {
+    id: "S25",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "steps with equipment and time (incl. overlay overrides)",
+    description: "Cook time falls inside the appliance's typical range (validation.config equipmentTimeRanges)",
+    checkStep: validateS25CookTimeRange,
+  },
+  {
+    id: "S26",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "steps with a configured toolId",
+    description: "Tool is typical for the step's action family (tools.config typicalActionFamilies)",
+    checkStep: validateS26ToolForActionFamily,
+  },
+  {
+    id: "S27",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "steps with a configured toolId and stationId",
+    description: "Tool is typically available on the station's side (tools.config typicalSides)",
+    checkStep: validateS27ToolForStationSide,
+  },
+  {
+    id: "S28",
+    scope: "Step",
+    severity: "soft",
+    appliesTo: "steps with a configured toolId and a techniqueId that lists typicalTools",
+    description: "Tool is one of the technique's typicalTools (techniques.config)",
+    checkStep: validateS28ToolForTechnique,
+  },
+  {
+    id: "P1",
+    scope: "Portfolio",
+    severity: "hard",
+    description: "At most one published build per itemId",
+    checkPortfolio: validateP1SinglePublishedBuild,
+  },
+  {
+    id: "P2",
+    scope: "Portfolio",
+    severity: "hard",
+    description: "No requiresBuilds cycles across items",
+    checkPortfolio: validateP2RequiresBuildsCycles,
+  },
+  {
+    id: "P3",
+    scope: "Portfolio",
+    severity: "hard",
+    appliesTo: "requiresBuilds entries and external_build refs",
+    description: "Referenced items have a build in the portfolio (a published one for version latest_published)",
+    checkPortfolio: validateP3ReferencedItemsExist,
+  },
+  {
+    id: "P4",
+    scope: "Portfolio",
+    severity: "hard",
+    appliesTo: "external_build refs with an assemblyId",
+    description: "external_build assemblyId names an assembly of the referenced item's build",
+    checkPortfolio: validateP4ExternalAssemblyRefsResolve,
+  },
+  {
+    id: "P5",
+    scope: "Portfolio",
+    severity: "soft",
+    appliesTo: "non-excluded PORTION steps targeting a BOM component (published or latest build per item)",
+    description: "The same BOM component is portioned with the same tool and quantity in every item",
+    checkPortfolio: validateP5PortioningConsistency,
+  },
+  {
+    id: "F1",
+    scope: "Hdr",
+    severity: "hard",
+    appliesTo: "steps using pod-tracked appliances",
+    description: "Every appliance the build uses is installed in at least one pod of the HDR",
+    checkHdr: validateF1EquipmentInHdr,
+  },
+  {
+    id: "F2",
+    scope: "Hdr",
+    severity: "hard",
+    description: "Every station the build uses maps to a pod (stationLocations, primary equipment or stationPodDefaults)",
+    checkHdr: validateF2StationPodMapping,
+  },
+  {
+    id: "F3",
+    scope: "Hdr",
+    severity: "soft",
+    description: "Material flow stays within a pod (no derived inter_pod transfers under the HDR, except handoffs to expo)",
+    checkHdr: validateF3InterPodTransfers,
+  },
+];
+
+const RULE_BY_ID = new Map(RULE_REGISTRY.map((r) => [r.id, r]));
+
+export function getRuleDefinition(id: string): RuleDefinition | undefined {
+  return RULE_BY_ID.get(id);
+}
+
+export function isRuleImplemented(rule: RuleDefinition): boolean {
+  return (
+    rule.check !== undefined ||
+    rule.checkStep !== undefined ||
+    rule.checkPortfolio !== undefined ||
+    rule.checkHdr !== undefined
+  );
+}
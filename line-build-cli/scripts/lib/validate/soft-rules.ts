@@ -11,6 +11,7 @@ import {
   type ValidationError,
   getOrderedSteps,
 } from "./helpers";
+import { rollupBomUsage } from "../bomUsage";
 
 /**
  * Soft and strong warning validation rules (S6-S22, H26, H29-H31).
@@ -731,3 +732,31 @@ export function validateS45MissingTributarySource(step: Step): ValidationError[]
     },
   ];
 }
+
+// -----------------------------
+// S24: BOM Quantity Reconciliation (Strong Warning)
+// -----------------------------
+
+/**
+ * S24: the quantity portioned into each BOM entry (summed across steps that
+ * target it, see bomUsage.ts) matches BomEntry.quantity within tolerance.
+ * Extends H23 from "is it referenced" to "is the right amount used".
+ */
+export function validateS24BomQuantityRollup(build: BenchTopLineBuild): ValidationError[] {
+  const report = rollupBomUsage(build, { tolerance: VALIDATION_CONFIG.bomQuantityTolerance });
+  const warnings: ValidationError[] = [];
+  for (const row of report.rows) {
+    if (row.status !== "over" && row.status !== "under" && row.status !== "incompatible") continue;
+    const detail = row.status === "incompatible"
+      ? row.issues.join("; ")
+      : `${row.used} ${row.unit} portioned vs ${row.expected!.value} ${row.expected!.unit} expected (${Math.round(row.ratio! * 100)}%)`;
+    warnings.push({
+      severity: "strong",
+      ruleId: "S24",
+      message: `S24: BOM '${row.bomUsageId}' (${row.name}) is ${row.status === "incompatible" ? "not reconcilable" : `${row.status}-portioned`}: ${detail}`,
+      stepId: row.contributions[0]?.stepId,
+      fieldPath: "quantity",
+    });
+  }
+  return warnings;
+}
@@ -1,7 +1,13 @@
 import * as path from "node:path";
 
 import type { BenchTopLineBuild } from "./schema";
-import type { BuildValidationResult, ValidationError } from "./validate";
+import type {
+  BuildValidationResult,
+  PortfolioFinding,
+  PortfolioValidationResult,
+  SuppressedFinding,
+  ValidationError,
+} from "./validate";
 import { VALIDATION_DIR_ABS, atomicWriteJsonFile } from "./store";
 
 /**
@@ -12,15 +18,20 @@ import { VALIDATION_DIR_ABS, atomicWriteJsonFile } from "./store";
  *
  * Writes:
  * - poc/line-build-cli/data/validation/<buildId>.latest.json
+ * - poc/line-build-cli/data/validation/portfolio/latest.json (`lb validate --portfolio`)
  */
 
 export type ValidationOutput = {
   buildId: string;
   itemId: string;
   timestamp: string; // ISO-8601
+  /** Validation profile the findings were evaluated under (see VALIDATION_PROFILES). */
+  profile?: string;
   valid: boolean;
   hardErrors: ValidationError[];
   warnings: ValidationError[];
+  /** Findings removed by approved validationOverrides (listed for review, never blocking). */
+  suppressed?: SuppressedFinding[];
   metrics?: Record<string, unknown>;
 };
 
@@ -37,9 +48,11 @@ export function buildValidationOutput(
     buildId: build.id,
     itemId: build.itemId,
     timestamp,
+    profile: result.profile,
     valid: result.valid,
     hardErrors: result.hardErrors,
     warnings: result.warnings,
+    suppressed: result.suppressed,
     metrics: result.metrics,
   };
 }
@@ -55,3 +68,33 @@ export async function writeValidationOutput(
   return { output, filePathAbs };
 }
 
+
+export type PortfolioValidationOutput = {
+  timestamp: string; // ISO-8601
+  profile?: string;
+  buildCount: number;
+  valid: boolean;
+  hardErrors: PortfolioFinding[];
+  warnings: PortfolioFinding[];
+};
+
+export function portfolioValidationFilePathAbs(): string {
+  return path.join(VALIDATION_DIR_ABS, "portfolio", "latest.json");
+}
+
+export async function writePortfolioValidationOutput(
+  result: PortfolioValidationResult,
+  timestamp: string = new Date().toISOString(),
+): Promise<{ output: PortfolioValidationOutput; filePathAbs: string }> {
+  const output: PortfolioValidationOutput = {
+    timestamp,
+    profile: result.profile,
+    buildCount: result.buildCount,
+    valid: result.valid,
+    hardErrors: result.hardErrors,
+    warnings: result.warnings,
+  };
+  const filePathAbs = portfolioValidationFilePathAbs();
+  await atomicWriteJsonFile(filePathAbs, output);
+  return { output, filePathAbs };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { buildSarifLog, findingJsonPointer, renderJUnitXml, type SarifResult, type ValidationReportEntry } from "./validationReports";
+import type { BuildValidationResult } from "./validate";
+
+const DOC = {
+  id: "b1",
+  steps: [
+    { id: "s1", stationId: "garnish" },
+    { id: "s2", input: [{ source: { type: "in_build", assemblyId: "a1" }, from: { sublocation: { type: "work_surface" } } }] },
+  ],
+  assemblies: [{ id: "a1" }],
+};
+
+function result(partial: Partial<BuildValidationResult>): BuildValidationResult {
+  return { valid: true, hardErrors: [], warnings: [], infos: [], ...partial };
+}
+
+function entry(validation: BuildValidationResult): ValidationReportEntry {
+  return {
+    buildId: "b1",
+    uri: "data/line-builds/b1.json",
+    document: DOC,
+    fileText: `${JSON.stringify(DOC, null, 2)}\n`,
+    validation,
+  };
+}
+
+describe("findingJsonPointer", () => {
+  it("resolves stepId + fieldPath to the deepest existing node", () => {
+    expect(findingJsonPointer(DOC, { stepId: "s2", fieldPath: "input[0].from.stationId" })).toBe("/steps/1/input/0/from");
+    expect(findingJsonPointer(DOC, { stepId: "s2", fieldPath: "input[].role" })).toBe("/steps/1/input");
+    expect(findingJsonPointer(DOC, { stepId: "s1", fieldPath: "time|notes" })).toBe("/steps/0");
+    expect(findingJsonPointer(DOC, { stepId: "s1", fieldPath: "steps[].dependsOn" })).toBe("/steps/0");
+  });
+
+  it("roots build-level paths at the document", () => {
+    expect(findingJsonPointer(DOC, { fieldPath: "assemblies[].id" })).toBe("/assemblies");
+    expect(findingJsonPointer(DOC, { stepId: "s1", fieldPath: "assemblies" })).toBe("/assemblies");
+    expect(findingJsonPointer(DOC, { fieldPath: "primaryOutputAssemblyId" })).toBe("");
+  });
+});
+
+describe("report formats", () => {
+  const validation = result({
+    valid: false,
+    hardErrors: [{ severity: "hard", ruleId: "H8", message: "H8: dependsOn <missing>", stepId: "s2", fieldPath: "input[0].from" }],
+    warnings: [{ severity: "soft", ruleId: "S20", message: "S20: no input", stepId: "s1" }],
+  });
+
+  it("emits SARIF results with rule metadata, pointers and line numbers", () => {
+    const run = buildSarifLog([entry(validation)]).runs[0]!;
+    const [hard, soft] = run.results as [SarifResult, SarifResult];
+    expect(run.tool.driver.rules[hard.ruleIndex!]!.id).toBe("H8");
+    expect(hard.level).toBe("error");
+    expect(hard.properties.jsonPointer).toBe("/steps/1/input/0/from");
+    // Line of `"from": {` in the pretty-printed file.
+    const lines = entry(validation).fileText!.split("\n");
+    expect(lines[hard.locations[0]!.physicalLocation.region!.startLine - 1]).toContain('"from"');
+    expect(soft.level).toBe("warning");
+  });
+
+  it("emits JUnit failures for hard findings only", () => {
+    const xml = renderJUnitXml([entry(validation)]);
+    expect(xml).toContain('<testsuite name="b1" tests="2" failures="1" errors="0">');
+    expect(xml).toContain('<failure type="hard" message="H8: dependsOn &lt;missing&gt;">');
+    expect(xml).toContain("<system-out>[soft] S20: no input at /steps/0");
+  });
+});
@@ -0,0 +1,322 @@
+import type { ValidationSeverity } from "./schema";
+import { getRuleById, VALIDATION_RULES } from "./rules";
+import type { BuildValidationResult, ValidationError } from "./validate";
+
+/**
+ * SARIF 2.1.0 and JUnit XML renderings of validation results
+ * (`lb validate --format sarif|junit`).
+ *
+ * Each finding is located with a JSON pointer into the build file, resolved
+ * from stepId (-> /steps/<index>) and fieldPath. fieldPath segments that name
+ * no single node ("input[].role", "time|notes") or do not exist in the file
+ * stop the walk, so the pointer is always the deepest node that exists.
+ * When the file text uses the CLI's own layout (JSON.stringify(..., 2)) the
+ * pointer is also mapped to a line number for inline annotations.
+ */
+
+export type ValidationReportEntry = {
+  buildId: string;
+  /** Build file path as it should appear in the report (repo-relative, forward slashes). */
+  uri: string;
+  /** Parsed build JSON the pointers resolve against. */
+  document: unknown;
+  /** Raw file text; enables line numbers when it matches the CLI layout. */
+  fileText?: string;
+  validation: BuildValidationResult;
+};
+
+// -----------------------------
+// JSON pointers
+// -----------------------------
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(v: unknown): v is JsonObject {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/** "input[0].from.stationId" -> ["input", "0", "from", "stationId"]; stops at "[]" and "a|b". */
+function fieldPathSegments(fieldPath: string): string[] {
+  const segments: string[] = [];
+  for (const part of fieldPath.split(".")) {
+    const m = /^([^[\]|]+)((?:\[\d+\])*)(\[\])?$/.exec(part);
+    if (!m) break;
+    segments.push(m[1]!);
+    for (const idx of m[2]!.matchAll(/\[(\d+)\]/g)) segments.push(idx[1]!);
+    if (m[3]) break;
+  }
+  return segments;
+}
+
+function child(node: unknown, segment: string): unknown {
+  if (Array.isArray(node)) return /^\d+$/.test(segment) ? node[Number(segment)] : undefined;
+  return isObject(node) ? node[segment] : undefined;
+}
+
+function walk(root: unknown, base: string[], segments: string[]): string[] {
+  let node = base.reduce<unknown>((n, s) => child(n, s), root);
+  const out = [...base];
+  for (const segment of segments) {
+    const next = child(node, segment);
+    if (next === undefined) break;
+    out.push(segment);
+    node = next;
+  }
+  return out;
+}
+
+/**
+ * JSON pointer (RFC 6901) for a finding within the build document.
+ * Step-relative fieldPaths that do not exist on the step fall back to the build root
+ * ("steps[].dependsOn" on a step finding resolves under that step).
+ */
+export function findingJsonPointer(document: unknown, err: Pick<ValidationError, "stepId" | "fieldPath">): string {
+  let segments = err.fieldPath ? fieldPathSegments(err.fieldPath) : [];
+  let base: string[] = [];
+
+  if (err.stepId) {
+    const steps = child(document, "steps");
+    const stepList: unknown[] = Array.isArray(steps) ? steps : [];
+    const index = stepList.findIndex((s) => isObject(s) && s.id === err.stepId);
+    if (index !== -1) {
+      base = ["steps", String(index)];
+      const first = segments[0];
+      if (first === "steps") segments = segments.slice(1);
+      else if (first && child(stepList[index], first) === undefined && child(document, first) !== undefined) base = [];
+    }
+  }
+
+  const resolved = walk(document, base, segments);
+  return resolved.length === 0 ? "" : `/${resolved.map(escapePointerSegment).join("/")}`;
+}
+
+/**
+ * Line (1-based) of every pointer in `JSON.stringify(document, null, 2)`.
+ */
+function indexJsonLines(document: unknown): Map<string, number> {
+  const lines = new Map<string, number>();
+  const visit = (value: unknown, pointer: string, line: number): number => {
+    lines.set(pointer, line);
+    const entries: Array<[string, unknown]> = Array.isArray(value)
+      ? value.map((v, i) => [String(i), v])
+      : isObject(value)
+        ? Object.entries(value)
+        : [];
+    if (entries.length === 0) return line;
+    let current = line;
+    for (const [key, v] of entries) current = visit(v, `${pointer}/${escapePointerSegment(key)}`, current + 1);
+    return current + 1;
+  };
+  visit(JSON.parse(JSON.stringify(document)), "", 1);
+  return lines;
+}
+
+function lineIndexFor(entry: ValidationReportEntry): Map<string, number> | undefined {
+  if (entry.fileText === undefined) return undefined;
+  if (entry.fileText.trimEnd() !== JSON.stringify(entry.document, null, 2)) return undefined;
+  return indexJsonLines(entry.document);
+}
+
+type LocatedFinding = ValidationError & {
+  pointer: string;
+  line?: number;
+  suppression?: { overrideId: string; reason: string };
+};
+
+function locateFindings(entry: ValidationReportEntry): LocatedFinding[] {
+  const lineIndex = lineIndexFor(entry);
+  const locate = (err: ValidationError): LocatedFinding => {
+    const pointer = findingJsonPointer(entry.document, err);
+    return { ...err, pointer, line: lineIndex?.get(pointer) };
+  };
+  const v = entry.validation;
+  return [
+    ...[...v.hardErrors, ...v.warnings, ...v.infos].map(locate),
+    ...(v.suppressed ?? []).map((s) => ({ ...locate(s), suppression: { overrideId: s.overrideId, reason: s.reason } })),
+  ];
+}
+
+// -----------------------------
+// SARIF
+// -----------------------------
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+type SarifLevel = "error" | "warning" | "note";
+
+/** The subset of SARIF 2.1.0 that buildSarifLog emits. */
+export type SarifLog = {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+};
+
+export type SarifRun = {
+  tool: { driver: { name: string; rules: SarifRule[] } };
+  artifacts: Array<{ location: { uri: string } }>;
+  results: SarifResult[];
+  properties: { profile?: string };
+};
+
+export type SarifRule = {
+  id: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  defaultConfiguration: { level: SarifLevel; enabled: boolean };
+  properties: { scope: string; severity: ValidationSeverity };
+};
+
+export type SarifResult = {
+  ruleId: string;
+  ruleIndex?: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: { artifactLocation: { uri: string }; region?: { startLine: number } };
+    logicalLocations: Array<{ fullyQualifiedName: string; kind: string }>;
+  }>;
+  suppressions?: Array<{ kind: "external"; justification: string; properties: { overrideId: string } }>;
+  properties: { buildId: string; severity: ValidationSeverity; jsonPointer: string; stepId?: string; fieldPath?: string };
+};
+
+function sarifLevel(severity: ValidationSeverity): SarifLevel {
+  switch (severity) {
+    case "hard":
+      return "error";
+    case "strong":
+    case "soft":
+      return "warning";
+    case "info":
+      return "note";
+  }
+}
+
+export function buildSarifLog(entries: ValidationReportEntry[]): SarifLog {
+  const rules = VALIDATION_RULES.map((r): SarifRule => ({
+    id: r.id,
+    shortDescription: { text: r.description },
+    ...(r.appliesTo ? { fullDescription: { text: `${r.description} (applies to: ${r.appliesTo})` } } : {}),
+    defaultConfiguration: { level: sarifLevel(r.severity), enabled: !r.deprecated && r.implemented },
+    properties: { scope: r.scope, severity: r.severity },
+  }));
+  const ruleIndex = new Map(rules.map((r, i) => [r.id, i]));
+
+  const results = entries.flatMap((entry) =>
+    locateFindings(entry).map((f): SarifResult => ({
+      ruleId: f.ruleId,
+      ...(ruleIndex.has(f.ruleId) ? { ruleIndex: ruleIndex.get(f.ruleId) } : {}),
+      level: sarifLevel(f.severity),
+      message: { text: f.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: entry.uri },
+            ...(f.line !== undefined ? { region: { startLine: f.line } } : {}),
+          },
+          logicalLocations: [{ fullyQualifiedName: `${entry.buildId}#${f.pointer}`, kind: "element" }],
+        },
+      ],
+      ...(f.suppression
+        ? { suppressions: [{ kind: "external", justification: f.suppression.reason, properties: { overrideId: f.suppression.overrideId } }] }
+        : {}),
+      properties: {
+        buildId: entry.buildId,
+        severity: f.severity,
+        jsonPointer: f.pointer,
+        ...(f.stepId ? { stepId: f.stepId } : {}),
+        ...(f.fieldPath ? { fieldPath: f.fieldPath } : {}),
+      },
+    })),
+  );
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: "lb validate", rules } },
+        artifacts: entries.map((e) => ({ location: { uri: e.uri } })),
+        results,
+        properties: { profile: entries[0]?.validation.profile },
+      },
+    ],
+  };
+}
+
+// -----------------------------
+// JUnit
+// -----------------------------
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function findingLine(f: LocatedFinding): string {
+  const where = `${f.pointer || "/"}${f.line !== undefined ? ` (line ${f.line})` : ""}`;
+  return `[${f.severity}] ${f.message} at ${where}`;
+}
+
+/**
+ * One <testsuite> per build and one <testcase> per rule that reported findings.
+ * Hard findings fail the case; warnings and infos are listed in <system-out>.
+ * A build with no findings gets a single passing "validate" case.
+ */
+export function renderJUnitXml(entries: ValidationReportEntry[]): string {
+  const suites = entries.map((entry) => {
+    const findings = locateFindings(entry).filter((f) => !f.suppression);
+    const byRule = new Map<string, LocatedFinding[]>();
+    for (const f of findings) byRule.set(f.ruleId, [...(byRule.get(f.ruleId) ?? []), f]);
+
+    const cases = [...byRule.entries()].map(([ruleId, list]) => {
+      const rule = getRuleById(ruleId);
+      const name = escapeXml(rule ? `${ruleId}: ${rule.description}` : ruleId);
+      const hard = list.filter((f) => f.severity === "hard");
+      const other = list.filter((f) => f.severity !== "hard");
+      const lines = [`    <testcase classname="${escapeXml(`lb.validate.${entry.buildId}`)}" name="${name}" file="${escapeXml(entry.uri)}">`];
+      if (hard.length > 0) {
+        lines.push(
+          `      <failure type="hard" message="${escapeXml(hard[0]!.message)}">${escapeXml(hard.map(findingLine).join("\n"))}</failure>`,
+        );
+      }
+      if (other.length > 0) lines.push(`      <system-out>${escapeXml(other.map(findingLine).join("\n"))}</system-out>`);
+      lines.push("    </testcase>");
+      return { failed: hard.length > 0, xml: lines.join("\n") };
+    });
+    if (cases.length === 0) {
+      cases.push({
+        failed: false,
+        xml: `    <testcase classname="${escapeXml(`lb.validate.${entry.buildId}`)}" name="validate" file="${escapeXml(entry.uri)}"/>`,
+      });
+    }
+
+    const failures = cases.filter((c) => c.failed).length;
+    return {
+      tests: cases.length,
+      failures,
+      xml: [
+        `  <testsuite name="${escapeXml(entry.buildId)}" tests="${cases.length}" failures="${failures}" errors="0">`,
+        ...cases.map((c) => c.xml),
+        "  </testsuite>",
+      ].join("\n"),
+    };
+  });
+
+  const tests = suites.reduce((n, s) => n + s.tests, 0);
+  const failures = suites.reduce((n, s) => n + s.failures, 0);
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="lb validate" tests="${tests}" failures="${failures}" errors="0">`,
+    ...suites.map((s) => s.xml),
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
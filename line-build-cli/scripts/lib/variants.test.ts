@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { ActionFamily, type BenchTopLineBuild, type CustomizationGroup, type Step } from "./schema";
+import {
+  buildVariantMatrix,
+  countCustomizationCombinations,
+  enumerateCustomizationCombinations,
+  enumerateGroupSelections,
+} from "./variants";
+
+const LOC = { stationId: "garnish" as const, sublocation: { type: "work_surface" as const } };
+
+function step(id: string, orderIndex: number, partial: Partial<Step> = {}): Step {
+  return {
+    id,
+    orderIndex,
+    action: { family: ActionFamily.PREP, techniqueId: "open_pack" },
+    stationId: "garnish",
+    workLocation: { type: "work_surface" },
+    input: [],
+    output: [{ source: { type: "in_build", assemblyId: `out_${id}` }, to: LOC }],
+    ...partial,
+  };
+}
+
+const SAUCE: CustomizationGroup = { optionId: "sauce", type: "MANDATORY_CHOICE", valueIds: ["bbq", "ranch"] };
+const TOPPINGS: CustomizationGroup = {
+  optionId: "toppings",
+  type: "OPTIONAL_ADDITION",
+  maxChoices: 2,
+  valueIds: ["sour_cream", "chives", "bacon"],
+};
+
+describe("customization enumeration", () => {
+  it("defaults MANDATORY_CHOICE to exactly one value", () => {
+    expect(enumerateGroupSelections(SAUCE)).toEqual([["bbq"], ["ranch"]]);
+  });
+
+  it("respects maxChoices and includes the empty selection for optional groups", () => {
+    const selections = enumerateGroupSelections(TOPPINGS);
+    expect(selections).toHaveLength(7);
+    expect(selections[0]).toEqual([]);
+    expect(selections.every((s) => s.length <= 2)).toBe(true);
+  });
+
+  it("counts the cartesian product without materializing it", () => {
+    const groups = [SAUCE, TOPPINGS];
+    expect(countCustomizationCombinations(groups)).toBe(14);
+    expect([...enumerateCustomizationCombinations(groups)]).toHaveLength(14);
+  });
+});
+
+describe("buildVariantMatrix", () => {
+  it("resolves and scores each variant and reports worst/best case", () => {
+    const build: BenchTopLineBuild = {
+      id: "build-1",
+      itemId: "item-1",
+      version: 1,
+      status: "draft",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      customizationGroups: [{ optionId: "extras", type: "OPTIONAL_ADDITION", valueIds: ["chives"] }],
+      steps: [
+        step("base", 1),
+        step("chives", 2, { conditions: { requiresCustomizationValueIds: ["chives"] }, dependsOn: ["base"] }),
+      ],
+    };
+
+    const matrix = buildVariantMatrix(build);
+    expect(matrix.totalCombinations).toBe(2);
+    expect(matrix.truncated).toBe(false);
+    expect(matrix.variants.map((v) => v.stepCount)).toEqual([1, 2]);
+    expect(matrix.worstCase?.scenario.customizationValueIds).toEqual(["chives"]);
+    expect(matrix.bestCase?.scenario.customizationValueIds).toEqual([]);
+
+    const limited = buildVariantMatrix(build, { limit: 1 });
+    expect(limited.variants).toHaveLength(1);
+    expect(limited.truncated).toBe(true);
+  });
+});
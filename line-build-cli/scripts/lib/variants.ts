@@ -0,0 +1,183 @@
+import type { BenchTopLineBuild, CustomizationGroup } from "./schema";
+import { validateBuild, type ValidateBuildOptions } from "./validate";
+import { scoreBuild, type ScoreReport } from "./complexity";
+import { resolveBuild, collectEquipmentProfileIds, formatScenarioLabel, type Scenario } from "./resolve";
+
+/**
+ * Customization variant matrix.
+ *
+ * Enumerates every combination of customization values allowed by the build's
+ * customizationGroups (respecting minChoices/maxChoices), crossed with the
+ * equipment profiles the build references, resolves each scenario and runs
+ * validation + complexity scoring on the result.
+ *
+ * Group choice limits:
+ * - MANDATORY_CHOICE defaults to exactly one value (min 1, max 1)
+ * - every other type defaults to min 0, max valueIds.length
+ */
+
+export const DEFAULT_VARIANT_LIMIT = 256;
+
+export type VariantResult = {
+  variantId: string;
+  scenario: Scenario;
+  label: string;
+  stepCount: number;
+  removedStepCount: number;
+  valid: boolean;
+  hardErrorCount: number;
+  warningCount: number;
+  /** Distinct rule IDs among hard errors (for spotting the broken combo quickly). */
+  hardErrorRuleIds: string[];
+  rawScore: number;
+  normalizedScore: ScoreReport["normalizedScore"];
+  rating: ScoreReport["rating"];
+};
+
+export type VariantMatrix = {
+  buildId: string;
+  equipmentProfileIds: string[];
+  /** Number of combinations allowed by the group limits (before applying the limit). */
+  totalCombinations: number;
+  truncated: boolean;
+  variants: VariantResult[];
+  invalidCount: number;
+  worstCase?: VariantResult;
+  bestCase?: VariantResult;
+};
+
+export type VariantMatrixOptions = {
+  /** Restrict to a single equipment profile instead of every referenced profile. */
+  equipmentProfileId?: string;
+  /** Maximum number of variants to resolve (default DEFAULT_VARIANT_LIMIT). */
+  limit?: number;
+  bom?: ValidateBuildOptions["bom"];
+};
+
+export function getGroupChoiceLimits(group: CustomizationGroup): { min: number; max: number } {
+  const size = group.valueIds?.length ?? 0;
+  const mandatory = group.type === "MANDATORY_CHOICE";
+  const min = Math.max(0, Math.min(group.minChoices ?? (mandatory ? 1 : 0), size));
+  const max = Math.max(min, Math.min(group.maxChoices ?? (mandatory ? 1 : size), size));
+  return { min, max };
+}
+
+function subsetsOfSize(values: string[], size: number): string[][] {
+  if (size === 0) return [[]];
+  const out: string[][] = [];
+  const walk = (start: number, current: string[]) => {
+    if (current.length === size) { out.push([...current]); return; }
+    for (let i = start; i <= values.length - (size - current.length); i++) {
+      current.push(values[i]!);
+      walk(i + 1, current);
+      current.pop();
+    }
+  };
+  walk(0, []);
+  return out;
+}
+
+/**
+ * Every valid selection for a single group, in ascending size order.
+ */
+export function enumerateGroupSelections(group: CustomizationGroup): string[][] {
+  const values = Array.from(new Set(group.valueIds ?? []));
+  const { min, max } = getGroupChoiceLimits(group);
+  const out: string[][] = [];
+  for (let size = min; size <= max; size++) out.push(...subsetsOfSize(values, size));
+  return out;
+}
+
+function binomial(n: number, k: number): number {
+  let r = 1;
+  for (let i = 1; i <= k; i++) r = (r * (n - k + i)) / i;
+  return Math.round(r);
+}
+
+/**
+ * Count combinations without materializing them (the product can be huge).
+ */
+export function countCustomizationCombinations(groups: CustomizationGroup[]): number {
+  let total = 1;
+  for (const g of groups) {
+    const n = new Set(g.valueIds ?? []).size;
+    const { min, max } = getGroupChoiceLimits(g);
+    let count = 0;
+    for (let size = min; size <= max; size++) count += binomial(n, size);
+    total *= count;
+  }
+  return total;
+}
+
+/**
+ * Lazily yields the cartesian product of group selections.
+ */
+export function* enumerateCustomizationCombinations(groups: CustomizationGroup[]): Generator<string[]> {
+  const perGroup = groups.map(enumerateGroupSelections);
+  if (perGroup.some((s) => s.length === 0)) return;
+
+  const indices = perGroup.map(() => 0);
+  while (true) {
+    yield perGroup.flatMap((selections, g) => selections[indices[g]!]!);
+    let g = perGroup.length - 1;
+    while (g >= 0 && indices[g] === perGroup[g]!.length - 1) { indices[g] = 0; g -= 1; }
+    if (g < 0) return;
+    indices[g]! += 1;
+  }
+}
+
+function compareByScore(a: VariantResult, b: VariantResult): number {
+  return a.rawScore - b.rawScore || a.variantId.localeCompare(b.variantId);
+}
+
+export function buildVariantMatrix(build: BenchTopLineBuild, opts: VariantMatrixOptions = {}): VariantMatrix {
+  const limit = opts.limit ?? DEFAULT_VARIANT_LIMIT;
+  const groups = build.customizationGroups ?? [];
+
+  const profiles: (string | undefined)[] = opts.equipmentProfileId
+    ? [opts.equipmentProfileId]
+    : collectEquipmentProfileIds(build);
+  if (profiles.length === 0) profiles.push(undefined);
+
+  const totalCombinations = countCustomizationCombinations(groups) * profiles.length;
+  const variants: VariantResult[] = [];
+
+  outer: for (const equipmentProfileId of profiles) {
+    for (const customizationValueIds of enumerateCustomizationCombinations(groups)) {
+      if (variants.length >= limit) break outer;
+
+      const scenario: Scenario = { equipmentProfileId, customizationValueIds };
+      const resolution = resolveBuild(build, scenario);
+      const validation = validateBuild(resolution.build, { bom: opts.bom });
+      const score = scoreBuild(resolution.build);
+
+      variants.push({
+        variantId: `v${variants.length + 1}`,
+        scenario,
+        label: formatScenarioLabel(scenario),
+        stepCount: resolution.build.steps.length,
+        removedStepCount: resolution.removedSteps.length,
+        valid: validation.valid,
+        hardErrorCount: validation.hardErrors.length,
+        warningCount: validation.warnings.length,
+        hardErrorRuleIds: Array.from(new Set(validation.hardErrors.map((e) => e.ruleId))).sort(),
+        rawScore: score.rawScore,
+        normalizedScore: score.normalizedScore,
+        rating: score.rating,
+      });
+    }
+  }
+
+  const ranked = [...variants].sort(compareByScore);
+
+  return {
+    buildId: build.id,
+    equipmentProfileIds: profiles.filter((p): p is string => p !== undefined),
+    totalCombinations,
+    truncated: variants.length < totalCombinations,
+    variants,
+    invalidCount: variants.filter((v) => !v.valid).length,
+    worstCase: ranked[ranked.length - 1],
+    bestCase: ranked[0],
+  };
+}
@@ -2,9 +2,12 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { NextResponse } from "next/server";
 import { resolveBuildsDir, resolveDerivedDir } from "@/lib/dataPaths";
+import { etagHeader } from "@/lib/etag";
 import { getDerivedTransfersSync } from "../../../../../../scripts/lib/derivedCache";
-import { computeBuildSourceHash } from "../../../../../../scripts/lib/hash";
+import { computeBuildContentHash, computeBuildSourceHash } from "../../../../../../scripts/lib/hash";
 import { atomicWriteJsonFile } from "../../../../../../scripts/lib/fileUtils";
+import { parseBuild } from "../../../../../../scripts/lib/schema";
+import { expandBuild, loadStoreCatalog } from "../../../../../../scripts/lib/composition";
 
 export const dynamic = "force-dynamic";
 
@@ -59,15 +62,40 @@ async function computeAndCacheDerivedTransfers(build: any): Promise<unknown[]> {
   return transfers;
 }
 
+/**
+ * Expand requiresBuilds into a composite build (?expand=1).
+ * Composite builds are not cached; transfers are derived on every request.
+ */
+async function loadExpandedBuild(build: unknown) {
+  const expansion = await expandBuild(parseBuild(build), await loadStoreCatalog());
+  return {
+    ...expansion.build,
+    derivedTransfers: getDerivedTransfersSync(expansion.build),
+    composition: {
+      components: expansion.components,
+      unresolved: expansion.unresolved,
+      cycles: expansion.cycles,
+      links: expansion.links,
+    },
+  };
+}
+
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: { buildId: string } }
 ) {
   const { buildId } = params;
+  const expand = new URL(request.url).searchParams.get("expand") === "1";
   try {
     // Load the authored build
     const raw = await fs.readFile(path.join(BUILDS_DIR, `${buildId}.json`), "utf8");
     const build = JSON.parse(raw);
+    // Content hash of the file as stored; CLI writers accept it as --if-match.
+    const headers = { ETag: etagHeader(computeBuildContentHash(build)) };
+
+    if (expand) {
+      return NextResponse.json(await loadExpandedBuild(build), { headers });
+    }
 
     // Try to load derived transfers from cache
     let derivedTransfers = await loadDerivedTransfers(buildId);
@@ -79,7 +107,7 @@ export async function GET(
     
     build.derivedTransfers = derivedTransfers;
 
-    return NextResponse.json(build);
+    return NextResponse.json(build, { headers });
   } catch (err) {
     if ((err as NodeJS.ErrnoException).code === "ENOENT") {
       return NextResponse.json({ error: "Build not found" }, { status: 404 });
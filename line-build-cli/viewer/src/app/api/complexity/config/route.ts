@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { resolveLocksDir } from "@/lib/dataPaths";
+import { etagHeader, ifMatchHash } from "@/lib/etag";
 
 // Import from the CLI's complexity module (relative to viewer)
 import {
@@ -8,24 +10,30 @@ import {
   hasJsonConfigOverride,
 } from "../../../../../../scripts/lib/complexity/config";
 
+import { computeValueHash } from "../../../../../../scripts/lib/hash";
+import { LockTimeoutError, withLock } from "../../../../../../scripts/lib/lock";
+
 import { DEFAULT_COMPLEXITY_CONFIG } from "../../../../../../config/complexity.config";
 
 export const dynamic = "force-dynamic";
 
 /**
  * GET /api/complexity/config
- * Returns the current complexity config.
+ * Returns the current complexity config, with an ETag (content hash of config).
  */
 export async function GET() {
   try {
     const config = loadComplexityConfig();
     const hasOverride = hasJsonConfigOverride();
 
-    return NextResponse.json({
-      config,
-      hasOverride,
-      defaults: DEFAULT_COMPLEXITY_CONFIG,
-    });
+    return NextResponse.json(
+      {
+        config,
+        hasOverride,
+        defaults: DEFAULT_COMPLEXITY_CONFIG,
+      },
+      { headers: { ETag: etagHeader(computeValueHash(config)) } }
+    );
   } catch (err) {
     console.error("Error loading complexity config:", err);
     return NextResponse.json(
@@ -40,35 +48,60 @@ export async function GET() {
  * Save updated complexity config.
  *
  * Body: { config: ComplexityConfig } | { reset: true }
+ * An If-Match header (ETag from GET) rejects the save with 412 when the config
+ * changed since it was loaded.
  */
 export async function POST(request: Request) {
   try {
     const body = await request.json();
 
-    if (body.reset === true) {
-      resetComplexityConfig();
-      return NextResponse.json({
-        ok: true,
-        message: "Config reset to defaults",
-        config: DEFAULT_COMPLEXITY_CONFIG,
-      });
-    }
-
-    if (!body.config) {
+    if (body.reset !== true && !body.config) {
       return NextResponse.json(
         { error: "Missing config in request body" },
         { status: 400 }
       );
     }
 
-    saveComplexityConfig(body.config);
+    const ifMatch = ifMatchHash(request);
+    return await withLock(
+      "complexity-config",
+      async () => {
+        if (ifMatch && computeValueHash(loadComplexityConfig()) !== ifMatch) {
+          return NextResponse.json(
+            { error: "Complexity config changed since it was loaded; reload and retry" },
+            { status: 412 }
+          );
+        }
 
-    return NextResponse.json({
-      ok: true,
-      message: "Config saved",
-      config: body.config,
-    });
+        if (body.reset === true) {
+          resetComplexityConfig();
+          return NextResponse.json(
+            {
+              ok: true,
+              message: "Config reset to defaults",
+              config: DEFAULT_COMPLEXITY_CONFIG,
+            },
+            { headers: { ETag: etagHeader(computeValueHash(loadComplexityConfig())) } }
+          );
+        }
+
+        saveComplexityConfig(body.config);
+
+        return NextResponse.json(
+          {
+            ok: true,
+            message: "Config saved",
+            config: body.config,
+          },
+          { headers: { ETag: etagHeader(computeValueHash(loadComplexityConfig())) } }
+        );
+      },
+      { dir: resolveLocksDir() }
+    );
   } catch (err) {
+    if (err instanceof LockTimeoutError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
     console.error("Error saving complexity config:", err);
     return NextResponse.json(
       { error: `Failed to save config: ${(err as Error).message}` },
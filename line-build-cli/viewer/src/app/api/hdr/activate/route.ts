@@ -6,7 +6,9 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { resolveLocksDir } from "@/lib/dataPaths";
 import { setActiveHdrConfig, loadHdrConfig } from "../../../../../../scripts/lib/hdrConfig";
+import { LockTimeoutError, withLock } from "../../../../../../scripts/lib/lock";
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,11 +21,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the config exists before activating
-    loadHdrConfig(configId);
+    await withLock(
+      "hdr-configs",
+      async () => {
+        // Verify the config exists before activating
+        loadHdrConfig(configId);
 
-    // Set as active
-    setActiveHdrConfig(configId);
+        // Set as active
+        setActiveHdrConfig(configId);
+      },
+      { dir: resolveLocksDir() }
+    );
 
     return NextResponse.json({
       success: true,
@@ -31,6 +39,9 @@ export async function POST(request: NextRequest) {
       activeConfigId: configId,
     });
   } catch (error) {
+    if (error instanceof LockTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Failed to activate HDR config:", error);
     return NextResponse.json(
       { error: "Failed to activate HDR configuration" },
@@ -5,20 +5,31 @@
  * POST /api/hdr/config
  * Saves or updates an HDR configuration.
  * Query param ?new=true creates a new config instead of overwriting.
+ *
+ * GET returns an ETag (content hash of the config). Sending it back as If-Match
+ * on POST rejects the save with 412 when the config changed in the meantime;
+ * saves are serialized with the CLI and other agents via the hdr-configs lock.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { resolveLocksDir } from "@/lib/dataPaths";
+import { etagHeader, ifMatchHash } from "@/lib/etag";
 import {
   loadActiveHdrConfig,
+  loadHdrConfig,
   saveHdrConfig,
   setActiveHdrConfig,
 } from "../../../../../../scripts/lib/hdrConfig";
+import { computeValueHash } from "../../../../../../scripts/lib/hash";
+import { LockTimeoutError, withLock } from "../../../../../../scripts/lib/lock";
 import type { HdrPodConfig } from "../../../../../../config/hdr-pod.mock";
 
 export async function GET() {
   try {
     const config = loadActiveHdrConfig();
-    return NextResponse.json(config);
+    return NextResponse.json(config, {
+      headers: { ETag: etagHeader(computeValueHash(config)) },
+    });
   } catch (error) {
     console.error("Failed to load active HDR config:", error);
     return NextResponse.json(
@@ -42,27 +53,47 @@ export async function POST(request: NextRequest) {
 
     // Check if this is a "Save As" (new config) operation
     const isNew = request.nextUrl.searchParams.get("new") === "true";
+    const ifMatch = ifMatchHash(request);
 
-    if (isNew) {
-      // Ensure hdrId is unique for new configs
-      // (In production, you'd check if file exists)
-      saveHdrConfig(config);
-      setActiveHdrConfig(config.hdrId);
-      return NextResponse.json({
-        success: true,
-        message: `Created new HDR config: ${config.name}`,
-        config,
-      });
-    } else {
-      // Overwrite existing config
-      saveHdrConfig(config);
-      return NextResponse.json({
-        success: true,
-        message: `Saved HDR config: ${config.name}`,
-        config,
-      });
-    }
+    return await withLock(
+      "hdr-configs",
+      async () => {
+        if (ifMatch && !isNew) {
+          let current: string | null = null;
+          try {
+            current = computeValueHash(loadHdrConfig(config.hdrId));
+          } catch {
+            // Config does not exist yet
+          }
+          if (current !== ifMatch) {
+            return NextResponse.json(
+              { error: `HDR config ${config.hdrId} changed since it was loaded; reload and retry` },
+              { status: 412 }
+            );
+          }
+        }
+
+        // Save As does not check hdrId uniqueness
+        // (In production, you'd check if file exists)
+        saveHdrConfig(config);
+        if (isNew) setActiveHdrConfig(config.hdrId);
+        return NextResponse.json(
+          {
+            success: true,
+            message: isNew
+              ? `Created new HDR config: ${config.name}`
+              : `Saved HDR config: ${config.name}`,
+            config,
+          },
+          { headers: { ETag: etagHeader(computeValueHash(config)) } }
+        );
+      },
+      { dir: resolveLocksDir() }
+    );
   } catch (error) {
+    if (error instanceof LockTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Failed to save HDR config:", error);
     return NextResponse.json(
       { error: "Failed to save HDR configuration" },
@@ -36,9 +36,28 @@ type PortfolioSummary = {
   avgComplexity: number | null;
 };
 
+type PortfolioFinding = {
+  ruleId: string;
+  severity: "hard" | "strong" | "soft" | "info";
+  message: string;
+  buildId?: string;
+  itemId?: string;
+  stepId?: string;
+  relatedBuildIds?: string[];
+};
+
+/** Cross-build findings written by `lb validate --portfolio` (null until it has run). */
+type PortfolioValidation = {
+  timestamp: string;
+  valid: boolean;
+  hardErrors: PortfolioFinding[];
+  warnings: PortfolioFinding[];
+};
+
 type PortfolioResponse = {
   summary: PortfolioSummary;
   builds: PortfolioBuild[];
+  portfolioValidation: PortfolioValidation | null;
 };
 
 async function tryReadJson<T>(filePath: string): Promise<T | null> {
@@ -66,6 +85,7 @@ export async function GET(): Promise<NextResponse<PortfolioResponse | { error: s
         return NextResponse.json({
           summary: { totalBuilds: 0, blockedCount: 0, warningCount: 0, readyCount: 0, avgComplexity: null },
           builds: [],
+          portfolioValidation: null,
         });
       }
       throw err;
@@ -192,7 +212,11 @@ export async function GET(): Promise<NextResponse<PortfolioResponse | { error: s
       avgComplexity,
     };
 
-    return NextResponse.json({ summary, builds });
+    const portfolioValidation = await tryReadJson<PortfolioValidation>(
+      path.join(validationDir, "portfolio", "latest.json")
+    );
+
+    return NextResponse.json({ summary, builds, portfolioValidation });
   } catch (err) {
     console.error("Portfolio API error:", err);
     return NextResponse.json({ error: "Failed to load portfolio" }, { status: 500 });
@@ -26,6 +26,7 @@ export default function BuildViewPage() {
   const searchParams = useSearchParams();
   const buildId = params.buildId as string;
   const initialStepId = searchParams.get("stepId");
+  const initialExpanded = searchParams.get("expand") === "1";
 
   const [selectedBuild, setSelectedBuild] = useState<BenchTopLineBuild | null>(null);
   const [validation, setValidation] = useState<ValidationOutput | null>(null);
@@ -36,6 +37,8 @@ export default function BuildViewPage() {
   const [dagMode, setDagMode] = useState<VisualizationMode>("work_order");
   const [selectedAssembly, setSelectedAssembly] = useState<Assembly | null>(null);
   const [assemblySteps, setAssemblySteps] = useState<AssemblySteps | null>(null);
+  // Expanded DAG: inline requiresBuilds producers (prepared components)
+  const [expanded, setExpanded] = useState(initialExpanded);
 
   // Complexity scoring state
   const [complexityScore, setComplexityScore] = useState<ScoreReport | null>(null);
@@ -111,7 +114,8 @@ export default function BuildViewPage() {
 
   const fetchBuild = useCallback(async (): Promise<BenchTopLineBuild | null> => {
     try {
-      const res = await fetch(`/api/builds/${encodeURIComponent(buildId)}`, { cache: "no-store" });
+      const query = expanded ? "?expand=1" : "";
+      const res = await fetch(`/api/builds/${encodeURIComponent(buildId)}${query}`, { cache: "no-store" });
       if (!res.ok) return null;
       const build = (await res.json()) as BenchTopLineBuild;
       return applyDerivedOrderIndex(build);
@@ -119,7 +123,7 @@ export default function BuildViewPage() {
       console.warn("Failed to fetch build", buildId, err);
       return null;
     }
-  }, [buildId]);
+  }, [buildId, expanded]);
 
   const fetchValidation = useCallback(async (): Promise<ValidationOutput | null> => {
     try {
@@ -205,6 +209,33 @@ export default function BuildViewPage() {
           {/* Health Strip */}
           <BuildHealthStrip build={selectedBuild} validation={validation} complexityScore={complexityScore} />
 
+          {/* Prepared components (requiresBuilds) */}
+          {selectedBuild && (selectedBuild.requiresBuilds?.length ?? 0) > 0 && (
+            <div className="flex items-center gap-3 px-4 pt-3 text-xs">
+              <span className="font-medium text-neutral-500">
+                Prepared components: {selectedBuild.requiresBuilds!.map((r) => r.itemId).join(", ")}
+              </span>
+              <button
+                type="button"
+                onClick={() => {
+                  setExpanded((v) => !v);
+                  setSelectedStepId(undefined);
+                }}
+                className={`px-3 py-1 font-medium rounded-md border border-neutral-300 transition-colors ${
+                  expanded ? "bg-neutral-800 text-white" : "bg-white text-neutral-700 hover:bg-neutral-50"
+                }`}
+              >
+                {expanded ? "Expanded" : "Expand"}
+              </button>
+              {selectedBuild.composition?.unresolved.map((u) => (
+                <span key={`u-${u.requiredBy}-${u.itemId}`} className="text-rose-600">{u.reason}</span>
+              ))}
+              {selectedBuild.composition?.cycles.map((c) => (
+                <span key={`c-${c.path.join(">")}`} className="text-rose-600">cycle: {c.path.join(" → ")}</span>
+              ))}
+            </div>
+          )}
+
           {/* DAG Canvas */}
           <div className="flex-1 min-h-0 p-4 overflow-hidden">
             {selectedBuild ? (
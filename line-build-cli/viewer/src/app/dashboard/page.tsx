@@ -10,6 +10,10 @@ import {
   ComplexityIcon,
 } from "@/components/dashboard/SummaryCard";
 import { BuildListTable } from "@/components/dashboard/BuildListTable";
+import {
+  PortfolioFindingsPanel,
+  type PortfolioValidation,
+} from "@/components/dashboard/PortfolioFindingsPanel";
 
 type PortfolioSummary = {
   totalBuilds: number;
@@ -38,6 +42,7 @@ type PortfolioBuild = {
 type PortfolioResponse = {
   summary: PortfolioSummary;
   builds: PortfolioBuild[];
+  portfolioValidation: PortfolioValidation | null;
 };
 
 const POLL_MS = 3000;
@@ -124,6 +129,9 @@ export default function DashboardPage() {
           />
         </div>
 
+        {/* Cross-build findings (lb validate --portfolio) */}
+        <PortfolioFindingsPanel validation={portfolio?.portfolioValidation ?? null} />
+
         {/* Build List */}
         <BuildListTable builds={builds} loading={loading} />
       </div>
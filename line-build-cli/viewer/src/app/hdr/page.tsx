@@ -18,6 +18,8 @@ export default function HdrPage() {
   const [configs, setConfigs] = useState<ConfigInfo[]>([]);
   const [activeConfig, setActiveConfig] = useState<HdrConfigData | null>(null);
   const [editedConfig, setEditedConfig] = useState<HdrConfigData | null>(null);
+  // ETag of activeConfig; sent as If-Match so a save cannot clobber another writer's change
+  const [etag, setEtag] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
@@ -43,6 +45,7 @@ export default function HdrPage() {
       setConfigs(configsData.configs);
       setActiveConfig(activeConfigData);
       setEditedConfig(activeConfigData);
+      setEtag(activeConfigRes.headers.get("ETag"));
       setIsLoading(false);
     } catch (error) {
       console.error("Failed to load HDR data:", error);
@@ -77,10 +80,14 @@ export default function HdrPage() {
     try {
       const response = await fetch("/api/hdr/config", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...(etag ? { "If-Match": etag } : {}) },
         body: JSON.stringify(editedConfig),
       });
 
+      if (response.status === 412) {
+        setMessage({ type: "error", text: "Configuration was changed elsewhere. Reload to see the latest version." });
+        return;
+      }
       if (!response.ok) {
         throw new Error("Failed to save configuration");
       }
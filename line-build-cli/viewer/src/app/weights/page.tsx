@@ -134,6 +134,7 @@ const SIGNAL_NAMES: Record<string, string> = {
 export default function WeightsPage() {
   const [config, setConfig] = useState<ComplexityConfig | null>(null);
   const [hasOverride, setHasOverride] = useState(false);
+  const [etag, setEtag] = useState<string | null>(null); // If-Match for saves
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -238,6 +239,7 @@ export default function WeightsPage() {
         const data = await res.json();
         setConfig(data.config);
         setHasOverride(data.hasOverride);
+        setEtag(res.headers.get("ETag"));
         setError(null);
       } catch (err) {
         setError((err as Error).message);
@@ -270,13 +272,15 @@ export default function WeightsPage() {
     try {
       const res = await fetch("/api/complexity/config", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...(etag ? { "If-Match": etag } : {}) },
         body: JSON.stringify({ config }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 412) throw new Error("Config was changed elsewhere. Reload to see the latest version.");
         throw new Error(data.error || "Failed to save");
       }
+      setEtag(res.headers.get("ETag"));
       setHasUnsavedChanges(false);
       setHasOverride(true);
       setPreviewData(null);
@@ -288,7 +292,7 @@ export default function WeightsPage() {
     } finally {
       setSaving(false);
     }
-  }, [config]);
+  }, [config, etag]);
 
   const handleReset = useCallback(async () => {
     setSaving(true);
@@ -304,6 +308,7 @@ export default function WeightsPage() {
         const data = await res.json();
         throw new Error(data.error || "Failed to reset");
       }
+      setEtag(res.headers.get("ETag"));
       const data = await res.json();
       setConfig(data.config);
       setHasUnsavedChanges(false);
@@ -250,6 +250,7 @@ export function WeightManager({ buildId, currentScore, onConfigChange }: WeightM
   const [defaults, setDefaults] = useState<ComplexityConfig | null>(null);
   const [baseline, setBaseline] = useState<ComplexityConfig | null>(null); // Config before current session changes
   const [hasOverride, setHasOverride] = useState(false);
+  const [etag, setEtag] = useState<string | null>(null); // If-Match for saves
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -284,6 +285,7 @@ export function WeightManager({ buildId, currentScore, onConfigChange }: WeightM
         setDefaults(data.defaults);
         setBaseline(data.config); // Initialize baseline to track changes from
         setHasOverride(data.hasOverride);
+        setEtag(res.headers.get("ETag"));
         setError(null);
       } catch (err) {
         setError((err as Error).message);
@@ -387,13 +389,15 @@ export function WeightManager({ buildId, currentScore, onConfigChange }: WeightM
     try {
       const res = await fetch("/api/complexity/config", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...(etag ? { "If-Match": etag } : {}) },
         body: JSON.stringify({ config }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 412) throw new Error("Config was changed elsewhere. Reload to see the latest version.");
         throw new Error(data.error || "Failed to save");
       }
+      setEtag(res.headers.get("ETag"));
       setHasUnsavedChanges(false);
       setHasOverride(true);
       setBaseline(config); // Reset baseline to saved config
@@ -405,7 +409,7 @@ export function WeightManager({ buildId, currentScore, onConfigChange }: WeightM
     } finally {
       setSaving(false);
     }
-  }, [config, onConfigChange]);
+  }, [config, etag, onConfigChange]);
 
   const handleReset = useCallback(async () => {
     setSaving(true);
@@ -420,6 +424,7 @@ export function WeightManager({ buildId, currentScore, onConfigChange }: WeightM
         const data = await res.json();
         throw new Error(data.error || "Failed to reset");
       }
+      setEtag(res.headers.get("ETag"));
       const data = await res.json();
       setConfig(data.config);
       setBaseline(data.config); // Reset baseline to new config after reset
@@ -0,0 +1,100 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+
+export type PortfolioFinding = {
+  ruleId: string;
+  severity: "hard" | "strong" | "soft" | "info";
+  message: string;
+  buildId?: string;
+  itemId?: string;
+  stepId?: string;
+  relatedBuildIds?: string[];
+};
+
+export type PortfolioValidation = {
+  timestamp: string;
+  valid: boolean;
+  hardErrors: PortfolioFinding[];
+  warnings: PortfolioFinding[];
+};
+
+type PortfolioFindingsPanelProps = {
+  validation: PortfolioValidation | null;
+};
+
+function BuildLink({ buildId }: { buildId: string }) {
+  return (
+    <Link
+      href={`/build/${encodeURIComponent(buildId)}`}
+      className="font-mono text-neutral-700 hover:text-neutral-900 hover:underline"
+    >
+      {buildId}
+    </Link>
+  );
+}
+
+function FindingRow({ finding }: { finding: PortfolioFinding }) {
+  const hard = finding.severity === "hard";
+  const buildIds = [finding.buildId, ...(finding.relatedBuildIds ?? [])].filter(
+    (id): id is string => Boolean(id)
+  );
+
+  return (
+    <li className="px-4 py-2 flex items-start gap-3 text-sm">
+      <span
+        className={`mt-0.5 px-1.5 py-0.5 rounded text-[10px] font-bold ${
+          hard ? "bg-rose-50 text-rose-700" : "bg-amber-50 text-amber-700"
+        }`}
+      >
+        {finding.ruleId}
+      </span>
+      <div className="flex-1 min-w-0">
+        <div className="text-neutral-800">{finding.message.replace(/^P\d+: /, "")}</div>
+        {buildIds.length > 0 && (
+          <div className="text-xs text-neutral-500 mt-0.5 flex flex-wrap gap-x-2">
+            {buildIds.map((id) => (
+              <BuildLink key={id} buildId={id} />
+            ))}
+          </div>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Cross-build findings (P rules) from the last `lb validate --portfolio` run.
+ */
+export function PortfolioFindingsPanel({ validation }: PortfolioFindingsPanelProps) {
+  const findings = validation ? [...validation.hardErrors, ...validation.warnings] : [];
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200">
+      <div className="px-4 py-3 border-b border-neutral-200 flex items-center justify-between">
+        <div className="text-[10px] font-bold uppercase tracking-wider text-neutral-500">
+          Portfolio Findings
+        </div>
+        {validation && (
+          <div className="text-xs text-neutral-400">
+            Checked {new Date(validation.timestamp).toLocaleString()}
+          </div>
+        )}
+      </div>
+      {!validation ? (
+        <div className="px-4 py-3 text-sm text-neutral-500">
+          Not checked yet. Run <code className="font-mono">lb validate --portfolio</code>.
+        </div>
+      ) : findings.length === 0 ? (
+        <div className="px-4 py-3 text-sm text-emerald-700">No cross-build issues.</div>
+      ) : (
+        <ul className="divide-y divide-neutral-100">
+          {findings.map((f, i) => (
+            <FindingRow key={`${f.ruleId}-${f.buildId ?? ""}-${f.stepId ?? ""}-${i}`} finding={f} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -216,7 +216,7 @@ export function DAGVisualization({
 
   const graphModel = useMemo(() => {
     if (mode === 'station_handoffs') {
-      const visitModel = createVisitTimelineModel({ steps: build.steps, viewMode, selectedVisitId });
+      const visitModel = createVisitTimelineModel({ steps: build.steps, tracks: build.tracks, viewMode, selectedVisitId });
       return { nodes: visitModel.nodes, edges: visitModel.edges, laneLayout: [] as any[], trackLayouts: visitModel.trackLayouts, visitById: visitModel.visitById, assemblyById: new Map(), nodeLaneAssignment: new Map<string, string>() };
     }
     if (mode === 'material_flow') {
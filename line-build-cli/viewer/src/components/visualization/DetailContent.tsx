@@ -186,14 +186,6 @@ export function DetailContent({
               </div>
             </div>
           )}
-          {selectedStep.storageLocation && (
-            <div className="flex items-start justify-between gap-3">
-              <div className="text-neutral-500">Storage</div>
-              <div className="text-neutral-900 font-medium text-right">
-                {selectedStep.storageLocation.type.replace(/_/g, " ")}
-              </div>
-            </div>
-          )}
           <div className="flex items-start justify-between gap-3">
             <div className="text-neutral-500">Sublocation</div>
             <div className="text-neutral-900 font-medium text-right">
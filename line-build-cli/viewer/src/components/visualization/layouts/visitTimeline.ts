@@ -1,6 +1,6 @@
  import dagre from '@dagrejs/dagre';
  import { Node, Edge, MarkerType, Position } from 'reactflow';
- import type { Step, StationVisit } from '@/types';
+ import type { Step, StationVisit, TrackDefinition } from '@/types';
  import { getDependencyStepId, isConditionalDependency } from '@/types';
  import { groupStepsIntoVisits } from '@/lib/visitTimeline';
  import { VISIT_NODE_DIMENSIONS, STATION_COLORS } from '../constants';
@@ -17,11 +17,12 @@
  
  export function createVisitTimelineModel(params: {
    steps: Step[];
+   tracks?: TrackDefinition[];
    viewMode: 'compact' | 'expanded';
    selectedVisitId?: string;
  }): { nodes: Node[]; edges: Edge[]; trackLayouts: TrackLayout[]; visitById: Map<string, StationVisit> } {
-   const { steps, viewMode, selectedVisitId } = params;
-   const timelines = groupStepsIntoVisits(steps);
+   const { steps, tracks, viewMode, selectedVisitId } = params;
+   const timelines = groupStepsIntoVisits(steps, tracks);
    const visitById = new Map<string, StationVisit>();
    const stepToVisitId = new Map<string, string>();
    for (const timeline of timelines) {
@@ -31,7 +32,7 @@
      }
    }
    const dims = VISIT_NODE_DIMENSIONS[viewMode];
-   const trackLayouts: TrackLayout[] = timelines.map((t, i) => ({ trackId: t.trackId, top: i * (dims.height + 150), height: dims.height + 50, label: t.trackId, index: i }));
+   const trackLayouts: TrackLayout[] = timelines.map((t, i) => ({ trackId: t.trackId, top: i * (dims.height + 150), height: dims.height + 50, label: t.label ?? t.trackId, index: i }));
    const dagreGraph = new dagre.graphlib.Graph();
    dagreGraph.setDefaultEdgeLabel(() => ({}));
    dagreGraph.setGraph({ rankdir: 'LR', nodesep: 80, ranksep: 160, marginx: 30, marginy: 30 });
@@ -0,0 +1,467 @@
+// Generated by `lb schema --format ts` from scripts/lib/schema. Do not edit by hand.
+// schemaVersion 2
+
+export type BenchTopLineBuild = {
+  id: string;
+  itemId: string;
+  version: number;
+  status: "draft" | "published" | "archived";
+  steps: Array<Step>;
+  createdAt: string;
+  updatedAt: string;
+  name?: string;
+  menuItemId?: string;
+  operations?: Array<Operation>;
+  tracks?: Array<TrackDefinition>;
+  requiresBuilds?: Array<BuildRef>;
+  bom?: Array<BomEntry>;
+  assemblies?: Array<Assembly>;
+  primaryOutputAssemblyId?: string;
+  customizationGroups?: Array<CustomizationGroup>;
+  validationOverrides?: Array<ValidationOverride>;
+  authorId?: string;
+  changeLog?: string;
+  schemaVersion?: number;
+};
+
+export type DerivedBuildData = {
+  buildId: string;
+  computedAt: string;
+  derivationVersion: string;
+  sourceHash: string;
+  transfers: Array<DerivedTransferStep>;
+};
+
+export type EditOp = {
+  type: "set_field";
+  where?: string;
+  field: string;
+  value?: unknown;
+  mode?: "set" | "unset" | "append";
+} | {
+  type: "add_step";
+  step: {
+    id?: string;
+    orderIndex?: number;
+    action?: StepAction;
+    instruction?: string;
+    trackId?: string;
+    operationId?: string;
+    target?: StepTarget;
+    groupingId?: GroupingId;
+    stationId?: StationId;
+    toolId?: ToolId;
+    equipment?: StepEquipment;
+    time?: StepTime;
+    cookingPhase?: "PRE_COOK" | "COOK" | "POST_COOK" | "ASSEMBLY" | "PASS";
+    container?: StepContainer;
+    workLocation?: StepSublocation;
+    exclude?: boolean;
+    prepType?: "pre_service" | "order_execution";
+    bulkPrep?: boolean;
+    quantity?: StepQuantity;
+    notes?: string;
+    provenance?: StepProvenance;
+    conditions?: StepCondition;
+    overlays?: Array<StepOverlay>;
+    dependsOn?: Array<DependencyRef>;
+    input?: Array<AssemblyRef>;
+    output?: Array<AssemblyRef>;
+  };
+  afterStepId?: string;
+  atIndex?: number;
+} | {
+  type: "remove_step";
+  stepId: string;
+} | {
+  type: "move_step";
+  stepId: string;
+  toOrderIndex: number;
+} | {
+  type: "add_dep";
+  stepId: string;
+  dependsOn: string;
+} | {
+  type: "remove_dep";
+  stepId: string;
+  dependsOn: string;
+} | {
+  type: "set_input_role";
+  stepId: string;
+  inputIndex: number;
+  role: "base" | "added";
+} | {
+  type: "set_build_field";
+  field: string;
+  value?: unknown;
+  mode?: "set" | "unset" | "append";
+} | {
+  type: "normalize_indices";
+} | {
+  type: "json_patch";
+  patch: Array<JsonPatchOperation>;
+} | {
+  type: "add_input";
+  stepId: string;
+  input: AssemblyRef;
+  atIndex?: number;
+} | {
+  type: "remove_input";
+  stepId: string;
+  inputIndex?: number;
+  assemblyId?: string;
+} | {
+  type: "add_output";
+  stepId: string;
+  output: AssemblyRef;
+} | {
+  type: "remove_output";
+  stepId: string;
+  assemblyId: string;
+} | {
+  type: "set_output_location";
+  stepId: string;
+  assemblyId: string;
+  to: LocationRef;
+} | {
+  type: "rename_assembly";
+  from: string;
+  to: string;
+} | {
+  type: "split_step";
+  stepId: string;
+  newStepId: string;
+  assemblyId: string;
+  step?: {
+    id?: string;
+    orderIndex?: number;
+    action?: StepAction;
+    instruction?: string;
+    trackId?: string;
+    operationId?: string;
+    target?: StepTarget;
+    groupingId?: GroupingId;
+    stationId?: StationId;
+    toolId?: ToolId;
+    equipment?: StepEquipment;
+    time?: StepTime;
+    cookingPhase?: "PRE_COOK" | "COOK" | "POST_COOK" | "ASSEMBLY" | "PASS";
+    container?: StepContainer;
+    workLocation?: StepSublocation;
+    exclude?: boolean;
+    prepType?: "pre_service" | "order_execution";
+    bulkPrep?: boolean;
+    quantity?: StepQuantity;
+    notes?: string;
+    provenance?: StepProvenance;
+    conditions?: StepCondition;
+    overlays?: Array<StepOverlay>;
+    dependsOn?: Array<DependencyRef>;
+    input?: Array<AssemblyRef>;
+    output?: Array<AssemblyRef>;
+  };
+} | {
+  type: "merge_steps";
+  stepId: string;
+  mergeStepId: string;
+};
+
+export type JsonPatchOperation = {
+  op: "add";
+  path: string;
+  value: unknown;
+} | {
+  op: "remove";
+  path: string;
+} | {
+  op: "replace";
+  path: string;
+  value: unknown;
+} | {
+  op: "move";
+  from: string;
+  path: string;
+} | {
+  op: "copy";
+  from: string;
+  path: string;
+} | {
+  op: "test";
+  path: string;
+  value: unknown;
+};
+
+export type Step = {
+  id: string;
+  orderIndex: number;
+  action: StepAction;
+  instruction?: string;
+  trackId?: string;
+  operationId?: string;
+  target?: StepTarget;
+  groupingId?: GroupingId;
+  stationId?: StationId;
+  toolId?: ToolId;
+  equipment?: StepEquipment;
+  time?: StepTime;
+  cookingPhase?: "PRE_COOK" | "COOK" | "POST_COOK" | "ASSEMBLY" | "PASS";
+  container?: StepContainer;
+  workLocation?: StepSublocation;
+  exclude?: boolean;
+  prepType?: "pre_service" | "order_execution";
+  bulkPrep?: boolean;
+  quantity?: StepQuantity;
+  notes?: string;
+  provenance?: StepProvenance;
+  conditions?: StepCondition;
+  overlays?: Array<StepOverlay>;
+  dependsOn?: Array<DependencyRef>;
+  input?: Array<AssemblyRef>;
+  output?: Array<AssemblyRef>;
+};
+
+export type StepAction = {
+  family: "PREP" | "HEAT" | "TRANSFER" | "COMBINE" | "ASSEMBLE" | "PORTION" | "CHECK" | "PACKAGING" | "OTHER";
+  techniqueId?: TechniqueId;
+  detailId?: string;
+  displayTextOverride?: string;
+};
+
+export type StepTarget = {
+  type: "bom_usage" | "bom_component" | "packaging" | "free_text" | "unknown";
+  bomUsageId?: string;
+  bomComponentId?: string;
+  name?: string;
+};
+
+export type StepEquipment = {
+  applianceId: ApplianceId;
+  presetId?: string;
+};
+
+export type StepTime = {
+  durationSeconds: number;
+  isActive: boolean;
+};
+
+export type StepContainer = {
+  type?: ContainerType;
+  name?: string;
+  size?: string;
+};
+
+export type StepQuantity = {
+  value: number;
+  unit: string;
+  kind?: "absolute" | "multiplier";
+};
+
+export type StepCondition = {
+  requiresEquipmentProfileIds?: Array<string>;
+  requiresCustomizationValueIds?: Array<string>;
+  requiresRestaurantIds?: Array<string>;
+};
+
+export type StepOverlay = {
+  id: string;
+  predicate: {
+    equipmentProfileId?: string;
+    customizationValueIds?: Array<string>;
+    minCustomizationCount?: number;
+  };
+  overrides: {
+    stationId?: StationId;
+    toolId?: ToolId;
+    equipment?: StepEquipment;
+    time?: StepTime;
+    cookingPhase?: "PRE_COOK" | "COOK" | "POST_COOK" | "ASSEMBLY" | "PASS";
+    container?: StepContainer;
+    notes?: string;
+    exclude?: boolean;
+    quantity?: StepQuantity;
+  };
+  priority: number;
+};
+
+export type StepProvenance = {
+  target?: FieldProvenance;
+  stationId?: FieldProvenance;
+  toolId?: FieldProvenance;
+  equipment?: FieldProvenance;
+  time?: FieldProvenance;
+  container?: FieldProvenance;
+  cookingPhase?: FieldProvenance;
+  exclude?: FieldProvenance;
+  workLocation?: FieldProvenance;
+  from?: FieldProvenance;
+  to?: FieldProvenance;
+};
+
+export type FieldProvenance = {
+  type: "manual" | "inherited" | "overlay" | "inferred" | "legacy_import";
+  sourceId?: string;
+  confidence?: "high" | "medium" | "low";
+};
+
+export type StepSublocation = {
+  type: SublocationId;
+  equipmentId?: ApplianceId;
+};
+
+export type LocationRef = {
+  stationId?: StationId;
+  sublocation?: StepSublocation;
+};
+
+export type DependencyRef = string | {
+  stepId: string;
+  condition?: DependencyCondition;
+};
+
+export type DependencyCondition = {
+  requiresCustomizationValueIds?: Array<string>;
+};
+
+export type BomEntry = {
+  id: string;
+  componentId?: string;
+  name: string;
+  quantity?: {
+    value: number;
+    unit: string;
+  };
+  notes?: string;
+};
+
+export type Assembly = {
+  id: string;
+  name?: string;
+  type?: "intermediate" | "final" | "packaging" | "free_text" | "bom_usage" | "bom_component";
+  bomUsageId?: string;
+  bomComponentId?: string;
+  notes?: string;
+  groupId?: string;
+  subAssemblies?: Array<string>;
+  lineage?: {
+    evolvesFrom?: string;
+  };
+};
+
+export type AssemblyRef = {
+  source: {
+    type: "in_build";
+    assemblyId: string;
+  } | {
+    type: "external_build";
+    itemId: string;
+    version?: number | "latest_published";
+    assemblyId?: string;
+  };
+  quantity?: {
+    value: number;
+    unit: string;
+    kind?: "absolute" | "multiplier";
+  };
+  notes?: string;
+  from?: {
+    stationId?: StationId;
+    sublocation?: {
+      type: SublocationId;
+      equipmentId?: ApplianceId;
+    };
+  };
+  to?: {
+    stationId?: StationId;
+    sublocation?: {
+      type: SublocationId;
+      equipmentId?: ApplianceId;
+    };
+  };
+  onAssembly?: string;
+  role?: "base" | "added";
+};
+
+export type TrackDefinition = {
+  id: string;
+  label?: string;
+  mode?: "parallel" | "sequential";
+  stationId?: StationId;
+  notes?: string;
+};
+
+export type Operation = {
+  id: string;
+  label?: string;
+  trackId?: string;
+  stationId?: StationId;
+  notes?: string;
+};
+
+export type BuildRef = {
+  itemId: string;
+  version?: number | "latest_published";
+  role?: "prepared_component";
+  notes?: string;
+};
+
+export type CustomizationGroup = {
+  optionId: string;
+  type: "MANDATORY_CHOICE" | "OPTIONAL_ADDITION" | "OPTIONAL_SUBTRACTION" | "EXTRA_REQUESTS" | "DISH_PREFERENCE" | "ON_THE_SIDE";
+  minChoices?: number;
+  maxChoices?: number;
+  valueIds?: Array<string>;
+  displayName?: string;
+};
+
+export type ValidationOverride = {
+  id: string;
+  ruleId: string;
+  severity: "hard" | "strong" | "soft";
+  action?: "suppress" | "downgrade";
+  stepId?: string;
+  fieldPath?: string;
+  reason: string;
+  createdAt: string;
+  createdByUserId?: string;
+  reviewedAt?: string;
+  reviewedByUserId?: string;
+  approved?: boolean;
+};
+
+export type DerivedTransferStep = {
+  id: string;
+  action: {
+    family: "TRANSFER";
+    techniqueId?: "place" | "retrieve" | "pass" | "handoff";
+  };
+  transferType: TransferType;
+  assemblyId: string;
+  from: LocationRef;
+  to: LocationRef;
+  complexityScore: number;
+  estimatedTimeSeconds: number;
+  derived: true;
+  producerStepId: string;
+  consumerStepId: string;
+  fromPodId?: string;
+  toPodId?: string;
+};
+
+export type TransferType = "intra_station" | "inter_station" | "inter_pod";
+
+export type GroupingId = "hot_side" | "cold_side" | "vending";
+
+/** Station id (config/stations.config.ts). */
+export type StationId = "fryer" | "waterbath" | "turbo" | "toaster" | "clamshell_grill" | "pizza" | "microwave" | "garnish" | "speed_line" | "prep" | "expo" | "vending" | "other" | "hot_side" | "cold_side";
+
+/** Tool id (config/tools.config.ts; legacy schema ids are still accepted). */
+export type ToolId = "hand" | "tongs" | "mini_tong" | "paddle" | "spatula" | "spoon" | "whisk" | "ladle" | "spoodle_1oz" | "spoodle_2oz" | "spoodle_3oz" | "squeeze_bottle" | "shaker" | "utility_knife" | "bench_scraper" | "scale" | "fry_basket" | "viper" | "other" | "spoodle_5oz" | "spoodle_6oz" | "spoodle_8oz" | "pizza_wheel" | "butter_wheel" | "scissors" | "pan_grabber" | "avocado_knife";
+
+export type ApplianceId = "fryer" | "waterbath" | "turbo" | "toaster" | "clamshell_grill" | "press" | "pizza" | "pizza_oven" | "pizza_conveyor_oven" | "microwave" | "vending" | "hot_box" | "hot_well" | "steam_well" | "sauce_warmer" | "other";
+
+export type SublocationId = "work_surface" | "cold_rail" | "dry_rail" | "cold_storage" | "packaging" | "kit_storage" | "window_shelf" | "equipment";
+
+export type ContainerType = "bag" | "bowl" | "pan" | "tray" | "clamshell" | "ramekin" | "cup" | "foil" | "lid" | "lexan" | "deli_cup" | "hotel_pan" | "squeeze_bottle" | "other";
+
+/** Technique id (config/techniques.config.ts, checked by H33). */
+export type TechniqueId = "cut" | "drain" | "open_kit" | "open_pack" | "open_pouch" | "remove_foil" | "scrape" | "smash_open" | "split_bun" | "massage" | "remove_lid" | "squeeze" | "crush" | "make_well" | "peel" | "pat_dry" | "flip" | "clamshell_grill" | "fry" | "press" | "toast" | "turbo" | "waterbath" | "microwave" | "pass" | "place" | "lift_fold" | "pizza_slide" | "remove_from_pan" | "fold" | "shake" | "stir" | "toss" | "mix" | "roll" | "spread" | "sprinkle" | "tear_and_place" | "pizza_sprinkle" | "shingle" | "dots" | "divide" | "drizzle" | "portion" | "pour" | "spray" | "pinch" | "fill" | "spiral_pour" | "line_pour" | "dollops" | "pizza_cut" | "cover" | "lid" | "sleeve" | "wrap" | "sticker" | "butter_wheel" | "squeege" | "hot_held";
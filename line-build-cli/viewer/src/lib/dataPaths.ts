@@ -29,3 +29,7 @@ export function resolveDerivedDir(): string {
 export function resolveSelectionPath(): string {
   return path.join(resolveDataRoot(), "viewer", "selection.json");
 }
+
+export function resolveLocksDir(): string {
+  return path.join(resolveDataRoot(), ".locks");
+}
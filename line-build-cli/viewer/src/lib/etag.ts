@@ -0,0 +1,17 @@
+/**
+ * ETag / If-Match helpers for API routes that write shared data.
+ *
+ * Hashes are the CLI's content hashes (scripts/lib/hash.ts), so an ETag from the
+ * viewer can be passed to `lb ... --if-match` and vice versa.
+ */
+
+export function etagHeader(hash: string): string {
+  return `"${hash}"`;
+}
+
+/** Hash from the request's If-Match header, or undefined when absent or "*". */
+export function ifMatchHash(request: Request): string | undefined {
+  const raw = request.headers.get("if-match")?.trim();
+  if (!raw || raw === "*") return undefined;
+  return raw.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+}
@@ -1,4 +1,4 @@
-import type { Step, StationVisit, TrackTimeline } from "@/types";
+import type { Step, StationVisit, TrackDefinition, TrackTimeline } from "@/types";
 
 const DEFAULT_TRACK = "default";
 
@@ -10,12 +10,20 @@ function normalizeStationId(step: Step): string {
   return step.stationId && step.stationId.trim().length > 0 ? step.stationId : "other";
 }
 
-export function groupStepsIntoVisits(steps: Step[]): TrackTimeline[] {
+/**
+ * Group steps into per-track station visits.
+ * When build.tracks is declared, timelines follow the declared track order;
+ * undeclared tracks follow, ordered by their first step.
+ */
+export function groupStepsIntoVisits(steps: Step[], tracks: TrackDefinition[] = []): TrackTimeline[] {
   const sortedSteps = [...steps].sort((a, b) => {
     if (a.orderIndex !== b.orderIndex) return a.orderIndex - b.orderIndex;
     return a.id.localeCompare(b.id);
   });
 
+  const trackById = new Map(tracks.map((t) => [t.id, t]));
+  const trackRank = new Map(tracks.map((t, i) => [t.id, i]));
+
   const stepsByTrack = new Map<string, Step[]>();
   for (const step of sortedSteps) {
     const trackId = normalizeTrackId(step);
@@ -76,9 +84,15 @@ export function groupStepsIntoVisits(steps: Step[]): TrackTimeline[] {
         visit.stepIdRange = [firstStep.id, lastStep.id];
       }
     }
-    timelines.push({ trackId, visits, firstOrderIndex });
+    timelines.push({ trackId, label: trackById.get(trackId)?.label, visits, firstOrderIndex });
   }
 
-  timelines.sort((a, b) => a.firstOrderIndex - b.firstOrderIndex || a.trackId.localeCompare(b.trackId));
+  const declaredRank = (trackId: string) => trackRank.get(trackId) ?? Number.MAX_SAFE_INTEGER;
+  timelines.sort(
+    (a, b) =>
+      declaredRank(a.trackId) - declaredRank(b.trackId) ||
+      a.firstOrderIndex - b.firstOrderIndex ||
+      a.trackId.localeCompare(b.trackId),
+  );
   return timelines;
 }
@@ -1,39 +1,35 @@
-// Kitchen groupings - high-level area classification (3 values)
-export type GroupingId = "hot_side" | "cold_side" | "vending";
-
-// Stations - equipment and work areas
-export type StationId =
-  // Hot Side equipment
-  | "fryer"
-  | "waterbath"
-  | "turbo"
-  | "toaster"
-  | "salamander"
-  | "clamshell_grill"
-  | "press"
-  | "induction"
-  | "conveyor"
-  | "hot_box"
-  | "hot_well"
-  | "rice_cooker"
-  | "pasta_cooker"
-  | "pizza_oven"
-  | "pizza_conveyor_oven"
-  | "steam_well"
-  | "sauce_warmer"
-  // Cold Side work areas
-  | "garnish"
-  | "speed_line"
-  | "expo"
-  | "prep"
-  | "pass"
-  // Vending
-  | "vending"
-  // Backwards compatibility (legacy grouping values used as stationId)
-  | "hot_side"
-  | "cold_side"
-  // Fallback
-  | "other";
+// Model types generated from the CLI's Zod schemas (npm run gen:viewer-types).
+// Step and BenchTopLineBuild extend the generated types with what only the
+// viewer sees: legacy step fields (sublocation, from/to) and API-only extras.
+import type {
+  BenchTopLineBuild as GeneratedBenchTopLineBuild,
+  DependencyCondition,
+  DependencyRef,
+  DerivedTransferStep,
+  FieldProvenance,
+  GroupingId,
+  LocationRef,
+  Operation,
+  StationId,
+  Step as GeneratedStep,
+  StepProvenance,
+  StepSublocation,
+  TrackDefinition,
+  TransferType,
+} from "./generated/lineBuild";
+
+export type {
+  DependencyCondition,
+  DependencyRef,
+  DerivedTransferStep,
+  FieldProvenance,
+  GroupingId,
+  Operation,
+  StationId,
+  StepProvenance,
+  TrackDefinition,
+  TransferType,
+};
 
 // Canonical mapping from station to grouping
 export const STATION_TO_GROUPING: Record<StationId, GroupingId> = {
@@ -42,8 +38,26 @@ export const STATION_TO_GROUPING: Record<StationId, GroupingId> = {
   waterbath: "hot_side",
   turbo: "hot_side",
   toaster: "hot_side",
-  salamander: "hot_side",
   clamshell_grill: "hot_side",
+  pizza: "hot_side",
+  microwave: "hot_side",
+  // Cold Side work areas
+  garnish: "cold_side",
+  speed_line: "cold_side",
+  prep: "cold_side",
+  expo: "cold_side",
+  // Vending
+  vending: "vending",
+  // Backwards compatibility (legacy grouping values used as stationId)
+  hot_side: "hot_side",
+  cold_side: "cold_side",
+  // Fallback
+  other: "cold_side",
+};
+
+// Appliance ids and retired station ids that older builds still carry
+const LEGACY_STATION_TO_GROUPING: Record<string, GroupingId> = {
+  salamander: "hot_side",
   press: "hot_side",
   induction: "hot_side",
   conveyor: "hot_side",
@@ -55,25 +69,13 @@ export const STATION_TO_GROUPING: Record<StationId, GroupingId> = {
   pizza_conveyor_oven: "hot_side",
   steam_well: "hot_side",
   sauce_warmer: "hot_side",
-  // Cold Side work areas
-  garnish: "cold_side",
-  speed_line: "cold_side",
-  expo: "cold_side",
-  prep: "cold_side",
   pass: "cold_side",
-  // Vending
-  vending: "vending",
-  // Backwards compatibility (legacy grouping values used as stationId)
-  hot_side: "hot_side",
-  cold_side: "cold_side",
-  // Fallback
-  other: "cold_side",
 };
 
 // Helper to derive grouping from station
 export function getGroupingForStation(stationId: StationId | string | undefined): GroupingId {
   if (!stationId) return "cold_side";
-  return STATION_TO_GROUPING[stationId as StationId] ?? "cold_side";
+  return STATION_TO_GROUPING[stationId as StationId] ?? LEGACY_STATION_TO_GROUPING[stationId] ?? "cold_side";
 }
 
 export type BuildSummary = {
@@ -101,20 +103,10 @@ export type ValidationOutput = {
   valid: boolean;
   hardErrors: ValidationError[];
   warnings: ValidationError[];
+  /** Findings removed by approved validationOverrides. */
+  suppressed?: Array<ValidationError & { overrideId: string; reason: string }>;
 };
 
-// Conditional dependency support
-export type DependencyCondition = {
-  requiresCustomizationValueIds?: string[];
-};
-
-export type DependencyRef =
-  | string  // Simple form: just the step ID
-  | {
-      stepId: string;
-      condition?: DependencyCondition;
-    };
-
 /**
  * Helper to extract the step ID from a DependencyRef.
  */
@@ -129,123 +121,36 @@ export function isConditionalDependency(ref: DependencyRef): boolean {
   return typeof ref !== "string" && ref.condition !== undefined;
 }
 
-// Provenance tracking for derived fields
-export type FieldProvenance = {
-  type: "manual" | "inherited" | "overlay" | "inferred" | "legacy_import";
-  sourceId?: string;
-  confidence?: "high" | "medium" | "low";
-};
-
-export type StepProvenance = {
-  target?: FieldProvenance;
-  stationId?: FieldProvenance;
-  toolId?: FieldProvenance;
-  equipment?: FieldProvenance;
-  time?: FieldProvenance;
-  container?: FieldProvenance;
-  cookingPhase?: FieldProvenance;
-  exclude?: FieldProvenance;
-  sublocation?: FieldProvenance;
-  from?: FieldProvenance;
-  to?: FieldProvenance;
+export type Step = GeneratedStep & {
+  /** Legacy (pre-workLocation) fields still present in older builds */
+  sublocation?: StepSublocation;
+  from?: LocationRef;
+  to?: LocationRef;
+  provenance?: { sublocation?: FieldProvenance };
 };
 
-export type Step = {
-  id: string;
-  orderIndex: number;
-  trackId?: string;
-  action: {
-    family: string;
-    techniqueId?: string;
-  };
-  instruction?: string;
-  notes?: string;
-  target?: {
-    type?: string;
-    name?: string;
-    bomUsageId?: string;
-    bomComponentId?: string;
-  };
-  equipment?: {
-    applianceId?: string;
-    presetId?: string;
-  };
-  time?: {
-    durationSeconds: number;
-    isActive: boolean;
-  };
-  groupingId?: GroupingId;
-  stationId?: StationId;
-  toolId?: string;
-  cookingPhase?: string;
-  prepType?: string;
-  container?: {
-    type?: string;
-    name?: string;
-    size?: string;
-  };
-  storageLocation?: {
-    type: string;
-  };
-  sublocation?: {
-    type: string;
-    equipmentId?: string;
-  };
-  from?: { stationId?: string; sublocation?: { type: string; equipmentId?: string } };
-  to?: { stationId?: string; sublocation?: { type: string; equipmentId?: string } };
-  quantity?: {
-    value: number;
-    unit: string;
-    kind?: "absolute" | "multiplier";
-  };
-  dependsOn?: DependencyRef[];
-  provenance?: StepProvenance;
-  input?: Array<{
-    source:
-      | { type: "in_build"; assemblyId: string }
-      | { type: "external_build"; itemId: string; version?: number | "latest_published"; assemblyId?: string };
-    quantity?: { value: number; unit: string; kind?: "absolute" | "multiplier" };
-    notes?: string;
-    from?: { stationId?: string; sublocation?: { type: string; equipmentId?: string } };
-    to?: { stationId?: string; sublocation?: { type: string; equipmentId?: string } };
-    onAssembly?: string;
-    role?: "base" | "added";
-  }>;
-  output?: Array<{
-    source:
-      | { type: "in_build"; assemblyId: string }
-      | { type: "external_build"; itemId: string; version?: number | "latest_published"; assemblyId?: string };
-    quantity?: { value: number; unit: string; kind?: "absolute" | "multiplier" };
-    notes?: string;
-    from?: { stationId?: string; sublocation?: { type: string; equipmentId?: string } };
-    to?: { stationId?: string; sublocation?: { type: string; equipmentId?: string } };
-    onAssembly?: string;
-    role?: "base" | "added";
-  }>;
+export type BenchTopLineBuild = Omit<GeneratedBenchTopLineBuild, "steps"> & {
+  steps: Step[];
+  /** Derived transfer steps from assembly flow analysis */
+  derivedTransfers?: DerivedTransferStep[];
+  /** Present only when the build was fetched with ?expand=1 */
+  composition?: BuildComposition;
 };
 
-export type BenchTopLineBuild = {
-  id: string;
-  itemId: string;
-  name?: string;
-  version: number;
-  status: "draft" | "published" | "archived";
-  steps: Step[];
-  assemblies?: Array<{
-    id: string;
-    name?: string;
-    type?: string;
-    groupId?: string;
-    subAssemblies?: string[];
-    lineage?: { evolvesFrom?: string };
-  }>;
-  requiresBuilds?: Array<{
+// Cross-build composition (expanded requiresBuilds)
+export type BuildComposition = {
+  components: Array<{
     itemId: string;
+    buildId: string;
+    version: number;
+    status: string;
+    requiredBy: string;
+    depth: number;
+    stepIds: string[];
   }>;
-  /** Derived transfer steps from assembly flow analysis */
-  derivedTransfers?: DerivedTransferStep[];
-  createdAt: string;
-  updatedAt: string;
+  unresolved: Array<{ requiredBy: string; itemId: string; reason: string }>;
+  cycles: Array<{ path: string[] }>;
+  links: Array<{ stepId: string; itemId: string; assemblyId?: string; producerStepIds: string[] }>;
 };
 
 export type StationVisit = {
@@ -262,61 +167,8 @@ export type StationVisit = {
 
 export type TrackTimeline = {
   trackId: string;
+  /** Declared track label (build.tracks[].label), if any */
+  label?: string;
   visits: StationVisit[];
   firstOrderIndex: number;
 };
-
-// Transfer types for derived transfer steps
-export type TransferType = "intra_station" | "inter_station" | "inter_pod";
-
-/**
- * A derived transfer step - generated from assembly flow, not authored.
- * Transfer steps are materialized when an assembly moves between producer/consumer steps.
- */
-export type DerivedTransferStep = {
-  /** Generated ID: transfer-{producerStepId}__{consumerStepId} */
-  id: string;
-
-  /** Action info - always TRANSFER */
-  action: {
-    family: "TRANSFER";
-    techniqueId?: "place" | "retrieve" | "pass" | "handoff";
-  };
-
-  /** Type of transfer determines complexity scoring */
-  transferType: TransferType;
-
-  /** The assembly being moved */
-  assemblyId: string;
-
-  /** Where the component comes from (producer's output location) */
-  from: {
-    stationId?: string;
-    sublocation?: { type: string; equipmentId?: string };
-  };
-
-  /** Where the component goes (consumer's input location) */
-  to: {
-    stationId?: string;
-    sublocation?: { type: string; equipmentId?: string };
-  };
-
-  /** Complexity score from transfer config */
-  complexityScore: number;
-
-  /** Estimated time in seconds from transfer config */
-  estimatedTimeSeconds: number;
-
-  /** Always true for derived transfers */
-  derived: true;
-
-  /** Step that produced this assembly */
-  producerStepId: string;
-
-  /** Step that consumes this assembly */
-  consumerStepId: string;
-
-  /** Optional pod assignment (when HDR config is available) */
-  fromPodId?: string;
-  toPodId?: string;
-};